@@ -16,11 +16,43 @@
  */
 import {CLI, Shim} from 'clime';
 import * as Path from 'path';
+import { ContractError } from './kernel/ContractError';
+import { ContractResult } from './kernel/ContractResult';
+import { PluginLoader } from './kernel/PluginLoader';
 
-// The second parameter is the path to folder that contains command modules.
-const cli = new CLI('symbol-contract', Path.join(__dirname, 'contracts'));
+// The second parameter is the paths to folders that contain command modules,
+// contracts of plugins are listed in separate groups of the help screen.
+const cli = new CLI('symbol-contract', [
+  Path.join(__dirname, 'contracts'),
+  ...new PluginLoader().getRoots(),
+]);
 
 // Clime in its core provides an object-based command-line infrastructure.
 // To have it work as a common CLI, a shim needs to be applied:
 const shim = new Shim(cli);
-shim.execute(process.argv);
+
+// Clime reads `--name value` only, `--name=value` is split
+const commandLine = process.argv.reduce((args: string[], arg: string) => {
+  const match = arg.match(/^(--[A-Za-z][A-Za-z0-9-]*)=(.*)$/)
+  return args.concat(match ? [match[1], match[2]] : [arg])
+}, [])
+
+// With --output json, stdout only carries the result document,
+// contracts write their human output to stderr (see Logger)
+const output = commandLine.indexOf('--output')
+if (output !== -1 && commandLine[output + 1] === ContractResult.FORMAT_JSON) {
+  ContractResult.format = ContractResult.FORMAT_JSON
+
+  // every failure produces a result document, contract
+  // errors display theirs when they are printed
+  const execute = cli.execute.bind(cli)
+  cli.execute = (argv: string[], ...args: any[]) => execute(argv, ...args).catch((e) => {
+    if (! (e instanceof ContractError)) {
+      process.stdout.write(JSON.stringify(ContractError.getDocument(argv[0], e), null, 2) + '\n')
+    }
+
+    throw e
+  })
+}
+
+shim.execute(commandLine);
@@ -16,14 +16,14 @@
  */
 import chalk from 'chalk';
 import { command, metadata, option } from 'clime'
-import * as readlineSync from 'readline-sync';
-import { NIP13, NetworkConfig, TransactionParameters, CommandOption } from 'symbol-token-standards'
-import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Deadline, AccountInfo, Address } from 'symbol-sdk'
+import { NIP13, NetworkConfig, CommandOption } from 'symbol-token-standards'
+import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, AccountInfo, Address } from 'symbol-sdk'
 import { MnemonicPassPhrase } from 'symbol-hd-wallets'
 import { TransactionURI } from 'symbol-uri-scheme'
 
-import { OptionsResolver } from '../kernel/OptionsResolver'
-import { Contract, ContractConstants, ContractInputs } from '../kernel/Contract'
+import { OptionsResolver, YesNoResolver } from '../kernel/OptionsResolver'
+import { Contract, ContractInputs } from '../kernel/Contract'
+import { TokenParameters } from '../kernel/TokenParameters'
 import {description} from './default'
 
 export class AttachSecurityDocumentInputs extends ContractInputs {
@@ -37,6 +37,14 @@ export class AttachSecurityDocumentInputs extends ContractInputs {
     description: 'Force lock of security token',
   })
   yes: boolean;
+  @option({
+    description: 'IPNS file name (Ex.: QmSrPmbaUKA3ZodhzPWZnpFgcPMFWF4QsxXbkWfEptTBJd)',
+  })
+  filenode: string;
+  @option({
+    description: 'File name (Ex.: Copy_of_ID.png)',
+  })
+  filename: string;
 }
 
 @command({
@@ -79,9 +87,20 @@ export default class extends Contract {
    * @return {Promise<any>}
    */
   @metadata
-  async execute(inputs: AttachSecurityDocumentInputs) 
+  async execute(inputs: AttachSecurityDocumentInputs)
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `AttachSecurityDocument` contract, see execute()
+   *
+   * @param {AttachSecurityDocumentInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: AttachSecurityDocumentInputs)
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -94,17 +113,17 @@ export default class extends Contract {
     // -------------------
     // STEP 1: Read Inputs
     // -------------------
-    console.log('')
+    this.log('')
     inputs['filenode'] = OptionsResolver(inputs,
       'filenode',
       () => { return ''; },
       'Enter a IPNS file name (e.g. QmSrPmbaUKA3ZodhzPWZnpFgcPMFWF4QsxXbkWfEptTBJd): ')
 
-    console.log('')
-    inputs['filename'] = parseInt(OptionsResolver(inputs,
+    this.log('')
+    inputs['filename'] = OptionsResolver(inputs,
       'filename',
       () => { return ''; },
-      'Enter a file name (e.g. Copy_of_ID.png): '))
+      'Enter a file name (e.g. Copy_of_ID.png): ')
 
     // --------------------------------
     // STEP 2: Prepare Contract Actions
@@ -113,7 +132,7 @@ export default class extends Contract {
     // always re-use bip39 mnemonic
     let bip39: MnemonicPassPhrase
     if (!inputs['mnemonic']) {
-      console.log('')
+      this.log('')
       bip39 = new MnemonicPassPhrase(OptionsResolver(inputs,
           'mnemonic',
           () => { return ''; },
@@ -126,7 +145,7 @@ export default class extends Contract {
         this.endpointUrl,
         this.networkType,
         this.generationHash,
-        new MosaicId(ContractConstants.LOCK_MOSAIC)
+        this.network.getCurrency()
       ),
       bip39,
     )
@@ -134,16 +153,13 @@ export default class extends Contract {
     // derive TARGET account
     const target = token.getTarget()
 
-    console.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
-    console.log(chalk.red('\t\t    ' + target.privateKey))
+    this.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
+    this.log(chalk.red('\t\t    ' + target.privateKey))
 
     // --------------------------------
     // STEP 3: Execute Contract Actions
     // --------------------------------
-    const params = new TransactionParameters(
-      Deadline.create(),
-      750000, // maxFee
-    )
+    const params = TokenParameters.create()
 
     // transfer shares
     const resultURI: TransactionURI = await token.execute(
@@ -158,13 +174,15 @@ export default class extends Contract {
       ]
     )
 
-    console.log('')
-    console.log(chalk.yellow('Contract URI: ' + resultURI.build()))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow('Contract URI: ' + resultURI.build()))
+    this.log('')
 
     // whether to force execution or ask for next step
     if (!inputs['yes']) {
-      const shouldContinue = readlineSync.keyInYN(
+      // --non-interactive implies --yes
+      const shouldContinue = YesNoResolver(inputs,
+        () => true,
         'Do you want to modify the token level restriction now? ')
 
       if (shouldContinue === false) {
@@ -191,20 +209,20 @@ export default class extends Contract {
     const aggregateTx = transactions.shift()
 
     // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
+    const signedTransaction = await this.getSigner(account, aggregateTx).sign()
 
     // create hash lock (spam protected partial transactions pool)
     const lockFundsTransaction = this.factory.getHashLockTransaction(
       new Mosaic(
-        new MosaicId(ContractConstants.LOCK_MOSAIC),
-        UInt64.fromUint(ContractConstants.LOCK_AMOUNT)
+        this.network.getCurrency(),
+        UInt64.fromUint(this.network.lockAmount)
       ),
-      1000, // 1000 blocks duration
+      this.network.getHashLockDuration(),
       signedTransaction,
     )
 
     // sign hash lock transaction
-    const signedLockFundsTx = this.getSigner(account, lockFundsTransaction).sign()
+    const signedLockFundsTx = await this.getSigner(account, lockFundsTransaction).sign()
 
     // announce the aggregate transaction
     return await this.broadcaster.announcePartial(account.publicAccount, signedLockFundsTx, signedTransaction)
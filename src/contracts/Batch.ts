@@ -0,0 +1,209 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {Command, ExpectedError, command, metadata, option, param} from 'clime';
+import * as fs from 'fs';
+
+import {ContractConstants, ContractInputs} from '../kernel/Contract';
+import {ContractResult} from '../kernel/ContractResult';
+import {Logger} from '../kernel/Logger';
+import {BatchRunner, BatchRow, BatchReport} from '../kernel/BatchRunner';
+import {ContractProcess} from '../kernel/ContractProcess';
+import {ProfileStore} from '../kernel/ProfileStore';
+import {description} from './default'
+
+export class BatchInputs extends ContractInputs {
+  @option({
+    flag: 'j',
+    description: 'Number of rows executed at the same time (defaults to 1)',
+  })
+  concurrency: number;
+  @option({
+    description: 'Write the batch report (JSON) to this file',
+  })
+  report: string;
+  @option({
+    toggle: true,
+    description: 'Execute all rows again, including rows that succeeded in a previous run',
+  })
+  restart: boolean;
+}
+
+/**
+ * The options of the batch that are not passed to the contract
+ *
+ * @var {string[]}
+ */
+const BATCH_OPTIONS: string[] = ['concurrency', 'report', 'restart', 'output', 'outputFile', 'nonInteractive']
+
+@command({
+  description: 'Execute a contract once per row of a CSV or JSON lines file',
+})
+export default class extends Command {
+  /**
+   * Where human output is written, the standard
+   * error with `--output json`
+   * @var {Logger}
+   */
+  protected logger: Logger = new Logger()
+
+  /**
+   * Execution routine for the `Batch` command.
+   *
+   * @description This command executes a contract once per row of
+   * a file, the columns name the options of the contract. Options
+   * given to the batch (Ex.: --profile) are passed to every row.
+   * Rows that succeeded are recorded and skipped when the batch is
+   * executed again, e.g. after an interruption.
+   *
+   * @param {string}      contract
+   * @param {string}      file
+   * @param {BatchInputs} inputs
+   * @return {Promise<any>}
+   */
+  @metadata
+  async execute(
+    @param({
+      description: 'Contract executed for every row (Ex.: RequestAsset)',
+      required: true,
+    })
+    contract: string,
+    @param({
+      description: 'Rows file, CSV with a header line (.csv) or JSON lines',
+      required: true,
+    })
+    file: string,
+    inputs: BatchInputs,
+  ) {
+    this.logger = Logger.create(inputs['output'])
+    this.logger.log(description)
+
+    if (contract === 'Batch') {
+      throw new ExpectedError('A batch cannot execute the Batch command.')
+    }
+
+    const concurrency = undefined !== inputs['concurrency'] ? inputs['concurrency'] : 1
+    if (isNaN(concurrency) || concurrency < 1 || Math.floor(concurrency) !== concurrency) {
+      throw new ExpectedError('The concurrency must be a positive integer.')
+    }
+
+    // options of the batch are passed to every row
+    const options = Object.keys(inputs)
+      .filter((key) => ! BATCH_OPTIONS.includes(key))
+      .reduce((row, key) => Object.assign(row, { [key]: inputs[key] }), {})
+
+    // the keystore password is read once for all rows,
+    // secret options are passed as environment variables
+    const env = Object.assign(ContractProcess.getEnvironment(inputs), ContractProcess.getSecrets(options))
+    const runner = new BatchRunner(
+      contract,
+      file,
+      ContractProcess.getArguments(options),
+      concurrency,
+      env,
+      this.getEndpointUrl(inputs),
+    )
+    const total = BatchRunner.readRows(file).length
+
+    this.logger.log('')
+    this.logger.log(chalk.yellow('Executing \'' + contract + '\' for ' + total + ' rows of ' + file + ' (concurrency: ' + concurrency + ')'))
+
+    const report = await runner.run(inputs['restart'] === true, (row: BatchRow) => {
+      const line = '\tRow ' + row.row + '/' + total + ': ' + row.status + (row.hash ? ' ' + row.hash : '')
+      if (row.status === ContractResult.FAILED) {
+        this.logger.log(chalk.red(line + ': ' + row.error))
+      }
+      else if (row.status === BatchRunner.SKIPPED) {
+        this.logger.log(chalk.yellow(line + ' (succeeded in a previous run)'))
+      }
+      else if (row.status === BatchRunner.ANNOUNCED) {
+        this.logger.log(chalk.yellow(line + ': ' + row.error))
+      }
+      else {
+        this.logger.log(chalk.green(line))
+      }
+    })
+
+    if (inputs['report']) {
+      fs.writeFileSync(inputs['report'], JSON.stringify(report, null, 2) + '\n')
+    }
+
+    this.printSummary(report, inputs)
+
+    const failed = report.summary[ContractResult.FAILED] || 0
+    if (failed > 0) {
+      throw new ExpectedError(failed + ' of ' + total + ' rows failed, execute the batch again to retry them.')
+    }
+  }
+
+  /**
+   * Get the node that reports the status of transactions announced
+   * in a previous run: --api-url, --nodes or the node of the profile
+   *
+   * @param {BatchInputs} inputs
+   * @return {string}
+   */
+  protected getEndpointUrl(
+    inputs: BatchInputs,
+  ): string {
+    if (inputs['offline'] === true) {
+      return undefined
+    }
+    else if (inputs['apiUrl'] && inputs['apiUrl'].length) {
+      return inputs['apiUrl']
+    }
+    else if (inputs['nodes'] && inputs['nodes'].length) {
+      return inputs['nodes'].split(',')[0].trim()
+    }
+    else if (inputs['profile'] && inputs['profile'].length) {
+      const profile = new ProfileStore().load(inputs['profile'])
+      return profile.url || profile.nodes[0] || ContractConstants.DEFAULT_NODE_URL
+    }
+
+    return ContractConstants.DEFAULT_NODE_URL
+  }
+
+  /**
+   * Display the summary of a batch, or the full
+   * report with --output json
+   *
+   * @param {BatchReport} report
+   * @param {BatchInputs} inputs
+   * @return {void}
+   */
+  protected printSummary(
+    report: BatchReport,
+    inputs: BatchInputs,
+  ): void {
+    if (inputs['output'] === ContractResult.FORMAT_JSON) {
+      process.stdout.write(JSON.stringify(report, null, 2) + '\n')
+      return ;
+    }
+
+    this.logger.log('')
+    this.logger.log(chalk.yellow('Summary:'))
+    Object.keys(report.summary).forEach((status) => {
+      this.logger.log('\t' + (status + ':').padEnd(12) + report.summary[status])
+    })
+
+    if (inputs['report']) {
+      this.logger.log('')
+      this.logger.log(chalk.green('Batch report written to: ' + inputs['report']))
+    }
+    this.logger.log('')
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {command, metadata, option} from 'clime';
+import chalk from 'chalk';
+import {
+    Account,
+    Transaction,
+    PublicAccount,
+} from 'symbol-sdk';
+
+import {OptionsResolver} from '../kernel/OptionsResolver';
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {TransactionBundle} from '../kernel/TransactionBundle';
+import {description} from './default'
+
+export class BroadcastInputs extends ContractInputs {
+  @option({
+    flag: 'f',
+    description: 'Signed transaction bundle (Ex.: "signed.json")',
+  })
+  file: string;
+}
+
+@command({
+  description: 'Announce a bundle of signed transactions',
+})
+export default class extends Contract {
+
+  constructor() {
+      super();
+  }
+
+  /**
+   * Get the name of the contract
+   *
+   * @return {string}
+   */
+  public getName(): string {
+    return 'Broadcast'
+  }
+
+  /**
+   * Returns whether the contract requires authentication
+   *
+   * @return {boolean}
+   */
+  public requiresAuth(): boolean {
+    return false
+  }
+
+  /**
+   * Returns whether the contract can be executed offline
+   *
+   * @return {boolean}
+   */
+  public supportsOffline(): boolean {
+    return false
+  }
+
+  /**
+   * Execution routine for the `Broadcast` command.
+   *
+   * @description This command announces the signed transactions
+   * of a bundle that was produced with `--offline`. Bonded bundles
+   * contain a hash lock and an aggregate bonded transaction, the
+   * aggregate is announced only after the hash lock is confirmed.
+   *
+   * @param {BroadcastInputs} inputs
+   * @return {Promise<any>}
+   */
+  @metadata
+  async execute(inputs: BroadcastInputs)
+  {
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `Broadcast` contract, see execute()
+   *
+   * @param {BroadcastInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: BroadcastInputs)
+  {
+    this.log(description)
+
+    let argv: ContractInputs
+    try {
+      argv = await this.configure(inputs)
+    }
+    catch (e) {
+      this.error(e)
+    }
+
+    // -------------------
+    // STEP 1: Read Inputs
+    // -------------------
+
+    let bundle: TransactionBundle
+    try {
+      inputs['file'] = OptionsResolver(inputs,
+        'file',
+        () => { return ''; },
+        'Enter the path of a signed transaction bundle: ');
+
+      bundle = TransactionBundle.load(inputs['file'])
+    } catch (err) { this.error('Please, enter a valid transaction bundle.', err); }
+
+    // ---------------------------------
+    // STEP 2: Validate Contract Actions
+    // ---------------------------------
+
+    this.validateBundle(bundle)
+
+    if (! bundle.transaction && ! bundle.cosignatures.length) {
+      this.error('The transaction bundle does not contain signed transactions.')
+    }
+
+    this.log('')
+    this.log(chalk.yellow('Announcing \'' + bundle.contract + '\' transactions from ' + inputs['file']))
+
+    // --------------------------------
+    // STEP 3: Execute Contract Actions
+    // --------------------------------
+
+    const signer = PublicAccount.createFromPublicKey(bundle.signerPublicKey, this.networkType)
+
+    // bonded contracts wait for the hash lock before the aggregate
+    if (bundle.isBonded()) {
+      return await this.broadcaster.announcePartial(signer, bundle.hashLock, bundle.transaction)
+    }
+    else if (bundle.transaction) {
+      return await this.broadcaster.announce(signer, bundle.transaction)
+    }
+
+    return await this.broadcaster.announceCosignature(signer, bundle.cosignatures.shift())
+  }
+
+  /**
+   * Execute a smart contract's transactions
+   *
+   * @param {Account}       account 
+   * @param {Transaction[]} transactions
+   * @return {Promise<any>}
+   */
+  protected async executeContract(
+    account: Account,
+    transactions: Transaction[]
+  ): Promise<any> {
+    return true
+  }
+}
@@ -15,16 +15,10 @@
  * limitations under the License.
  */
 import {command, metadata, option} from 'clime';
-import {
-    UInt64,
-    Account,
-    Deadline,
-    Transaction,
-    AggregateTransaction,
-} from 'symbol-sdk';
 
 import {OptionsResolver} from '../kernel/OptionsResolver';
-import {Contract, ContractConstants, ContractInputs} from '../kernel/Contract';
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {createAsset, CreateAssetResult} from '../library/CreateAsset';
 import {description} from './default'
 
 export class CreateAssetInputs extends ContractInputs {
@@ -87,12 +81,23 @@ export default class extends Contract {
    * transaction.
    *
    * @param {CreateAssetInputs} inputs
-   * @return {Promise<any>}
+   * @return {Promise<CreateAssetResult>}
    */
   @metadata
-  async execute(inputs: CreateAssetInputs) 
+  async execute(inputs: CreateAssetInputs): Promise<CreateAssetResult>
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `CreateAsset` contract, see execute()
+   *
+   * @param {CreateAssetInputs} inputs
+   * @return {Promise<CreateAssetResult>}
+   */
+  protected async run(inputs: CreateAssetInputs): Promise<CreateAssetResult>
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -111,113 +116,42 @@ export default class extends Contract {
         'name',
         () => { return ''; },
         '\nEnter a friendly name for the asset: ');
-    } catch (err) { this.error('Please, enter a valid asset name.'); }
+    } catch (err) { this.error('Please, enter a valid asset name.', err); }
 
     try {
-      console.log('')
+      this.log('')
       inputs['divisibility'] = OptionsResolver(inputs,
         'divisibility',
         () => { return ''; },
         'Enter a number of decimal places: ');
-
-      // force-validate value
-      inputs['divisibility'] = inputs['divisibility'] < 0 ? 0 
-                              : inputs['divisibility'] > 6 ? 6 
-                              : inputs['divisibility']
-    } catch (err) { this.error('Please, enter a valid divisibility (0-6).'); }
+    } catch (err) { this.error('Please, enter a valid divisibility (0-6).', err); }
 
     try {
-      console.log('')
+      this.log('')
       inputs['supply'] = OptionsResolver(inputs,
         'supply',
         () => { return ''; },
         'Enter an initial supply: ');
-    } catch (err) { this.error('Please, enter a valid supply.'); }
+    } catch (err) { this.error('Please, enter a valid supply.', err); }
 
     try {
-      console.log('')
+      this.log('')
       inputs['flags'] = OptionsResolver(inputs,
         'flags',
         () => { return ''; },
         'Enter flagged properties (Ex.: Transferable|SupplyMutable): ');
-    } catch (err) { this.error('Please, enter valid flags.'); }
+    } catch (err) { this.error('Please, enter valid flags.', err); }
 
     // --------------------------------
-    // STEP 2: Prepare Contract Actions
+    // STEP 2: Execute Contract Actions
     // --------------------------------
 
-    const account = argv['account']
-
-    // Contract Action #1: register namespace(s)
-    const namespaceTxes = await this.factory.getNamespaceRegistrations(
-      account.publicAccount,
-      inputs['name'],
-      ContractConstants.BLOCKS_IN_ONE_YEAR
-    );
-
-    // Contract Action #2: create MosaicDefinition transaction
-    const mosaicDefinitionTx = this.factory.getMosaicDefinitionTransaction(
-      account.publicAccount,
-      inputs['divisibility'],
-      inputs['flags'].toLowerCase().indexOf('supplymutable') !== -1,
-      inputs['flags'].toLowerCase().indexOf('transferable') !== -1,
-      inputs['flags'].toLowerCase().indexOf('restrictable') !== -1,
-    );
-
-    // Contract Action #3: create MosaicSupplyChange transaction
-    const mosaicSupplyTx = this.factory.getMosaicSupplyChangeTransaction(
-      mosaicDefinitionTx.mosaicId,
-      UInt64.fromUint(parseInt(inputs['supply']))
-    );
-
-    // Contract Action #4: create MosaicAlias transaction to link lower level namespace to mosaic
-    const aliasTx = this.factory.getMosaicAliasTransaction(
-        inputs['name'],
-        mosaicDefinitionTx.mosaicId
-    );
-
-    // --------------------------------
-    // STEP 3: Execute Contract Actions
-    // --------------------------------
-
-    // Contract Execution: merge transactions and execute contract
-    const allTxes = [].concat(
-      namespaceTxes,
-      [
-        mosaicDefinitionTx.toAggregate(account.publicAccount),
-        mosaicSupplyTx.toAggregate(account.publicAccount),
-        aliasTx.toAggregate(account.publicAccount)
-      ]
-    );
-
-    // wrap all transactions in an aggregate, sign and broadcast
-    return await this.executeContract(account, allTxes)
-  }
-
-  /**
-   * Execute a smart contract's transactions
-   *
-   * @param {Account}       account 
-   * @param {Transaction[]} transactions
-   * @return {Promise<any>}
-   */
-  protected async executeContract(
-    account: Account,
-    transactions: Transaction[]
-  ): Promise<any> {
-    // wrap contract transactions
-    const aggregateTx = AggregateTransaction.createComplete(
-      Deadline.create(),
-      transactions,
-      this.networkType,
-      [],
-      UInt64.fromUint(ContractConstants.DEFAULT_AGGREGATE_FEE)
-    );
-
-    // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
-
-    // announce the aggregate transaction
-    return await this.broadcaster.announce(account.publicAccount, signedTransaction)
+    // sign and broadcast with the library API
+    return await createAsset({
+      name: inputs['name'],
+      divisibility: inputs['divisibility'],
+      supply: inputs['supply'],
+      flags: inputs['flags'],
+    }, this)
   }
 }
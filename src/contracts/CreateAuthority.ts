@@ -16,7 +16,6 @@
  */
 import chalk from 'chalk';
 import { command, metadata, option } from 'clime'
-import * as readlineSync from 'readline-sync';
 import { NIP13, NetworkConfig, TransactionParameters } from 'symbol-token-standards'
 import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Deadline, Address } from 'symbol-sdk'
 import { MnemonicPassPhrase, ExtendedKey, Wallet, Network } from 'symbol-hd-wallets'
@@ -74,9 +73,20 @@ export default class extends Contract {
    * @return {Promise<any>}
    */
   @metadata
-  async execute(inputs: CreateAuthorityInputs) 
+  async execute(inputs: CreateAuthorityInputs)
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `CreateAuthority` contract, see execute()
+   *
+   * @param {CreateAuthorityInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: CreateAuthorityInputs)
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -94,7 +104,7 @@ export default class extends Contract {
       this.endpointUrl,
       this.networkType,
       this.generationHash,
-      new MosaicId(ContractConstants.LOCK_MOSAIC)
+      this.network.getCurrency()
     )
 
     // authority account is used to list verified tokens
@@ -112,8 +122,8 @@ export default class extends Contract {
     )
 
     authority = auth.getAuthority().publicAccount
-    console.log(chalk.green('NIP13 Authority: ' + auth.getAuthority().address.plain()))
-    console.log(chalk.red('\t\t    ' + auth.getAuthority().privateKey))
+    this.log(chalk.green('NIP13 Authority: ' + auth.getAuthority().address.plain()))
+    this.log(chalk.red('\t\t    ' + auth.getAuthority().privateKey))
 
     // --------------------------------
     // STEP 2: Prepare Contract Actions
@@ -142,13 +152,13 @@ export default class extends Contract {
     bip39: MnemonicPassPhrase,
   ) {
     const words = bip39.plain.split(' ')
-    console.log('')
-    console.log(chalk.yellow(label + ': '))
-    console.log(chalk.yellow('\t') + '-'.repeat(55))
-    console.log(chalk.red('\t' + words.slice(0, 8).join(' ')))
-    console.log(chalk.red('\t' + words.slice(8, 16).join(' ')))
-    console.log(chalk.red('\t' + words.slice(16, 24).join(' ')))
-    console.log(chalk.yellow('\t') + '-'.repeat(55))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow(label + ': '))
+    this.log(chalk.yellow('\t') + '-'.repeat(55))
+    this.log(chalk.red('\t' + words.slice(0, 8).join(' ')))
+    this.log(chalk.red('\t' + words.slice(8, 16).join(' ')))
+    this.log(chalk.red('\t' + words.slice(16, 24).join(' ')))
+    this.log(chalk.yellow('\t') + '-'.repeat(55))
+    this.log('')
   }
 }
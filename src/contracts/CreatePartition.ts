@@ -16,14 +16,15 @@
  */
 import chalk from 'chalk';
 import { command, metadata, option } from 'clime'
-import * as readlineSync from 'readline-sync';
-import { NIP13, NetworkConfig, TransactionParameters } from 'symbol-token-standards'
-import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Deadline, AccountInfo, Address } from 'symbol-sdk'
+import { NIP13, NetworkConfig } from 'symbol-token-standards'
+import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64 } from 'symbol-sdk'
 import { MnemonicPassPhrase } from 'symbol-hd-wallets'
 import { TransactionURI } from 'symbol-uri-scheme'
 
-import { OptionsResolver } from '../kernel/OptionsResolver'
-import { Contract, ContractConstants, ContractInputs } from '../kernel/Contract'
+import { OptionsResolver, YesNoResolver } from '../kernel/OptionsResolver'
+import { Contract, ContractInputs } from '../kernel/Contract'
+import { ContractResult } from '../kernel/ContractResult'
+import { TokenParameters } from '../kernel/TokenParameters'
 import {description} from './default'
 
 export class CreatePartitionInputs extends ContractInputs {
@@ -94,9 +95,20 @@ export default class extends Contract {
    * @return {Promise<any>}
    */
   @metadata
-  async execute(inputs: CreatePartitionInputs) 
+  async execute(inputs: CreatePartitionInputs)
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `CreatePartition` contract, see execute()
+   *
+   * @param {CreatePartitionInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: CreatePartitionInputs)
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -110,20 +122,20 @@ export default class extends Contract {
     // STEP 1: Read Inputs
     // -------------------
     try {
-      console.log('')
+      this.log('')
       inputs['recipient'] = OptionsResolver(inputs,
         'recipient',
         () => { return ''; },
-        'Enter the token holder address: ')
-    } catch (err) { this.error('Invalid address.') }
+        'Enter the token holder address or public key: ')
+    } catch (err) { this.error('Invalid address.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['name'] = OptionsResolver(inputs,
         'name',
         () => { return ''; },
         'Enter the partition label: ')
-    } catch (err) { this.error('Invalid partition label.') }
+    } catch (err) { this.error('Invalid partition label.', err) }
 
     // --------------------------------
     // STEP 2: Prepare Contract Actions
@@ -132,7 +144,7 @@ export default class extends Contract {
     // always re-use bip39 mnemonic
     let bip39: MnemonicPassPhrase
     if (!inputs['mnemonic']) {
-      console.log('')
+      this.log('')
       bip39 = new MnemonicPassPhrase(OptionsResolver(inputs,
           'mnemonic',
           () => { return ''; },
@@ -145,7 +157,7 @@ export default class extends Contract {
         this.endpointUrl,
         this.networkType,
         this.generationHash,
-        new MosaicId(ContractConstants.LOCK_MOSAIC)
+        this.network.getCurrency()
       ),
       bip39,
     )
@@ -154,50 +166,45 @@ export default class extends Contract {
     const target = token.getTarget()
 
     // fetch recipient information
-    let recipient: AccountInfo
-    recipient = await this.factoryHttp
-      .createAccountRepository()
-      .getAccountInfo(Address.createFromRawAddress(inputs['recipient']))
-      .toPromise()
+    const recipient = await this.factory.getPublicAccount(inputs['recipient'])
 
-    console.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
-    console.log(chalk.red('\t\t    ' + target.privateKey))
+    this.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
+    this.log(chalk.red('\t\t    ' + target.privateKey))
 
     // --------------------------------
     // STEP 3: Execute Contract Actions
     // --------------------------------
-    const params = new TransactionParameters(
-      Deadline.create(),
-      750000, // maxFee
-    )
+    const params = TokenParameters.create()
 
     // derive partition account and operator
-    const bip39Path = token.getPathForPartition(recipient.publicAccount, inputs['name'])
-    const partition = token.getPartition(recipient.publicAccount, inputs['name'])
+    const bip39Path = token.getPathForPartition(recipient, inputs['name'])
+    const partition = token.getPartition(recipient, inputs['name'])
 
-    console.log(chalk.green('NIP13 Token Partition: ' + partition.address.plain()))
-    console.log(chalk.green('Token Partition Path:  ' + bip39Path))
-    console.log(chalk.red('\t\t    ' + partition.privateKey))
+    this.log(chalk.green('NIP13 Token Partition: ' + partition.address.plain()))
+    this.log(chalk.green('Token Partition Path:  ' + bip39Path))
+    this.log(chalk.red('\t\t    ' + partition.privateKey))
 
     // transfer shares
     const operator  = token.getOperator(1)
     const result = await token.addPartition(
       operator.publicAccount, // actor
       partition.publicAccount, // partition
-      recipient.publicAccount, // holder
+      recipient, // holder
       inputs['name'], // partition name
       params,
     )
 
     const resultURI: TransactionURI = result
 
-    console.log('')
-    console.log(chalk.yellow('Smart Contract URI: ' + resultURI.build()))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow('Smart Contract URI: ' + resultURI.build()))
+    this.log('')
 
     // whether to force execution or ask for next step
     if (!inputs['yes']) {
-      const shouldContinue = readlineSync.keyInYN(
+      // --non-interactive implies --yes
+      const shouldContinue = YesNoResolver(inputs,
+        () => true,
         'Do you want to transfer the security token now? ')
 
       if (shouldContinue === false) {
@@ -206,7 +213,16 @@ export default class extends Contract {
     }
 
     // wrap all transactions in an aggregate, sign and broadcast
-    return await this.executeContract(operator, [resultURI.toTransaction()])
+    const contractResult: ContractResult = await this.executeContract(operator, [resultURI.toTransaction()])
+
+    // contract-specific fields of the result document
+    return Object.assign(contractResult, {
+      target: target.publicAccount,
+      holder: recipient,
+      partition: partition.publicAccount,
+      partitionPath: bip39Path,
+      uri: resultURI,
+    })
   }
 
   /**
@@ -224,20 +240,20 @@ export default class extends Contract {
     const aggregateTx = transactions.shift()
 
     // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
+    const signedTransaction = await this.getSigner(account, aggregateTx).sign()
 
     // create hash lock (spam protected partial transactions pool)
     const lockFundsTransaction = this.factory.getHashLockTransaction(
       new Mosaic(
-        new MosaicId(ContractConstants.LOCK_MOSAIC),
-        UInt64.fromUint(ContractConstants.LOCK_AMOUNT)
+        this.network.getCurrency(),
+        UInt64.fromUint(this.network.lockAmount)
       ),
-      1000, // 1000 blocks duration
+      this.network.getHashLockDuration(),
       signedTransaction,
     )
 
     // sign hash lock transaction
-    const signedLockFundsTx = this.getSigner(account, lockFundsTransaction).sign()
+    const signedLockFundsTx = await this.getSigner(account, lockFundsTransaction).sign()
 
     // announce the aggregate transaction
     return await this.broadcaster.announcePartial(account.publicAccount, signedLockFundsTx, signedTransaction)
@@ -17,13 +17,15 @@
 import chalk from 'chalk';
 import { command, metadata, option } from 'clime'
 import * as readlineSync from 'readline-sync';
-import { NIP13, NetworkConfig, TransactionParameters } from 'symbol-token-standards'
-import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Deadline, Address } from 'symbol-sdk'
+import { NIP13, NetworkConfig } from 'symbol-token-standards'
+import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64 } from 'symbol-sdk'
 import { MnemonicPassPhrase } from 'symbol-hd-wallets'
 import { TransactionURI } from 'symbol-uri-scheme'
 
-import { OptionsResolver } from '../kernel/OptionsResolver'
-import { Contract, ContractConstants, ContractInputs } from '../kernel/Contract'
+import { OptionsResolver, OptionalResolver, YesNoResolver } from '../kernel/OptionsResolver'
+import { Contract, ContractInputs } from '../kernel/Contract'
+import { TokenParameters } from '../kernel/TokenParameters'
+import { ContractResult } from '../kernel/ContractResult'
 import {description} from './default'
 
 export class CreateSecurityInputs extends ContractInputs {
@@ -52,6 +54,34 @@ export class CreateSecurityInputs extends ContractInputs {
     description: 'Force creation of security token',
   })
   yes: boolean;
+  @option({
+    description: 'Market Identifier Code (Ex.: XNAS)',
+  })
+  mic: string;
+  @option({
+    description: 'ISIN (Ex.: US0378331005)',
+  })
+  isin: string;
+  @option({
+    description: 'Classification (Ex.: ESNTPB)',
+  })
+  classification: string;
+  @option({
+    description: 'Website (Ex.: https://evias.be)',
+  })
+  website: string;
+  @option({
+    description: 'Sector (Ex.: Technology)',
+  })
+  sector: string;
+  @option({
+    description: 'Industry (Ex.: Computer Manufacturing)',
+  })
+  industry: string;
+  @option({
+    description: 'Custom metadata fields (Ex.: SKU=000EVS123,Color=Red)',
+  })
+  customMetadata: string;
 }
 
 @command({
@@ -94,9 +124,20 @@ export default class extends Contract {
    * @return {Promise<any>}
    */
   @metadata
-  async execute(inputs: CreateSecurityInputs) 
+  async execute(inputs: CreateSecurityInputs)
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `CreateSecurity` contract, see execute()
+   *
+   * @param {CreateSecurityInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: CreateSecurityInputs)
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -110,15 +151,15 @@ export default class extends Contract {
     // STEP 1: Read Inputs
     // -------------------
     try {
-      console.log('')
+      this.log('')
       inputs['name'] = OptionsResolver(inputs,
         'name',
         () => { return ''; },
         'Enter a friendly name for the financial instrument: ')
-    } catch (err) { this.error('Invalid name.') }
+    } catch (err) { this.error('Invalid name.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['supply'] = parseInt(OptionsResolver(inputs,
         'supply',
         () => { return ''; },
@@ -128,78 +169,89 @@ export default class extends Contract {
       if (inputs['supply'] <= 0) {
         inputs['supply'] = 1
       }
-    } catch (err) { this.error('Invalid supply.') }
+    } catch (err) { this.error('Invalid supply.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['operators'] = parseInt(OptionsResolver(inputs,
         'operators',
         () => { return ''; },
         'How many operators do you want to configure? '))
-    } catch (err) { this.error('Invalid count.') }
+    } catch (err) { this.error('Invalid count.', err) }
 
     // prepare security metadata
     const metadata = new NIP13.TokenMetadata('', '', '', '', '', '', {})
 
-    console.log('')
-    metadata.mic = OptionsResolver(inputs,
+    this.log('')
+    metadata.mic = OptionalResolver(inputs,
       'mic',
-      () => { return ''; },
+      '',
       'Enter a Market Identifier Code (e.g. XNAS): ')
 
-    console.log('')
-    metadata.isin = OptionsResolver(inputs,
+    this.log('')
+    metadata.isin = OptionalResolver(inputs,
       'isin',
-      () => { return ''; },
+      '',
       'Enter an ISIN (e.g. US0378331005): ')
 
-    console.log('')
-    metadata.classification = OptionsResolver(inputs,
+    this.log('')
+    metadata.classification = OptionalResolver(inputs,
       'classification',
-      () => { return ''; },
+      '',
       'Enter a classification (e.g. ESNTPB): ')
 
-    console.log('')
-    metadata.website = OptionsResolver(inputs,
+    this.log('')
+    metadata.website = OptionalResolver(inputs,
       'website',
-      () => { return ''; },
+      '',
       'Enter a website (e.g. https://evias.be): ')
 
-    console.log('')
-    metadata.sector = OptionsResolver(inputs,
+    this.log('')
+    metadata.sector = OptionalResolver(inputs,
       'sector',
-      () => { return ''; },
+      '',
       'Enter a sector (e.g. Technology): ')
 
-    console.log('')
-    metadata.industry = OptionsResolver(inputs,
+    this.log('')
+    metadata.industry = OptionalResolver(inputs,
       'industry',
-      () => { return ''; },
+      '',
       'Enter a industry (e.g. Computer Manufacturing): ')
 
-    console.log('')
-    const useCustomMetadata = readlineSync.keyInYN(
-      'Do you want to enter custom metadata fields? ')
-    if (useCustomMetadata === true) {
-      let continueCustomMetadata: boolean = false
-      do {
-        const key = OptionsResolver(inputs,
-          'customMetadata',
-          () => { return ''; },
-          'Enter a metadata key (e.g. SKU): ')
-
-        const val = OptionsResolver(inputs,
-          'customMetadata',
-          () => { return ''; },
-          'Enter a metadata value (e.g. 000EVS123): ')
-
-        metadata.customMetadata[key] = val
+    // custom metadata can be provided with --custom-metadata
+    if (inputs['customMetadata'] && inputs['customMetadata'].length) {
+      inputs['customMetadata'].split(',').forEach((field: string) => {
+        const parts = field.split('=')
+        if (parts.length !== 2) {
+          this.error('Expected key=value pairs in --custom-metadata, Ex.: SKU=000EVS123')
+        }
 
-        console.log('')
-        continueCustomMetadata = readlineSync.keyInYN(
-          'Do you want to enter another custom metadata field? ')
+        metadata.customMetadata[parts[0].trim()] = parts[1].trim()
+      })
+    }
+    else {
+      this.log('')
+      const useCustomMetadata = YesNoResolver(inputs,
+        () => false,
+        'Do you want to enter custom metadata fields? ')
+      if (useCustomMetadata === true) {
+        let continueCustomMetadata: boolean = false
+        do {
+          const key = readlineSync.question(
+            'Enter a metadata key (e.g. SKU): ')
+
+          const val = readlineSync.question(
+            'Enter a metadata value (e.g. 000EVS123): ')
+
+          metadata.customMetadata[key] = val
+
+          this.log('')
+          continueCustomMetadata = YesNoResolver(inputs,
+            () => false,
+            'Do you want to enter another custom metadata field? ')
+        }
+        while (continueCustomMetadata === true)
       }
-      while (continueCustomMetadata === true)
     }
 
     // --------------------------------
@@ -210,14 +262,15 @@ export default class extends Contract {
       this.endpointUrl,
       this.networkType,
       this.generationHash,
-      new MosaicId(ContractConstants.LOCK_MOSAIC)
+      this.network.getCurrency()
     )
 
     // authority account is used to list verified tokens
     let authority: PublicAccount
 
-    console.log('')
-    const useAuthorityMnemonic = readlineSync.keyInYN(
+    this.log('')
+    const useAuthorityMnemonic = YesNoResolver(inputs,
+      () => !!inputs['authority'] && inputs['authority'].trim().split(' ').length > 1,
       'Do you want to enter a mnemonic pass phrase for the authority account? ')
     if (useAuthorityMnemonic === true) {
       inputs['authority'] = OptionsResolver(inputs,
@@ -237,10 +290,10 @@ export default class extends Contract {
       )
 
       authority = auth.getAuthority().publicAccount
-      console.log(chalk.green('NIP13 Authority: ' + auth.getAuthority().address.plain()))
+      this.log(chalk.green('NIP13 Authority: ' + auth.getAuthority().address.plain()))
 
       if (inputs['debug'] === true) {
-        console.log(chalk.red('\t\t    ' + auth.getAuthority().privateKey))
+        this.log(chalk.red('\t\t    ' + auth.getAuthority().privateKey))
       }
     }
     else {
@@ -250,31 +303,23 @@ export default class extends Contract {
           () => { return ''; },
           'Enter an authority address or public key: ')
 
-        if ([40, 46].includes(inputs['authority'].length)) {
-          const accountInfo = await this.factoryHttp.createAccountRepository().getAccountInfo(
-            Address.createFromRawAddress(inputs['authority']),
-          ).toPromise()
-
-          authority = accountInfo.publicAccount
-        }
-        else if (inputs['authority'].length == 64) {
-          authority = PublicAccount.createFromPublicKey(
-            inputs['authority'],
-            this.networkType,
-          )
+        // addresses are resolved on the network, public keys also work offline
+        if ([40, 46, 64].includes(inputs['authority'].length)) {
+          authority = await this.factory.getPublicAccount(inputs['authority'])
         }
         else throw new Error('Invalid authority.')
       }
-      catch (err) { this.error('Invalid authority.') }
+      catch (err) { this.error('Invalid authority.', err) }
     }
 
     // Creating security tokens always uses random bip39 pass phrase
     let bip39: MnemonicPassPhrase
-    console.log('')
-    const useCustomMnemonic = readlineSync.keyInYN(
+    this.log('')
+    const useCustomMnemonic = YesNoResolver(inputs,
+      () => !!inputs['mnemonic'],
       'Do you want to enter a mnemonic pass phrase for the target account? ')
     if (useCustomMnemonic === true) {
-      console.log('')
+      this.log('')
       bip39 = new MnemonicPassPhrase(OptionsResolver(inputs,
           'mnemonic',
           () => { return ''; },
@@ -293,8 +338,8 @@ export default class extends Contract {
     // derive TARGET account
     const target = token.getTarget()
 
-    console.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
-    console.log(chalk.red('\t\t    ' + target.privateKey))
+    this.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
+    this.log(chalk.red('\t\t    ' + target.privateKey))
 
     // derive OPERATORS account(s)
     const operators: PublicAccount[] = [] 
@@ -302,21 +347,18 @@ export default class extends Contract {
       const operator: Account = token.getOperator(i+1)
 
       if (inputs['debug'] === true) {
-        console.log(chalk.yellow('Operator (' + (i+1) + '): ' + operator.address.plain()))
-        console.log(chalk.red('\t      ' + operator.privateKey))
+        this.log(chalk.yellow('Operator (' + (i+1) + '): ' + operator.address.plain()))
+        this.log(chalk.red('\t      ' + operator.privateKey))
       }
 
       operators.push(operator.publicAccount)
     }
-    console.log('')
+    this.log('')
 
     // --------------------------------
     // STEP 3: Execute Contract Actions
     // --------------------------------
-    const params = new TransactionParameters(
-      Deadline.create(),
-      750000, // maxFee
-    )
+    const params = TokenParameters.create()
 
     const tokenId = token.create(
       inputs['name'], // security token name
@@ -330,13 +372,15 @@ export default class extends Contract {
 
     const resultURI: TransactionURI = token.result
 
-    console.log('')
-    console.log(chalk.yellow('Contract URI: ' + resultURI.build()))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow('Contract URI: ' + resultURI.build()))
+    this.log('')
 
     // whether to force execution or ask for next step
     if (!inputs['yes']) {
-      const shouldContinue = readlineSync.keyInYN(
+      // --non-interactive implies --yes
+      const shouldContinue = YesNoResolver(inputs,
+        () => true,
         'Do you want to create the security token now? ')
 
       if (shouldContinue === false) {
@@ -345,7 +389,16 @@ export default class extends Contract {
     }
 
     // wrap all transactions in an aggregate, sign and broadcast
-    return await this.executeContract(target, [resultURI.toTransaction()])
+    const result: ContractResult = await this.executeContract(target, [resultURI.toTransaction()])
+
+    // contract-specific fields of the result document
+    return Object.assign(result, {
+      tokenId,
+      mnemonic: bip39.plain,
+      target: target.publicAccount,
+      operators,
+      uri: resultURI,
+    })
   }
 
   /**
@@ -363,20 +416,20 @@ export default class extends Contract {
     const aggregateTx = transactions.shift()
 
     // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
+    const signedTransaction = await this.getSigner(account, aggregateTx).sign()
 
     // create hash lock (spam protected partial transactions pool)
     const lockFundsTransaction = this.factory.getHashLockTransaction(
       new Mosaic(
-        new MosaicId(ContractConstants.LOCK_MOSAIC),
-        UInt64.fromUint(ContractConstants.LOCK_AMOUNT)
+        this.network.getCurrency(),
+        UInt64.fromUint(this.network.lockAmount)
       ),
-      1000, // 1000 blocks duration
+      this.network.getHashLockDuration(),
       signedTransaction,
     )
 
     // sign hash lock transaction
-    const signedLockFundsTx = this.getSigner(account, lockFundsTransaction).sign()
+    const signedLockFundsTx = await this.getSigner(account, lockFundsTransaction).sign()
 
     // announce the aggregate transaction
     return await this.broadcaster.announcePartial(account.publicAccount, signedLockFundsTx, signedTransaction)
@@ -387,13 +440,13 @@ export default class extends Contract {
     bip39: MnemonicPassPhrase,
   ) {
     const words = bip39.plain.split(' ')
-    console.log('')
-    console.log(chalk.yellow(label + ': '))
-    console.log(chalk.yellow('\t') + '-'.repeat(55))
-    console.log(chalk.red('\t' + words.slice(0, 8).join(' ')))
-    console.log(chalk.red('\t' + words.slice(8, 16).join(' ')))
-    console.log(chalk.red('\t' + words.slice(16, 24).join(' ')))
-    console.log(chalk.yellow('\t') + '-'.repeat(55))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow(label + ': '))
+    this.log(chalk.yellow('\t') + '-'.repeat(55))
+    this.log(chalk.red('\t' + words.slice(0, 8).join(' ')))
+    this.log(chalk.red('\t' + words.slice(8, 16).join(' ')))
+    this.log(chalk.red('\t' + words.slice(16, 24).join(' ')))
+    this.log(chalk.yellow('\t') + '-'.repeat(55))
+    this.log('')
   }
 }
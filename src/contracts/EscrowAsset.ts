@@ -17,17 +17,13 @@
 import {command, metadata, option, ExpectedError} from 'clime';
 import {
     UInt64,
-    Account,
-    Deadline,
-    Transaction,
-    AggregateTransaction,
     NamespaceId,
-    PublicAccount,
     Mosaic,
 } from 'symbol-sdk';
 
 import {OptionsResolver} from '../kernel/OptionsResolver';
-import {Contract, ContractConstants, ContractInputs} from '../kernel/Contract';
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {escrowAsset, EscrowAssetResult} from '../library/EscrowAsset';
 import {description} from './default'
 
 export class EscrowAssetInputs extends ContractInputs {
@@ -58,18 +54,6 @@ export class EscrowAssetInputs extends ContractInputs {
 })
 export default class extends Contract {
 
-  /**
-   * The asset used for the spam protection lock
-   * @var {string} 
-   */
-  protected lockAsset: string = 'symbol.xym'
-
-  /**
-   * The absolute lock amount
-   * @var {number} 
-   */
-  protected lockAmount: number = 10 * 1000000
-
   constructor() {
       super();
   }
@@ -101,12 +85,23 @@ export default class extends Contract {
    * by both, the maker (first party) and the taker (second party).
    *
    * @param {EscrowAssetInputs} inputs
-   * @return {Promise<any>}
+   * @return {Promise<EscrowAssetResult>}
    */
   @metadata
-  async execute(inputs: EscrowAssetInputs) 
+  async execute(inputs: EscrowAssetInputs): Promise<EscrowAssetResult>
+  {
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `EscrowAsset` contract, see execute()
+   *
+   * @param {EscrowAssetInputs} inputs
+   * @return {Promise<EscrowAssetResult>}
+   */
+  protected async run(inputs: EscrowAssetInputs): Promise<EscrowAssetResult>
   {
-    console.log(description)
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -124,121 +119,60 @@ export default class extends Contract {
       inputs['asset1'] = OptionsResolver(inputs,
         'asset1',
         () => { return ''; },
-        '\nEnter an amount and mosaic for the first party (Ex.: 10 symbol.xym): ');
+        '\nEnter an amount and mosaic for the first party (Ex.: 10 ' + this.network.getCurrencyName() + '): ');
 
       const parts = inputs['asset1'].split(' ')
       if (parts.length != 2) {
-        throw new ExpectedError('Expected an amount and mosaic in --asset1, Ex.: 10 symbol.xym')
+        throw new ExpectedError('Expected an amount and mosaic in --asset1, Ex.: 10 ' + this.network.getCurrencyName())
       }
 
       inputs['l_amount'] = parseInt(parts[0])
       inputs['l_asset']  = parts[1]
-    } catch (err) { this.error('Please, enter a valid mosaic entry in asset1.'); }
+    } catch (err) { this.error('Please, enter a valid mosaic entry in asset1.', err); }
 
     try {
       inputs['taker'] = OptionsResolver(inputs,
         'taker',
         () => { return ''; },
         'Enter a taker account public key (second party): ');
-    } catch (err) { this.error('Please, enter a valid account address.'); }
+    } catch (err) { this.error('Please, enter a valid account address.', err); }
 
     try {
       inputs['asset2'] = OptionsResolver(inputs,
         'asset2',
         () => { return ''; },
-        'Enter an amount and mosaic for the second party (Ex.: 10 symbol.xym): ');
+        'Enter an amount and mosaic for the second party (Ex.: 10 ' + this.network.getCurrencyName() + '): ');
 
       const parts = inputs['asset2'].split(' ')
       if (parts.length != 2) {
-        throw new ExpectedError('Expected an amount and mosaic in --asset2, Ex.: 10 symbol.xym')
+        throw new ExpectedError('Expected an amount and mosaic in --asset2, Ex.: 10 ' + this.network.getCurrencyName())
       }
 
       inputs['r_amount'] = parseInt(parts[0])
       inputs['r_asset']  = parts[1]
-    } catch (err) { this.error('Please, enter a valid mosaic entry in asset2.'); }
+    } catch (err) { this.error('Please, enter a valid mosaic entry in asset2.', err); }
 
     // lock asset can be overwritten with --lock or -l
+    let lock: Mosaic
     if (inputs.hasOwnProperty('lock') && inputs['lock'] && inputs['lock'].length) {
       const parts = inputs['lock'].split(' ')
       if (parts.length != 2) {
-        throw new ExpectedError('Expected an amount and mosaic in --lock, Ex.: 10 symbol.xym')
+        throw new ExpectedError('Expected an amount and mosaic in --lock, Ex.: 10 ' + this.network.getCurrencyName())
       }
 
-      this.lockAmount = parseInt(parts[0]) * 1000000 // divisibility = 6
-      this.lockAsset  = parts[1]
+      lock = new Mosaic(new NamespaceId(parts[1]), UInt64.fromUint(this.network.toAbsolute(parseInt(parts[0]))))
     }
-  
-    // --------------------------------
-    // STEP 2: Prepare Contract Actions
-    // --------------------------------
-
-    const account = argv['account']
-    const taker   = PublicAccount.createFromPublicKey(inputs['taker'], this.networkType)
-
-    // Contract Action #1: create left hand transfer
-    const leftHandTransfer = this.factory.getTransferTransaction(
-      taker.address,
-      new NamespaceId(inputs['l_asset']),
-      inputs['l_amount'],
-      'escrow 1st party',
-    )
-
-    // Contract Action #2: create right hand transfer
-    const rightHandTransfer = this.factory.getTransferTransaction(
-      account.address,
-      new NamespaceId(inputs['r_asset']),
-      inputs['r_amount'],
-      'escrow 2nd party',
-    )
 
     // --------------------------------
-    // STEP 3: Execute Contract Actions
+    // STEP 2: Execute Contract Actions
     // --------------------------------
 
-    // Contract Execution: merge transactions and execute contract
-    const allTxes = [
-      leftHandTransfer.toAggregate(account.publicAccount),
-      rightHandTransfer.toAggregate(taker),
-    ]
-
-    // wrap all transactions in an aggregate, sign and broadcast
-    return await this.executeContract(account, allTxes)
-  }
-
-  /**
-   * Execute a smart contract's transactions
-   *
-   * @param {Account}       account 
-   * @param {Transaction[]} transactions
-   * @return {Promise<any>}
-   */
-  protected async executeContract(
-    account: Account,
-    transactions: Transaction[]
-  ): Promise<any> {
-    // wrap contract transactions
-    const aggregateTx = AggregateTransaction.createBonded(
-      Deadline.create(),
-      transactions,
-      this.networkType,
-      [],
-      UInt64.fromUint(ContractConstants.DEFAULT_AGGREGATE_FEE)
-    );
-
-    // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
-
-    // create hash lock (spam protected partial transactions pool)
-    const lockFundsTransaction = this.factory.getHashLockTransaction(
-      new Mosaic(new NamespaceId(this.lockAsset), UInt64.fromUint(this.lockAmount)),
-      1000, // 1000 blocks duration
-      signedTransaction,
-    )
-
-    // sign hash lock transaction
-    const signedLockFundsTx = this.getSigner(account, lockFundsTransaction).sign()
-
-    // announce the aggregate transaction
-    return await this.broadcaster.announcePartial(account.publicAccount, signedLockFundsTx, signedTransaction)
+    // sign and broadcast with the library API
+    return await escrowAsset({
+      taker: inputs['taker'],
+      asset1: { amount: inputs['l_amount'], mosaic: inputs['l_asset'] },
+      asset2: { amount: inputs['r_amount'], mosaic: inputs['r_asset'] },
+      lock,
+    }, this)
   }
 }
@@ -16,14 +16,14 @@
  */
 import chalk from 'chalk';
 import { command, metadata, option } from 'clime'
-import * as readlineSync from 'readline-sync';
-import { NIP13, NetworkConfig, TransactionParameters, CommandOption } from 'symbol-token-standards'
-import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Deadline, AccountInfo, Address } from 'symbol-sdk'
+import { NIP13, NetworkConfig, CommandOption } from 'symbol-token-standards'
+import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64 } from 'symbol-sdk'
 import { MnemonicPassPhrase } from 'symbol-hd-wallets'
 import { TransactionURI } from 'symbol-uri-scheme'
 
-import { OptionsResolver } from '../kernel/OptionsResolver'
-import { Contract, ContractConstants, ContractInputs } from '../kernel/Contract'
+import { OptionsResolver, YesNoResolver } from '../kernel/OptionsResolver'
+import { Contract, ContractInputs } from '../kernel/Contract'
+import { TokenParameters } from '../kernel/TokenParameters'
 import {description} from './default'
 
 export class ForcedTransferSecurityInputs extends ContractInputs {
@@ -57,6 +57,14 @@ export class ForcedTransferSecurityInputs extends ContractInputs {
     description: 'Force transfer of security token',
   })
   yes: boolean;
+  @option({
+    description: 'The sender partition name',
+  })
+  name_sender: string;
+  @option({
+    description: 'The recipient partition name',
+  })
+  name_recipient: string;
 }
 
 @command({
@@ -99,9 +107,20 @@ export default class extends Contract {
    * @return {Promise<any>}
    */
   @metadata
-  async execute(inputs: ForcedTransferSecurityInputs) 
+  async execute(inputs: ForcedTransferSecurityInputs)
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `ForcedTransferSecurity` contract, see execute()
+   *
+   * @param {ForcedTransferSecurityInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: ForcedTransferSecurityInputs)
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -115,39 +134,39 @@ export default class extends Contract {
     // STEP 1: Read Inputs
     // -------------------
     try {
-      console.log('')
+      this.log('')
       inputs['sender'] = OptionsResolver(inputs,
         'sender',
         () => { return ''; },
-        'Enter the sender address: ')
-    } catch (err) { this.error('Invalid address.') }
+        'Enter the sender address or public key: ')
+    } catch (err) { this.error('Invalid address.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['name_sender'] = OptionsResolver(inputs,
         'name_sender',
         () => { return ''; },
         'Enter the sender partition label: ')
-    } catch (err) { this.error('Invalid partition label.') }
+    } catch (err) { this.error('Invalid partition label.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['recipient'] = OptionsResolver(inputs,
         'recipient',
         () => { return ''; },
-        'Enter the recipient address: ')
-    } catch (err) { this.error('Invalid address.') }
+        'Enter the recipient address or public key: ')
+    } catch (err) { this.error('Invalid address.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['name_recipient'] = OptionsResolver(inputs,
         'name_recipient',
         () => { return ''; },
         'Enter the recipient partition label: ')
-    } catch (err) { this.error('Invalid partition label.') }
+    } catch (err) { this.error('Invalid partition label.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['amount'] = parseInt(OptionsResolver(inputs,
         'amount',
         () => { return ''; },
@@ -157,7 +176,7 @@ export default class extends Contract {
       if (inputs['supply'] <= 0) {
         inputs['supply'] = 1
       }
-    } catch (err) { this.error('Invalid number of shares.') }
+    } catch (err) { this.error('Invalid number of shares.', err) }
 
     // --------------------------------
     // STEP 2: Prepare Contract Actions
@@ -166,7 +185,7 @@ export default class extends Contract {
     // always re-use bip39 mnemonic
     let bip39: MnemonicPassPhrase
     if (!inputs['mnemonic']) {
-      console.log('')
+      this.log('')
       bip39 = new MnemonicPassPhrase(OptionsResolver(inputs,
           'mnemonic',
           () => { return ''; },
@@ -179,53 +198,42 @@ export default class extends Contract {
         this.endpointUrl,
         this.networkType,
         this.generationHash,
-        new MosaicId(ContractConstants.LOCK_MOSAIC)
+        this.network.getCurrency()
       ),
       bip39,
     )
 
     // derive TARGET account
     const target = token.getTarget()
-    const sender = Address.createFromRawAddress(inputs['sender'])
 
-    // fetch recipient information
-    let senderInfo: AccountInfo
-    senderInfo = await this.factoryHttp
-      .createAccountRepository()
-      .getAccountInfo(sender)
-      .toPromise()
+    // fetch sender and recipient public keys
+    const senderAccount = await this.factory.getPublicAccount(inputs['sender'])
+    const sender = senderAccount.address
 
-    let recipient: AccountInfo
-    recipient = await this.factoryHttp
-      .createAccountRepository()
-      .getAccountInfo(Address.createFromRawAddress(inputs['recipient']))
-      .toPromise()
+    const recipient = await this.factory.getPublicAccount(inputs['recipient'])
 
-    console.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
-    console.log(chalk.red('\t\t    ' + target.privateKey))
+    this.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
+    this.log(chalk.red('\t\t    ' + target.privateKey))
 
     // --------------------------------
     // STEP 3: Execute Contract Actions
     // --------------------------------
-    const params = new TransactionParameters(
-      Deadline.create(),
-      750000, // maxFee
-    )
+    const params = TokenParameters.create()
 
     // derive SENDER partition account and operator
     const senderPartition = sender.equals(target.address)
       ? target
-      : token.getPartition(senderInfo.publicAccount, inputs['name_sender'])
-    const recipientPartition = token.getPartition(recipient.publicAccount, inputs['name_recipient'])
-    const bip39Path = token.getPathForPartition(recipient.publicAccount, inputs['name_recipient'])
+      : token.getPartition(senderAccount, inputs['name_sender'])
+    const recipientPartition = token.getPartition(recipient, inputs['name_recipient'])
+    const bip39Path = token.getPathForPartition(recipient, inputs['name_recipient'])
     const operator  = token.getOperator(1)
 
-    console.log(chalk.green('NIP13 Sender Token Partition:    ' + senderPartition.address.plain()))
-    console.log(chalk.green('NIP13 Recipient Token Partition: ' + recipientPartition.address.plain()))
-    console.log(chalk.green('Recipient Token Partition Path:     ' + bip39Path))
+    this.log(chalk.green('NIP13 Sender Token Partition:    ' + senderPartition.address.plain()))
+    this.log(chalk.green('NIP13 Recipient Token Partition: ' + recipientPartition.address.plain()))
+    this.log(chalk.green('Recipient Token Partition Path:     ' + bip39Path))
 
     if (inputs['debug'] === true) {
-      console.log(chalk.red('\t\t    ' + recipientPartition.privateKey))
+      this.log(chalk.red('\t\t    ' + recipientPartition.privateKey))
     }
 
     // transfer shares
@@ -241,13 +249,15 @@ export default class extends Contract {
       ]
     )
 
-    console.log('')
-    console.log(chalk.yellow('Contract URI: ' + resultURI.build()))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow('Contract URI: ' + resultURI.build()))
+    this.log('')
 
     // whether to force execution or ask for next step
     if (!inputs['yes']) {
-      const shouldContinue = readlineSync.keyInYN(
+      // --non-interactive implies --yes
+      const shouldContinue = YesNoResolver(inputs,
+        () => true,
         'Do you want to force-transfer the security token now? ')
 
       if (shouldContinue === false) {
@@ -274,20 +284,20 @@ export default class extends Contract {
     const aggregateTx = transactions.shift()
 
     // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
+    const signedTransaction = await this.getSigner(account, aggregateTx).sign()
 
     // create hash lock (spam protected partial transactions pool)
     const lockFundsTransaction = this.factory.getHashLockTransaction(
       new Mosaic(
-        new MosaicId(ContractConstants.LOCK_MOSAIC),
-        UInt64.fromUint(ContractConstants.LOCK_AMOUNT)
+        this.network.getCurrency(),
+        UInt64.fromUint(this.network.lockAmount)
       ),
-      1000, // 1000 blocks duration
+      this.network.getHashLockDuration(),
       signedTransaction,
     )
 
     // sign hash lock transaction
-    const signedLockFundsTx = this.getSigner(account, lockFundsTransaction).sign()
+    const signedLockFundsTx = await this.getSigner(account, lockFundsTransaction).sign()
 
     // announce the aggregate transaction
     return await this.broadcaster.announcePartial(account.publicAccount, signedLockFundsTx, signedTransaction)
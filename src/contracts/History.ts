@@ -0,0 +1,281 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {Command, ExpectedError, Options, command, metadata, option, param} from 'clime';
+
+import {Journal, JournalEntry} from '../kernel/Journal';
+import {ContractResult} from '../kernel/ContractResult';
+import {Logger} from '../kernel/Logger';
+import {description} from './default'
+
+export class HistoryInputs extends Options {
+  @option({
+    flag: 'c',
+    description: 'Only list executions of this contract (Ex.: CreateAsset)',
+  })
+  contract: string;
+  @option({
+    flag: 's',
+    description: 'Only list executions with this outcome (Ex.: confirmed, failed, timed-out)',
+  })
+  status: string;
+  @option({
+    description: 'Only list executions signed by this address or public key',
+  })
+  signer: string;
+  @option({
+    flag: 'u',
+    description: 'Only list executions of this local user',
+  })
+  user: string;
+  @option({
+    description: 'Only list executions started on or after this date (Ex.: 2020-06-01)',
+  })
+  since: string;
+  @option({
+    description: 'Only list executions started before this date (Ex.: 2020-07-01)',
+  })
+  until: string;
+  @option({
+    flag: 'n',
+    description: 'Number of executions to list, most recent first (defaults to 20, 0 lists all)',
+  })
+  limit: number;
+  @option({
+    flag: 'o',
+    description: 'Output format: text or json (defaults to text)',
+  })
+  output: string;
+}
+
+@command({
+  description: 'History of the executions recorded in the local journal',
+})
+export default class extends Command {
+  /**
+   * Where human output is written, the standard
+   * error with `--output json`
+   * @var {Logger}
+   */
+  protected logger: Logger = new Logger()
+
+  /**
+   * Execution routine for the `History` command.
+   *
+   * @description This command lists the executions of smart
+   * contracts that are recorded in the local journal, or shows
+   * one execution with its inputs, transactions and status
+   * transitions.
+   *
+   * @param {string}        action
+   * @param {string}        id
+   * @param {HistoryInputs} inputs
+   * @return {Promise<any>}
+   */
+  @metadata
+  async execute(
+    @param({
+      description: 'History action (list|show)',
+      required: true,
+    })
+    action: string,
+    @param({
+      description: 'Execution identifier or identifier prefix (show)',
+    })
+    id: string,
+    inputs: HistoryInputs,
+  ) {
+    this.logger = Logger.create(inputs['output'])
+    this.logger.log(description)
+
+    const journal = new Journal()
+    const json = inputs['output'] === ContractResult.FORMAT_JSON
+
+    if (action === 'show') {
+      if (! id || ! id.length) {
+        throw new ExpectedError('Please, enter the identifier of an execution (see History list).')
+      }
+
+      const entry = journal.load(id)
+      if (json) {
+        process.stdout.write(JSON.stringify(entry, null, 2) + '\n')
+        return ;
+      }
+
+      this.printEntry(entry)
+      return ;
+    }
+
+    if (action !== 'list') {
+      throw new ExpectedError('Unknown history action "' + action + '", expected one of: list, show.')
+    }
+
+    const entries = this.filter(journal.all(), inputs)
+    if (json) {
+      process.stdout.write(JSON.stringify(entries, null, 2) + '\n')
+      return ;
+    }
+
+    this.logger.log('')
+    if (! entries.length) {
+      this.logger.log(chalk.yellow('No executions found in ' + journal.path + '.'))
+    }
+
+    entries.forEach((entry) => {
+      this.logger.log(this.color(entry.status)(entry.id + '  ' + entry.contract + ' (' + entry.status + ')'))
+      this.logger.log('\tStarted:    ' + entry.startedAt + ' by ' + entry.user.name + '@' + entry.user.host)
+      if (entry.signer) {
+        this.logger.log('\tSigner:     ' + entry.signer.address)
+      }
+      if (entry.hash) {
+        this.logger.log('\tHash:       ' + entry.hash)
+      }
+      if (entry.error) {
+        this.logger.log('\tError:      ' + entry.error.message.split('\n')[0])
+      }
+    })
+    this.logger.log('')
+  }
+
+  /**
+   * Apply the filters of the inputs, most recent first
+   *
+   * @param {JournalEntry[]}  entries
+   * @param {HistoryInputs}   inputs
+   * @return {JournalEntry[]}
+   */
+  protected filter(
+    entries: JournalEntry[],
+    inputs: HistoryInputs,
+  ): JournalEntry[] {
+    const since = this.parseDate(inputs['since'], 'since')
+    const until = this.parseDate(inputs['until'], 'until')
+    const limit = undefined === inputs['limit'] ? Journal.LIST_LIMIT : inputs['limit']
+
+    if (isNaN(limit) || limit < 0) {
+      throw new ExpectedError('The limit must be a positive number of executions.')
+    }
+
+    const matches = (value: string, filter: string) => !filter || (value || '').toLowerCase() === filter.toLowerCase()
+    const filtered = entries.filter((entry) => matches(entry.contract, inputs['contract'])
+      && matches(entry.status, inputs['status'])
+      && matches(entry.user.name, inputs['user'])
+      && (!inputs['signer'] || (entry.signer && (matches(entry.signer.address, inputs['signer'].replace(/-/g, ''))
+                                              || matches(entry.signer.publicKey, inputs['signer']))))
+      && (!since || new Date(entry.startedAt) >= since)
+      && (!until || new Date(entry.startedAt) < until)
+    ).reverse()
+
+    return limit ? filtered.slice(0, limit) : filtered
+  }
+
+  /**
+   * Parse a date filter
+   *
+   * @param {string} value
+   * @param {string} name
+   * @return {Date}
+   */
+  protected parseDate(value: string, name: string): Date {
+    if (! value || ! value.length) {
+      return undefined
+    }
+
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      throw new ExpectedError('Invalid date "' + value + '" in --' + name + ', expected a date like 2020-06-01.')
+    }
+
+    return date
+  }
+
+  /**
+   * Display one execution
+   *
+   * @param {JournalEntry} entry
+   * @return {void}
+   */
+  protected printEntry(entry: JournalEntry): void {
+    this.logger.log('')
+    this.logger.log(this.color(entry.status)('Execution ' + entry.id + ': ' + entry.contract + ' (' + entry.status + ')'))
+    this.logger.log('')
+    this.logger.log('Executed by:  ' + entry.user.name + '@' + entry.user.host)
+    this.logger.log('Started:      ' + entry.startedAt)
+    this.logger.log('Finished:     ' + (entry.finishedAt || '-'))
+    if (entry.network) {
+      this.logger.log('Network:      ' + entry.network.type + ' (' + entry.network.generationHash + ')')
+      this.logger.log('Node:         ' + (entry.network.node || '-'))
+    }
+    if (entry.signer) {
+      this.logger.log('Signer:       ' + entry.signer.address + ' (' + entry.signer.publicKey + ')')
+    }
+    if (entry.hash) {
+      this.logger.log('Hash:         ' + entry.hash)
+    }
+    if (entry.error) {
+      this.logger.log(chalk.red('Error:        ' + (entry.error.code ? entry.error.code + ': ' : '') + entry.error.message))
+    }
+
+    this.logger.log('')
+    this.logger.log('Inputs:')
+    Object.keys(entry.inputs).forEach((key) => this.logger.log('\t' + key + ': ' + JSON.stringify(entry.inputs[key])))
+
+    if (entry.transactions.length) {
+      this.logger.log('')
+      this.logger.log('Transactions:')
+      entry.transactions.forEach((transaction, i) => {
+        this.logger.log('\t#' + (i+1) + ' ' + transaction.type + ': ' + transaction.hash)
+      })
+    }
+
+    if (entry.transitions.length) {
+      this.logger.log('')
+      this.logger.log('Status Transitions:')
+      entry.transitions.forEach((transition) => {
+        this.logger.log('\t' + transition.timestamp + '  ' + transition.status + (transition.hash ? ' (' + transition.hash + ')' : ''))
+      })
+    }
+
+    // contract-specific fields of the result (e.g. mosaicId)
+    const fields = Object.keys(entry.result || {}).filter((key) => ! [
+      'contract', 'status', 'hash', 'signer', 'network', 'transactions', 'transitions', 'explorer',
+    ].includes(key))
+    if (fields.length) {
+      this.logger.log('')
+      this.logger.log('Result:')
+      fields.forEach((key) => this.logger.log('\t' + key + ': ' + JSON.stringify(entry.result[key])))
+    }
+    this.logger.log('')
+  }
+
+  /**
+   * Get the display color of an outcome
+   *
+   * @param {string} status
+   * @return {Function}
+   */
+  protected color(status: string): (text: string) => string {
+    if ([ContractResult.FAILED, ContractResult.TIMED_OUT, ContractResult.LOCK_EXPIRED, Journal.ERROR].includes(status)) {
+      return chalk.red
+    }
+    else if ([ContractResult.CONFIRMED, ContractResult.COSIGNED, ContractResult.INCLUDED].includes(status)) {
+      return chalk.green
+    }
+
+    return chalk.yellow
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {Command, ExpectedError, Options, command, metadata, option, param} from 'clime';
+import * as readlineSync from 'readline-sync';
+
+import {OptionsResolver} from '../kernel/OptionsResolver';
+import {Keystore} from '../kernel/Keystore';
+import {description} from './default'
+
+export class KeystoreInputs extends Options {
+  @option({
+    flag: 'n',
+    description: 'Name of the key',
+  })
+  name: string;
+  @option({
+    flag: 'p',
+    description: "BIP39 derivation path for mnemonic keys (Ex.: m/44'/4343'/0'/0'/0')",
+  })
+  path: string;
+}
+
+@command({
+  description: 'Management of the encrypted local keystore',
+})
+export default class extends Command {
+
+  /**
+   * Execution routine for the `Keystore` command.
+   *
+   * @description This command adds, lists, removes and exports
+   * the private keys and mnemonic pass phrases that are stored
+   * encrypted in the local keystore.
+   *
+   * @param {string}          action
+   * @param {KeystoreInputs}  inputs
+   * @return {Promise<any>}
+   */
+  @metadata
+  async execute(
+    @param({
+      description: 'Keystore action (add|list|remove|export)',
+      required: true,
+    })
+    action: string,
+    inputs: KeystoreInputs,
+  ) {
+    console.log(description)
+
+    const keystore = new Keystore()
+
+    if (action === 'list') {
+      const entries = keystore.list()
+
+      console.log('')
+      if (! entries.length) {
+        console.log(chalk.yellow('No keys found in ' + keystore.path + '.'))
+      }
+
+      entries.forEach((entry) => {
+        console.log(chalk.green(entry.name + ' (' + entry.type + ')'))
+        console.log('\tPublic Key: ' + entry.publicKey)
+        if (entry.path) {
+          console.log('\tPath:       ' + entry.path)
+        }
+      })
+      console.log('')
+      return ;
+    }
+
+    if (! ['add', 'remove', 'export'].includes(action)) {
+      throw new ExpectedError('Unknown keystore action "' + action + '", expected one of: add, list, remove, export.')
+    }
+
+    inputs['name'] = OptionsResolver(inputs,
+      'name',
+      () => { return ''; },
+      'Enter the name of the key: ')
+
+    if (action === 'remove') {
+      keystore.remove(inputs['name'])
+      console.log(chalk.green('Key "' + inputs['name'] + '" removed from the keystore.'))
+      return ;
+    }
+
+    if (action === 'export') {
+      const secret = keystore.export(inputs['name'], this.readPassword(inputs['name']))
+
+      console.log('')
+      console.log(chalk.yellow('Key "' + inputs['name'] + '": '))
+      console.log(chalk.red('\t' + secret))
+      console.log('')
+      return ;
+    }
+
+    // action === 'add'
+    const secret = readlineSync.question(
+      'Enter a private key or a 24-words mnemonic passphrase: ',
+      { hideEchoBack: true })
+
+    const password = this.readPassword(inputs['name'])
+    const confirm  = readlineSync.question('Repeat the password: ', { hideEchoBack: true })
+    if (password !== confirm) {
+      throw new ExpectedError('The passwords do not match.')
+    }
+
+    const entry = keystore.add(inputs['name'], secret, password, inputs['path'])
+
+    console.log('')
+    console.log(chalk.green('Key "' + entry.name + '" added to the keystore.'))
+    console.log(chalk.green('Public Key: ' + entry.publicKey))
+    console.log('')
+  }
+
+  /**
+   * Prompt for the password of key `name`
+   *
+   * @param {string} name
+   * @return {string}
+   */
+  private readPassword(name: string): string {
+    return readlineSync.question(
+      'Enter the keystore password for "' + name + '": ',
+      { hideEchoBack: true })
+  }
+}
@@ -16,14 +16,14 @@
  */
 import chalk from 'chalk';
 import { command, metadata, option } from 'clime'
-import * as readlineSync from 'readline-sync';
-import { NIP13, NetworkConfig, TransactionParameters } from 'symbol-token-standards'
-import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Deadline, Address } from 'symbol-sdk'
+import { NIP13, NetworkConfig } from 'symbol-token-standards'
+import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Address } from 'symbol-sdk'
 import { MnemonicPassPhrase } from 'symbol-hd-wallets'
 import { TransactionURI } from 'symbol-uri-scheme'
 
-import { OptionsResolver } from '../kernel/OptionsResolver'
-import { Contract, ContractConstants, ContractInputs } from '../kernel/Contract'
+import { OptionsResolver, YesNoResolver } from '../kernel/OptionsResolver'
+import { Contract, ContractInputs } from '../kernel/Contract'
+import { TokenParameters } from '../kernel/TokenParameters'
 import {description} from './default'
 
 export class ListSecuritiesInputs extends ContractInputs {
@@ -61,6 +61,15 @@ export default class extends Contract {
     return false
   }
 
+  /**
+   * Returns whether the contract can be executed offline
+   *
+   * @return {boolean}
+   */
+  public supportsOffline(): boolean {
+    return false
+  }
+
   /**
    * Execution routine for the `ListSecurities` smart contract.
    *
@@ -74,9 +83,20 @@ export default class extends Contract {
    * @return {Promise<any>}
    */
   @metadata
-  async execute(inputs: ListSecuritiesInputs) 
+  async execute(inputs: ListSecuritiesInputs)
+  {
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `ListSecurities` contract, see execute()
+   *
+   * @param {ListSecuritiesInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: ListSecuritiesInputs)
   {
-    console.log(description)
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -94,14 +114,15 @@ export default class extends Contract {
       this.endpointUrl,
       this.networkType,
       this.generationHash,
-      new MosaicId(ContractConstants.LOCK_MOSAIC)
+      this.network.getCurrency()
     )
 
     // authority account is used to list verified tokens
     let authority: PublicAccount
 
-    console.log('')
-    const useAuthorityMnemonic = readlineSync.keyInYN(
+    this.log('')
+    const useAuthorityMnemonic = YesNoResolver(inputs,
+      () => !!inputs['authority'] && inputs['authority'].trim().split(' ').length > 1,
       'Do you want to enter a mnemonic pass phrase for the authority account? ')
     if (useAuthorityMnemonic === true) {
       inputs['authority'] = OptionsResolver(inputs,
@@ -120,15 +141,15 @@ export default class extends Contract {
       )
 
       authority = auth.getAuthority().publicAccount
-      console.log(chalk.green('NIP13 Authority: ' + auth.getAuthority().address.plain()))
+      this.log(chalk.green('NIP13 Authority: ' + auth.getAuthority().address.plain()))
 
       if (inputs['debug'] === true) {
-        console.log(chalk.red('\t\t    ' + auth.getAuthority().privateKey))
+        this.log(chalk.red('\t\t    ' + auth.getAuthority().privateKey))
       }
     }
     else {
       try {
-        console.log('')
+        this.log('')
         inputs['authority'] = OptionsResolver(inputs,
           'authority',
           () => { return ''; },
@@ -149,7 +170,7 @@ export default class extends Contract {
         }
         else throw new Error('Invalid authority.')
       }
-      catch (err) { console.log("error: ", err); this.error('Invalid authority.') }
+      catch (err) { this.error('Invalid authority.', err) }
     }
   
     // --------------------------------
@@ -159,20 +180,17 @@ export default class extends Contract {
     // --------------------------------
     // STEP 3: Execute Contract Actions
     // --------------------------------
-    const params = new TransactionParameters(
-      Deadline.create(),
-      750000, // maxFee
-    )
+    const params = TokenParameters.create()
 
     const tokens = await NIP13.TokenAuthority.getTokens(
       authority,
       networkConfig,
     )
 
-    console.log('')
-    console.log(chalk.yellow('Mosaics: '))
-    console.log(tokens.map((mosaicId => mosaicId.toHex())))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow('Mosaics: '))
+    this.log(tokens.map((mosaicId => mosaicId.toHex())))
+    this.log('')
 
     // wrap all transactions in an aggregate, sign and broadcast
     return await this.executeContract(Account.generateNewAccount(this.networkType), [])
@@ -197,13 +215,13 @@ export default class extends Contract {
     bip39: MnemonicPassPhrase,
   ) {
     const words = bip39.plain.split(' ')
-    console.log('')
-    console.log(chalk.yellow(label + ': '))
-    console.log(chalk.yellow('\t') + '-'.repeat(55))
-    console.log(chalk.red('\t' + words.slice(0, 8).join(' ')))
-    console.log(chalk.red('\t' + words.slice(8, 16).join(' ')))
-    console.log(chalk.red('\t' + words.slice(16, 24).join(' ')))
-    console.log(chalk.yellow('\t') + '-'.repeat(55))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow(label + ': '))
+    this.log(chalk.yellow('\t') + '-'.repeat(55))
+    this.log(chalk.red('\t' + words.slice(0, 8).join(' ')))
+    this.log(chalk.red('\t' + words.slice(8, 16).join(' ')))
+    this.log(chalk.red('\t' + words.slice(16, 24).join(' ')))
+    this.log(chalk.yellow('\t') + '-'.repeat(55))
+    this.log('')
   }
 }
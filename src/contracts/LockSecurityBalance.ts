@@ -16,14 +16,14 @@
  */
 import chalk from 'chalk';
 import { command, metadata, option } from 'clime'
-import * as readlineSync from 'readline-sync';
-import { NIP13, NetworkConfig, TransactionParameters, CommandOption } from 'symbol-token-standards'
-import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Deadline, AccountInfo, Address } from 'symbol-sdk'
+import { NIP13, NetworkConfig, CommandOption } from 'symbol-token-standards'
+import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64 } from 'symbol-sdk'
 import { MnemonicPassPhrase } from 'symbol-hd-wallets'
 import { TransactionURI } from 'symbol-uri-scheme'
 
-import { OptionsResolver } from '../kernel/OptionsResolver'
-import { Contract, ContractConstants, ContractInputs } from '../kernel/Contract'
+import { OptionsResolver, YesNoResolver } from '../kernel/OptionsResolver'
+import { Contract, ContractInputs } from '../kernel/Contract'
+import { TokenParameters } from '../kernel/TokenParameters'
 import {description} from './default'
 
 export class LockSecurityBalanceInputs extends ContractInputs {
@@ -94,9 +94,20 @@ export default class extends Contract {
    * @return {Promise<any>}
    */
   @metadata
-  async execute(inputs: LockSecurityBalanceInputs) 
+  async execute(inputs: LockSecurityBalanceInputs)
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `LockSecurityBalance` contract, see execute()
+   *
+   * @param {LockSecurityBalanceInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: LockSecurityBalanceInputs)
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -110,23 +121,23 @@ export default class extends Contract {
     // STEP 1: Read Inputs
     // -------------------
     try {
-      console.log('')
+      this.log('')
       inputs['holder'] = OptionsResolver(inputs,
         'holder',
         () => { return ''; },
         'Enter the token holder address (will be locked): ')
-    } catch (err) { this.error('Invalid address.') }
+    } catch (err) { this.error('Invalid address.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['name'] = OptionsResolver(inputs,
         'name',
         () => { return ''; },
         'Enter the partition label: ')
-    } catch (err) { this.error('Invalid partition label.') }
+    } catch (err) { this.error('Invalid partition label.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['amount'] = parseInt(OptionsResolver(inputs,
         'amount',
         () => { return ''; },
@@ -136,7 +147,7 @@ export default class extends Contract {
       if (inputs['supply'] <= 0) {
         inputs['supply'] = 1
       }
-    } catch (err) { this.error('Invalid number of shares.') }
+    } catch (err) { this.error('Invalid number of shares.', err) }
 
     // --------------------------------
     // STEP 2: Prepare Contract Actions
@@ -145,7 +156,7 @@ export default class extends Contract {
     // always re-use bip39 mnemonic
     let bip39: MnemonicPassPhrase
     if (!inputs['mnemonic']) {
-      console.log('')
+      this.log('')
       bip39 = new MnemonicPassPhrase(OptionsResolver(inputs,
           'mnemonic',
           () => { return ''; },
@@ -158,42 +169,35 @@ export default class extends Contract {
         this.endpointUrl,
         this.networkType,
         this.generationHash,
-        new MosaicId(ContractConstants.LOCK_MOSAIC)
+        this.network.getCurrency()
       ),
       bip39,
     )
 
     // derive TARGET account
     const target = token.getTarget()
-    let holder: AccountInfo
-    holder = await this.factoryHttp
-      .createAccountRepository()
-      .getAccountInfo(Address.createFromRawAddress(inputs['holder']))
-      .toPromise()
+    const holder = await this.factory.getPublicAccount(inputs['holder'])
 
-    console.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
-    console.log(chalk.red('\t\t    ' + target.privateKey))
+    this.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
+    this.log(chalk.red('\t\t    ' + target.privateKey))
 
     // --------------------------------
     // STEP 3: Execute Contract Actions
     // --------------------------------
-    const params = new TransactionParameters(
-      Deadline.create(),
-      750000, // maxFee
-    )
+    const params = TokenParameters.create()
 
     // derive SENDER partition account and operator
     const lockerAccount = Account.generateNewAccount(this.networkType)
-    const holderPartition = token.getPartition(holder.publicAccount, inputs['name'])
-    const bip39Path = token.getPathForPartition(holder.publicAccount, inputs['name'])
+    const holderPartition = token.getPartition(holder, inputs['name'])
+    const bip39Path = token.getPathForPartition(holder, inputs['name'])
     const operator  = token.getOperator(1)
 
-    console.log(chalk.green('NIP13 Token Holder Partition: ' + holderPartition.address.plain()))
-    console.log(chalk.green('Recipient Token Partition Path:     ' + bip39Path))
-    console.log(chalk.red('\t\t    ' + holderPartition.privateKey))
-    console.log('')
-    console.log(chalk.green('NIP13 Token Locker Account: ' + lockerAccount.address.plain()))
-    console.log(chalk.red('\t\t    ' + lockerAccount.privateKey))
+    this.log(chalk.green('NIP13 Token Holder Partition: ' + holderPartition.address.plain()))
+    this.log(chalk.green('Recipient Token Partition Path:     ' + bip39Path))
+    this.log(chalk.red('\t\t    ' + holderPartition.privateKey))
+    this.log('')
+    this.log(chalk.green('NIP13 Token Locker Account: ' + lockerAccount.address.plain()))
+    this.log(chalk.red('\t\t    ' + lockerAccount.privateKey))
 
     // transfer shares
     const resultURI: TransactionURI = await token.execute(
@@ -208,13 +212,15 @@ export default class extends Contract {
       ]
     )
 
-    console.log('')
-    console.log(chalk.yellow('Contract URI: ' + resultURI.build()))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow('Contract URI: ' + resultURI.build()))
+    this.log('')
 
     // whether to force execution or ask for next step
     if (!inputs['yes']) {
-      const shouldContinue = readlineSync.keyInYN(
+      // --non-interactive implies --yes
+      const shouldContinue = YesNoResolver(inputs,
+        () => true,
         'Do you want to lock the token holder partition now? ')
 
       if (shouldContinue === false) {
@@ -241,20 +247,20 @@ export default class extends Contract {
     const aggregateTx = transactions.shift()
 
     // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
+    const signedTransaction = await this.getSigner(account, aggregateTx).sign()
 
     // create hash lock (spam protected partial transactions pool)
     const lockFundsTransaction = this.factory.getHashLockTransaction(
       new Mosaic(
-        new MosaicId(ContractConstants.LOCK_MOSAIC),
-        UInt64.fromUint(ContractConstants.LOCK_AMOUNT)
+        this.network.getCurrency(),
+        UInt64.fromUint(this.network.lockAmount)
       ),
-      1000, // 1000 blocks duration
+      this.network.getHashLockDuration(),
       signedTransaction,
     )
 
     // sign hash lock transaction
-    const signedLockFundsTx = this.getSigner(account, lockFundsTransaction).sign()
+    const signedLockFundsTx = await this.getSigner(account, lockFundsTransaction).sign()
 
     // announce the aggregate transaction
     return await this.broadcaster.announcePartial(account.publicAccount, signedLockFundsTx, signedTransaction)
@@ -0,0 +1,226 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {command, metadata, option} from 'clime';
+import chalk from 'chalk';
+import {
+    Account,
+    Transaction,
+    PublicAccount,
+    UInt64,
+} from 'symbol-sdk';
+
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {ContractResult} from '../kernel/ContractResult';
+import {HashLockTracker, HashLockReport} from '../kernel/HashLockTracker';
+import {description} from './default'
+
+export class LocksInputs extends ContractInputs {
+  @option({
+    description: 'Warn about locks that expire within this number of blocks (defaults to 240)',
+  })
+  warnBlocks: number;
+}
+
+@command({
+  description: 'Hash locks of the account and the funds at risk',
+})
+export default class extends Contract {
+
+  constructor() {
+      super();
+  }
+
+  /**
+   * Get the name of the contract
+   *
+   * @return {string}
+   */
+  public getName(): string {
+    return 'Locks'
+  }
+
+  /**
+   * Returns whether the contract requires authentication
+   *
+   * @return {boolean}
+   */
+  public requiresAuth(): boolean {
+    return true
+  }
+
+  /**
+   * Returns whether the contract can be executed offline
+   *
+   * @return {boolean}
+   */
+  public supportsOffline(): boolean {
+    return false
+  }
+
+  /**
+   * Execution routine for the `Locks` command.
+   *
+   * @description This command lists the hash locks of the account
+   * with the aggregate bonded transaction that each lock protects,
+   * the co-signatures that are still missing and the blocks that
+   * remain until the expiry. Locked funds are returned when the
+   * aggregate is confirmed and lost when the lock expires.
+   *
+   * @param {LocksInputs} inputs
+   * @return {Promise<any>}
+   */
+  @metadata
+  async execute(inputs: LocksInputs)
+  {
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `Locks` contract, see execute()
+   *
+   * @param {LocksInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: LocksInputs)
+  {
+    this.log(description)
+
+    let argv: ContractInputs
+    try {
+      argv = await this.configure(inputs)
+    }
+    catch (e) {
+      this.error(e)
+    }
+
+    const warningBlocks = undefined === inputs['warnBlocks'] ? HashLockTracker.WARNING_BLOCKS : inputs['warnBlocks']
+    if (isNaN(warningBlocks) || warningBlocks < 0) {
+      this.error('The --warn-blocks option must be a positive number of blocks.')
+    }
+
+    const account: PublicAccount = argv['account']
+    const tracker = new HashLockTracker(this.endpointUrl, this.network)
+
+    let reports: HashLockReport[]
+    try {
+      reports = await tracker.list(account.address, warningBlocks)
+    }
+    catch (e) {
+      this.error('The hash locks could not be read from ' + this.endpointUrl + ': ' + (e.message || e))
+    }
+
+    if (ContractResult.format === ContractResult.FORMAT_JSON) {
+      process.stdout.write(JSON.stringify(reports.map((report) => Object.assign({}, report, {
+        execution: !report.execution ? undefined : { id: report.execution.id, contract: report.execution.contract },
+      })), null, 2) + '\n')
+      return ;
+    }
+
+    this.log('')
+    this.log(chalk.yellow('Hash locks of ' + account.address.plain() + ':'))
+    this.log('')
+    if (! reports.length) {
+      this.log(chalk.green('No hash locks found.'))
+      this.log('')
+      return ;
+    }
+
+    reports.forEach((report) => this.printReport(report, tracker))
+
+    const sum = (state: string) => reports.filter((report) => report.state === state)
+      .filter((report) => report.mosaic.id === this.network.getCurrency().toHex())
+      .reduce((total, report) => total.add(report.mosaic.amount), UInt64.fromUint(0))
+
+    this.log('Locked:   ' + this.formatCurrency(sum(HashLockTracker.ACTIVE)))
+    this.log('Returned: ' + this.formatCurrency(sum(HashLockTracker.RETURNED)))
+    this.log('Lost:     ' + this.formatCurrency(sum(HashLockTracker.LOST)))
+    this.log('')
+
+    const atRisk = reports.filter((report) => report.atRisk)
+    if (atRisk.length) {
+      this.log(chalk.red('WARNING: ' + atRisk.length + ' hash lock(s) expire within ' + warningBlocks + ' blocks '
+        + 'with an aggregate that is not confirmed, the locked funds are lost at the expiry.'))
+      this.log('')
+    }
+  }
+
+  /**
+   * Display one hash lock
+   *
+   * @param {HashLockReport}  report
+   * @param {HashLockTracker} tracker
+   * @return {void}
+   */
+  protected printReport(
+    report: HashLockReport,
+    tracker: HashLockTracker,
+  ): void {
+    const color = report.atRisk || report.state === HashLockTracker.LOST ? chalk.red
+                : report.state === HashLockTracker.RETURNED ? chalk.green : chalk.yellow
+
+    const locked = report.mosaic.id === this.network.getCurrency().toHex()
+      ? this.formatCurrency(report.mosaic.amount)
+      : report.mosaic.amount.toString() + ' ' + report.mosaic.id
+
+    this.log(color(report.aggregateHash + ' (' + report.state + ')'))
+    if (report.execution) {
+      this.log('\tExecution:  ' + report.execution.contract + ' (' + report.execution.id + ')')
+    }
+    this.log('\tLocked:     ' + locked)
+
+    if (report.state === HashLockTracker.ACTIVE) {
+      this.log('\tExpires:    height ' + report.endHeight + ', in ' + report.blocksRemaining
+        + ' blocks (~' + tracker.describeRemaining(report) + ')')
+    }
+    else {
+      this.log('\tExpiry:     height ' + report.endHeight)
+    }
+
+    this.log('\tAggregate:  ' + report.aggregate)
+    if (report.missingCosigners.length) {
+      this.log('\tMissing:    ' + report.missingCosigners.join(', '))
+    }
+    if (report.state === HashLockTracker.ACTIVE && report.aggregate === HashLockTracker.MISSING) {
+      this.log(chalk.yellow('\tThe aggregate was never announced, see Resume.'))
+    }
+    this.log('')
+  }
+
+  /**
+   * Format an absolute amount of the network currency
+   *
+   * @param {UInt64} amount
+   * @return {string}
+   */
+  protected formatCurrency(amount: UInt64): string {
+    return this.network.formatAmount(amount) + ' ' + this.network.getCurrencyName()
+  }
+
+  /**
+   * Execute a smart contract's transactions
+   *
+   * @param {Account}       account 
+   * @param {Transaction[]} transactions
+   * @return {Promise<any>}
+   */
+  protected async executeContract(
+    account: Account,
+    transactions: Transaction[]
+  ): Promise<any> {
+    return true
+  }
+}
@@ -16,14 +16,14 @@
  */
 import chalk from 'chalk';
 import { command, metadata, option } from 'clime'
-import * as readlineSync from 'readline-sync';
-import { NIP13, NetworkConfig, TransactionParameters, CommandOption } from 'symbol-token-standards'
-import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Deadline, AccountInfo, Address } from 'symbol-sdk'
+import { NIP13, NetworkConfig, CommandOption } from 'symbol-token-standards'
+import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64 } from 'symbol-sdk'
 import { MnemonicPassPhrase } from 'symbol-hd-wallets'
 import { TransactionURI } from 'symbol-uri-scheme'
 
-import { OptionsResolver } from '../kernel/OptionsResolver'
-import { Contract, ContractConstants, ContractInputs } from '../kernel/Contract'
+import { OptionsResolver, YesNoResolver } from '../kernel/OptionsResolver'
+import { Contract, ContractInputs } from '../kernel/Contract'
+import { TokenParameters } from '../kernel/TokenParameters'
 import {description} from './default'
 
 export class ModifyPartitionRestrictionInputs extends ContractInputs {
@@ -37,6 +37,22 @@ export class ModifyPartitionRestrictionInputs extends ContractInputs {
     description: 'Force lock of security token',
   })
   yes: boolean;
+  @option({
+    description: 'Token holder address or public key',
+  })
+  holder: string;
+  @option({
+    description: 'The partition name',
+  })
+  name: string;
+  @option({
+    description: 'Restriction field (Ex.: User_Role)',
+  })
+  field: string;
+  @option({
+    description: 'Minimum restriction value (Ex.: 3)',
+  })
+  value: number;
 }
 
 @command({
@@ -79,9 +95,20 @@ export default class extends Contract {
    * @return {Promise<any>}
    */
   @metadata
-  async execute(inputs: ModifyPartitionRestrictionInputs) 
+  async execute(inputs: ModifyPartitionRestrictionInputs)
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `ModifyPartitionRestriction` contract, see execute()
+   *
+   * @param {ModifyPartitionRestrictionInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: ModifyPartitionRestrictionInputs)
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -99,28 +126,28 @@ export default class extends Contract {
     const restrictions = new NIP13.TokenRestrictions({})
 
     try {
-      console.log('')
+      this.log('')
       inputs['holder'] = OptionsResolver(inputs,
         'holder',
         () => { return ''; },
-        'Enter the token holder address: ')
-    } catch (err) { this.error('Invalid address.') }
+        'Enter the token holder address or public key: ')
+    } catch (err) { this.error('Invalid address.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['name'] = OptionsResolver(inputs,
         'name',
         () => { return ''; },
         'Enter the partition label: ')
-    } catch (err) { this.error('Invalid partition label.') }
+    } catch (err) { this.error('Invalid partition label.', err) }
 
-    console.log('')
+    this.log('')
     inputs['field'] = OptionsResolver(inputs,
       'field',
       () => { return ''; },
       'Enter a restriction field (e.g. User_Role): ')
 
-    console.log('')
+    this.log('')
     inputs['value'] = parseInt(OptionsResolver(inputs,
       'value',
       () => { return ''; },
@@ -133,7 +160,7 @@ export default class extends Contract {
     // always re-use bip39 mnemonic
     let bip39: MnemonicPassPhrase
     if (!inputs['mnemonic']) {
-      console.log('')
+      this.log('')
       bip39 = new MnemonicPassPhrase(OptionsResolver(inputs,
           'mnemonic',
           () => { return ''; },
@@ -146,35 +173,28 @@ export default class extends Contract {
         this.endpointUrl,
         this.networkType,
         this.generationHash,
-        new MosaicId(ContractConstants.LOCK_MOSAIC)
+        this.network.getCurrency()
       ),
       bip39,
     )
 
     // derive TARGET account
     const target = token.getTarget()
-    let holder: AccountInfo
-    holder = await this.factoryHttp
-      .createAccountRepository()
-      .getAccountInfo(Address.createFromRawAddress(inputs['holder']))
-      .toPromise()
+    const holder = await this.factory.getPublicAccount(inputs['holder'])
 
-    console.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
-    console.log(chalk.red('\t\t    ' + target.privateKey))
+    this.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
+    this.log(chalk.red('\t\t    ' + target.privateKey))
 
-    const holderPartition = token.getPartition(holder.publicAccount, inputs['name'])
+    const holderPartition = token.getPartition(holder, inputs['name'])
 
-    console.log('')
-    console.log(chalk.green('NIP13 Token Holder Partition: ' + holderPartition.address.plain()))
-    console.log(chalk.red('\t\t    ' + holderPartition.privateKey))
+    this.log('')
+    this.log(chalk.green('NIP13 Token Holder Partition: ' + holderPartition.address.plain()))
+    this.log(chalk.red('\t\t    ' + holderPartition.privateKey))
 
     // --------------------------------
     // STEP 3: Execute Contract Actions
     // --------------------------------
-    const params = new TransactionParameters(
-      Deadline.create(),
-      750000, // maxFee
-    )
+    const params = TokenParameters.create()
 
     // transfer shares
     const resultURI: TransactionURI = await token.execute(
@@ -189,13 +209,15 @@ export default class extends Contract {
       ]
     )
 
-    console.log('')
-    console.log(chalk.yellow('Contract URI: ' + resultURI.build()))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow('Contract URI: ' + resultURI.build()))
+    this.log('')
 
     // whether to force execution or ask for next step
     if (!inputs['yes']) {
-      const shouldContinue = readlineSync.keyInYN(
+      // --non-interactive implies --yes
+      const shouldContinue = YesNoResolver(inputs,
+        () => true,
         'Do you want to modify the token level restriction now? ')
 
       if (shouldContinue === false) {
@@ -222,20 +244,20 @@ export default class extends Contract {
     const aggregateTx = transactions.shift()
 
     // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
+    const signedTransaction = await this.getSigner(account, aggregateTx).sign()
 
     // create hash lock (spam protected partial transactions pool)
     const lockFundsTransaction = this.factory.getHashLockTransaction(
       new Mosaic(
-        new MosaicId(ContractConstants.LOCK_MOSAIC),
-        UInt64.fromUint(ContractConstants.LOCK_AMOUNT)
+        this.network.getCurrency(),
+        UInt64.fromUint(this.network.lockAmount)
       ),
-      1000, // 1000 blocks duration
+      this.network.getHashLockDuration(),
       signedTransaction,
     )
 
     // sign hash lock transaction
-    const signedLockFundsTx = this.getSigner(account, lockFundsTransaction).sign()
+    const signedLockFundsTx = await this.getSigner(account, lockFundsTransaction).sign()
 
     // announce the aggregate transaction
     return await this.broadcaster.announcePartial(account.publicAccount, signedLockFundsTx, signedTransaction)
@@ -17,13 +17,14 @@
 import chalk from 'chalk';
 import { command, metadata, option } from 'clime'
 import * as readlineSync from 'readline-sync';
-import { NIP13, NetworkConfig, TransactionParameters, CommandOption } from 'symbol-token-standards'
-import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Deadline, AccountInfo, Address } from 'symbol-sdk'
+import { NIP13, NetworkConfig, CommandOption } from 'symbol-token-standards'
+import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, AccountInfo, Address } from 'symbol-sdk'
 import { MnemonicPassPhrase } from 'symbol-hd-wallets'
 import { TransactionURI } from 'symbol-uri-scheme'
 
-import { OptionsResolver } from '../kernel/OptionsResolver'
-import { Contract, ContractConstants, ContractInputs } from '../kernel/Contract'
+import { OptionsResolver, OptionalResolver, YesNoResolver } from '../kernel/OptionsResolver'
+import { Contract, ContractInputs } from '../kernel/Contract'
+import { TokenParameters } from '../kernel/TokenParameters'
 import {description} from './default'
 
 export class ModifySecurityMetadataInputs extends ContractInputs {
@@ -37,6 +38,34 @@ export class ModifySecurityMetadataInputs extends ContractInputs {
     description: 'Force lock of security token',
   })
   yes: boolean;
+  @option({
+    description: 'Market Identifier Code (Ex.: XNAS)',
+  })
+  mic: string;
+  @option({
+    description: 'ISIN (Ex.: US0378331005)',
+  })
+  isin: string;
+  @option({
+    description: 'Classification (Ex.: ESNTPB)',
+  })
+  classification: string;
+  @option({
+    description: 'Website (Ex.: https://evias.be)',
+  })
+  website: string;
+  @option({
+    description: 'Sector (Ex.: Technology)',
+  })
+  sector: string;
+  @option({
+    description: 'Industry (Ex.: Computer Manufacturing)',
+  })
+  industry: string;
+  @option({
+    description: 'Custom metadata fields (Ex.: SKU=000EVS123,Color=Red)',
+  })
+  customMetadata: string;
 }
 
 @command({
@@ -79,9 +108,20 @@ export default class extends Contract {
    * @return {Promise<any>}
    */
   @metadata
-  async execute(inputs: ModifySecurityMetadataInputs) 
+  async execute(inputs: ModifySecurityMetadataInputs)
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `ModifySecurityMetadata` contract, see execute()
+   *
+   * @param {ModifySecurityMetadataInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: ModifySecurityMetadataInputs)
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -98,65 +138,76 @@ export default class extends Contract {
     // prepare security metadata
     const metadata = new NIP13.TokenMetadata('', '', '', '', '', '', {})
 
-    console.log('')
-    metadata.mic = OptionsResolver(inputs,
+    this.log('')
+    metadata.mic = OptionalResolver(inputs,
       'mic',
-      () => { return ''; },
+      '',
       'Enter a Market Identifier Code (e.g. XNAS): ')
 
-    console.log('')
-    metadata.isin = OptionsResolver(inputs,
+    this.log('')
+    metadata.isin = OptionalResolver(inputs,
       'isin',
-      () => { return ''; },
+      '',
       'Enter an ISIN (e.g. US0378331005): ')
 
-    console.log('')
-    metadata.classification = OptionsResolver(inputs,
+    this.log('')
+    metadata.classification = OptionalResolver(inputs,
       'classification',
-      () => { return ''; },
+      '',
       'Enter a classification (e.g. ESNTPB): ')
 
-    console.log('')
-    metadata.website = OptionsResolver(inputs,
+    this.log('')
+    metadata.website = OptionalResolver(inputs,
       'website',
-      () => { return ''; },
+      '',
       'Enter a website (e.g. https://evias.be): ')
 
-    console.log('')
-    metadata.sector = OptionsResolver(inputs,
+    this.log('')
+    metadata.sector = OptionalResolver(inputs,
       'sector',
-      () => { return ''; },
+      '',
       'Enter a sector (e.g. Technology): ')
 
-    console.log('')
-    metadata.industry = OptionsResolver(inputs,
+    this.log('')
+    metadata.industry = OptionalResolver(inputs,
       'industry',
-      () => { return ''; },
+      '',
       'Enter a industry (e.g. Computer Manufacturing): ')
 
-    console.log('')
-    const useCustomMetadata = readlineSync.keyInYN(
-      'Do you want to enter custom metadata fields? ')
-    if (useCustomMetadata === true) {
-      let continueCustomMetadata: boolean = false
-      do {
-        const key = OptionsResolver(inputs,
-          'customMetadata',
-          () => { return ''; },
-          'Enter a metadata key (e.g. SKU): ')
-
-        const val = OptionsResolver(inputs,
-          'customMetadata',
-          () => { return ''; },
-          'Enter a metadata value (e.g. 000EVS123): ')
+    // custom metadata can be provided with --custom-metadata
+    if (inputs['customMetadata'] && inputs['customMetadata'].length) {
+      inputs['customMetadata'].split(',').forEach((field: string) => {
+        const parts = field.split('=')
+        if (parts.length !== 2) {
+          this.error('Expected key=value pairs in --custom-metadata, Ex.: SKU=000EVS123')
+        }
 
-        metadata.customMetadata[key] = val
-
-        console.log('')
-        continueCustomMetadata = readlineSync.keyInYN(
-          'Do you want to enter another custom metadata field? ')
+        metadata.customMetadata[parts[0].trim()] = parts[1].trim()
+      })
+    }
+    else {
+      this.log('')
+      const useCustomMetadata = YesNoResolver(inputs,
+        () => false,
+        'Do you want to enter custom metadata fields? ')
+      if (useCustomMetadata === true) {
+        let continueCustomMetadata: boolean = false
+        do {
+          const key = readlineSync.question(
+            'Enter a metadata key (e.g. SKU): ')
+
+          const val = readlineSync.question(
+            'Enter a metadata value (e.g. 000EVS123): ')
+
+          metadata.customMetadata[key] = val
+
+          this.log('')
+          continueCustomMetadata = YesNoResolver(inputs,
+            () => false,
+            'Do you want to enter another custom metadata field? ')
+        }
+        while (continueCustomMetadata === true)
       }
-      while (continueCustomMetadata === true)
     }
 
     // --------------------------------
@@ -166,7 +217,7 @@ export default class extends Contract {
     // always re-use bip39 mnemonic
     let bip39: MnemonicPassPhrase
     if (!inputs['mnemonic']) {
-      console.log('')
+      this.log('')
       bip39 = new MnemonicPassPhrase(OptionsResolver(inputs,
           'mnemonic',
           () => { return ''; },
@@ -179,7 +230,7 @@ export default class extends Contract {
         this.endpointUrl,
         this.networkType,
         this.generationHash,
-        new MosaicId(ContractConstants.LOCK_MOSAIC)
+        this.network.getCurrency()
       ),
       bip39,
     )
@@ -187,16 +238,13 @@ export default class extends Contract {
     // derive TARGET account
     const target = token.getTarget()
 
-    console.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
-    console.log(chalk.red('\t\t    ' + target.privateKey))
+    this.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
+    this.log(chalk.red('\t\t    ' + target.privateKey))
 
     // --------------------------------
     // STEP 3: Execute Contract Actions
     // --------------------------------
-    const params = new TransactionParameters(
-      Deadline.create(),
-      750000, // maxFee
-    )
+    const params = TokenParameters.create()
 
     // transfer shares
     const resultURI: TransactionURI = await token.execute(
@@ -209,13 +257,15 @@ export default class extends Contract {
       ]
     )
 
-    console.log('')
-    console.log(chalk.yellow('Contract URI: ' + resultURI.build()))
-    console.log('')
+    this.log('')
+    this.log(chalk.yellow('Contract URI: ' + resultURI.build()))
+    this.log('')
 
     // whether to force execution or ask for next step
     if (!inputs['yes']) {
-      const shouldContinue = readlineSync.keyInYN(
+      // --non-interactive implies --yes
+      const shouldContinue = YesNoResolver(inputs,
+        () => true,
         'Do you want to lock the token holder partition now? ')
 
       if (shouldContinue === false) {
@@ -242,20 +292,20 @@ export default class extends Contract {
     const aggregateTx = transactions.shift()
 
     // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
+    const signedTransaction = await this.getSigner(account, aggregateTx).sign()
 
     // create hash lock (spam protected partial transactions pool)
     const lockFundsTransaction = this.factory.getHashLockTransaction(
       new Mosaic(
-        new MosaicId(ContractConstants.LOCK_MOSAIC),
-        UInt64.fromUint(ContractConstants.LOCK_AMOUNT)
+        this.network.getCurrency(),
+        UInt64.fromUint(this.network.lockAmount)
       ),
-      1000, // 1000 blocks duration
+      this.network.getHashLockDuration(),
       signedTransaction,
     )
 
     // sign hash lock transaction
-    const signedLockFundsTx = this.getSigner(account, lockFundsTransaction).sign()
+    const signedLockFundsTx = await this.getSigner(account, lockFundsTransaction).sign()
 
     // announce the aggregate transaction
     return await this.broadcaster.announcePartial(account.publicAccount, signedLockFundsTx, signedTransaction)
@@ -15,14 +15,10 @@
  * limitations under the License.
  */
 import {command, metadata, option} from 'clime';
-import {
-    Account,
-    Transaction,
-    NamespaceId,
-} from 'symbol-sdk';
 
 import {OptionsResolver} from '../kernel/OptionsResolver';
-import {Contract, ContractConstants, ContractInputs} from '../kernel/Contract';
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {openTimestamp, OpenTimestampResult} from '../library/OpenTimestamp';
 import {description} from './default'
 
 export class OpenTimestampInputs extends ContractInputs {
@@ -68,13 +64,24 @@ export default class extends Contract {
    * that needs to be stamped. The timestamp of the execution
    * is also saved on-chain in the message field.
    *
-   * @param {PartialCosignatureInputs} inputs
-   * @return {Promise<any>}
+   * @param {OpenTimestampInputs} inputs
+   * @return {Promise<OpenTimestampResult>}
    */
   @metadata
-  async execute(inputs: OpenTimestampInputs) 
+  async execute(inputs: OpenTimestampInputs): Promise<OpenTimestampResult>
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `OpenTimestamp` contract, see execute()
+   *
+   * @param {OpenTimestampInputs} inputs
+   * @return {Promise<OpenTimestampResult>}
+   */
+  protected async run(inputs: OpenTimestampInputs): Promise<OpenTimestampResult>
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -93,54 +100,15 @@ export default class extends Contract {
         'data',
         () => { return ''; },
         '\nEnter the data that you want to timestamp publicly: ');
-    } catch (err) { this.error('Please, enter a data set.'); }
+    } catch (err) { this.error('Please, enter a data set.', err); }
 
     // --------------------------------
-    // STEP 2: Prepare Contract Actions
+    // STEP 2: Execute Contract Actions
     // --------------------------------
 
-    const account = argv['account']
-
-    // Contract Action #1: create DTO
-    const timestampDTO = JSON.stringify({
-      'timestamp': (new Date()).valueOf(),
-      'data': inputs['data']
-    })
-
-    // Contract Action #2: create transfer transaction
-    const timestampTransfer = this.factory.getTransferTransaction(
-      account.address, // sent to self
-      new NamespaceId('symbol.xym'),
-      0,
-      timestampDTO, // attach DTO to transfer message
-    );
-
-    // --------------------------------
-    // STEP 3: Execute Contract Actions
-    // --------------------------------
-
-    // sign transaction and broadcast
-    return await this.executeContract(account, [timestampTransfer])
-  }
-
-  /**
-   * Execute a smart contract's transactions
-   *
-   * @param {Account}       account 
-   * @param {Transaction[]} transactions
-   * @return {Promise<any>}
-   */
-  protected async executeContract(
-    account: Account,
-    transactions: Transaction[]
-  ): Promise<any> {
-    // shortcut
-    const unsignedTransaction = transactions.shift()
-
-    // sign the transfer transaction with `account`
-    const signedTransaction = this.getSigner(account, unsignedTransaction).sign()
-
-    // announce the aggregate transaction
-    return await this.broadcaster.announce(account.publicAccount, signedTransaction)
+    // sign and broadcast with the library API
+    return await openTimestamp({
+      data: inputs['data'],
+    }, this)
   }
 }
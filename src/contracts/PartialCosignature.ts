@@ -17,17 +17,18 @@
 import {command, metadata, option} from 'clime';
 import chalk from 'chalk';
 import { from as observableFrom } from 'rxjs'
-import { filter, map, mergeMap } from 'rxjs/operators'
+import { filter, mergeMap } from 'rxjs/operators'
 import {
-    Account,
     Transaction,
     AggregateTransaction,
+    PublicAccount,
     AccountHttp,
     CosignatureSignedTransaction,
 } from 'symbol-sdk';
 
-import {OptionsResolver} from '../kernel/OptionsResolver';
+import {OptionalResolver, YesNoResolver} from '../kernel/OptionsResolver';
 import {Contract, ContractInputs} from '../kernel/Contract';
+import {TransactionBundle} from '../kernel/TransactionBundle';
 import {description} from './default'
 
 export class PartialCosignatureInputs extends ContractInputs {
@@ -36,6 +37,11 @@ export class PartialCosignatureInputs extends ContractInputs {
     description: 'Partial transaction hash (parent hash / aggregate transaction hash)',
   })
   hash: string;
+  @option({
+    flag: 'f',
+    description: 'Prepared transaction bundle to co-sign instead of reading from the network (see Prepare)',
+  })
+  file: string;
 }
 
 @command({
@@ -43,6 +49,12 @@ export class PartialCosignatureInputs extends ContractInputs {
 })
 export default class extends Contract {
 
+  /**
+   * The prepared transaction bundle (--file)
+   * @var {TransactionBundle}
+   */
+  protected bundle: TransactionBundle
+
   constructor() {
       super();
   }
@@ -65,6 +77,16 @@ export default class extends Contract {
     return true
   }
 
+  /**
+   * Returns whether the contract can be executed offline,
+   * only prepared transaction bundles can be co-signed offline
+   *
+   * @return {boolean}
+   */
+  public supportsOffline(): boolean {
+    return undefined !== this.bundle
+  }
+
   /**
    * Execution routine for the `PartialCosignature` smart contract.
    *
@@ -72,14 +94,37 @@ export default class extends Contract {
    * This contract sends a cosignature transaction for 1 or more
    * unsigned partial transactions. If the end-user does not pass
    * a transaction hash, all unsigned transactions will be co-signed.
+   * With a prepared transaction bundle (--file), the aggregate
+   * transaction of the bundle is co-signed instead.
    *
    * @param {PartialCosignatureInputs} inputs
    * @return {Promise<any>}
    */
   @metadata
-  async execute(inputs: PartialCosignatureInputs) 
+  async execute(inputs: PartialCosignatureInputs)
+  {
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `PartialCosignature` contract, see execute()
+   *
+   * @param {PartialCosignatureInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: PartialCosignatureInputs)
   {
-    console.log(description)
+    this.log(description)
+
+    // prepared bundles are read before configuring (--offline)
+    if (inputs.hasOwnProperty('file') && inputs['file'] && inputs['file'].length) {
+      try {
+        this.bundle = TransactionBundle.load(inputs['file'])
+      }
+      catch (e) {
+        this.error(e.message)
+      }
+    }
 
     let argv: ContractInputs
     try {
@@ -89,15 +134,20 @@ export default class extends Contract {
       this.error(e)
     }
 
+    // co-sign the aggregate transaction of a prepared bundle
+    if (undefined !== this.bundle) {
+      return await this.executeBundle(inputs, argv['account'], this.bundle)
+    }
+
     // -------------------
     // STEP 1: Read Inputs
     // -------------------
     try {
-      inputs['hash'] = OptionsResolver(inputs,
+      inputs['hash'] = OptionalResolver(inputs,
         'hash',
-        () => { return ''; },
+        '',
         'Enter a transaction hash (partial transaction hash) or leave empty (will co-sign any partial transactions): ');
-    } catch (err) { this.error('Please, enter a valid transaction hash.'); }
+    } catch (err) { this.error('Please, enter a valid transaction hash.', err); }
 
     // --------------------------------
     // STEP 2: Prepare Contract Actions
@@ -111,36 +161,87 @@ export default class extends Contract {
     // --------------------------------
 
     // read aggregate-bonded transactions
-    let unsignedTxes = await accountHttp.getAccountPartialTransactions(cosignatory.publicAccount.address).toPromise();
+    let unsignedTxes = await accountHttp.getAccountPartialTransactions(cosignatory.address).toPromise();
 
     if (! unsignedTxes.length) {
-      console.log('')
-      console.log(chalk.yellow("No transactions found to co-sign."));
-      console.log('')
+      this.log('')
+      this.log(chalk.yellow("No transactions found to co-sign."));
+      this.log('')
       return ; // contract not executed
     }
 
     return await this.executeContract(cosignatory, unsignedTxes)
   }
 
+  /**
+   * Co-sign the aggregate transaction of a prepared bundle
+   *
+   * @param {PartialCosignatureInputs} inputs
+   * @param {PublicAccount}            account
+   * @param {TransactionBundle}        bundle
+   * @return {Promise<any>}
+   */
+  protected async executeBundle(
+    inputs: PartialCosignatureInputs,
+    account: PublicAccount,
+    bundle: TransactionBundle,
+  ): Promise<any> {
+    if (! bundle.isPrepared()) {
+      this.error('The transaction bundle does not contain a transaction to co-sign.')
+    }
+
+    this.validateBundle(bundle)
+
+    let transaction: AggregateTransaction
+    try {
+      transaction = bundle.getUnsignedTransaction()
+    }
+    catch (e) {
+      this.error('The transaction bundle contains an invalid transaction payload.', e)
+    }
+
+    // display what is being co-signed
+    const initiator = PublicAccount.createFromPublicKey(bundle.signerPublicKey, this.networkType)
+    this.log('')
+    this.log(chalk.yellow('Aggregate Transaction Hash: ' + bundle.getUnsignedHash()))
+    this.log(chalk.yellow('Initiated by:               ' + initiator.address.plain()))
+    transaction.innerTransactions.forEach((inner, i) => {
+      this.log('\tTransaction #' + (i+1) + ': type ' + inner.type + ' signed by ' + inner.signer.address.plain())
+    })
+
+    this.log('')
+    // --non-interactive implies --yes
+    const shouldContinue = YesNoResolver(inputs,
+      () => true,
+      'Do you want to co-sign this transaction now? ')
+
+    if (shouldContinue === false) {
+      return ;
+    }
+
+    // the payload is co-signed as is, its hash covers the initiator's signature
+    const signedSignature = await this.getSigner(account, transaction).cosignPayload(bundle.unsignedPayload)
+    return await this.broadcaster.announceCosignature(account, signedSignature)
+  }
+
   /**
    * Execute a smart contract's transactions
    *
-   * @param {Account}       account 
+   * @param {PublicAccount} account 
    * @param {Transaction[]} transactions
    * @return {Promise<any>}
    */
   protected async executeContract(
-    account: Account,
+    account: PublicAccount,
     transactions: Transaction[]
   ): Promise<any> {
     return observableFrom(transactions).pipe(
-      filter((_: AggregateTransaction) => !_.signedByAccount(account.publicAccount)),
-      map((transaction: AggregateTransaction) => this.getSigner(account, transaction)
-                                                     .cosignAggregate(account),
+      filter((_: AggregateTransaction) => !_.signedByAccount(account)),
+      mergeMap((transaction: AggregateTransaction) => this.getSigner(account, transaction)
+                                                          .cosignAggregate()),
       mergeMap((signedSignature: CosignatureSignedTransaction) => {
-        return this.broadcaster.announceCosignature(account.publicAccount, signedSignature);
+        return this.broadcaster.announceCosignature(account, signedSignature);
       })
-    )).toPromise()
+    ).toPromise()
   }
 }
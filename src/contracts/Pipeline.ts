@@ -0,0 +1,170 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {Command, ExpectedError, command, metadata, option, param, params} from 'clime';
+import * as fs from 'fs';
+
+import {ContractInputs} from '../kernel/Contract';
+import {ContractResult} from '../kernel/ContractResult';
+import {Logger} from '../kernel/Logger';
+import {ContractProcess} from '../kernel/ContractProcess';
+import {Journal} from '../kernel/Journal';
+import {Pipeline} from '../kernel/Pipeline';
+import {PipelineRunner, PipelineReport, PipelineStepReport} from '../kernel/PipelineRunner';
+import {description} from './default'
+
+export class PipelineInputs extends ContractInputs {
+  @option({
+    description: 'Write the pipeline report (JSON) to this file',
+  })
+  report: string;
+}
+
+/**
+ * The options of the pipeline that are not passed to the steps
+ *
+ * @var {string[]}
+ */
+const PIPELINE_OPTIONS: string[] = ['report', 'output', 'outputFile', 'nonInteractive']
+
+@command({
+  description: 'Execute the contract steps of a pipeline file in order',
+})
+export default class extends Command {
+  /**
+   * Where human output is written, the standard
+   * error with `--output json`
+   * @var {Logger}
+   */
+  protected logger: Logger = new Logger()
+
+  /**
+   * Execution routine for the `Pipeline` command.
+   *
+   * @description This command executes the steps of a pipeline
+   * one after the other, each step waits for the confirmation of
+   * the previous one. Steps reference the results of previous
+   * steps with placeholders (Ex.: ${steps.create.tokenId}). The
+   * pipeline stops at the first step that fails.
+   *
+   * @param {string}          file
+   * @param {string[]}        values
+   * @param {PipelineInputs}  inputs
+   * @return {Promise<any>}
+   */
+  @metadata
+  async execute(
+    @param({
+      description: 'Pipeline file (.json, .yml or .yaml)',
+      required: true,
+    })
+    file: string,
+    @params({
+      type: String,
+      description: 'Variable values (Ex.: holder=TB6QOV...)',
+    })
+    values: string[],
+    inputs: PipelineInputs,
+  ) {
+    this.logger = Logger.create(inputs['output'])
+    this.logger.log(description)
+
+    const pipeline = Pipeline.load(file)
+    const variables = values.reduce((resolved, value) => {
+      const separator = value.indexOf('=')
+      if (separator <= 0) {
+        throw new ExpectedError('Expected variable values as name=value, got ' + value + '.')
+      }
+
+      return Object.assign(resolved, { [value.substr(0, separator)]: value.substr(separator + 1) })
+    }, {})
+
+    // fails early with missing variables
+    pipeline.resolveVariables(variables)
+
+    // options of the pipeline command are passed to every step
+    const options = Object.keys(inputs)
+      .filter((key) => ! PIPELINE_OPTIONS.includes(key))
+      .reduce((step, key) => Object.assign(step, { [key]: inputs[key] }), {})
+
+    // the keystore password is read once for all steps
+    const env = ContractProcess.getEnvironment(inputs)
+    const runner = new PipelineRunner(pipeline, variables, options, env)
+    const total = pipeline.steps.length
+
+    this.logger.log('')
+    this.logger.log(chalk.yellow('Executing pipeline \'' + pipeline.name + '\' (' + total + ' steps)'))
+
+    let index = 0
+    const report = await runner.run((step: PipelineStepReport) => {
+      const line = '\tStep ' + (++index) + '/' + total + ' ' + step.id + ' (' + step.contract + '): '
+                 + step.status + (step.hash ? ' ' + step.hash : '')
+
+      if (PipelineRunner.SUCCEEDED.includes(step.status)) {
+        this.logger.log(chalk.green(line))
+      }
+      else {
+        this.logger.log(chalk.red(line + (step.error ? ': ' + step.error : '')))
+      }
+    })
+
+    if (inputs['report']) {
+      fs.writeFileSync(inputs['report'], JSON.stringify(report, null, 2) + '\n')
+    }
+
+    this.printReport(report, inputs)
+
+    if (report.status !== Journal.COMPLETED) {
+      const failed = report.steps.find((step) => ! PipelineRunner.SUCCEEDED.includes(step.status))
+      throw new ExpectedError('The pipeline stopped at step \'' + failed.id + '\' (' + failed.contract + '): '
+                            + (failed.error || 'the step ended with status ' + failed.status + '.'))
+    }
+  }
+
+  /**
+   * Display the steps that were not executed, or
+   * the full report with --output json
+   *
+   * @param {PipelineReport}  report
+   * @param {PipelineInputs}  inputs
+   * @return {void}
+   */
+  protected printReport(
+    report: PipelineReport,
+    inputs: PipelineInputs,
+  ): void {
+    if (inputs['output'] === ContractResult.FORMAT_JSON) {
+      process.stdout.write(JSON.stringify(report, null, 2) + '\n')
+      return ;
+    }
+
+    const skipped = report.steps.filter((step) => step.status === Journal.NOT_EXECUTED)
+    if (skipped.length) {
+      this.logger.log(chalk.yellow('\tNot executed: ' + skipped.map((step) => step.id + ' (' + step.contract + ')').join(', ')))
+    }
+
+    this.logger.log('')
+    if (report.status === Journal.COMPLETED) {
+      this.logger.log(chalk.green('Pipeline \'' + report.name + '\' completed'))
+    }
+
+    if (inputs['report']) {
+      this.logger.log(chalk.green('Pipeline report written to: ' + inputs['report']))
+    }
+    this.logger.log('')
+  }
+}
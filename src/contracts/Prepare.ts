@@ -0,0 +1,224 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {command, metadata, option} from 'clime';
+import chalk from 'chalk';
+import * as Path from 'path';
+import {
+    Account,
+    Address,
+    Transaction,
+    AggregateTransaction,
+    AccountHttp,
+} from 'symbol-sdk';
+
+import {OptionsResolver, OptionalResolver} from '../kernel/OptionsResolver';
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {TransactionBundle} from '../kernel/TransactionBundle';
+import {description} from './default'
+
+export class PrepareInputs extends ContractInputs {
+  @option({
+    flag: 'c',
+    description: 'Cosignatory account address or public key',
+  })
+  cosigner: string;
+  @option({
+    flag: 'h',
+    description: 'Partial transaction hash (parent hash / aggregate transaction hash)',
+  })
+  hash: string;
+}
+
+@command({
+  description: 'Export a partial transaction to be co-signed on an air-gapped host',
+})
+export default class extends Contract {
+
+  constructor() {
+      super();
+  }
+
+  /**
+   * Get the name of the contract
+   *
+   * @return {string}
+   */
+  public getName(): string {
+    return 'Prepare'
+  }
+
+  /**
+   * Returns whether the contract requires authentication
+   *
+   * @return {boolean}
+   */
+  public requiresAuth(): boolean {
+    return false
+  }
+
+  /**
+   * Returns whether the contract can be executed offline
+   *
+   * @return {boolean}
+   */
+  public supportsOffline(): boolean {
+    return false
+  }
+
+  /**
+   * Execution routine for the `Prepare` command.
+   *
+   * @description This command reads an aggregate bonded transaction
+   * that waits for the co-signature of `--cosigner` and writes it,
+   * unsigned, to a transaction bundle. The bundle can be co-signed
+   * offline with `PartialCosignature --file` and the co-signature
+   * announced with `Broadcast`.
+   *
+   * @param {PrepareInputs} inputs
+   * @return {Promise<any>}
+   */
+  @metadata
+  async execute(inputs: PrepareInputs)
+  {
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `Prepare` contract, see execute()
+   *
+   * @param {PrepareInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: PrepareInputs)
+  {
+    this.log(description)
+
+    let argv: ContractInputs
+    try {
+      argv = await this.configure(inputs)
+    }
+    catch (e) {
+      this.error(e)
+    }
+
+    // -------------------
+    // STEP 1: Read Inputs
+    // -------------------
+
+    let cosigner: Address
+    try {
+      inputs['cosigner'] = OptionsResolver(inputs,
+        'cosigner',
+        () => { return ''; },
+        'Enter the cosignatory account address or public key: ');
+
+      cosigner = (await this.factory.getPublicAccount(inputs['cosigner'])).address
+    } catch (err) { this.error('Please, enter a valid cosignatory account.', err); }
+
+    try {
+      inputs['hash'] = OptionalResolver(inputs,
+        'hash',
+        '',
+        'Enter a transaction hash (partial transaction hash) or leave empty (requires exactly one partial transaction): ');
+    } catch (err) { this.error('Please, enter a valid transaction hash.', err); }
+
+    // --------------------------------
+    // STEP 2: Prepare Contract Actions
+    // --------------------------------
+
+    // read aggregate-bonded transactions
+    const accountHttp = new AccountHttp(this.endpointUrl)
+    const partials = (await accountHttp.getAccountPartialTransactions(cosigner).toPromise())
+      .filter((transaction: AggregateTransaction) => ! inputs['hash']
+        || transaction.transactionInfo.hash.toUpperCase() === inputs['hash'].toUpperCase())
+
+    if (! partials.length) {
+      this.error('No partial transaction found to co-sign for ' + cosigner.plain() + '.')
+    }
+    else if (partials.length > 1) {
+      this.log('')
+      partials.forEach((transaction) => this.log('\t' + transaction.transactionInfo.hash))
+      this.error('Found ' + partials.length + ' partial transactions, please provide --hash.')
+    }
+
+    // --------------------------------
+    // STEP 3: Execute Contract Actions
+    // --------------------------------
+
+    const transaction = partials.shift()
+    const bundle = new TransactionBundle(
+      this.getName(),
+      this.networkType,
+      this.generationHash,
+      transaction.signer.publicKey,
+      undefined,
+      undefined,
+      [],
+      this.getSignedPayload(transaction),
+    )
+
+    // the payload must match the transaction that was announced
+    if (bundle.getUnsignedHash() !== transaction.transactionInfo.hash.toUpperCase()) {
+      this.error('The partial transaction ' + transaction.transactionInfo.hash + ' could not be serialized.')
+    }
+
+    const path = this.getOutputFile(inputs) || Path.join(process.cwd(), this.getName() + '-' + transaction.transactionInfo.hash.substr(0, 8) + '.json')
+
+    try {
+      bundle.save(path)
+    }
+    catch (e) {
+      this.error('The transaction bundle could not be written to ' + path + ': ' + e.message)
+    }
+
+    this.log('')
+    this.log(chalk.green('Partial transaction ' + transaction.transactionInfo.hash + ' prepared'))
+    this.log(chalk.green('Unsigned transaction written to: ' + path))
+    this.log('')
+  }
+
+  /**
+   * Serialize a partial transaction including the signature
+   * and public key of its initiator
+   *
+   * @param {AggregateTransaction} transaction
+   * @return {string}
+   */
+  private getSignedPayload(transaction: AggregateTransaction): string {
+    // the SDK serializes transactions unsigned: size (4 bytes), reserved
+    // (4 bytes), signature (64 bytes) and signer (32 bytes) come first
+    const payload = transaction.serialize()
+    return payload.substr(0, 16)
+         + transaction.signature
+         + transaction.signer.publicKey
+         + payload.substr(16 + 128 + 64)
+  }
+
+  /**
+   * Execute a smart contract's transactions
+   *
+   * @param {Account}       account 
+   * @param {Transaction[]} transactions
+   * @return {Promise<any>}
+   */
+  protected async executeContract(
+    account: Account,
+    transactions: Transaction[]
+  ): Promise<any> {
+    return true
+  }
+}
@@ -17,20 +17,13 @@
 import {command, metadata, option, ExpectedError} from 'clime';
 import {
     UInt64,
-    Account,
-    Deadline,
-    Transaction,
-    AggregateTransaction,
     NamespaceId,
-    PublicAccount,
-    AccountHttp,
-    Address,
     Mosaic,
-    AccountInfo,
 } from 'symbol-sdk';
 
 import {OptionsResolver} from '../kernel/OptionsResolver';
-import {Contract, ContractConstants, ContractInputs} from '../kernel/Contract';
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {requestAsset, RequestAssetResult} from '../library/RequestAsset';
 import {description} from './default'
 
 export class RequestAssetInputs extends ContractInputs {
@@ -41,7 +34,7 @@ export class RequestAssetInputs extends ContractInputs {
   asset: string;
   @option({
     flag: 'f',
-    description: 'Account address of the recipient of the asset request',
+    description: 'Account address or public key of the recipient of the asset request',
   })
   from: string;
   @option({
@@ -56,18 +49,6 @@ export class RequestAssetInputs extends ContractInputs {
 })
 export default class extends Contract {
 
-  /**
-   * The asset used for the spam protection lock
-   * @var {string} 
-   */
-  protected lockAsset: string = 'symbol.xym'
-
-  /**
-   * The absolute lock amount
-   * @var {number} 
-   */
-  protected lockAmount: number = 10 * 1000000
-
   constructor() {
       super();
   }
@@ -99,12 +80,23 @@ export default class extends Contract {
    * by the recipient of the request (--from).
    *
    * @param {RequestAssetInputs} inputs
-   * @return {Promise<any>}
+   * @return {Promise<RequestAssetResult>}
    */
   @metadata
-  async execute(inputs: RequestAssetInputs) 
+  async execute(inputs: RequestAssetInputs): Promise<RequestAssetResult>
   {
-    console.log(description)
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `RequestAsset` contract, see execute()
+   *
+   * @param {RequestAssetInputs} inputs
+   * @return {Promise<RequestAssetResult>}
+   */
+  protected async run(inputs: RequestAssetInputs): Promise<RequestAssetResult>
+  {
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -122,116 +114,44 @@ export default class extends Contract {
       inputs['asset'] = OptionsResolver(inputs,
         'asset',
         () => { return ''; },
-        '\nEnter an amount and mosaic that will be requested (Ex.: 10 symbol.xym): ');
+        '\nEnter an amount and mosaic that will be requested (Ex.: 10 ' + this.network.getCurrencyName() + '): ');
 
       const parts = inputs['asset'].split(' ')
       if (parts.length != 2) {
-        throw new ExpectedError('Expected an amount and mosaic, Ex.: 10 symbol.xym')
+        throw new ExpectedError('Expected an amount and mosaic, Ex.: 10 ' + this.network.getCurrencyName())
       }
 
       inputs['r_amount'] = parseInt(parts[0])
       inputs['r_asset']  = parts[1]
-    } catch (err) { this.error('Please, enter a valid mosaic entry in asset1.'); }
+    } catch (err) { this.error('Please, enter a valid mosaic entry in asset1.', err); }
 
     try {
       inputs['from'] = OptionsResolver(inputs,
         'from',
         () => { return ''; },
-        'Enter a taker account address (Sender of mosaic): ');
-    } catch (err) { this.error('Please, enter a valid account address.'); }
+        'Enter a taker account address or public key (Sender of mosaic): ');
+    } catch (err) { this.error('Please, enter a valid account address.', err); }
 
     // lock asset can be overwritten with --lock or -l
+    let lock: Mosaic
     if (inputs.hasOwnProperty('lock') && inputs['lock'] && inputs['lock'].length) {
       const parts = inputs['lock'].split(' ')
       if (parts.length != 2) {
-        throw new ExpectedError('Expected an amount and mosaic in --lock, Ex.: 10 symbol.xym')
+        throw new ExpectedError('Expected an amount and mosaic in --lock, Ex.: 10 ' + this.network.getCurrencyName())
       }
 
-      this.lockAmount = parseInt(parts[0]) * 1000000 // divisibility = 6
-      this.lockAsset  = parts[1]
+      lock = new Mosaic(new NamespaceId(parts[1]), UInt64.fromUint(this.network.toAbsolute(parseInt(parts[0]))))
     }
 
     // --------------------------------
-    // STEP 2: Prepare Contract Actions
+    // STEP 2: Execute Contract Actions
     // --------------------------------
 
-    const accountHttp = new AccountHttp(this.endpointUrl)
-    const recipient   = argv['account']
-    const sender      = Address.createFromRawAddress(inputs['from'])
-
-    // recipient account must be known on the network
-    let senderPubAccount: PublicAccount
-    let accountInfo: AccountInfo
-    try {
-      accountInfo = await accountHttp.getAccountInfo(sender).toPromise()
-      const unknownPub  = '0000000000000000000000000000000000000000000000000000000000000000'
-      if (accountInfo.publicKey === unknownPub) {
-        throw new ExpectedError('The sender account (--from) is unknown on this network.')
-      }
-
-      // instantiate public account to be able to prepare aggregate transaction
-      senderPubAccount = PublicAccount.createFromPublicKey(accountInfo.publicKey, this.networkType)
-    } catch (err) { this.error('The sender account (--from) is unknown on this network.') }
-
-    // ---------------------------------
-    // STEP 3: Validate Contract Actions
-    // ---------------------------------
-
-    // Contract Action #1: create the requested transfer
-    const requestedTransfer = this.factory.getTransferTransaction(
-      recipient.address,
-      new NamespaceId(inputs['r_asset']),
-      inputs['r_amount'],
-      'nem2-smart-contracts pull request',
-    );
-
-    // --------------------------------
-    // STEP 3: Execute Contract Actions
-    // --------------------------------
-
-    // Contract Execution: merge transactions and execute contract
-    const allTxes = [
-      requestedTransfer.toAggregate(senderPubAccount),
-    ];
-
-    // wrap all transactions in an aggregate, sign and broadcast
-    return await this.executeContract(recipient, allTxes)
-  }
-
-  /**
-   * Execute a smart contract's transactions
-   *
-   * @param {Account}       account 
-   * @param {Transaction[]} transactions
-   * @return {Promise<any>}
-   */
-  protected async executeContract(
-    account: Account,
-    transactions: Transaction[]
-  ): Promise<any> {
-    // wrap contract transactions
-    const aggregateTx = AggregateTransaction.createBonded(
-      Deadline.create(),
-      transactions,
-      this.networkType,
-      [],
-      UInt64.fromUint(ContractConstants.DEFAULT_AGGREGATE_FEE)
-    );
-
-    // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
-
-    // create hash lock (spam protected partial transactions pool)
-    const lockFundsTransaction = this.factory.getHashLockTransaction(
-      new Mosaic(new NamespaceId(this.lockAsset), UInt64.fromUint(this.lockAmount)),
-      1000, // 1000 blocks duration
-      signedTransaction,
-    )
-
-    // sign hash lock transaction
-    const signedLockFundsTx = this.getSigner(account, lockFundsTransaction).sign()
-
-    // announce the aggregate transaction
-    return await this.broadcaster.announcePartial(account.publicAccount, signedLockFundsTx, signedTransaction)
+    // sign and broadcast with the library API
+    return await requestAsset({
+      from: inputs['from'],
+      asset: { amount: inputs['r_amount'], mosaic: inputs['r_asset'] },
+      lock,
+    }, this)
   }
 }
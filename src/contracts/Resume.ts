@@ -0,0 +1,173 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {command, metadata, option} from 'clime';
+import chalk from 'chalk';
+import {
+    Account,
+    Transaction,
+    PublicAccount,
+} from 'symbol-sdk';
+
+import {OptionsResolver} from '../kernel/OptionsResolver';
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {TransactionBundle} from '../kernel/TransactionBundle';
+import {description} from './default'
+
+export class ResumeInputs extends ContractInputs {
+  @option({
+    flag: 'h',
+    description: 'Aggregate transaction hash, or hash prefix, of the interrupted execution',
+  })
+  hash: string;
+}
+
+@command({
+  description: 'Resume an interrupted bonded contract execution',
+})
+export default class extends Contract {
+
+  constructor() {
+      super();
+  }
+
+  /**
+   * Get the name of the contract
+   *
+   * @return {string}
+   */
+  public getName(): string {
+    return 'Resume'
+  }
+
+  /**
+   * Returns whether the contract requires authentication
+   *
+   * @return {boolean}
+   */
+  public requiresAuth(): boolean {
+    return false
+  }
+
+  /**
+   * Returns whether the contract can be executed offline
+   *
+   * @return {boolean}
+   */
+  public supportsOffline(): boolean {
+    return false
+  }
+
+  /**
+   * Execution routine for the `Resume` command.
+   *
+   * @description This command resumes a bonded execution that was
+   * interrupted between the hash lock and the aggregate bonded
+   * transaction. The signed transactions are saved before they are
+   * announced, the aggregate is announced again when its hash lock
+   * is confirmed but the aggregate is missing from the partial pool.
+   * Executions whose hash lock expired are reported and forgotten.
+   *
+   * @param {ResumeInputs} inputs
+   * @return {Promise<any>}
+   */
+  @metadata
+  async execute(inputs: ResumeInputs)
+  {
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `Resume` contract, see execute()
+   *
+   * @param {ResumeInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: ResumeInputs)
+  {
+    this.log(description)
+
+    let argv: ContractInputs
+    try {
+      argv = await this.configure(inputs)
+    }
+    catch (e) {
+      this.error(e)
+    }
+
+    // -------------------
+    // STEP 1: Read Inputs
+    // -------------------
+
+    const store = this.pendingStore
+    const pending = store.all().filter((bundle) => bundle.networkType === this.networkType
+      && bundle.generationHash.toUpperCase() === this.generationHash.toUpperCase())
+
+    if (! pending.length) {
+      this.log('')
+      this.log(chalk.yellow('No interrupted executions found in ' + store.path + '.'))
+      this.log('')
+      return ; // contract not executed
+    }
+
+    this.log('')
+    this.log(chalk.yellow('Interrupted executions:'))
+    pending.forEach((bundle) => {
+      const signer = PublicAccount.createFromPublicKey(bundle.signerPublicKey, this.networkType)
+      this.log('\t' + bundle.transaction.hash + ': ' + bundle.contract + ' signed by ' + signer.address.plain())
+    })
+    this.log('')
+
+    let bundle: TransactionBundle
+    try {
+      inputs['hash'] = OptionsResolver(inputs,
+        'hash',
+        () => { return pending.length === 1 ? pending[0].transaction.hash : ''; },
+        'Enter the aggregate transaction hash of the execution to resume: ');
+
+      bundle = store.load(inputs['hash'])
+    } catch (err) { this.error('Please, enter the hash of an interrupted execution.', err); }
+
+    // ---------------------------------
+    // STEP 2: Validate Contract Actions
+    // ---------------------------------
+
+    this.validateBundle(bundle)
+
+    this.log(chalk.yellow('Resuming \'' + bundle.contract + '\' execution ' + bundle.transaction.hash))
+
+    // --------------------------------
+    // STEP 3: Execute Contract Actions
+    // --------------------------------
+
+    const signer = PublicAccount.createFromPublicKey(bundle.signerPublicKey, this.networkType)
+    return await this.broadcaster.resumePartial(signer, bundle.hashLock, bundle.transaction)
+  }
+
+  /**
+   * Execute a smart contract's transactions
+   *
+   * @param {Account}       account 
+   * @param {Transaction[]} transactions
+   * @return {Promise<any>}
+   */
+  protected async executeContract(
+    account: Account,
+    transactions: Transaction[]
+  ): Promise<any> {
+    return true
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {command, metadata, param, params} from 'clime';
+import chalk from 'chalk';
+
+import {OptionsResolver, MissingInputError} from '../kernel/OptionsResolver';
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {ContractManifest} from '../kernel/ContractManifest';
+import {executeManifest, ExecuteManifestResult} from '../library/ExecuteManifest';
+import {description} from './default'
+
+@command({
+  description: 'Execute a contract declared in a JSON or YAML manifest',
+})
+export default class extends Contract {
+
+  /**
+   * The manifest of the executed contract
+   * @var {ContractManifest}
+   */
+  protected manifest: ContractManifest
+
+  constructor() {
+      super();
+  }
+
+  /**
+   * Get the name of the contract, the name of the
+   * manifest once it is loaded
+   *
+   * @return {string}
+   */
+  public getName(): string {
+    return undefined !== this.manifest ? this.manifest.name : 'Run'
+  }
+
+  /**
+   * Returns whether the contract requires authentication
+   *
+   * @return {boolean}
+   */
+  public requiresAuth(): boolean {
+    return true
+  }
+
+  /**
+   * Execution routine for the `Run` command.
+   *
+   * @description This command loads a manifest that declares the
+   * inputs of a contract, its inner transactions with the role that
+   * signs each of them, and its aggregate mode. Inputs are read from
+   * `name=value` arguments or prompted for, then the transactions
+   * are built, wrapped in the aggregate and announced.
+   *
+   * @param {string}          file
+   * @param {string[]}        values
+   * @param {ContractInputs}  inputs
+   * @return {Promise<ExecuteManifestResult>}
+   */
+  @metadata
+  async execute(
+    @param({
+      description: 'Manifest file (.json, .yml or .yaml)',
+      required: true,
+    })
+    file: string,
+    @params({
+      type: String,
+      description: 'Input values (Ex.: recipient=TB6QOV... amount=10)',
+    })
+    values: string[],
+    inputs: ContractInputs,
+  ): Promise<ExecuteManifestResult>
+  {
+    return await this.executeWithJournal(inputs, () => this.run(file, values, inputs))
+  }
+
+  /**
+   * Execute the manifest contract, see execute()
+   *
+   * @param {string}          file
+   * @param {string[]}        values
+   * @param {ContractInputs}  inputs
+   * @return {Promise<ExecuteManifestResult>}
+   */
+  protected async run(
+    file: string,
+    values: string[],
+    inputs: ContractInputs,
+  ): Promise<ExecuteManifestResult>
+  {
+    this.log(description)
+
+    this.manifest = ContractManifest.load(file)
+
+    let argv: ContractInputs
+    try {
+      argv = await this.configure(inputs)
+    }
+    catch (e) {
+      this.error(e)
+    }
+
+    this.log(chalk.yellow('Contract: ' + this.manifest.name + (this.manifest.description ? ' - ' + this.manifest.description : '')))
+
+    // -------------------
+    // STEP 1: Read Inputs
+    // -------------------
+
+    const resolved = {}
+    values.forEach((value) => {
+      const separator = value.indexOf('=')
+      if (separator <= 0) {
+        this.error('Expected input values as name=value, got ' + value + '.')
+      }
+
+      resolved[value.substr(0, separator)] = value.substr(separator + 1)
+    })
+
+    try {
+      Object.keys(resolved).forEach((name) => this.manifest.getInput(name))
+    } catch (err) { this.error(err); }
+
+    Object.keys(this.manifest.inputs).forEach((name) => {
+      const input = this.manifest.inputs[name]
+      if (undefined === resolved[name] && this.nonInteractive) {
+        if (undefined === input.default && input.required !== false) {
+          this.error(new MissingInputError(name, 'Missing required input in non-interactive mode, please provide ' + name + '=<value>.'))
+        }
+      }
+      else if (undefined === resolved[name]) {
+        resolved[name] = OptionsResolver(resolved,
+          name,
+          () => { return ''; },
+          (input.prompt || 'Enter ' + name) + (undefined !== input.default ? ' (defaults to ' + input.default + ')' : '') + ': ');
+      }
+
+      try {
+        resolved[name] = this.manifest.resolveInput(name, resolved[name])
+      } catch (err) { this.error(err); }
+    })
+
+    // --------------------------------
+    // STEP 2: Execute Contract Actions
+    // --------------------------------
+
+    // sign and broadcast with the library API
+    return await executeManifest(this.manifest, resolved, this)
+  }
+}
@@ -0,0 +1,438 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {ExpectedError, command, metadata, option, param, params} from 'clime';
+import * as readlineSync from 'readline-sync';
+import {ChainHttp} from 'symbol-sdk';
+
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {ContractResult} from '../kernel/ContractResult';
+import {Keystore} from '../kernel/Keystore';
+import {Scheduler} from '../kernel/Scheduler';
+import {ScheduledJob, ScheduledRun} from '../kernel/ScheduleStore';
+import {TransactionMonitor} from '../kernel/TransactionMonitor';
+import {description} from './default'
+
+export class ScheduleInputs extends ContractInputs {
+  @option({
+    description: 'Execute the contract at this date and time (Ex.: 2021-06-30T12:00:00Z)',
+  })
+  at: string;
+  @option({
+    description: 'Execute the contract on a cron schedule, in local time (Ex.: "0 9 1 * *")',
+  })
+  cron: string;
+  @option({
+    description: 'Execute the contract once the chain reaches this block height',
+  })
+  height: number;
+  @option({
+    description: 'Execute the contract after every successful execution of this job',
+  })
+  after: string;
+  @option({
+    description: 'Id of the new job (defaults to a generated id)',
+  })
+  id: string;
+  @option({
+    toggle: true,
+    description: 'Execute the due jobs and exit instead of running continuously',
+  })
+  once: boolean;
+}
+
+/**
+ * The options of the schedule that are not passed to the contract
+ *
+ * @var {string[]}
+ */
+const SCHEDULE_OPTIONS: string[] = ['at', 'cron', 'height', 'after', 'id', 'once', 'output', 'outputFile', 'nonInteractive']
+
+@command({
+  description: 'Schedule contract executions by time, block height or job',
+})
+export default class extends Contract {
+
+  /**
+   * The scheduler of the `run` action
+   * @var {Scheduler}
+   */
+  protected scheduler: Scheduler
+
+  /**
+   * The block listener, opened when jobs wait for a block height
+   * @var {TransactionMonitor}
+   */
+  protected monitor: TransactionMonitor
+
+  /**
+   * The last chain height seen
+   * @var {number}
+   */
+  protected chainHeight: number
+
+  /**
+   * The schedule check in progress, checks never overlap
+   * @var {Promise<void>}
+   */
+  protected checking: Promise<void>
+
+  constructor() {
+      super();
+  }
+
+  /**
+   * Get the name of the contract
+   *
+   * @return {string}
+   */
+  public getName(): string {
+    return 'Schedule'
+  }
+
+  /**
+   * Returns whether the contract requires authentication
+   *
+   * @return {boolean}
+   */
+  public requiresAuth(): boolean {
+    return false
+  }
+
+  /**
+   * Returns whether the contract can be executed offline
+   *
+   * @return {boolean}
+   */
+  public supportsOffline(): boolean {
+    return false
+  }
+
+  /**
+   * Execution routine for the `Schedule` command.
+   *
+   * @description This command adds, lists and removes stored
+   * contract invocations and runs the scheduler that executes
+   * them. Jobs are triggered at a date and time, on a cron
+   * schedule, at a block height (new blocks are read from the
+   * node listener) or after the execution of another job.
+   * Secrets are never stored, jobs sign with keystore keys.
+   *
+   * @param {string}          action
+   * @param {string[]}        values
+   * @param {ScheduleInputs}  inputs
+   * @return {Promise<any>}
+   */
+  @metadata
+  async execute(
+    @param({
+      description: 'Schedule action (add|list|remove|run)',
+      required: true,
+    })
+    action: string,
+    @params({
+      type: String,
+      description: 'Contract and its arguments for add (Ex.: OpenTimestamp data=coupon), job id for remove',
+    })
+    values: string[],
+    inputs: ScheduleInputs,
+  ) {
+    return await this.executeWithJournal(inputs, () => this.run(action, values, inputs))
+  }
+
+  /**
+   * Execute a schedule action, see execute()
+   *
+   * @param {string}          action
+   * @param {string[]}        values
+   * @param {ScheduleInputs}  inputs
+   * @return {Promise<any>}
+   */
+  protected async run(
+    action: string,
+    values: string[],
+    inputs: ScheduleInputs,
+  ): Promise<any> {
+    this.log(description)
+
+    const scheduler = new Scheduler()
+
+    if (action === 'list') {
+      return this.printJobs(scheduler.store.all(), inputs)
+    }
+    else if (action === 'remove') {
+      if (! values.length) {
+        throw new ExpectedError('Please, provide the id of the job to remove.')
+      }
+
+      scheduler.unschedule(values[0])
+      this.log(chalk.green('Job "' + values[0] + '" removed from the schedule.'))
+      return ;
+    }
+    else if (action === 'run') {
+      return await this.runScheduler(scheduler, inputs)
+    }
+    else if (action !== 'add') {
+      throw new ExpectedError('Unknown schedule action "' + action + '", expected one of: add, list, remove, run.')
+    }
+
+    if (! values.length) {
+      throw new ExpectedError('Please, provide the contract to schedule (Ex.: OpenTimestamp).')
+    }
+
+    // name=value arguments are options of the contract
+    const args: string[] = []
+    const options = Object.keys(inputs)
+      .filter((key) => ! SCHEDULE_OPTIONS.includes(key) && undefined !== inputs[key])
+      .reduce((job, key) => Object.assign(job, { [key]: inputs[key] }), {})
+
+    values.slice(1).forEach((value) => {
+      const match = value.match(/^([a-zA-Z][a-zA-Z0-9-]*)=(.*)$/)
+      if (null === match) {
+        args.push(value)
+        return ;
+      }
+
+      options[match[1]] = match[2]
+    })
+
+    const job = scheduler.schedule(values[0], args, options, {
+      at: inputs['at'],
+      cron: inputs['cron'],
+      height: inputs['height'],
+      after: inputs['after'],
+    }, inputs['id'])
+
+    this.log('')
+    this.log(chalk.green('Job "' + job.id + '" added to the schedule: ' + job.contract + ' ' + this.formatTrigger(job)))
+    this.log(chalk.yellow('Jobs are executed by the scheduler: ./symbol-contracts Schedule run'))
+    this.log('')
+  }
+
+  /**
+   * Run the scheduler until it is interrupted, or
+   * execute the due jobs once with --once
+   *
+   * @param {Scheduler}      scheduler
+   * @param {ScheduleInputs} inputs
+   * @return {Promise<void>}
+   */
+  protected async runScheduler(
+    scheduler: Scheduler,
+    inputs: ScheduleInputs,
+  ): Promise<void> {
+    this.scheduler = new Scheduler(scheduler.store, this.readPasswords(scheduler, inputs))
+
+    if (inputs['once'] === true) {
+      if (this.scheduler.store.all().some((job) => Scheduler.watchesBlocks(job))) {
+        await this.configure(inputs)
+        this.chainHeight = (await new ChainHttp(this.endpointUrl).getBlockchainHeight().toPromise()).compact()
+      }
+
+      await this.check()
+      return ;
+    }
+
+    this.log('')
+    this.log(chalk.yellow('Scheduler started with ' + this.scheduler.store.path + ', press Ctrl+C to stop'))
+
+    await this.check(inputs)
+    await new Promise<void>(() => {
+      setInterval(() => this.check(inputs), Scheduler.INTERVAL)
+    })
+  }
+
+  /**
+   * Execute the due jobs, a check that is requested
+   * while another check is in progress follows it
+   *
+   * @param {ScheduleInputs} inputs  Block heights are watched when set
+   * @return {Promise<void>}
+   */
+  protected check(inputs?: ScheduleInputs): Promise<void> {
+    const previous = this.checking || Promise.resolve()
+
+    this.checking = previous.then(async () => {
+      try {
+        if (undefined !== inputs && undefined === this.monitor
+            && this.scheduler.store.all().some((job) => Scheduler.watchesBlocks(job))) {
+          await this.watchBlocks(inputs)
+        }
+
+        await this.scheduler.check(this.chainHeight, (job, run) => this.printRun(job, run))
+      }
+      catch (e) {
+        console.error(chalk.red('The schedule could not be checked: ' + (e.message || e)))
+      }
+    })
+
+    return this.checking
+  }
+
+  /**
+   * Read the chain height and check the schedule with every new block
+   *
+   * @param {ScheduleInputs} inputs
+   * @return {Promise<void>}
+   */
+  protected async watchBlocks(inputs: ScheduleInputs): Promise<void> {
+    await this.configure(inputs)
+    this.chainHeight = (await new ChainHttp(this.endpointUrl).getBlockchainHeight().toPromise()).compact()
+
+    this.monitor = new TransactionMonitor(
+      () => this.endpointUrl,
+      (reason) => this.failover(reason),
+      inputs['debug'] === true,
+    )
+
+    this.monitor.newBlock().subscribe((block) => {
+      this.chainHeight = Math.max(this.chainHeight, block.height.compact())
+      this.check()
+    })
+
+    await this.monitor.open()
+    this.log(chalk.yellow('Watching new blocks of ' + this.endpointUrl + ' from height ' + this.chainHeight))
+  }
+
+  /**
+   * Switch to the next node, if any
+   *
+   * @param {string} reason
+   * @return {boolean}  Whether another node is available
+   */
+  protected failover(reason: string): boolean {
+    const next = this.nodes.indexOf(this.endpointUrl) + 1
+    if (next <= 0 || next >= this.nodes.length) {
+      return false
+    }
+
+    this.log(chalk.yellow('Node ' + this.endpointUrl + ' ' + reason + ', switching to ' + this.nodes[next]))
+    this.endpointUrl = this.nodes[next]
+    return true
+  }
+
+  /**
+   * Read the password of every keystore key of the scheduled
+   * jobs once, unless SYMBOL_CONTRACTS_PASSWORD is set
+   *
+   * @param {Scheduler}      scheduler
+   * @param {ScheduleInputs} inputs
+   * @return {Object}
+   */
+  protected readPasswords(
+    scheduler: Scheduler,
+    inputs: ScheduleInputs,
+  ): Object {
+    if (process.env['SYMBOL_CONTRACTS_PASSWORD'] || inputs['nonInteractive'] === true) {
+      return {}
+    }
+
+    const keystore = new Keystore()
+    return scheduler.store.all()
+      .filter((job) => job.status === Scheduler.SCHEDULED)
+      .reduce((names, job) => names.concat(Scheduler.getKeystores(job.inputs)), [])
+      .filter((name, i, self) => self.indexOf(name) === i)
+      .reduce((passwords, name) => {
+        const password = readlineSync.question(
+          'Enter the keystore password for "' + name + '": ',
+          { hideEchoBack: true })
+
+        // wrong passwords fail now rather than at the execution
+        keystore.export(name, password)
+        return Object.assign(passwords, { [name]: password })
+      }, {})
+  }
+
+  /**
+   * Display an execution of the scheduler
+   *
+   * @param {ScheduledJob} job
+   * @param {ScheduledRun} run
+   * @return {void}
+   */
+  protected printRun(
+    job: ScheduledJob,
+    run: ScheduledRun,
+  ): void {
+    const line = run.finishedAt + ' ' + job.id + ' (' + job.contract + '): ' + run.status + (run.hash ? ' ' + run.hash : '')
+
+    if (Scheduler.SUCCEEDED.includes(run.status)) {
+      this.log(chalk.green(line))
+    }
+    else {
+      this.log(chalk.red(line + (run.error ? ': ' + run.error : '')))
+    }
+  }
+
+  /**
+   * Display the jobs of the schedule, or
+   * the full schedule with --output json
+   *
+   * @param {ScheduledJob[]}  jobs
+   * @param {ScheduleInputs}  inputs
+   * @return {void}
+   */
+  protected printJobs(
+    jobs: ScheduledJob[],
+    inputs: ScheduleInputs,
+  ): void {
+    if (inputs['output'] === ContractResult.FORMAT_JSON) {
+      process.stdout.write(JSON.stringify(jobs, null, 2) + '\n')
+      return ;
+    }
+
+    this.log('')
+    if (! jobs.length) {
+      this.log(chalk.yellow('No jobs found in the schedule.'))
+    }
+
+    jobs.forEach((job) => {
+      const last = job.runs.length ? job.runs[job.runs.length - 1] : undefined
+      const color = job.status === Scheduler.SCHEDULED ? chalk.yellow : (job.status === ContractResult.FAILED ? chalk.red : chalk.green)
+
+      this.log(color(job.id + ' (' + job.status + ')'))
+      this.log('\tContract: ' + [job.contract].concat(job.args).join(' '))
+      this.log('\tInputs:   ' + Object.keys(job.inputs).filter((key) => false !== job.inputs[key])
+                                          .map((key) => key + '=' + job.inputs[key]).join(', '))
+      this.log('\tTrigger:  ' + this.formatTrigger(job))
+      if (undefined !== last) {
+        this.log('\tLast Run: ' + last.finishedAt + ' ' + last.status + (last.hash ? ' ' + last.hash : ''))
+      }
+    })
+    this.log('')
+  }
+
+  /**
+   * Describe the trigger of a job
+   *
+   * @param {ScheduledJob} job
+   * @return {string}
+   */
+  protected formatTrigger(job: ScheduledJob): string {
+    if (undefined !== job.trigger.at) {
+      return 'at ' + job.trigger.at
+    }
+    else if (undefined !== job.trigger.cron) {
+      return 'cron "' + job.trigger.cron + '", next run at ' + job.nextRun
+    }
+    else if (undefined !== job.trigger.height) {
+      return 'at block height ' + job.trigger.height
+    }
+
+    return 'after job "' + job.trigger.after + '"'
+  }
+}
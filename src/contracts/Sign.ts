@@ -0,0 +1,217 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {command, metadata, option} from 'clime';
+import chalk from 'chalk';
+import {
+    Account,
+    AggregateTransaction,
+    LockFundsTransaction,
+    PublicAccount,
+    Transaction,
+    TransactionType,
+} from 'symbol-sdk';
+
+import {OptionsResolver, YesNoResolver} from '../kernel/OptionsResolver';
+import {Contract, ContractInputs} from '../kernel/Contract';
+import {TransactionBundle} from '../kernel/TransactionBundle';
+import {description} from './default'
+
+export class SignInputs extends ContractInputs {
+  @option({
+    flag: 'f',
+    description: 'Prepared transaction bundle (Ex.: "unsigned.json", see --prepare)',
+  })
+  file: string;
+}
+
+@command({
+  description: 'Sign a bundle of prepared transactions on an air-gapped host',
+})
+export default class extends Contract {
+
+  constructor() {
+      super();
+  }
+
+  /**
+   * Get the name of the contract
+   *
+   * @return {string}
+   */
+  public getName(): string {
+    return 'Sign'
+  }
+
+  /**
+   * Returns whether the contract requires authentication
+   *
+   * @return {boolean}
+   */
+  public requiresAuth(): boolean {
+    return true
+  }
+
+  /**
+   * Returns whether the contract can be executed offline
+   *
+   * @return {boolean}
+   */
+  public supportsOffline(): boolean {
+    return true
+  }
+
+  /**
+   * Execution routine for the `Sign` command.
+   *
+   * @description This command signs the transactions of a bundle
+   * that was prepared with `--prepare` on a networked host. The
+   * hash lock of bonded contracts is created again for the hash
+   * of the signed aggregate. With `--offline`, the signed bundle
+   * is written to a file and announced with `Broadcast`.
+   *
+   * @param {SignInputs} inputs
+   * @return {Promise<any>}
+   */
+  @metadata
+  async execute(inputs: SignInputs)
+  {
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `Sign` contract, see execute()
+   *
+   * @param {SignInputs} inputs
+   * @return {Promise<any>}
+   */
+  protected async run(inputs: SignInputs)
+  {
+    this.log(description)
+
+    let argv: ContractInputs
+    try {
+      argv = await this.configure(inputs)
+    }
+    catch (e) {
+      this.error(e)
+    }
+
+    // -------------------
+    // STEP 1: Read Inputs
+    // -------------------
+
+    let bundle: TransactionBundle
+    try {
+      inputs['file'] = OptionsResolver(inputs,
+        'file',
+        () => { return ''; },
+        'Enter the path of a prepared transaction bundle: ');
+
+      bundle = TransactionBundle.load(inputs['file'])
+    } catch (err) { this.error('Please, enter a valid transaction bundle.', err); }
+
+    // ---------------------------------
+    // STEP 2: Validate Contract Actions
+    // ---------------------------------
+
+    if (! bundle.isSignable()) {
+      this.error('The transaction bundle does not contain prepared transactions (see --prepare).')
+    }
+
+    this.validateBundle(bundle)
+
+    const account: PublicAccount = argv['account']
+    if (account.publicKey.toUpperCase() !== bundle.signerPublicKey.toUpperCase()) {
+      this.error('The transaction bundle must be signed by ' + bundle.signerPublicKey + ', got ' + account.publicKey + '.')
+    }
+
+    let transaction: Transaction
+    let hashLock: LockFundsTransaction
+    try {
+      transaction = bundle.getPreparedTransaction()
+      hashLock = bundle.getPreparedHashLock()
+    }
+    catch (e) {
+      this.error('The transaction bundle contains an invalid transaction payload.', e)
+    }
+
+    // display what is being signed
+    this.log('')
+    this.log(chalk.yellow('Contract:    ' + bundle.contract))
+    this.log(chalk.yellow('Transaction: type ' + transaction.type + ', max fee ' + transaction.maxFee.toString()))
+    if (transaction instanceof AggregateTransaction) {
+      transaction.innerTransactions.forEach((inner, i) => {
+        this.log('\tTransaction #' + (i+1) + ': type ' + inner.type + ' signed by ' + inner.signer.address.plain())
+      })
+    }
+    if (undefined !== hashLock) {
+      this.log(chalk.yellow('Hash Lock:   ' + hashLock.mosaic.amount.toString() + ' of ' + hashLock.mosaic.id.toHex()
+                             + ' for ' + hashLock.duration.toString() + ' blocks'))
+    }
+    this.log('')
+
+    // --non-interactive implies --yes
+    const shouldContinue = YesNoResolver(inputs,
+      () => true,
+      'Do you want to sign these transactions now? ')
+
+    if (shouldContinue === false) {
+      return ;
+    }
+
+    // --------------------------------
+    // STEP 3: Execute Contract Actions
+    // --------------------------------
+
+    // the max fees of prepared transactions are kept
+    this.feeStrategy = undefined
+
+    const signedTransaction = await this.getSigner(account, transaction).sign()
+    if (undefined === hashLock) {
+      return await this.broadcaster.announce(account, signedTransaction)
+    }
+    else if (transaction.type !== TransactionType.AGGREGATE_BONDED) {
+      this.error('The transaction bundle contains a hash lock for a transaction that is not an aggregate bonded transaction.')
+    }
+
+    // the hash lock locks funds for the hash of the signed aggregate
+    const signedHashLock = await this.getSigner(account, LockFundsTransaction.create(
+      hashLock.deadline,
+      hashLock.mosaic,
+      hashLock.duration,
+      signedTransaction,
+      this.networkType,
+      hashLock.maxFee,
+    )).sign()
+
+    return await this.broadcaster.announcePartial(account, signedHashLock, signedTransaction)
+  }
+
+  /**
+   * Execute a smart contract's transactions
+   *
+   * @param {Account}       account 
+   * @param {Transaction[]} transactions
+   * @return {Promise<any>}
+   */
+  protected async executeContract(
+    account: Account,
+    transactions: Transaction[]
+  ): Promise<any> {
+    return true
+  }
+}
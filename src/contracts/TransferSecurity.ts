@@ -16,14 +16,10 @@
  */
 import chalk from 'chalk';
 import { command, metadata, option } from 'clime'
-import * as readlineSync from 'readline-sync';
-import { NIP13, NetworkConfig, TransactionParameters } from 'symbol-token-standards'
-import { Account, PublicAccount, Transaction, Mosaic, MosaicId, UInt64, Deadline, AccountInfo, Address } from 'symbol-sdk'
-import { MnemonicPassPhrase } from 'symbol-hd-wallets'
-import { TransactionURI } from 'symbol-uri-scheme'
 
-import { OptionsResolver } from '../kernel/OptionsResolver'
-import { Contract, ContractConstants, ContractInputs } from '../kernel/Contract'
+import { OptionsResolver, YesNoResolver } from '../kernel/OptionsResolver'
+import { Contract, ContractInputs } from '../kernel/Contract'
+import { transferSecurity, TransferSecurityResult } from '../library/TransferSecurity'
 import {description} from './default'
 
 export class TransferSecurityInputs extends ContractInputs {
@@ -57,6 +53,14 @@ export class TransferSecurityInputs extends ContractInputs {
     description: 'Force transfer of security token',
   })
   yes: boolean;
+  @option({
+    description: 'The sender partition name',
+  })
+  name_sender: string;
+  @option({
+    description: 'The recipient partition name',
+  })
+  name_recipient: string;
 }
 
 @command({
@@ -96,12 +100,23 @@ export default class extends Contract {
    * transaction.
    *
    * @param {TransferSecurityInputs} inputs
-   * @return {Promise<any>}
+   * @return {Promise<TransferSecurityResult>}
    */
   @metadata
-  async execute(inputs: TransferSecurityInputs) 
+  async execute(inputs: TransferSecurityInputs): Promise<TransferSecurityResult>
+  {
+    return await this.executeWithJournal(inputs, () => this.run(inputs))
+  }
+
+  /**
+   * Execute the `TransferSecurity` contract, see execute()
+   *
+   * @param {TransferSecurityInputs} inputs
+   * @return {Promise<TransferSecurityResult>}
+   */
+  protected async run(inputs: TransferSecurityInputs): Promise<TransferSecurityResult>
   {
-    console.log(description)
+    this.log(description)
 
     let argv: ContractInputs
     try {
@@ -115,39 +130,39 @@ export default class extends Contract {
     // STEP 1: Read Inputs
     // -------------------
     try {
-      console.log('')
+      this.log('')
       inputs['sender'] = OptionsResolver(inputs,
         'sender',
         () => { return ''; },
-        'Enter the sender address: ')
-    } catch (err) { this.error('Invalid address.') }
+        'Enter the sender address or public key: ')
+    } catch (err) { this.error('Invalid address.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['name_sender'] = OptionsResolver(inputs,
         'name_sender',
         () => { return ''; },
         'Enter the sender partition label: ')
-    } catch (err) { this.error('Invalid partition label.') }
+    } catch (err) { this.error('Invalid partition label.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['recipient'] = OptionsResolver(inputs,
         'recipient',
         () => { return ''; },
-        'Enter the recipient address: ')
-    } catch (err) { this.error('Invalid address.') }
+        'Enter the recipient address or public key: ')
+    } catch (err) { this.error('Invalid address.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['name_recipient'] = OptionsResolver(inputs,
         'name_recipient',
         () => { return ''; },
         'Enter the recipient partition label: ')
-    } catch (err) { this.error('Invalid partition label.') }
+    } catch (err) { this.error('Invalid partition label.', err) }
 
     try {
-      console.log('')
+      this.log('')
       inputs['amount'] = parseInt(OptionsResolver(inputs,
         'amount',
         () => { return ''; },
@@ -157,140 +172,53 @@ export default class extends Contract {
       if (inputs['supply'] <= 0) {
         inputs['supply'] = 1
       }
-    } catch (err) { this.error('Invalid number of shares.') }
-
-    // --------------------------------
-    // STEP 2: Prepare Contract Actions
-    // --------------------------------
+    } catch (err) { this.error('Invalid number of shares.', err) }
 
     // always re-use bip39 mnemonic
-    let bip39: MnemonicPassPhrase
     if (!inputs['mnemonic']) {
-      console.log('')
-      bip39 = new MnemonicPassPhrase(OptionsResolver(inputs,
+      this.log('')
+      inputs['mnemonic'] = OptionsResolver(inputs,
           'mnemonic',
           () => { return ''; },
-          'Enter a 24-words mnemonic passphrase: '))
-    }
-    else bip39 = new MnemonicPassPhrase(inputs['mnemonic'])
-
-    const token = new NIP13.Token(
-      new NetworkConfig(
-        this.endpointUrl,
-        this.networkType,
-        this.generationHash,
-        new MosaicId(ContractConstants.LOCK_MOSAIC)
-      ),
-      bip39,
-    )
-
-    // derive TARGET account
-    const target = token.getTarget()
-    const sender = Address.createFromRawAddress(inputs['sender'])
-
-    // fetch recipient information
-    let senderInfo: AccountInfo
-    senderInfo = await this.factoryHttp
-      .createAccountRepository()
-      .getAccountInfo(sender)
-      .toPromise()
-
-    let recipient: AccountInfo
-    recipient = await this.factoryHttp
-      .createAccountRepository()
-      .getAccountInfo(Address.createFromRawAddress(inputs['recipient']))
-      .toPromise()
-
-    console.log(chalk.green('NIP13 Token Target: ' + target.address.plain()))
-
-    if (inputs['debug'] === true) {
-      console.log(chalk.red('\t\t    ' + target.privateKey))
+          'Enter a 24-words mnemonic passphrase: ')
     }
 
     // --------------------------------
-    // STEP 3: Execute Contract Actions
+    // STEP 2: Execute Contract Actions
     // --------------------------------
-    const params = new TransactionParameters(
-      Deadline.create(),
-      750000, // maxFee
-    )
-
-    // derive SENDER partition account and operator
-    const senderPartition = sender.equals(target.address)
-      ? target
-      : token.getPartition(senderInfo.publicAccount, inputs['name_sender'])
-    const recipientPartition = token.getPartition(recipient.publicAccount, inputs['name_recipient'])
-    const bip39Path = token.getPathForPartition(recipient.publicAccount, inputs['name_recipient'])
-    const operator  = token.getOperator(1)
-
-    console.log(chalk.green('NIP13 Sender Token Partition:    ' + senderPartition.address.plain()))
-    console.log(chalk.green('NIP13 Recipient Token Partition: ' + recipientPartition.address.plain()))
-    console.log(chalk.green('Recipient Token Partition Path:     ' + bip39Path))
-
-    if (inputs['debug'] === true) {
-      console.log(chalk.red('\t\t    ' + recipientPartition.privateKey))
-    }
-
-    // transfer shares
-    const result = await token.transfer(
-      operator.publicAccount, // actor
-      senderPartition.publicAccount, // sender
-      recipientPartition.publicAccount, // recipient (PARTITION)
-      inputs['amount'],
-      params,
-    )
-
-    const resultURI: TransactionURI = result
-
-    console.log('')
-    console.log(chalk.yellow('Contract URI: ' + resultURI.build()))
-    console.log('')
-
-    // whether to force execution or ask for next step
-    if (!inputs['yes']) {
-      const shouldContinue = readlineSync.keyInYN(
-        'Do you want to transfer the security token now? ')
 
-      if (shouldContinue === false) {
-        return ;
+    // sign and broadcast with the library API
+    return await transferSecurity({
+      mnemonic: inputs['mnemonic'],
+      sender: inputs['sender'],
+      senderPartition: inputs['name_sender'],
+      recipient: inputs['recipient'],
+      recipientPartition: inputs['name_recipient'],
+      amount: inputs['amount'],
+    }, this, (details) => {
+      this.log(chalk.green('NIP13 Token Target: ' + details.target.address.plain()))
+
+      if (inputs['debug'] === true) {
+        this.log(chalk.red('\t\t    ' + details.target.privateKey))
       }
-    }
 
-    // wrap all transactions in an aggregate, sign and broadcast
-    return await this.executeContract(operator, [resultURI.toTransaction()])
-  }
+      this.log(chalk.green('NIP13 Sender Token Partition:    ' + details.senderPartition.address.plain()))
+      this.log(chalk.green('NIP13 Recipient Token Partition: ' + details.recipientPartition.address.plain()))
+      this.log(chalk.green('Recipient Token Partition Path:     ' + details.recipientPartitionPath))
 
-  /**
-   * Execute a smart contract's transactions
-   *
-   * @param {Account}       account 
-   * @param {Transaction[]} transactions
-   * @return {Promise<any>}
-   */
-  protected async executeContract(
-    account: Account,
-    transactions: Transaction[]
-  ): Promise<any> {
-    // NIP13 CreateToken creates 1 aggregate bonded transaction
-    const aggregateTx = transactions.shift()
-
-    // sign the aggregate transaction with `account`
-    const signedTransaction = this.getSigner(account, aggregateTx).sign()
-
-    // create hash lock (spam protected partial transactions pool)
-    const lockFundsTransaction = this.factory.getHashLockTransaction(
-      new Mosaic(
-        new MosaicId(ContractConstants.LOCK_MOSAIC),
-        UInt64.fromUint(ContractConstants.LOCK_AMOUNT)
-      ),
-      1000, // 1000 blocks duration
-      signedTransaction,
-    )
+      if (inputs['debug'] === true) {
+        this.log(chalk.red('\t\t    ' + details.recipientPartition.privateKey))
+      }
 
-    // sign hash lock transaction
-    const signedLockFundsTx = this.getSigner(account, lockFundsTransaction).sign()
+      this.log('')
+      this.log(chalk.yellow('Contract URI: ' + details.uri.build()))
+      this.log('')
 
-    // announce the aggregate transaction
-    return await this.broadcaster.announcePartial(account.publicAccount, signedLockFundsTx, signedTransaction)
+      // whether to force execution or ask for next step
+      // --non-interactive implies --yes
+      return inputs['yes'] === true || YesNoResolver(inputs,
+        () => true,
+        'Do you want to transfer the security token now? ')
+    })
   }
 }
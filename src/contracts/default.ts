@@ -44,6 +44,50 @@ export const subcommands = [
     name: 'OpenTimestamp',
     brief: 'Disposable Smart Contract for Creation of Open Timestamps',
   },
+  {
+    name: 'Run',
+    brief: 'Execute a contract declared in a JSON or YAML manifest',
+  },
+  {
+    name: 'Batch',
+    brief: 'Execute a contract once per row of a CSV or JSON lines file',
+  },
+  {
+    name: 'Pipeline',
+    brief: 'Execute the contract steps of a pipeline file in order',
+  },
+  {
+    name: 'Schedule',
+    brief: 'Schedule contract executions by time, block height or job',
+  },
+  {
+    name: 'Prepare',
+    brief: 'Export a partial transaction to be co-signed on an air-gapped host',
+  },
+  {
+    name: 'Sign',
+    brief: 'Sign a bundle of prepared transactions on an air-gapped host',
+  },
+  {
+    name: 'Broadcast',
+    brief: 'Announce a bundle of signed transactions (see --offline)',
+  },
+  {
+    name: 'Resume',
+    brief: 'Resume an interrupted bonded contract execution',
+  },
+  {
+    name: 'Locks',
+    brief: 'Hash locks of the account and the funds at risk',
+  },
+  {
+    name: 'Keystore',
+    brief: 'Management of the encrypted local keystore (add|list|remove|export)',
+  },
+  {
+    name: 'History',
+    brief: 'History of the executions recorded in the local journal (list|show)',
+  },
   {
     name: 'CreateAuthority',
     brief: '(NIP13) Disposable Smart Contract for Creation of Security Tokens Authorities - NIP13 CreateAuthority',
@@ -0,0 +1,52 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+export { Contract, ContractConstants, ContractInputs } from './kernel/Contract';
+export { ContractContext } from './kernel/ContractContext';
+export { ContractResult, StatusTransition } from './kernel/ContractResult';
+export { ContractError } from './kernel/ContractError';
+export { Logger } from './kernel/Logger';
+export { NetworkConstants } from './kernel/NetworkConstants';
+export { FeeStrategy } from './kernel/FeeStrategy';
+export { ConfirmationPolicy } from './kernel/ConfirmationPolicy';
+export { Journal, JournalEntry } from './kernel/Journal';
+export { PendingStore } from './kernel/PendingStore';
+export { HashLockTracker, HashLockReport } from './kernel/HashLockTracker';
+export { Preflight, PreflightItem } from './kernel/Preflight';
+export { PluginLoader, ContractPlugin } from './kernel/PluginLoader';
+export { ContractManifest, ManifestInput, ManifestTransaction } from './kernel/ContractManifest';
+export { Placeholders } from './kernel/Placeholders';
+export { ContractProcess, ContractOutcome } from './kernel/ContractProcess';
+export { BatchRunner, BatchRow, BatchReport } from './kernel/BatchRunner';
+export { Pipeline, PipelineStep } from './kernel/Pipeline';
+export { PipelineRunner, PipelineReport, PipelineStepReport } from './kernel/PipelineRunner';
+export { CronExpression } from './kernel/CronExpression';
+export { ScheduleStore, ScheduleTrigger, ScheduledJob, ScheduledRun } from './kernel/ScheduleStore';
+export { Scheduler } from './kernel/Scheduler';
+export { TransactionSigner, SignatureRequest } from './kernel/TransactionSigner';
+export { LibraryContext, LibraryOptions } from './library/LibraryContext';
+export { AssetAmount } from './library/AssetAmount';
+export { createAsset, CreateAssetParameters, CreateAssetResult } from './library/CreateAsset';
+export { escrowAsset, EscrowAssetParameters, EscrowAssetResult } from './library/EscrowAsset';
+export { requestAsset, RequestAssetParameters, RequestAssetResult } from './library/RequestAsset';
+export { openTimestamp, OpenTimestampParameters, OpenTimestampResult } from './library/OpenTimestamp';
+export { executeManifest, ExecuteManifestResult } from './library/ExecuteManifest';
+export {
+  transferSecurity,
+  TransferSecurityParameters,
+  TransferSecurityDetails,
+  TransferSecurityResult,
+} from './library/TransferSecurity';
@@ -0,0 +1,232 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+    Account,
+    AccountHttp,
+    AccountInfo,
+    MosaicId,
+    MultisigAccountInfo,
+    MultisigHttp,
+    NetworkType,
+} from 'symbol-sdk';
+import {MnemonicPassPhrase} from 'symbol-hd-wallets';
+
+import {Keystore} from './Keystore';
+
+export class DiscoveredAccount {
+  /**
+   * Create a discovered account report
+   *
+   * @param {number}              index
+   * @param {string}              path
+   * @param {Account}             account
+   * @param {AccountInfo}         info
+   * @param {MultisigAccountInfo} multisig
+   * @param {number}              balance
+   */
+  constructor(
+    /**
+     * The account index in the derivation path
+     * @var {number}
+     */
+    public readonly index: number,
+    /**
+     * The BIP32 derivation path
+     * @var {string}
+     */
+    public readonly path: string,
+    /**
+     * The derived account
+     * @var {Account}
+     */
+    public readonly account: Account,
+    /**
+     * The account information, if the account is known on the network
+     * @var {AccountInfo}
+     */
+    public readonly info?: AccountInfo,
+    /**
+     * The multisig information, if the account is part of a multisig
+     * @var {MultisigAccountInfo}
+     */
+    public readonly multisig?: MultisigAccountInfo,
+    /**
+     * The currency balance (absolute amount)
+     * @var {number}
+     */
+    public readonly balance: number = 0) {
+  }
+
+  /**
+   * Returns whether the account is known on the network,
+   * i.e. it received or sent transactions
+   *
+   * @return {boolean}
+   */
+  public isUsed(): boolean {
+    return undefined !== this.info
+  }
+
+  /**
+   * Returns whether the account announced transactions
+   *
+   * @return {boolean}
+   */
+  public hasSentTransactions(): boolean {
+    return this.isUsed() && ! /^0{64}$/.test(this.info.publicKey)
+  }
+
+  /**
+   * Returns whether the account is a multisig account
+   *
+   * @return {boolean}
+   */
+  public isMultisig(): boolean {
+    return undefined !== this.multisig && this.multisig.isMultisig()
+  }
+
+  /**
+   * Returns whether the account cosigns multisig accounts
+   *
+   * @return {boolean}
+   */
+  public isCosignatory(): boolean {
+    return undefined !== this.multisig && this.multisig.multisigAccounts.length > 0
+  }
+}
+
+export class AccountDiscovery {
+  /**
+   * Derivation path of account `{index}`
+   * @var {string}
+   */
+  public static PATH_TEMPLATE: string = "m/44'/4343'/{index}'/0'/0'"
+
+  /**
+   * Create an account discovery instance
+   *
+   * Without `endpointUrl`, accounts are derived but
+   * not looked up on the network (offline).
+   *
+   * @param {NetworkType} networkType
+   * @param {MosaicId}    currency
+   * @param {string}      endpointUrl
+   * @param {number}      gapLimit
+   */
+  constructor(
+    /**
+     * The network type
+     * @var {NetworkType}
+     */
+    protected readonly networkType: NetworkType,
+    /**
+     * The currency mosaic used for balances
+     * @var {MosaicId}
+     */
+    protected readonly currency: MosaicId,
+    /**
+     * The API node URL
+     * @var {string}
+     */
+    protected readonly endpointUrl?: string,
+    /**
+     * The number of consecutive unused accounts
+     * after which the scan stops
+     * @var {number}
+     */
+    protected readonly gapLimit: number = 5) {
+  }
+
+  /**
+   * Get the derivation path of account `index`
+   *
+   * @param {number} index
+   * @return {string}
+   */
+  public static getPath(index: number): string {
+    return AccountDiscovery.PATH_TEMPLATE.replace('{index}', '' + index)
+  }
+
+  /**
+   * Scan sequential account indexes of `mnemonic` until
+   * `gapLimit` consecutive accounts are unused
+   *
+   * Offline, the first `gapLimit` accounts are derived.
+   *
+   * @param {MnemonicPassPhrase} mnemonic
+   * @return {Promise<DiscoveredAccount[]>}
+   */
+  public async discover(mnemonic: MnemonicPassPhrase): Promise<DiscoveredAccount[]> {
+    const accounts: DiscoveredAccount[] = []
+
+    let unused = 0
+    for (let index = 0; unused < this.gapLimit; index++) {
+      const discovered = await this.lookup(index, mnemonic)
+      accounts.push(discovered)
+      unused = discovered.isUsed() ? 0 : unused + 1
+    }
+
+    // trailing unused accounts are kept up to the gap limit
+    // so that a fresh account can be selected too
+    return accounts
+  }
+
+  /**
+   * Derive account `index` and read its state from the network
+   *
+   * @param {number}             index
+   * @param {MnemonicPassPhrase} mnemonic
+   * @return {Promise<DiscoveredAccount>}
+   */
+  protected async lookup(
+    index: number,
+    mnemonic: MnemonicPassPhrase,
+  ): Promise<DiscoveredAccount>
+  {
+    const path = AccountDiscovery.getPath(index)
+    const account = Keystore.deriveAccount(mnemonic, path, this.networkType)
+
+    if (undefined === this.endpointUrl) {
+      return new DiscoveredAccount(index, path, account)
+    }
+
+    let info: AccountInfo
+    try {
+      info = await new AccountHttp(this.endpointUrl).getAccountInfo(account.address).toPromise()
+    }
+    catch (e) {
+      // Do nothing, account "Error: Not Found"
+      return new DiscoveredAccount(index, path, account)
+    }
+
+    let multisig: MultisigAccountInfo
+    try {
+      multisig = await new MultisigHttp(this.endpointUrl).getMultisigAccountInfo(account.address).toPromise()
+    }
+    catch (e) {} // Do nothing, not part of a multisig
+
+    const currency = info.mosaics.find((m) => m.id.toHex() === this.currency.toHex())
+    return new DiscoveredAccount(
+      index,
+      path,
+      account,
+      info,
+      multisig,
+      undefined !== currency ? currency.amount.compact() : 0,
+    )
+  }
+}
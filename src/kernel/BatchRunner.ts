@@ -0,0 +1,514 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as Path from 'path';
+import {TransactionHttp} from 'symbol-sdk';
+
+import {ContractConstants} from './Contract';
+import {ContractResult} from './ContractResult';
+import {ContractProcess, ContractOutcome} from './ContractProcess';
+import {Journal} from './Journal';
+
+/**
+ * The outcome of one row of a batch, rows that succeeded in
+ * a previous run have the `skipped` status and rows that were
+ * announced in a previous run but did not complete have the
+ * `announced` status
+ */
+export interface BatchRow extends ContractOutcome {
+  /**
+   * The row number, starting at 1
+   * @var {number}
+   */
+  row: number
+
+  /**
+   * The contract inputs of the row, secrets are redacted
+   * @var {Object}
+   */
+  inputs: Object
+}
+
+/**
+ * The report of a batch
+ */
+export interface BatchReport {
+  /**
+   * The executed contract, e.g. `RequestAsset`
+   * @var {string}
+   */
+  contract: string
+
+  /**
+   * The rows file path
+   * @var {string}
+   */
+  file: string
+
+  /**
+   * The start time (ISO 8601)
+   * @var {string}
+   */
+  startedAt: string
+
+  /**
+   * The end time (ISO 8601)
+   * @var {string}
+   */
+  finishedAt: string
+
+  /**
+   * The outcome of every row, in file order
+   * @var {BatchRow[]}
+   */
+  rows: BatchRow[]
+
+  /**
+   * The number of rows by status
+   * @var {Object}
+   */
+  summary: {[status: string]: number}
+}
+
+export class BatchRunner {
+  /**
+   * The row succeeded in a previous run of the batch
+   * @var {string}
+   */
+  public static SKIPPED: string = 'skipped'
+
+  /**
+   * The row announced a transaction in a previous run
+   * that is not confirmed, it is not executed again
+   * @var {string}
+   */
+  public static ANNOUNCED: string = 'announced'
+
+  /**
+   * The statuses of rows that are not executed again
+   * @var {string[]}
+   */
+  public static COMPLETED: string[] = [
+    ContractResult.CONFIRMED,
+    ContractResult.COSIGNED,
+    ContractResult.EXPORTED,
+  ]
+
+  /**
+   * The statuses of rows whose transactions were never
+   * announced, these rows are executed again
+   * @var {string[]}
+   */
+  public static NOT_ANNOUNCED: string[] = [
+    ContractResult.DRY_RUN,
+    ContractResult.PREPARED,
+  ]
+
+  /**
+   * The statuses of rows whose transactions the node
+   * reported as failed, these rows are executed again
+   * @var {string[]}
+   */
+  public static FAILED: string[] = [
+    ContractResult.FAILED,
+    ContractResult.LOCK_EXPIRED,
+  ]
+
+  /**
+   * Create a runner that executes a contract once per row,
+   * each row is executed by a separate command line process
+   *
+   * @param {string}    contract
+   * @param {string}    file
+   * @param {string[]}  args
+   * @param {number}    concurrency
+   * @param {Object}    env
+   * @param {string}    endpointUrl
+   * @param {string}    path
+   */
+  constructor(
+    /**
+     * The contract name, e.g. `RequestAsset`
+     * @var {string}
+     */
+    public readonly contract: string,
+    /**
+     * The rows file, CSV with a header line or JSON lines
+     * @var {string}
+     */
+    public readonly file: string,
+    /**
+     * The arguments of every row, e.g. `--profile operator`
+     * @var {string[]}
+     */
+    public readonly args: string[] = [],
+    /**
+     * The number of rows executed at the same time
+     * @var {number}
+     */
+    public readonly concurrency: number = 1,
+    /**
+     * The environment variables of every row
+     * @var {Object}
+     */
+    protected readonly env: Object = {},
+    /**
+     * The node that reports the status of the transactions
+     * announced in a previous run, undefined offline
+     * @var {string}
+     */
+    public readonly endpointUrl?: string,
+    /**
+     * The directory of the batch states, the rows that
+     * announced a transaction are recorded with its hash
+     * @var {string}
+     */
+    public readonly path: string = Path.join(ContractConstants.CONFIG_DIRECTORY, 'batches')) {
+  }
+
+  /**
+   * Read the rows of a CSV file (`.csv`) or of
+   * a JSON lines file (any other extension)
+   *
+   * @param {string}  file
+   * @return {Object[]}
+   */
+  public static readRows(file: string): Object[] {
+    if (! fs.existsSync(file)) {
+      throw new ExpectedError('The rows file ' + file + ' does not exist.')
+    }
+
+    const contents = fs.readFileSync(file, 'utf8')
+    if (Path.extname(file).toLowerCase() === '.csv') {
+      return BatchRunner.parseCSV(contents)
+    }
+
+    return contents.split(/\r?\n/).filter((line) => line.trim().length > 0).map((line, index) => {
+      let row: any
+      try {
+        row = JSON.parse(line)
+      }
+      catch (e) {
+        throw new ExpectedError('Line ' + (index + 1) + ' of ' + file + ' could not be parsed: ' + e.message)
+      }
+
+      if (null === row || typeof row !== 'object' || Array.isArray(row)) {
+        throw new ExpectedError('Line ' + (index + 1) + ' of ' + file + ' must be a JSON object.')
+      }
+
+      return row
+    })
+  }
+
+  /**
+   * Parse CSV contents, the first line names the columns and
+   * values may be quoted with `"` (RFC 4180)
+   *
+   * @param {string}  contents
+   * @return {Object[]}
+   */
+  public static parseCSV(contents: string): Object[] {
+    const lines: string[][] = []
+    let line: string[] = []
+    let value = ''
+    let quoted = false
+    for (let i = 0; i < contents.length; i++) {
+      const char = contents[i]
+      if (quoted && char === '"' && contents[i + 1] === '"') {
+        value += '"'
+        i++
+      }
+      else if (char === '"' && (quoted || value === '')) {
+        quoted = ! quoted
+      }
+      else if (! quoted && char === ',') {
+        line.push(value)
+        value = ''
+      }
+      else if (! quoted && (char === '\n' || char === '\r')) {
+        if (char === '\r' && contents[i + 1] === '\n') {
+          i++
+        }
+
+        line.push(value)
+        lines.push(line)
+        line = []
+        value = ''
+      }
+      else {
+        value += char
+      }
+    }
+
+    if (value.length || line.length) {
+      line.push(value)
+      lines.push(line)
+    }
+
+    const rows = lines.filter((values) => values.some((cell) => cell.trim().length > 0))
+    if (! rows.length) {
+      return []
+    }
+
+    const columns = rows[0].map((column) => column.trim())
+    return rows.slice(1).map((values) => columns.reduce((row, column, index) => Object.assign(row, {
+      [column]: undefined !== values[index] ? values[index] : '',
+    }), {}))
+  }
+
+  /**
+   * Execute the contract for every row, rows that completed
+   * in a previous run are skipped unless `restart` is set
+   *
+   * Rows are recorded as soon as the node accepts their
+   * transaction. Rows that announced a transaction in a
+   * previous run are never executed again, the status of
+   * their transaction is read from the node instead. Only
+   * rows that did not announce anything or whose transaction
+   * failed are executed again.
+   *
+   * @param {boolean}               restart
+   * @param {(BatchRow) => void}    onRow     Called when a row is done
+   * @return {Promise<BatchReport>}
+   */
+  public async run(
+    restart: boolean = false,
+    onRow: (row: BatchRow) => void = () => {},
+  ): Promise<BatchReport> {
+    const rows = BatchRunner.readRows(this.file)
+    const startedAt = new Date().toISOString()
+    const states = restart ? {} : this.readStates()
+    const results: BatchRow[] = new Array(rows.length)
+
+    let next = 0
+    const worker = async () => {
+      while (next < rows.length) {
+        const index = next++
+        const key = this.getKey(index, rows[index])
+        const previous = states[key]
+
+        const executed = BatchRunner.NOT_ANNOUNCED.concat(BatchRunner.FAILED)
+        if (undefined !== previous && BatchRunner.COMPLETED.includes(previous.status)) {
+          results[index] = { row: index + 1, inputs: Journal.redact(rows[index]), status: BatchRunner.SKIPPED, hash: previous.hash }
+        }
+        else if (undefined !== previous && ! executed.includes(previous.status)) {
+          results[index] = await this.refresh(index, rows[index], previous.hash)
+        }
+        else {
+          results[index] = await this.execute(index, rows[index], key)
+        }
+
+        // rows with a hash may have announced, they are not executed again
+        const recorded = [BatchRunner.SKIPPED, BatchRunner.ANNOUNCED].concat(BatchRunner.NOT_ANNOUNCED)
+        if (results[index].hash && ! recorded.includes(results[index].status)) {
+          this.recordState(key, results[index])
+        }
+
+        onRow(results[index])
+      }
+    }
+
+    const workers: Promise<void>[] = []
+    for (let i = 0; i < Math.max(1, Math.min(this.concurrency, rows.length)); i++) {
+      workers.push(worker())
+    }
+
+    await Promise.all(workers)
+    return {
+      contract: this.contract,
+      file: Path.resolve(this.file),
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      rows: results,
+      summary: results.reduce((summary, result) => Object.assign(summary, {
+        [result.status]: (summary[result.status] || 0) + 1,
+      }), {}),
+    }
+  }
+
+  /**
+   * Execute the contract for one row, the columns
+   * are passed as options of the contract
+   *
+   * The row is recorded with the `announced` status as soon
+   * as the node accepts its transaction, so that it is not
+   * executed again when the batch is interrupted before the
+   * contract completes.
+   *
+   * @param {number}  index
+   * @param {Object}  row
+   * @param {string}  key
+   * @return {Promise<BatchRow>}
+   */
+  protected async execute(
+    index: number,
+    row: Object,
+    key: string,
+  ): Promise<BatchRow> {
+    let announced: string
+    const outcome = await new ContractProcess(
+      this.contract,
+      ContractProcess.getArguments(row).concat(this.args),
+      Object.assign({}, this.env, ContractProcess.getSecrets(row)),
+    ).execute((hash) => {
+      if (hash !== announced) {
+        announced = hash
+        this.recordState(key, { row: index + 1, inputs: Journal.redact(row), status: BatchRunner.ANNOUNCED, hash })
+      }
+    })
+
+    const result: BatchRow = Object.assign({ row: index + 1, inputs: Journal.redact(row) }, outcome,
+      undefined === outcome.result ? {} : { result: Journal.redact(outcome.result) })
+
+    // failures without a transaction status after the announce (Ex.: a crash) keep the `announced` state
+    if (undefined === outcome.hash && undefined !== announced) {
+      return Object.assign(result, {
+        status: BatchRunner.ANNOUNCED,
+        hash: announced,
+        error: 'The contract failed after announcing the transaction ' + announced
+             + (outcome.error ? ': ' + outcome.error : '.') + ' It is not executed again unless the batch is restarted.',
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Read the status of the transaction that a row announced in
+   * a previous run, confirmed transactions complete the row and
+   * other rows keep the `announced` status
+   *
+   * @param {number}  index
+   * @param {Object}  row
+   * @param {string}  hash
+   * @return {Promise<BatchRow>}
+   */
+  protected async refresh(
+    index: number,
+    row: Object,
+    hash: string,
+  ): Promise<BatchRow> {
+    const status = await this.getTransactionStatus(hash)
+    const result = { row: index + 1, inputs: Journal.redact(row), hash }
+    if (status === ContractResult.CONFIRMED) {
+      return Object.assign(result, { status: ContractResult.CONFIRMED })
+    }
+
+    return Object.assign(result, {
+      status: BatchRunner.ANNOUNCED,
+      error: 'The transaction ' + hash + ' was announced in a previous run (status: ' + (status || 'unknown')
+           + '), it is not executed again unless the batch is restarted.',
+    })
+  }
+
+  /**
+   * Get the status group of a transaction (Ex.: `confirmed`),
+   * undefined when the node does not know the transaction
+   *
+   * @param {string}  hash
+   * @return {Promise<string>}
+   */
+  protected async getTransactionStatus(
+    hash: string,
+  ): Promise<string> {
+    if (undefined === this.endpointUrl) {
+      return undefined
+    }
+
+    const status = await new TransactionHttp(this.endpointUrl).getTransactionStatus(hash).toPromise()
+      .catch((e) => undefined) // e.g. unknown hash or node unreachable
+    return undefined === status ? undefined : String(status.group)
+  }
+
+  /**
+   * Get the key of a row, rows are identified by
+   * their position and their values
+   *
+   * @param {number}  index
+   * @param {Object}  row
+   * @return {string}
+   */
+  protected getKey(
+    index: number,
+    row: Object,
+  ): string {
+    return (index + 1) + ':' + crypto.createHash('sha256').update(JSON.stringify(row)).digest('hex')
+  }
+
+  /**
+   * Get the state file of the batch, one per contract and rows file
+   *
+   * @return {string}
+   */
+  protected getStatePath(): string {
+    const id = crypto.createHash('sha256')
+      .update(this.contract + '\n' + Path.resolve(this.file))
+      .digest('hex')
+
+    return Path.join(this.path, this.contract + '-' + id.substr(0, 16) + '.jsonl')
+  }
+
+  /**
+   * Read the rows that announced a transaction in previous
+   * runs, the latest state of a row is used
+   *
+   * @return {Object}   The status and transaction hash by row key
+   */
+  protected readStates(): {[key: string]: {status: string, hash: string}} {
+    const path = this.getStatePath()
+    if (! fs.existsSync(path)) {
+      return {}
+    }
+
+    return fs.readFileSync(path, 'utf8').split('\n').filter((line) => line.length > 0).reduce((states, line) => {
+      try {
+        const state = JSON.parse(line)
+        return Object.assign(states, { [state.key]: { status: state.status, hash: state.hash } })
+      }
+      catch (e) {
+        return states // interrupted while writing
+      }
+    }, {})
+  }
+
+  /**
+   * Record the status and transaction hash of a row in the state file,
+   * the status of the result document is recorded when there is one so
+   * that rows that timed out (`timed-out`) are not executed again
+   *
+   * @param {string}    key
+   * @param {BatchRow}  row
+   * @return {void}
+   */
+  protected recordState(
+    key: string,
+    row: BatchRow,
+  ): void {
+    if (! fs.existsSync(this.path)) {
+      fs.mkdirSync(this.path, {recursive: true, mode: 0o700})
+    }
+
+    fs.appendFileSync(this.getStatePath(), JSON.stringify({
+      key,
+      status: undefined !== row.result && row.result['status'] ? row.result['status'] : row.status,
+      hash: row.hash,
+      recordedAt: new Date().toISOString(),
+    }) + '\n', {mode: 0o600})
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    PublicAccount,
+    Transaction,
+} from 'symbol-sdk';
+import {spawn} from 'child_process';
+
+import {AbstractTransactionSigner, SignatureRequest} from './TransactionSigner';
+import {FeeStrategy} from './FeeStrategy';
+
+export class CommandSigner extends AbstractTransactionSigner {
+  /**
+   * Command timeout in milliseconds
+   * @var {number}
+   */
+  public static TIMEOUT: number = 60000
+
+  /**
+   * Create a signer for an external command
+   *
+   * The signature request is written as JSON to the standard
+   * input of `command`, which writes the signature to its standard
+   * output, either as JSON `{"signature": "..."}` or as hexadecimal.
+   *
+   * @param {string}        command
+   * @param {PublicAccount} publicAccount
+   * @param {Transaction}   transaction 
+   * @param {string}        generationHash 
+   * @param {FeeStrategy}   feeStrategy
+   */
+  constructor(
+    /**
+     * The signing command (executed in a shell)
+     * @var {string}
+     */
+    protected readonly command: string,
+    publicAccount: PublicAccount,
+    transaction: Transaction,
+    generationHash: string,
+    feeStrategy?: FeeStrategy) {
+    super(publicAccount, transaction, generationHash, feeStrategy)
+  }
+
+  /**
+   * Run the command to sign `request.data`
+   *
+   * @param {SignatureRequest} request
+   * @return {Promise<string>}
+   */
+  protected async signData(request: SignatureRequest): Promise<string> {
+    const output = await new Promise<string>((resolve, reject) => {
+      const child = spawn(this.command, [], {shell: true, stdio: ['pipe', 'pipe', 'pipe']})
+      let timedOut = false
+      const timer = setTimeout(() => {
+        timedOut = true
+        child.kill()
+      }, CommandSigner.TIMEOUT)
+
+      let stdout = ''
+      let stderr = ''
+      child.stdout.on('data', (chunk) => stdout += chunk)
+      child.stderr.on('data', (chunk) => stderr += chunk)
+      child.on('error', (e) => {
+        clearTimeout(timer)
+        reject(new ExpectedError('The signing command could not be executed: ' + e.message))
+      })
+      child.on('close', (code) => {
+        clearTimeout(timer)
+        if (timedOut === true) {
+          return reject(new ExpectedError('The signing command did not complete within ' + CommandSigner.TIMEOUT + 'ms.'))
+        }
+        else if (code !== 0) {
+          return reject(new ExpectedError('The signing command failed (exit code ' + code + '): ' + stderr.trim()))
+        }
+        return resolve(stdout.trim())
+      })
+
+      // commands may exit without reading the request
+      child.stdin.on('error', () => {})
+      child.stdin.end(JSON.stringify(request))
+    })
+
+    if (! output.startsWith('{')) {
+      return output
+    }
+
+    try {
+      return JSON.parse(output)['signature']
+    }
+    catch (e) {
+      throw new ExpectedError('The signing command returned an invalid response.')
+    }
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import { NetworkConstants } from './NetworkConstants';
+
+export class ConfirmationPolicy {
+  /**
+   * Waiting for the hash lock confirmation
+   * @var {string}
+   */
+  public static PHASE_HASH_LOCK: string = 'hash-lock'
+
+  /**
+   * Waiting for the aggregate bonded transaction in the partial pool
+   * @var {string}
+   */
+  public static PHASE_PARTIAL: string = 'partial'
+
+  /**
+   * Waiting for the cosignatures
+   * @var {string}
+   */
+  public static PHASE_COSIGNATURES: string = 'cosignatures'
+
+  /**
+   * Waiting for the transaction to be included in a block
+   * @var {string}
+   */
+  public static PHASE_CONFIRMATION: string = 'confirmation'
+
+  /**
+   * Waiting for blocks on top of the confirmation (--confirmations)
+   * @var {string}
+   */
+  public static PHASE_DEPTH: string = 'depth'
+
+  /**
+   * Waiting for the finalization of the block (--finalization)
+   * @var {string}
+   */
+  public static PHASE_FINALIZATION: string = 'finalization'
+
+  /**
+   * Descriptions of the phases
+   * @var {Object}
+   */
+  public static PHASES: {[phase: string]: string} = {
+    'hash-lock': 'the hash lock confirmation',
+    'partial': 'the aggregate bonded transaction in the partial pool',
+    'cosignatures': 'the cosignatures',
+    'confirmation': 'the transaction confirmation',
+    'depth': 'blocks on top of the confirmation',
+    'finalization': 'the finalization of the block',
+  }
+
+  /**
+   * Create a confirmation policy, the default policy waits
+   * for one confirmation without timeout
+   *
+   * @param {number}  confirmations
+   * @param {boolean} finalization
+   * @param {number}  timeout
+   * @param {Object}  phaseTimeouts
+   */
+  constructor(
+    /**
+     * The number of blocks, including the block of the transaction
+     * @var {number}
+     */
+    public readonly confirmations: number = 1,
+    /**
+     * Whether to wait for the finalization of the block
+     * @var {boolean}
+     */
+    public readonly finalization: boolean = false,
+    /**
+     * The overall timeout in seconds, 0 waits forever
+     * @var {number}
+     */
+    public readonly timeout: number = 0,
+    /**
+     * The timeout of each phase in seconds
+     * @var {Object}
+     */
+    public readonly phaseTimeouts: {[phase: string]: number} = {}) {
+    if (isNaN(confirmations) || confirmations < 1) {
+      throw new ExpectedError('The number of confirmations must be at least 1.')
+    }
+
+    Object.keys(phaseTimeouts).forEach((phase) => {
+      if (! ConfirmationPolicy.PHASES.hasOwnProperty(phase)) {
+        throw new ExpectedError('Unknown phase "' + phase + '", expected one of: ' + Object.keys(ConfirmationPolicy.PHASES).join(', '))
+      }
+    })
+  }
+
+  /**
+   * Parse a timeout (e.g.: 90, 90s, 5m, 48h) to seconds
+   *
+   * @param {string} value
+   * @return {number}
+   */
+  public static parseTimeout(value: string): number {
+    const timeout = /^[0-9]+$/.test(('' + value).trim())
+      ? parseInt(value)
+      : NetworkConstants.parseDuration(value)
+
+    if (undefined === timeout) {
+      throw new ExpectedError('Invalid timeout "' + value + '", Ex.: 90s, 5m or 48h')
+    }
+
+    return timeout
+  }
+
+  /**
+   * Parse phase timeouts (e.g.: hash-lock=5m,cosignatures=48h)
+   *
+   * @param {string} value
+   * @return {Object}
+   */
+  public static parsePhaseTimeouts(value: string): {[phase: string]: number} {
+    const timeouts = {}
+    if (! value || ! value.length) {
+      return timeouts
+    }
+
+    value.split(',').forEach((field: string) => {
+      const parts = field.split('=')
+      if (parts.length !== 2) {
+        throw new ExpectedError('Expected phase=timeout pairs in --phase-timeout, Ex.: hash-lock=5m,cosignatures=48h')
+      }
+
+      timeouts[parts[0].trim()] = ConfirmationPolicy.parseTimeout(parts[1])
+    })
+
+    return timeouts
+  }
+
+  /**
+   * Get the timeout of a phase in seconds, 0 waits forever
+   *
+   * @param {string} phase
+   * @return {number}
+   */
+  public getPhaseTimeout(phase: string): number {
+    return this.phaseTimeouts[phase] || 0
+  }
+
+  /**
+   * Returns whether blocks must be awaited after the confirmation
+   *
+   * @return {boolean}
+   */
+  public waitsAfterConfirmation(): boolean {
+    return this.finalization === true || this.confirmations > 1
+  }
+
+  /**
+   * Describe when a transaction is considered confirmed
+   *
+   * @return {string}
+   */
+  public describe(): string {
+    return this.finalization === true
+      ? 'finalization'
+      : this.confirmations + ' block' + (this.confirmations > 1 ? 's' : '')
+  }
+}
@@ -21,25 +21,57 @@ import {
     BlockHttp,
     BlockInfo,
     Account,
+    PublicAccount,
     Transaction,
     UInt64,
     RepositoryFactoryHttp,
 } from 'symbol-sdk';
 import { Observable, from as observableFrom } from 'rxjs';
 import * as readlineSync from 'readline-sync';
-import { OptionsResolver } from './OptionsResolver'
-import { MnemonicPassPhrase, ExtendedKey, Network, Wallet } from 'symbol-hd-wallets'
+import * as os from 'os';
+import * as Path from 'path';
+import { OptionsResolver, YesNoResolver, MissingInputError, isNonInteractive } from './OptionsResolver'
+import { MnemonicPassPhrase } from 'symbol-hd-wallets'
 import { TransactionFactory } from './TransactionFactory';
 import { TransactionSigner } from './TransactionSigner';
+import { LocalSigner } from './LocalSigner';
+import { KeystoreSigner } from './KeystoreSigner';
+import { RemoteSigner } from './RemoteSigner';
+import { CommandSigner } from './CommandSigner';
 import { TransactionBroadcaster } from './TransactionBroadcaster';
+import { ContractContext } from './ContractContext';
+import { OfflineBroadcaster } from './OfflineBroadcaster';
+import { PrepareBroadcaster } from './PrepareBroadcaster';
+import { PrepareSigner } from './PrepareSigner';
+import { ContractResult } from './ContractResult';
+import { ContractProfile, ProfileStore } from './ProfileStore';
+import { Keystore } from './Keystore';
+import { NodeSelector } from './NodeSelector';
+import { TransactionBundle } from './TransactionBundle';
+import { FeeStrategy } from './FeeStrategy';
+import { NetworkConstants } from './NetworkConstants';
+import { ContractProcess } from './ContractProcess';
+import { ConfirmationPolicy } from './ConfirmationPolicy';
+import { Journal, JournalEntry } from './Journal';
+import { PendingStore } from './PendingStore';
+import { Logger } from './Logger';
+import { Preflight } from './Preflight';
+import { PreflightSigner } from './PreflightSigner';
+import { AccountDiscovery, DiscoveredAccount } from './AccountDiscovery';
 
-export abstract class Contract extends Command {
+export abstract class Contract extends Command implements ContractContext {
   /**
    * The connection endpoint URL
    * @var {string}
    */
   public endpointUrl: string = ContractConstants.DEFAULT_NODE_URL
 
+  /**
+   * The API node URLs used for failover, healthiest first
+   * @var {string[]}
+   */
+  public nodes: string[] = []
+
   /**
    * The default explorer URL
    * @var {string}
@@ -60,6 +92,69 @@ export abstract class Contract extends Command {
    */
   public networkType: NetworkType = NetworkType.TEST_NET
 
+  /**
+   * Whether prompts are disabled (--non-interactive)
+   * @var {boolean}
+   */
+  public nonInteractive: boolean = false
+
+  /**
+   * Whether transactions are signed without network connection (--offline)
+   * @var {boolean}
+   */
+  public offline: boolean = false
+
+  /**
+   * Whether transactions are built and signed but never announced (--dry-run)
+   * @var {boolean}
+   */
+  public dryRun: boolean = false
+
+  /**
+   * Whether transactions are built but signed on an air-gapped host (--prepare)
+   * @var {boolean}
+   */
+  public prepare: boolean = false
+
+  /**
+   * The network constants (currency, block target, limits)
+   * @var {NetworkConstants}
+   */
+  public network: NetworkConstants = new NetworkConstants()
+
+  /**
+   * The fee strategy used when signing transactions
+   * @var {FeeStrategy}
+   */
+  public feeStrategy: FeeStrategy
+
+  /**
+   * When announced transactions are considered confirmed, and timeouts
+   * @var {ConfirmationPolicy}
+   */
+  public confirmationPolicy: ConfirmationPolicy = new ConfirmationPolicy()
+
+  /**
+   * Where bonded executions are saved until they complete (see Resume)
+   * @var {PendingStore}
+   */
+  public pendingStore: PendingStore = new PendingStore()
+
+  /**
+   * Where human output is written, the standard error
+   * with `--output json` (see executeWithJournal)
+   * @var {Logger}
+   */
+  public logger: Logger = new Logger()
+
+  /**
+   * Validates transactions before they are signed, undefined
+   * offline and with --skip-preflight
+   * @internal
+   * @var {Preflight}
+   */
+  protected preflight: Preflight
+
   /**
    * The repository factory
    * @internal
@@ -72,7 +167,7 @@ export abstract class Contract extends Command {
    * @internal
    * @var {TransactionFactory}
    */
-  protected factory: TransactionFactory
+  public factory: TransactionFactory
 
   /**
    * The transaction signer
@@ -81,16 +176,27 @@ export abstract class Contract extends Command {
    */
   protected signer: TransactionSigner
 
+  /**
+   * The signing account of the contract
+   * @internal
+   * @var {PublicAccount}
+   */
+  public signerAccount: PublicAccount
+
+  /**
+   * Creates signers for the signing account (local,
+   * keystore, remote service or external command)
+   * @internal
+   * @var {(transaction: Transaction) => TransactionSigner}
+   */
+  protected signerFactory: (transaction: Transaction) => TransactionSigner
+
   /**
    * The transaction broadcaster
    * @internal
    * @var {TransactionBroadcaster}
    */
-  protected broadcaster: TransactionBroadcaster
-
-  constructor() {
-    super();
-  }
+  public broadcaster: TransactionBroadcaster
 
 /// begin region Abstract Methods
   /**
@@ -106,29 +212,116 @@ export abstract class Contract extends Command {
    * @return {boolean}
    */
   public abstract requiresAuth(): boolean
+/// end region Abstract Methods
 
   /**
-   * Execute a smart contract's transactions
+   * Execute a smart contract's transactions, contracts
+   * that wrap the library API do not overwrite this
    *
-   * @param {Account}       account 
-   * @param {Transaction[]} transactions
+   * @param {Account|PublicAccount} account 
+   * @param {Transaction[]}         transactions
    * @return {Promise<any>}
    */
-  protected async abstract executeContract(
-    account: Account,
+  protected async executeContract(
+    account: Account | PublicAccount,
     transactions: Transaction[]
-  ): Promise<any>
-/// end region Abstract Methods
+  ): Promise<any> {
+    throw new ExpectedError('The contract \'' + this.getName() + '\' does not execute transactions directly.')
+  }
+
+  /**
+   * Returns whether the contract can be executed offline,
+   * contracts that read from the network must overwrite this
+   *
+   * @return {boolean}
+   */
+  public supportsOffline(): boolean {
+    return true
+  }
 
   /**
-   * Display an error message and exit
+   * Throw an error, the command line displays it and
+   * exits with its code
    *
    * @internal
    * @param e 
    */
-  public error(e) {
-    console.error(e)
-    process.exit(1)
+  public error(e, cause?: any): never {
+    // missing inputs name the option that must be provided
+    if (cause instanceof MissingInputError) {
+      e = cause
+    }
+
+    if (e instanceof Error) {
+      throw e
+    }
+
+    throw new ExpectedError(e)
+  }
+
+  /**
+   * Execute the contract with `run` and record the execution
+   * in the journal (see History), with its result or its error
+   *
+   * Human output is written to the standard error with
+   * `--output json`, the result is then the only document
+   * written to the standard output
+   *
+   * Contracts call it from their `execute` method, e.g.
+   * `return await this.executeWithJournal(inputs, () => this.run(inputs))`
+   *
+   * @param {ContractInputs}  inputs
+   * @param {Function}        run
+   * @return {Promise<T>}
+   */
+  protected async executeWithJournal<T>(
+    inputs: ContractInputs,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    this.logger = Logger.create(inputs['output'])
+    const entry = Journal.begin(this.getName(), inputs)
+
+    let result: T
+    try {
+      result = await run()
+    }
+    catch (e) {
+      this.recordExecution(Journal.finish(entry, undefined, e))
+      throw e
+    }
+
+    this.recordExecution(Journal.finish(entry, result))
+    return result
+  }
+
+  /**
+   * Write a line of human output (see Logger)
+   *
+   * @param {any[]} messages
+   * @return {void}
+   */
+  protected log(...messages: any[]): void {
+    this.logger.log(...messages)
+  }
+
+  /**
+   * Append an execution to the journal, a journal that
+   * cannot be written does not fail the contract
+   *
+   * @internal
+   * @param {JournalEntry} entry
+   * @return {void}
+   */
+  private recordExecution(entry: JournalEntry): void {
+    // the name of manifest contracts is known once loaded (see Run)
+    entry.contract = this.getName()
+
+    try {
+      new Journal().record(entry)
+    }
+    catch (e) {
+      console.error(chalk.yellow('The execution could not be recorded in the journal: ' + e.message))
+    }
   }
 
   /**
@@ -142,109 +335,352 @@ export abstract class Contract extends Command {
   ): Promise<ContractInputs> {
     const params = new ContractInputs();
 
-    // ------------------
-    // CONFIG 1: Node URL
-    // ------------------
+    // secret inputs of contract processes are environment variables
+    ContractProcess.readSecrets(inputs)
 
-    // explorerUrl can be overwritten with --explorerUrl or -e
-    if (inputs.hasOwnProperty('explorerUrl') && inputs['explorerUrl'] && inputs['explorerUrl'].length) {
-      this.explorerUrl = inputs['explorerUrl']
-    }
+    this.nonInteractive = isNonInteractive(inputs)
+    this.resolveKeystoreReferences(inputs)
+    this.dryRun = inputs['dryRun'] === true
+    this.confirmationPolicy = this.createConfirmationPolicy(inputs)
 
-    console.log('');
-    const useCustomNode = readlineSync.keyInYN(
-      'Do you want to connect to a custom node? ')
+    // ------------------
+    // CONFIG 0: Profile
+    // ------------------
 
-    if (useCustomNode === true) {
+    // profile can be selected with --profile
+    let profile: ContractProfile
+    if (inputs.hasOwnProperty('profile') && inputs['profile'] && inputs['profile'].length) {
       try {
-        params['apiUrl'] = OptionsResolver(inputs,
-          'apiUrl',
-          () => { return ''; },
-          'Enter a node URL (e.g.: http://localhost:3000): ')
+        profile = new ProfileStore().load(inputs['profile'])
+      }
+      catch (err) {
+        this.error(err.message)
+      }
 
-        // only overwrite if value provided
-        if (params['apiUrl'] && params['apiUrl'].length) {
-          this.endpointUrl = params['apiUrl']
-        }
+      if (profile.url && profile.url.length) {
+        this.endpointUrl = profile.url
+      }
 
-        await this.connect(inputs)
-      } 
-      catch (err) {
-        this.error('The node URL provided is invalid.')
+      if (profile.explorerUrl && profile.explorerUrl.length) {
+        this.explorerUrl = profile.explorerUrl
       }
+
+      this.log(chalk.green('Using profile: ', profile.name))
+    }
+
+    // ------------------
+    // CONFIG 1: Node URL
+    // ------------------
+
+    // offline mode never connects to a node (--offline)
+    this.offline = inputs['offline'] === true
+    this.prepare = inputs['prepare'] === true
+    if (this.prepare === true && (this.offline === true || this.dryRun === true)) {
+      this.error('The --prepare option builds transactions with a node, it cannot be combined with --offline or --dry-run.')
+    }
+    else if (this.prepare === true && this.requiresAuth() === false) {
+      this.error('The contract \'' + this.getName() + '\' does not sign transactions and cannot be prepared.')
+    }
+    else if (this.offline === true && ! this.supportsOffline()) {
+      this.error('The contract \'' + this.getName() + '\' reads from the network and cannot be executed with --offline.')
+    }
+    else if (this.offline === true) {
+      this.configureOffline(inputs, profile)
+    }
+    else {
+      await this.configureNode(inputs, profile)
     }
-    else await this.connect(inputs)
 
     // ------------------
     // CONFIG 2: Account
     // ------------------
 
-    if (this.requiresAuth() === true) {
+    // keystore keys can be selected with --keystore
+    const useKeystore = inputs.hasOwnProperty('keystore') && inputs['keystore'] && inputs['keystore'].length
+
+    // accounts held in memory, signed with locally
+    let account: Account
 
-      //XXX read "profiles"
+    // external signers are configured with --signer-url or --signer-command
+    const useExternalSigner = !!inputs['signerUrl'] || !!inputs['signerCommand']
+      || (undefined !== profile && undefined !== profile.signer && ! useKeystore)
 
-      console.log('');
-      const useRandomAccount = readlineSync.keyInYN(
+    if (this.requiresAuth() === true && this.prepare === true) {
+      params['account'] = this.usePrepareSigner(inputs, profile)
+    }
+    else if (this.requiresAuth() === true && useExternalSigner) {
+      params['account'] = this.useExternalSigner(inputs, profile)
+    }
+    else if (this.requiresAuth() === true && useKeystore) {
+      params['account'] = this.useKeystoreSigner(inputs['keystore'])
+    }
+    else if (this.requiresAuth() === true && undefined !== profile && profile.hasAccount() && profile.account.keystore) {
+      params['account'] = this.useKeystoreSigner(profile.account.keystore)
+    }
+    else if (this.requiresAuth() === true && undefined !== profile && profile.hasAccount()) {
+      account = this.createAccountFromProfile(profile)
+    }
+    else if (this.requiresAuth() === true) {
+
+      this.log('');
+      const useRandomAccount = YesNoResolver(inputs,
+        () => {
+          if (! inputs['account'] && ! inputs['mnemonic']) {
+            throw new MissingInputError('account', 'Missing signing account in non-interactive mode, please provide --account, --mnemonic, --keystore or --profile.')
+          }
+          return false
+        },
         'Do you want to generate a random account? ')
 
       if (useRandomAccount === true) {
         const mnemonic = MnemonicPassPhrase.createRandom()
-        params['account'] = this.createAccountFromMnemonic(mnemonic)
+        account = this.createAccountFromMnemonic(mnemonic)
       }
       else {
-        console.log('');
-        const usePrivateKey = readlineSync.keyInYN(
+        this.log('');
+        const usePrivateKey = YesNoResolver(inputs,
+          () => !!inputs['account'],
           'Do you want to enter a private key? ')
 
         if (usePrivateKey === true) {
-          params['account'] = this.createAccountFromPrivateKey(OptionsResolver(inputs,
+          account = this.createAccountFromPrivateKey(OptionsResolver(inputs,
             'account',
             () => { return ''; },
             'Enter an account private key: '))
         }
         else { // use mnemonic pass phrase
-          console.log('');
+          this.log('');
 
-          const mnemonic = OptionsResolver(inputs,
+          const mnemonic = new MnemonicPassPhrase(OptionsResolver(inputs,
             'mnemonic',
             () => { return ''; },
-            'Enter a 24-words mnemonic passphrase: ')
-
-          console.log('');
-          const useCustomPath = readlineSync.keyInYN(
-            'Do you want to use a custom derivation path? ')
-
-          let path = `m/44'/4343'/0'/0'/0'`
-          if (useCustomPath) {
-            path = OptionsResolver(inputs,
-              'path',
-              () => { return ''; },
-              "Enter a BIP39 derivation path (e.g.: m/44'/4343'/0'/0'/0'): ")
+            'Enter a 24-words mnemonic passphrase: '))
+
+          // derived accounts can be scanned with --discover
+          if (inputs['discover'] === true && undefined === inputs['accountIndex']) {
+            account = await this.discoverAccount(inputs, mnemonic)
+          }
+          else if (undefined !== inputs['accountIndex']) {
+            account = this.createAccountFromMnemonic(mnemonic, AccountDiscovery.getPath(inputs['accountIndex']))
           }
+          else {
+            this.log('');
+            const useCustomPath = YesNoResolver(inputs,
+              () => !!inputs['path'],
+              'Do you want to use a custom derivation path? ')
 
-          params['account'] = this.createAccountFromMnemonic(mnemonic, path)
+            let path = `m/44'/4343'/0'/0'/0'`
+            if (useCustomPath) {
+              path = OptionsResolver(inputs,
+                'path',
+                () => { return ''; },
+                "Enter a BIP39 derivation path (e.g.: m/44'/4343'/0'/0'/0'): ")
+            }
+
+            account = this.createAccountFromMnemonic(mnemonic, path)
+          }
         }
       }
     }
 
+    if (undefined !== account) {
+      params['account'] = this.useSigner(account.publicAccount, (transaction) => new LocalSigner(
+        account,
+        transaction,
+        this.generationHash,
+        this.feeStrategy,
+      ))
+    }
+
+    // unsigned transactions are written to a bundle (--prepare)
+    if (this.prepare === true) {
+      this.broadcaster = new PrepareBroadcaster(this, this.getOutputFile(inputs), inputs['debug'] === true)
+    }
+
     // done configuring
     return observableFrom([params]).toPromise()
   }
 
+  /**
+   * Configures the node connection
+   *
+   * @internal
+   * @param {ContractInputs}  inputs
+   * @param {ContractProfile} profile
+   * @return {Promise<void>}
+   */
+  private async configureNode(
+    inputs: ContractInputs,
+    profile?: ContractProfile,
+  ): Promise<void> {
+    // explorerUrl can be overwritten with --explorerUrl or -e
+    if (inputs.hasOwnProperty('explorerUrl') && inputs['explorerUrl'] && inputs['explorerUrl'].length) {
+      this.explorerUrl = inputs['explorerUrl']
+    }
+
+    // failover nodes can be configured with --nodes
+    if (inputs.hasOwnProperty('nodes') && inputs['nodes'] && inputs['nodes'].length) {
+      this.nodes = inputs['nodes'].split(',').map((url) => url.trim()).filter((url) => url.length)
+    }
+    else if (undefined !== profile && profile.nodes.length) {
+      this.nodes = profile.nodes
+    }
+
+    // fee strategy is validated before connecting
+    const strategy = inputs['feeStrategy'] || FeeStrategy.AVERAGE
+    if (! [FeeStrategy.SLOWEST, FeeStrategy.AVERAGE, FeeStrategy.FASTEST].includes(strategy)) {
+      this.error('Unknown fee strategy "' + strategy + '", expected one of: slowest, average, fastest.')
+    }
+
+    // configured nodes are used unless --apiUrl is provided
+    const useConfiguredNode = (this.nodes.length || (undefined !== profile && !!profile.url)) && !inputs['apiUrl']
+
+    this.log('');
+    const useCustomNode = useConfiguredNode ? false : YesNoResolver(inputs,
+      () => !!inputs['apiUrl'],
+      'Do you want to connect to a custom node? ')
+
+    if (useCustomNode === true) {
+      try {
+        const apiUrl = OptionsResolver(inputs,
+          'apiUrl',
+          () => { return ''; },
+          'Enter a node URL (e.g.: http://localhost:3000): ')
+
+        // only overwrite if value provided
+        if (apiUrl && apiUrl.length) {
+          this.endpointUrl = apiUrl
+        }
+
+        // custom node is probed together with failover nodes
+        if (this.nodes.length && ! this.nodes.includes(this.endpointUrl)) {
+          this.nodes.unshift(this.endpointUrl)
+        }
+
+        await this.connect(inputs, undefined, profile)
+      } 
+      catch (err) {
+        // errors of the network itself are displayed as is
+        if (err instanceof ExpectedError) throw err
+        this.error('The node URL provided is invalid.', err)
+      }
+    }
+    else {
+      try {
+        await this.connect(inputs, undefined !== profile ? profile.generationHash : undefined, profile)
+      }
+      catch (err) {
+        if (err instanceof ExpectedError) throw err
+        this.error('Could not connect to any of the configured nodes.', err)
+      }
+    }
+
+    // profiles pin the network they were created for
+    if (undefined !== profile) {
+      this.validateProfile(profile)
+    }
+  }
+
+  /**
+   * Configures the offline mode, network type and generation
+   * hash are read from options or from the profile
+   *
+   * @internal
+   * @param {ContractInputs}  inputs
+   * @param {ContractProfile} profile
+   * @return {void}
+   */
+  private configureOffline(
+    inputs: ContractInputs,
+    profile?: ContractProfile,
+  ): void {
+    this.log(chalk.yellow('Offline mode: signed transactions will be written to a file.'))
+
+    // network type can be overwritten with --network-type
+    if (! inputs['networkType'] && undefined !== profile && undefined !== profile.networkType) {
+      inputs['networkType'] = NetworkType[profile.networkType]
+    }
+
+    // generation hash can be overwritten with --generation-hash
+    if (! inputs['generationHash'] && undefined !== profile && profile.generationHash) {
+      inputs['generationHash'] = profile.generationHash
+    }
+
+    try {
+      const networkType = OptionsResolver(inputs,
+        'networkType',
+        () => { return ''; },
+        'Enter a network type (e.g.: TEST_NET): ')
+
+      this.networkType = /^[0-9]+$/.test(networkType)
+        ? parseInt(networkType)
+        : NetworkType[networkType.toUpperCase() as keyof typeof NetworkType]
+
+      if (undefined === NetworkType[this.networkType]) {
+        throw new Error('Invalid network type.')
+      }
+    }
+    catch (err) {
+      this.error('Please, enter a valid network type (e.g.: TEST_NET).', err)
+    }
+
+    try {
+      this.generationHash = OptionsResolver(inputs,
+        'generationHash',
+        () => { return ''; },
+        'Enter the network generation hash: ')
+
+      if (! /^[0-9a-fA-F]{64}$/.test(this.generationHash)) {
+        throw new Error('Invalid generation hash.')
+      }
+    }
+    catch (err) {
+      this.error('Please, enter a valid network generation hash.', err)
+    }
+
+    // network properties of private networks are read from the profile
+    if (undefined !== profile && undefined !== profile.network) {
+      this.network = NetworkConstants.fromJSON(profile.network)
+    }
+
+    // the minimum fee multiplier is used offline, --max-fee caps it
+    this.feeStrategy = new FeeStrategy(this.getMinFeeMultiplier(inputs), inputs['maxFee'])
+
+    // transaction factory must not read from the network
+    this.factory = TransactionFactory.create(this.endpointUrl, this.networkType, true, this.network)
+
+    // dry-run takes precedence over writing a bundle
+    this.broadcaster = this.dryRun === true
+      ? new TransactionBroadcaster(this, this.explorerUrl, undefined, inputs['debug'] === true)
+      : new OfflineBroadcaster(this, this.getOutputFile(inputs), inputs['debug'] === true)
+  }
+
   /**
    * Initializes a disposable smart contract
    *
    * @internal
+   * @param {ContractInputs}  inputs
+   * @param {string}          generationHash
+   * @param {ContractProfile} profile
    * @return {Promise<BlockInfo>}
    */
-  private async connect(inputs: ContractInputs): Promise<BlockInfo> {
+  private async connect(
+    inputs: ContractInputs,
+    generationHash?: string,
+    profile?: ContractProfile,
+  ): Promise<BlockInfo> {
+    // select the healthiest of the failover nodes
+    if (this.nodes.length) {
+      await this.selectNode(generationHash)
+    }
+
     const blockHttp = new BlockHttp(this.endpointUrl)
 
     // read first block of the network to identify
     // generationHash and networkType
     const firstBlock = await blockHttp.getBlockByHeight(UInt64.fromUint(1)).toPromise()
-    console.log(chalk.green('Using node: ', this.endpointUrl))
-    console.log(chalk.green('Connection established successfully'))
+    this.log(chalk.green('Using node: ', this.endpointUrl))
+    this.log(chalk.green('Connection established successfully'))
 
     this.networkType = firstBlock.networkType
     this.generationHash = firstBlock.generationHash
@@ -254,17 +690,233 @@ export abstract class Contract extends Command {
       this.generationHash,
     )
 
+    // currency and limits are derived from the network's properties
+    this.network = await this.loadNetworkConstants(profile)
+
+    // fees are derived from the network's fee multipliers
+    this.feeStrategy = await this.createFeeStrategy(inputs)
+
     // also create transaction factory for said network
-    this.factory = TransactionFactory.create(this.endpointUrl, this.networkType)
+    this.factory = TransactionFactory.create(this.endpointUrl, this.networkType, false, this.network)
     this.broadcaster = new TransactionBroadcaster(
       this,
       this.explorerUrl,
       this.endpointUrl,
-      inputs['debug'] === true
+      inputs['debug'] === true,
+      this.nodes.filter((url) => url !== this.endpointUrl),
     )
+
+    // balances and network state are validated before signing
+    if (inputs['skipPreflight'] !== true) {
+      this.preflight = new Preflight(this.endpointUrl, this.network, this.feeStrategy, this.logger)
+    }
     return firstBlock
   }
 
+  /**
+   * Load the network constants from the node's network properties
+   *
+   * Older nodes do not expose their network properties, the
+   * `network` entry of the profile must then describe them.
+   *
+   * @internal
+   * @param {ContractProfile} profile
+   * @return {Promise<NetworkConstants>}
+   */
+  private async loadNetworkConstants(profile?: ContractProfile): Promise<NetworkConstants> {
+    let network: NetworkConstants
+    try {
+      network = await NetworkConstants.load(this.endpointUrl)
+    }
+    catch (e) {
+      if (undefined === profile || undefined === profile.network) {
+        this.error('Could not read the network properties of ' + this.endpointUrl + ', '
+                 + 'configure them with a \'network\' entry in the profile.')
+      }
+
+      this.log(chalk.yellow('Could not read the network properties, using the network of the profile.'))
+      network = NetworkConstants.fromJSON(profile.network)
+    }
+
+    this.log(chalk.green('Using currency: ', network.getCurrencyName() + ' (' + network.currencyMosaicId + ')'))
+    return network
+  }
+
+  /**
+   * Create the fee strategy selected with --fee-strategy
+   *
+   * @internal
+   * @param {ContractInputs} inputs
+   * @return {Promise<FeeStrategy>}
+   */
+  private async createFeeStrategy(
+    inputs: ContractInputs,
+  ): Promise<FeeStrategy> {
+    const strategy = inputs['feeStrategy'] || FeeStrategy.AVERAGE
+    try {
+      const feeStrategy = await FeeStrategy.create(
+        this.endpointUrl,
+        strategy,
+        inputs['maxFee'],
+        this.getMinFeeMultiplier(inputs),
+      )
+      this.log(chalk.green('Using fee multiplier: ', feeStrategy.feeMultiplier + ' (' + strategy + ')'))
+      return feeStrategy
+    }
+    catch (e) {
+      // older nodes do not expose fee multipliers
+      const minFeeMultiplier = this.getMinFeeMultiplier(inputs)
+      this.log(chalk.yellow('Could not read the network fees, using the minimum fee multiplier: ' + minFeeMultiplier))
+      return new FeeStrategy(minFeeMultiplier, inputs['maxFee'])
+    }
+  }
+
+  /**
+   * Get the minimum fee multiplier of --min-fee-multiplier
+   *
+   * @internal
+   * @param {ContractInputs} inputs
+   * @return {number}
+   */
+  private getMinFeeMultiplier(
+    inputs: ContractInputs,
+  ): number {
+    const minFeeMultiplier = inputs['minFeeMultiplier']
+    if (undefined === minFeeMultiplier || null === minFeeMultiplier) {
+      return FeeStrategy.MIN_FEE_MULTIPLIER
+    }
+
+    if (isNaN(minFeeMultiplier) || minFeeMultiplier <= 0) {
+      this.error('The minimum fee multiplier must be a positive number.')
+    }
+
+    return minFeeMultiplier
+  }
+
+  /**
+   * Probes the failover nodes and selects the healthiest one
+   *
+   * @internal
+   * @param {string} generationHash
+   * @return {Promise<void>}
+   */
+  private async selectNode(generationHash?: string): Promise<void> {
+    const reports = await new NodeSelector().rank(this.nodes, generationHash)
+
+    reports.forEach((report) => {
+      const status = ! report.reachable ? chalk.red('unreachable (' + report.reason + ')')
+                   : ! report.matchesNetwork ? chalk.red('network mismatch')
+                   : report.isLagging ? chalk.yellow('lagging at height ' + report.height)
+                   : chalk.green('healthy at height ' + report.height + ' (' + report.latency + 'ms)')
+      this.log('Node ' + report.url + ': ' + status)
+    })
+
+    const healthy = reports.filter((report) => report.isHealthy())
+    if (! healthy.length) {
+      throw new ExpectedError('None of the configured nodes is healthy.')
+    }
+
+    this.endpointUrl = healthy[0].url
+    this.nodes = healthy.map((report) => report.url)
+  }
+
+  /**
+   * Create the confirmation policy with --confirmations,
+   * --finalization, --timeout and --phase-timeout
+   *
+   * @param {ContractInputs} inputs
+   * @return {ConfirmationPolicy}
+   */
+  private createConfirmationPolicy(inputs: ContractInputs): ConfirmationPolicy {
+    try {
+      return new ConfirmationPolicy(
+        undefined !== inputs['confirmations'] ? inputs['confirmations'] : 1,
+        inputs['finalization'] === true,
+        inputs['timeout'] ? ConfirmationPolicy.parseTimeout(inputs['timeout']) : 0,
+        ConfirmationPolicy.parsePhaseTimeouts(inputs['phaseTimeout']),
+      )
+    }
+    catch (e) {
+      this.error(e.message)
+    }
+  }
+
+  /**
+   * Validate that a profile matches the connected network
+   *
+   * @param {ContractProfile} profile
+   * @return {void}
+   */
+  private validateProfile(profile: ContractProfile): void {
+    if (undefined !== profile.networkType && profile.networkType !== this.networkType) {
+      this.error('The profile "' + profile.name + '" expects network type ' + profile.networkType + ' but the node uses ' + this.networkType + '.')
+    }
+
+    if (profile.generationHash && profile.generationHash.toUpperCase() !== this.generationHash.toUpperCase()) {
+      this.error('The profile "' + profile.name + '" expects generation hash ' + profile.generationHash + ' but the node uses ' + this.generationHash + '.')
+    }
+  }
+
+  /**
+   * Validate that a transaction bundle matches the network
+   *
+   * @param {TransactionBundle} bundle
+   * @return {void}
+   */
+  protected validateBundle(bundle: TransactionBundle): void {
+    if (bundle.networkType !== this.networkType) {
+      this.error('The transaction bundle expects network type ' + bundle.networkType + ' but the network type is ' + this.networkType + '.')
+    }
+
+    if (! bundle.generationHash || bundle.generationHash.toUpperCase() !== this.generationHash.toUpperCase()) {
+      this.error('The transaction bundle expects generation hash ' + bundle.generationHash + ' but the generation hash is ' + this.generationHash + '.')
+    }
+  }
+
+  /**
+   * Get the output file for --offline and Prepare, `--output`
+   * is still accepted as a file unless it names an output format
+   *
+   * @param {ContractInputs} inputs
+   * @return {string}
+   */
+  protected getOutputFile(inputs: ContractInputs): string {
+    if (inputs['outputFile'] && inputs['outputFile'].length) {
+      return inputs['outputFile']
+    }
+
+    const output = inputs['output']
+    if (! output || ! output.length
+        || [ContractResult.FORMAT_TEXT, ContractResult.FORMAT_JSON].indexOf(output) !== -1) {
+      return undefined
+    }
+
+    return output
+  }
+
+  /**
+   * Create an account from a profile's account reference
+   *
+   * @param {ContractProfile} profile
+   * @return {Account}
+   */
+  protected createAccountFromProfile(profile: ContractProfile): Account {
+    if (profile.account.keystore && profile.account.keystore.length) {
+      return this.createAccountFromKeystore(profile.account.keystore)
+    }
+    else if (profile.account.privateKey && profile.account.privateKey.length) {
+      return this.createAccountFromPrivateKey(profile.account.privateKey)
+    }
+    else if (profile.account.mnemonic && profile.account.mnemonic.length) {
+      return this.createAccountFromMnemonic(
+        new MnemonicPassPhrase(profile.account.mnemonic),
+        profile.account.path,
+      )
+    }
+
+    this.error('The profile "' + profile.name + '" does not reference a valid account.')
+  }
+
   /**
    * Create an account with private key
    *
@@ -282,31 +934,317 @@ export abstract class Contract extends Command {
    * @return {Account}
    */
   protected createAccountFromMnemonic(mnemonic: MnemonicPassPhrase, path: string = "m/44'/4343'/0'/0'/0'"): Account {
-    const seed = mnemonic.toSeed().toString('hex')
-    const xkey = ExtendedKey.createFromSeed(seed, Network.CATAPULT)
-    const wallet = new Wallet(xkey)
-    return wallet.getChildAccount(
+    return Keystore.deriveAccount(
+      mnemonic,
       path,
       this.networkType
     );
   }
 
+  /**
+   * Scan the accounts derived from a mnemonic pass phrase
+   * and select the account that signs the contract
+   *
+   * @param {ContractInputs}     inputs
+   * @param {MnemonicPassPhrase} mnemonic
+   * @return {Promise<Account>}
+   */
+  protected async discoverAccount(
+    inputs: ContractInputs,
+    mnemonic: MnemonicPassPhrase,
+  ): Promise<Account> {
+    const discovery = new AccountDiscovery(
+      this.networkType,
+      this.network.getCurrency(),
+      this.offline === true ? undefined : this.endpointUrl,
+      inputs['gapLimit'] || 5,
+    )
+
+    this.log('')
+    this.log(chalk.yellow('Discovering accounts, this may take a moment...'))
+    const accounts = await discovery.discover(mnemonic)
+    const entries = accounts.map((a) => this.describeDiscoveredAccount(a))
+
+    if (this.nonInteractive === true) {
+      entries.forEach((entry, i) => this.log('[' + accounts[i].index + '] ' + entry))
+      this.error(new MissingInputError('accountIndex', 'Select a discovered account with --account-index in non-interactive mode.'))
+    }
+
+    const selected = readlineSync.keyInSelect(entries, 'Which account should sign the contract? ', {cancel: false})
+    this.log(chalk.green('Using derivation path: ', accounts[selected].path))
+    return accounts[selected].account
+  }
+
+  /**
+   * Describe a discovered account with its address,
+   * balance, activity and multisig status
+   *
+   * @param {DiscoveredAccount} discovered
+   * @return {string}
+   */
+  protected describeDiscoveredAccount(discovered: DiscoveredAccount): string {
+    const address = discovered.account.address.plain()
+    if (this.offline === true) {
+      return discovered.path + ' ' + address
+    }
+    else if (! discovered.isUsed()) {
+      return discovered.path + ' ' + address + ' (unused)'
+    }
+
+    const status = [
+      this.network.formatAmount(discovered.balance) + ' ' + this.network.getCurrencyName(),
+      discovered.hasSentTransactions() ? 'active' : 'received only',
+    ]
+
+    if (discovered.isMultisig()) {
+      status.push('multisig ' + discovered.multisig.minApproval + '-of-' + discovered.multisig.cosignatories.length)
+    }
+    if (discovered.isCosignatory()) {
+      status.push('cosignatory of ' + discovered.multisig.multisigAccounts.length + ' multisig(s)')
+    }
+
+    return discovered.path + ' ' + address + ' (' + status.join(', ') + ')'
+  }
+
+  /**
+   * Create an account with a named key of the encrypted keystore
+   *
+   * @param {string} name
+   * @param {string} password
+   * @return {Account}
+   */
+  protected createAccountFromKeystore(
+    name: string,
+    password: string = this.readKeystorePassword(name),
+  ): Account {
+    try {
+      return new Keystore().getAccount(name, password, this.networkType)
+    }
+    catch (err) {
+      this.error(err.message)
+    }
+  }
+
+  /**
+   * Replace the keystore references of secret inputs with
+   * the decrypted keys, e.g. `--mnemonic keystore:issuer`
+   *
+   * @param {ContractInputs} inputs
+   * @return {void}
+   */
+  protected resolveKeystoreReferences(
+    inputs: ContractInputs,
+  ): void {
+    Object.keys(inputs).filter((name) => ContractProcess.isSecret(name)).forEach((name) => {
+      const match = ('' + inputs[name]).match(Keystore.REFERENCE)
+      if (null === match) {
+        return
+      }
+
+      const password = this.readKeystorePassword(match[1])
+      try {
+        inputs[name] = new Keystore().export(match[1], password)
+      }
+      catch (err) {
+        this.error(err.message)
+      }
+    })
+  }
+
+  /**
+   * Read the password of a named key of the encrypted keystore
+   *
+   * @param {string} name
+   * @return {string}
+   */
+  protected readKeystorePassword(name: string): string {
+    if (! new Keystore().has(name)) {
+      this.error('The key "' + name + '" could not be found in the keystore.')
+    }
+
+    // password can be provided with SYMBOL_CONTRACTS_PASSWORD
+    let password: string = process.env['SYMBOL_CONTRACTS_PASSWORD']
+    if (! password && this.nonInteractive) {
+      this.error(new MissingInputError('password', 'Missing keystore password in non-interactive mode, please set SYMBOL_CONTRACTS_PASSWORD.'))
+    }
+    else if (! password) {
+      this.log('');
+      password = readlineSync.question(
+        'Enter the keystore password for "' + name + '": ',
+        { hideEchoBack: true })
+    }
+
+    return password
+  }
+
+  /**
+   * Use `signerFactory` to sign for `account`
+   *
+   * @param {PublicAccount} account
+   * @param {Function}      signerFactory
+   * @return {PublicAccount}
+   */
+  protected useSigner(
+    account: PublicAccount,
+    signerFactory: (transaction: Transaction) => TransactionSigner,
+  ): PublicAccount {
+    this.signerAccount = account
+    this.signerFactory = signerFactory
+    return account
+  }
+
+  /**
+   * Use a named key of the encrypted keystore, the key
+   * is decrypted whenever a transaction is signed
+   *
+   * @param {string} name
+   * @return {PublicAccount}
+   */
+  protected useKeystoreSigner(name: string): PublicAccount {
+    // the password is validated once
+    const password = this.readKeystorePassword(name)
+    const account = this.createAccountFromKeystore(name, password)
+
+    return this.useSigner(account.publicAccount, (transaction) => new KeystoreSigner(
+      new Keystore(),
+      name,
+      password,
+      account.publicAccount,
+      transaction,
+      this.generationHash,
+      this.feeStrategy,
+    ))
+  }
+
+  /**
+   * Use a remote signing service (--signer-url) or an external
+   * command (--signer-command) for the account of --signer-public-key
+   *
+   * @param {ContractInputs}  inputs
+   * @param {ContractProfile} profile
+   * @return {PublicAccount}
+   */
+  protected useExternalSigner(
+    inputs: ContractInputs,
+    profile?: ContractProfile,
+  ): PublicAccount {
+    const config = undefined !== profile && undefined !== profile.signer ? profile.signer : {}
+    const url = inputs['signerUrl'] || (inputs['signerCommand'] ? undefined : config.url)
+    const command = inputs['signerCommand'] || (inputs['signerUrl'] ? undefined : config.command)
+
+    if (! inputs['signerPublicKey'] && config.publicKey) {
+      inputs['signerPublicKey'] = config.publicKey
+    }
+
+    let account: PublicAccount
+    try {
+      account = PublicAccount.createFromPublicKey(OptionsResolver(inputs,
+        'signerPublicKey',
+        () => { return ''; },
+        'Enter the public key of the signing account: '), this.networkType)
+    }
+    catch (err) {
+      this.error('Please, enter a valid public key for the signing account.', err)
+    }
+
+    if (url && url.length) {
+      this.log(chalk.green('Using signing service: ', url))
+      return this.useSigner(account, (transaction) => new RemoteSigner(
+        url,
+        account,
+        transaction,
+        this.generationHash,
+        this.feeStrategy,
+      ))
+    }
+    else if (command && command.length) {
+      this.log(chalk.green('Using signing command: ', command))
+      return this.useSigner(account, (transaction) => new CommandSigner(
+        command,
+        account,
+        transaction,
+        this.generationHash,
+        this.feeStrategy,
+      ))
+    }
+
+    this.error('The signer of profile "' + profile.name + '" must have a "url" or a "command".')
+  }
+
+  /**
+   * Build the transactions of the account of --signer-public-key
+   * without signing them, they are signed on an air-gapped host
+   *
+   * @param {ContractInputs}  inputs
+   * @param {ContractProfile} profile
+   * @return {PublicAccount}
+   */
+  protected usePrepareSigner(
+    inputs: ContractInputs,
+    profile?: ContractProfile,
+  ): PublicAccount {
+    if (! inputs['signerPublicKey'] && undefined !== profile && undefined !== profile.signer && profile.signer.publicKey) {
+      inputs['signerPublicKey'] = profile.signer.publicKey
+    }
+
+    let account: PublicAccount
+    try {
+      account = PublicAccount.createFromPublicKey(OptionsResolver(inputs,
+        'signerPublicKey',
+        () => { return ''; },
+        'Enter the public key of the signing account: '), this.networkType)
+    }
+    catch (err) {
+      this.error('Please, enter a valid public key for the signing account.', err)
+    }
+
+    this.log(chalk.green('Preparing transactions of: ', account.address.plain()))
+    return this.useSigner(account, (transaction) => new PrepareSigner(
+      account,
+      transaction,
+      this.generationHash,
+      this.feeStrategy,
+    ))
+  }
+
   /**
    * Get an instantiated transaction signer
    *
-   * @param {Account}     account 
-   * @param {Transaction} transaction 
+   * Accounts held in memory, e.g. derived NIP13 accounts,
+   * are signed with locally. The signing account of the
+   * contract is signed with the configured signer. Online,
+   * transactions are validated before they are signed.
+   *
+   * @param {Account|PublicAccount} account 
+   * @param {Transaction}           transaction 
    * @return {TransactionSigner}
    */
-  protected getSigner(
-    account: Account,
+  public getSigner(
+    account: Account | PublicAccount,
     transaction: Transaction
   ): TransactionSigner
   {
-    this.signer = new TransactionSigner(
-      account,
-      transaction,
-      this.generationHash)
+    if (account instanceof Account && this.prepare === true) {
+      throw new ExpectedError('The contract \'' + this.getName() + '\' signs with accounts held in memory and cannot be prepared, use --offline on the air-gapped host instead.')
+    }
+    else if (account instanceof Account) {
+      this.signer = new LocalSigner(
+        account,
+        transaction,
+        this.generationHash,
+        this.feeStrategy)
+    }
+    else if (undefined !== this.signerAccount && account.publicKey === this.signerAccount.publicKey) {
+      this.signer = this.signerFactory(transaction)
+    }
+    else {
+      throw new ExpectedError('No signer is configured for account ' + account.address.plain() + '.')
+    }
+
+    if (undefined !== this.preflight) {
+      this.signer = new PreflightSigner(this.signer, transaction, this.preflight)
+    }
+
     return this.signer
   }
 }
@@ -324,52 +1262,134 @@ export class ContractInputs extends Options {
   explorerUrl: string;
   @option({
     flag: 'p',
+    type: String,
     description: 'Account private key (hexadecimal format)',
   })
-  account: Account;
+  account: PublicAccount; // the signing account once configured
+  @option({
+    description: 'URL of a remote signing service (Ex.: "https://signer.example.com/sign")',
+  })
+  signerUrl: string;
+  @option({
+    description: 'External command that signs the request read from stdin',
+  })
+  signerCommand: string;
+  @option({
+    description: 'Public key of the account signed for with --signer-url or --signer-command',
+  })
+  signerPublicKey: string;
   @option({
     flag: 'm',
     description: 'Mnemonic passphrase (24 words)',
   })
   mnemonic: string;
+  @option({
+    description: "BIP39 derivation path for --mnemonic (Ex.: m/44'/4343'/0'/0'/0')",
+  })
+  path: string;
+  @option({
+    description: 'Scan the accounts derived from --mnemonic and select the signing account',
+    toggle: true,
+  })
+  discover: boolean;
+  @option({
+    description: 'Number of consecutive unused accounts after which --discover stops (default: 5)',
+  })
+  gapLimit: number;
+  @option({
+    description: "Account index of the derivation path for --mnemonic (Ex.: 2 for m/44'/4343'/2'/0'/0')",
+  })
+  accountIndex: number;
   @option({
     flag: 'd',
     description: 'Enable debug mode',
   })
   debug: boolean;
+  @option({
+    toggle: true,
+    description: 'Disable all prompts, missing inputs fail with exit code 2',
+  })
+  nonInteractive: boolean;
+  @option({
+    description: 'Comma-separated API node URLs for failover (Ex.: "http://node1:3000,http://node2:3000")',
+  })
+  nodes: string;
+  @option({
+    description: 'Named connection and account profile (Ex.: "testnet-operator")',
+  })
+  profile: string;
+  @option({
+    description: 'Name of a key in the encrypted keystore (Ex.: "operator")',
+  })
+  keystore: string;
+  @option({
+    toggle: true,
+    description: 'Sign without network connection and write signed transactions to a file',
+  })
+  offline: boolean;
+  @option({
+    description: 'Network type for --offline (Ex.: "TEST_NET")',
+  })
+  networkType: string;
+  @option({
+    description: 'Network generation hash for --offline',
+  })
+  generationHash: string;
+  @option({
+    description: 'Output format, one of: text, json (default: text)',
+  })
+  output: string;
+  @option({
+    description: 'Output file for --offline, --prepare and Prepare (Ex.: "signed.json")',
+  })
+  outputFile: string;
+  @option({
+    toggle: true,
+    description: 'Build and sign transactions but never announce them',
+  })
+  dryRun: boolean;
+  @option({
+    toggle: true,
+    description: 'Build the transactions of --signer-public-key without signing them, they are signed on an air-gapped host (see Sign)',
+  })
+  prepare: boolean;
+  @option({
+    toggle: true,
+    description: 'Do not validate balances and network state before signing',
+  })
+  skipPreflight: boolean;
+  @option({
+    description: 'Fee strategy, one of: slowest, average, fastest (default: average)',
+  })
+  feeStrategy: string;
+  @option({
+    description: 'Maximum fee of one transaction in absolute amount of the network currency (Ex.: 200000)',
+  })
+  maxFee: number;
+  @option({
+    description: 'Minimum fee multiplier accepted by the nodes (default: 100)',
+  })
+  minFeeMultiplier: number;
+  @option({
+    description: 'Number of blocks until a transaction is confirmed, including its own block (default: 1)',
+  })
+  confirmations: number;
+  @option({
+    toggle: true,
+    description: 'Wait for the finalization of the block of a transaction',
+  })
+  finalization: boolean;
+  @option({
+    description: 'Overall timeout of the execution (Ex.: 10m)',
+  })
+  timeout: string;
+  @option({
+    description: 'Timeouts of the phases: hash-lock, partial, cosignatures, confirmation, depth, finalization (Ex.: hash-lock=5m,cosignatures=48h)',
+  })
+  phaseTimeout: string;
 }
 
 export class ContractConstants {
-  /**
-   * Block target in seconds
-   * @var {number}
-   */
-  public static BLOCK_TARGET_SECONDS: number = 15
-  /**
-   * Approximate number of blocks produced in one year
-   * Defaults to one year with 15 seconds block target: `2102400`
-   * @var {number}
-   */
-  public static BLOCKS_IN_ONE_YEAR: number = (365 * 24 * 60 * 60) / ContractConstants.BLOCK_TARGET_SECONDS
-
-  /**
-   * Default fee to use for aggregate transactions
-   * @var {number}
-   */
-  public static DEFAULT_AGGREGATE_FEE: number = 100000 // 0.1 symbol.xym
-
-  /**
-   * Default fee to use for normal transactions
-   * @var {number}
-   */
-  public static DEFAULT_TRANSACTION_FEE: number = 30000 // 0.03 symbol.xym
-
-  /**
-   * Default fee for transactions with rental fee
-   * @var {number}
-   */
-  public static DEFAULT_FEE_WITH_RENTAL: number = 1 * ContractConstants.BLOCKS_IN_ONE_YEAR // 2,102400 symbol.xym
-
   /**
    * Default API node URL
    * @var {string}
@@ -383,14 +1403,15 @@ export class ContractConstants {
   public static DEFAULT_EXPLORER_URL: string = 'http://explorer-941.symboldev.network'
 
   /**
-   * Default locked mosaic (hash lock)
+   * Configuration directory (profiles, ...)
    * @var {string}
    */
-  public static LOCK_MOSAIC: string = '519FC24B9223E0B4' // symbol.xym
+  public static CONFIG_DIRECTORY: string = Path.join(os.homedir(), '.symbol-contracts')
 
   /**
-   * Default locked mosaic amount (hash lock)
+   * Version of the `Contract` API that plugins are built
+   * against, incremented with every breaking change
    * @var {number}
    */
-  public static LOCK_AMOUNT: number = 10000000
+  public static API_VERSION: number = 1
 }
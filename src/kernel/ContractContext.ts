@@ -0,0 +1,134 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+    Account,
+    NetworkType,
+    PublicAccount,
+    Transaction,
+} from 'symbol-sdk';
+import { TransactionFactory } from './TransactionFactory';
+import { TransactionSigner } from './TransactionSigner';
+import { TransactionBroadcaster } from './TransactionBroadcaster';
+import { FeeStrategy } from './FeeStrategy';
+import { NetworkConstants } from './NetworkConstants';
+import { ConfirmationPolicy } from './ConfirmationPolicy';
+import { PendingStore } from './PendingStore';
+import { Logger } from './Logger';
+
+/**
+ * The execution context of smart contracts
+ *
+ * Contracts of the command line configure themselves as their
+ * context, the library API uses a `LibraryContext`.
+ */
+export interface ContractContext {
+  /**
+   * The connection endpoint URL
+   * @var {string}
+   */
+  endpointUrl: string
+
+  /**
+   * The explorer URL
+   * @var {string}
+   */
+  explorerUrl: string
+
+  /**
+   * The network type
+   * @var {NetworkType}
+   */
+  networkType: NetworkType
+
+  /**
+   * The network generation hash
+   * @var {string}
+   */
+  generationHash: string
+
+  /**
+   * Whether transactions are signed but never announced
+   * @var {boolean}
+   */
+  dryRun: boolean
+
+  /**
+   * The network constants (currency, block target, limits)
+   * @var {NetworkConstants}
+   */
+  network: NetworkConstants
+
+  /**
+   * The fee strategy used when signing transactions
+   * @var {FeeStrategy}
+   */
+  feeStrategy: FeeStrategy
+
+  /**
+   * When announced transactions are considered confirmed, and timeouts
+   * @var {ConfirmationPolicy}
+   */
+  confirmationPolicy: ConfirmationPolicy
+
+  /**
+   * Where bonded executions are saved until they complete (see
+   * Resume), executions are not saved when undefined
+   * @var {PendingStore}
+   */
+  pendingStore?: PendingStore
+
+  /**
+   * Where human output is written, the standard
+   * output when undefined
+   * @var {Logger}
+   */
+  logger?: Logger
+
+  /**
+   * The transaction factory
+   * @var {TransactionFactory}
+   */
+  factory: TransactionFactory
+
+  /**
+   * The transaction broadcaster
+   * @var {TransactionBroadcaster}
+   */
+  broadcaster: TransactionBroadcaster
+
+  /**
+   * The signing account
+   * @var {PublicAccount}
+   */
+  signerAccount: PublicAccount
+
+  /**
+   * Get the name of the context, used in messages and results
+   *
+   * @return {string}
+   */
+  getName(): string
+
+  /**
+   * Get a transaction signer for `account`
+   *
+   * @param {Account|PublicAccount} account 
+   * @param {Transaction}           transaction 
+   * @return {TransactionSigner}
+   */
+  getSigner(account: Account | PublicAccount, transaction: Transaction): TransactionSigner
+}
@@ -0,0 +1,114 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import { ContractResult } from './ContractResult';
+import { StatusDescription } from './StatusCatalogue';
+
+export class ContractError extends ExpectedError {
+  /**
+   * Create the error of a contract that failed executing
+   *
+   * @param {string}          message
+   * @param {ContractResult}  result
+   * @param {string}          statusCode
+   * @param {StatusDescription} status
+   */
+  constructor(
+    message: string,
+    /**
+     * The result of the failed execution
+     * @var {ContractResult}
+     **/
+    public readonly result: ContractResult,
+    /**
+     * The status code reported by the node
+     * @var {string}
+     **/
+    public readonly statusCode?: string,
+    /**
+     * The explanation of the status code
+     * @var {StatusDescription}
+     **/
+    public readonly status?: StatusDescription) {
+    super(message)
+  }
+
+  /**
+   * Get the result document with the error
+   *
+   * @return {Object}
+   */
+  public toJSON(): Object {
+    return Object.assign(this.result.toJSON(), {
+      error: Object.assign({
+        code: this.statusCode,
+        message: this.message,
+      }, undefined === this.status ? {} : {
+        transaction: this.status.transaction,
+        innerTransactions: this.status.innerTransactions,
+        explanation: this.status.explanation,
+        remediation: this.status.remediation,
+      }),
+    })
+  }
+
+  /**
+   * Get the result document of any error, errors other than
+   * contract errors happen before a transaction is announced
+   * (e.g. missing inputs) and only carry their message
+   *
+   * @param {string}  contract
+   * @param {Error}   error
+   * @return {Object}
+   */
+  public static getDocument(
+    contract: string,
+    error: Error,
+  ): Object {
+    if (error instanceof ContractError) {
+      return error.toJSON()
+    }
+
+    return {
+      contract: contract,
+      status: ContractResult.FAILED,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+      },
+    }
+  }
+
+  /**
+   * Display the error, the result document
+   * is displayed with --output json
+   *
+   * @param {NodeJS.WritableStream} stdout
+   * @param {NodeJS.WritableStream} stderr
+   * @return {void}
+   */
+  public print(
+    stdout: NodeJS.WritableStream,
+    stderr: NodeJS.WritableStream,
+  ): void {
+    if (ContractResult.format === ContractResult.FORMAT_JSON) {
+      stdout.write(JSON.stringify(this.toJSON(), null, 2) + '\n')
+      return
+    }
+
+    super.print(stdout, stderr)
+  }
+}
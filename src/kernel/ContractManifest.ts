@@ -0,0 +1,473 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {Address} from 'symbol-sdk';
+import * as fs from 'fs';
+import * as Path from 'path';
+import * as yaml from 'js-yaml';
+
+import {Placeholders} from './Placeholders';
+
+/**
+ * An input of a manifest contract, read from the command
+ * line or prompted for
+ */
+export interface ManifestInput {
+  /**
+   * The input type, one of `string`, `number`, `boolean`,
+   * `publicKey`, `address` or `mosaic`
+   * @var {string}
+   */
+  type: string
+
+  /**
+   * The text displayed when prompting for the input
+   * @var {string}
+   */
+  prompt?: string
+
+  /**
+   * The value used when the input is not provided
+   * @var {any}
+   */
+  default?: any
+
+  /**
+   * Whether the input must have a value, defaults to true
+   * @var {boolean}
+   */
+  required?: boolean
+
+  /**
+   * A regular expression the value must match
+   * @var {string}
+   */
+  pattern?: string
+
+  /**
+   * The minimum of a `number` input
+   * @var {number}
+   */
+  min?: number
+
+  /**
+   * The maximum of a `number` input
+   * @var {number}
+   */
+  max?: number
+
+  /**
+   * The accepted values
+   * @var {any[]}
+   */
+  choices?: any[]
+}
+
+/**
+ * An inner transaction of a manifest contract, its fields
+ * may contain `${placeholders}` of inputs, roles and of
+ * the outputs of previous transactions
+ */
+export interface ManifestTransaction {
+  /**
+   * The transaction type, e.g. `transfer`
+   * @var {string}
+   */
+  type: string
+
+  /**
+   * The identifier used to reference the outputs of the
+   * transaction, e.g. `${token.mosaicId}`
+   * @var {string}
+   */
+  id?: string
+
+  /**
+   * The role that signs the transaction, defaults to `signer`
+   * @var {string}
+   */
+  signer?: string
+
+  /**
+   * The type-specific fields, e.g. `recipient`
+   * @var {any}
+   */
+  [field: string]: any
+}
+
+export class ContractManifest {
+  /**
+   * The types of inputs
+   * @var {string[]}
+   */
+  public static INPUT_TYPES: string[] = ['string', 'number', 'boolean', 'publicKey', 'address', 'mosaic']
+
+  /**
+   * The types of inner transactions and their required fields,
+   * each type is built with the `TransactionFactory` primitive
+   * of the same name
+   * @var {Object}
+   */
+  public static TRANSACTION_TYPES: Object = {
+    'transfer': ['recipient', 'mosaic', 'amount'],
+    'namespace-registration': ['name'],
+    'mosaic-definition': [],
+    'mosaic-supply-change': ['mosaic', 'amount'],
+    'mosaic-alias': ['namespace', 'mosaic'],
+  }
+
+  /**
+   * The inner transactions are wrapped in a complete aggregate
+   * @var {string}
+   */
+  public static AGGREGATE_COMPLETE: string = 'complete'
+
+  /**
+   * The inner transactions are wrapped in a bonded aggregate with a hash lock
+   * @var {string}
+   */
+  public static AGGREGATE_BONDED: string = 'bonded'
+
+  /**
+   * The role of the account that executes the contract
+   * @var {string}
+   */
+  public static SIGNER_ROLE: string = 'signer'
+
+  /**
+   * Create a contract manifest
+   *
+   * @param {string}                  name
+   * @param {string}                  description
+   * @param {Object}                  inputs
+   * @param {Object}                  roles
+   * @param {ManifestTransaction[]}   transactions
+   * @param {string}                  aggregate
+   * @param {Object}                  lock
+   * @param {string}                  path
+   */
+  constructor(
+    /**
+     * The contract name, used in results and in the journal
+     * @var {string}
+     */
+    public readonly name: string,
+    /**
+     * The contract description
+     * @var {string}
+     */
+    public readonly description: string,
+    /**
+     * The inputs by name, in prompt order
+     * @var {Object}
+     */
+    public readonly inputs: {[name: string]: ManifestInput},
+    /**
+     * The public keys (or addresses) of the roles
+     * other than `signer`, by role name
+     * @var {Object}
+     */
+    public readonly roles: {[name: string]: string},
+    /**
+     * The inner transactions, in aggregate order
+     * @var {ManifestTransaction[]}
+     */
+    public readonly transactions: ManifestTransaction[],
+    /**
+     * The aggregate mode, `complete` or `bonded`
+     * @var {string}
+     */
+    public readonly aggregate: string = ContractManifest.AGGREGATE_COMPLETE,
+    /**
+     * The `mosaic` and absolute `amount` locked for bonded
+     * aggregates, defaults to the network lock
+     * @var {Object}
+     */
+    public readonly lock?: {mosaic: string, amount: any},
+    /**
+     * The manifest file path
+     * @var {string}
+     */
+    public readonly path?: string) {
+  }
+
+  /**
+   * Read a manifest file, YAML files are recognized by
+   * their `.yml` or `.yaml` extension, other files are JSON
+   *
+   * @param {string}  path
+   * @return {ContractManifest}
+   */
+  public static load(path: string): ContractManifest {
+    if (! fs.existsSync(path)) {
+      throw new ExpectedError('The manifest file ' + path + ' does not exist.')
+    }
+
+    let document: any
+    try {
+      const contents = fs.readFileSync(path, 'utf8')
+      document = ['.yml', '.yaml'].includes(Path.extname(path).toLowerCase())
+        ? yaml.safeLoad(contents)
+        : JSON.parse(contents)
+    }
+    catch (e) {
+      throw new ExpectedError('The manifest file ' + path + ' could not be parsed: ' + e.message)
+    }
+
+    return ContractManifest.create(document, path)
+  }
+
+  /**
+   * Create a manifest from its document, the structure and
+   * the placeholders of the document are validated
+   *
+   * @param {any}     document
+   * @param {string}  path
+   * @return {ContractManifest}
+   */
+  public static create(document: any, path?: string): ContractManifest {
+    const fail = (message: string) => {
+      throw new ExpectedError('Invalid manifest' + (path ? ' ' + path : '') + ': ' + message)
+    }
+
+    if (null === document || typeof document !== 'object' || Array.isArray(document)) {
+      fail('expected an object.')
+    }
+
+    if (typeof document.name !== 'string' || ! /^[A-Za-z][A-Za-z0-9_-]*$/.test(document.name)) {
+      fail('the contract \'name\' must start with a letter and contain only letters, digits, - and _.')
+    }
+
+    const inputs = document.inputs || {}
+    const roles = document.roles || {}
+    const aggregate = document.aggregate || ContractManifest.AGGREGATE_COMPLETE
+    const transactions = document.transactions
+
+    Object.keys(inputs).forEach((name) => {
+      const input = inputs[name]
+      if (null === input || typeof input !== 'object' || ! ContractManifest.INPUT_TYPES.includes(input.type)) {
+        fail('the type of input \'' + name + '\' must be one of: ' + ContractManifest.INPUT_TYPES.join(', ') + '.')
+      }
+
+      if (undefined !== input.pattern) {
+        try { new RegExp(input.pattern) }
+        catch (e) { fail('the pattern of input \'' + name + '\' is not a valid regular expression.') }
+      }
+
+      if (undefined !== input.choices && ! Array.isArray(input.choices)) {
+        fail('the choices of input \'' + name + '\' must be a list.')
+      }
+    })
+
+    Object.keys(roles).forEach((role) => {
+      if (role === ContractManifest.SIGNER_ROLE || inputs.hasOwnProperty(role)) {
+        fail('the role \'' + role + '\' conflicts with the signer or with an input.')
+      }
+      else if (typeof roles[role] !== 'string') {
+        fail('the role \'' + role + '\' must be a public key, an address or a placeholder.')
+      }
+    })
+
+    if (! [ContractManifest.AGGREGATE_COMPLETE, ContractManifest.AGGREGATE_BONDED].includes(aggregate)) {
+      fail('the aggregate must be one of: complete, bonded.')
+    }
+
+    if (! Array.isArray(transactions) || ! transactions.length) {
+      fail('at least one transaction is required.')
+    }
+
+    // placeholders reference inputs, roles and previous transactions
+    const names = [ContractManifest.SIGNER_ROLE].concat(Object.keys(inputs), Object.keys(roles))
+    const check = (value: any, where: string) => {
+      if (! Placeholders.isValid(value)) {
+        fail('invalid placeholder in ' + where + ', placeholders are written ${<name>} or ${<name>.<field>}.')
+      }
+
+      Placeholders.get(value).forEach((placeholder) => {
+        if (! names.includes(placeholder.split('.')[0])) {
+          fail('unknown placeholder ' + Placeholders.format(placeholder) + ' in ' + where + '.')
+        }
+      })
+    }
+
+    Object.keys(roles).forEach((role) => check(roles[role], 'role \'' + role + '\''))
+    transactions.forEach((transaction: ManifestTransaction, index: number) => {
+      const where = 'transaction #' + (index + 1)
+      if (null === transaction || typeof transaction !== 'object' || ! ContractManifest.TRANSACTION_TYPES.hasOwnProperty(transaction.type)) {
+        fail('the type of ' + where + ' must be one of: ' + Object.keys(ContractManifest.TRANSACTION_TYPES).join(', ') + '.')
+      }
+
+      ContractManifest.TRANSACTION_TYPES[transaction.type].forEach((field: string) => {
+        if (undefined === transaction[field] || null === transaction[field]) {
+          fail('the field \'' + field + '\' of ' + where + ' (' + transaction.type + ') is required.')
+        }
+      })
+
+      const role = transaction.signer || ContractManifest.SIGNER_ROLE
+      if (role !== ContractManifest.SIGNER_ROLE && ! roles.hasOwnProperty(role)) {
+        fail('the signer of ' + where + ' must be \'signer\' or a declared role.')
+      }
+      else if (role !== ContractManifest.SIGNER_ROLE && aggregate !== ContractManifest.AGGREGATE_BONDED) {
+        fail(where + ' is signed by \'' + role + '\', only bonded aggregates can be co-signed by other roles.')
+      }
+
+      Object.keys(transaction).forEach((field) => check(transaction[field], where))
+
+      if (undefined !== transaction.id) {
+        if (names.includes(transaction.id)) {
+          fail('the id \'' + transaction.id + '\' of ' + where + ' is already used.')
+        }
+
+        names.push(transaction.id)
+      }
+    })
+
+    if (undefined !== document.lock) {
+      if (aggregate !== ContractManifest.AGGREGATE_BONDED) {
+        fail('a lock can only be configured for bonded aggregates.')
+      }
+      else if (null === document.lock || undefined === document.lock.mosaic || undefined === document.lock.amount) {
+        fail('the lock requires a \'mosaic\' and an \'amount\'.')
+      }
+
+      check(document.lock.mosaic, 'the lock')
+      check(document.lock.amount, 'the lock')
+    }
+
+    return new ContractManifest(
+      document.name,
+      document.description || '',
+      inputs,
+      roles,
+      transactions,
+      aggregate,
+      document.lock,
+      path,
+    )
+  }
+
+  /**
+   * Cast and validate the value of an input, the default
+   * is used for missing values
+   *
+   * @param {string}  name
+   * @param {any}     value
+   * @return {any}
+   */
+  public resolveInput(name: string, value: any): any {
+    const input = this.getInput(name)
+    if (undefined === value || null === value || '' === value) {
+      value = input.default
+    }
+
+    if (undefined === value || null === value || '' === value) {
+      if (input.required === false) {
+        return undefined
+      }
+
+      throw new ExpectedError('The input \'' + name + '\' is required.')
+    }
+
+    const invalid = (expected: string) => new ExpectedError('Invalid value for input \'' + name + '\': expected ' + expected + '.')
+    switch (input.type) {
+      case 'number':
+        value = Number(value)
+        if (isNaN(value)) {
+          throw invalid('a number')
+        }
+        else if ((undefined !== input.min && value < input.min) || (undefined !== input.max && value > input.max)) {
+          throw invalid('a number between ' + (undefined !== input.min ? input.min : '-∞') + ' and ' + (undefined !== input.max ? input.max : '∞'))
+        }
+        break
+
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          const normalized = String(value).toLowerCase()
+          if (! ['true', 'false', 'yes', 'no', '1', '0'].includes(normalized)) {
+            throw invalid('true or false')
+          }
+
+          value = ['true', 'yes', '1'].includes(normalized)
+        }
+        break
+
+      case 'publicKey':
+        value = String(value).toUpperCase()
+        if (! /^[0-9A-F]{64}$/.test(value)) {
+          throw invalid('a public key (64 hexadecimal characters)')
+        }
+        break
+
+      case 'address':
+        try {
+          value = Address.createFromRawAddress(String(value)).plain()
+        }
+        catch (e) {
+          throw invalid('an address')
+        }
+        break
+
+      case 'mosaic':
+        value = String(value)
+        if (! /^[0-9A-Fa-f]{16}$/.test(value) && ! /^[a-z0-9_-]+(\.[a-z0-9_-]+){0,2}$/.test(value)) {
+          throw invalid('a mosaic id or a namespace name (Ex.: symbol.xym)')
+        }
+        break
+
+      default:
+        value = String(value)
+    }
+
+    if (undefined !== input.choices && ! input.choices.map((choice) => String(choice)).includes(String(value))) {
+      throw invalid('one of: ' + input.choices.join(', '))
+    }
+
+    if (undefined !== input.pattern && ! new RegExp(input.pattern).test(String(value))) {
+      throw invalid('a value matching ' + input.pattern)
+    }
+
+    return value
+  }
+
+  /**
+   * Cast and validate the values of all inputs
+   *
+   * @param {Object}  values
+   * @return {Object}
+   */
+  public resolveInputs(values: Object): Object {
+    Object.keys(values).forEach((name) => this.getInput(name))
+
+    return Object.keys(this.inputs).reduce((resolved, name) => Object.assign(resolved, {
+      [name]: this.resolveInput(name, values[name]),
+    }), {})
+  }
+
+  /**
+   * Get the definition of an input
+   *
+   * @param {string}  name
+   * @return {ManifestInput}
+   */
+  public getInput(name: string): ManifestInput {
+    if (! this.inputs.hasOwnProperty(name)) {
+      throw new ExpectedError('Unknown input \'' + name + '\', the contract \'' + this.name + '\' accepts: ' + Object.keys(this.inputs).join(', ') + '.')
+    }
+
+    return this.inputs[name]
+  }
+}
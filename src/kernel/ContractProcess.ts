@@ -0,0 +1,261 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {spawn} from 'child_process';
+import * as readlineSync from 'readline-sync';
+import * as Path from 'path';
+
+import {ContractResult} from './ContractResult';
+import {Journal} from './Journal';
+
+/**
+ * The outcome of a contract executed by a command line process
+ */
+export interface ContractOutcome {
+  /**
+   * The execution status, e.g. `confirmed` or `failed`
+   * @var {string}
+   */
+  status: string
+
+  /**
+   * The hash of the contract transaction
+   * @var {string}
+   */
+  hash?: string
+
+  /**
+   * The error message of failed executions
+   * @var {string}
+   */
+  error?: string
+
+  /**
+   * The result document of the contract
+   * @var {Object}
+   */
+  result?: Object
+}
+
+export class ContractProcess {
+  /**
+   * Prefix of the environment variables of secret inputs,
+   * e.g. `SYMBOL_CONTRACTS_INPUT_MNEMONIC` for `--mnemonic`
+   * @var {string}
+   */
+  public static SECRET_PREFIX: string = 'SYMBOL_CONTRACTS_INPUT_'
+
+  /**
+   * Create a contract process, the contract is executed in
+   * non-interactive mode and its result document is read
+   * from the standard output (`--output json`)
+   *
+   * @param {string}    contract
+   * @param {string[]}  args
+   * @param {Object}    env
+   */
+  constructor(
+    /**
+     * The contract name, e.g. `RequestAsset`
+     * @var {string}
+     */
+    public readonly contract: string,
+    /**
+     * The command line arguments, e.g. `--profile operator`
+     * @var {string[]}
+     */
+    public readonly args: string[] = [],
+    /**
+     * The environment variables added to the current environment
+     * @var {Object}
+     */
+    protected readonly env: Object = {}) {
+  }
+
+  /**
+   * Get the command line arguments of options by name (Ex.:
+   * `networkType` or `network-type`), `true` values are
+   * toggles and empty values are omitted
+   *
+   * Secret options (Ex.: `mnemonic`) are never passed as
+   * arguments, they are passed as environment variables
+   * (see getSecrets)
+   *
+   * @param {Object}  options
+   * @return {string[]}
+   */
+  public static getArguments(options: Object): string[] {
+    return Object.keys(options).filter((name) => ! ContractProcess.isSecret(name)).reduce((args, name) => {
+      const value = options[name]
+      const flag = '--' + name.replace(/^-+/, '').replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()
+      if (undefined === value || null === value || '' === value || false === value || 'false' === value) {
+        return args
+      }
+      else if (true === value || 'true' === value) {
+        return args.concat([flag])
+      }
+
+      return args.concat([flag, typeof value === 'object' ? JSON.stringify(value) : String(value)])
+    }, [])
+  }
+
+  /**
+   * Get the environment variables of the secret options, the
+   * contract reads them when they are not given as options
+   * (see readSecrets)
+   *
+   * @param {Object}  options
+   * @return {Object}
+   */
+  public static getSecrets(options: Object): Object {
+    return Object.keys(options).filter((name) => ContractProcess.isSecret(name)).reduce((env, name) => {
+      const value = options[name]
+      if (undefined === value || null === value || '' === value) {
+        return env
+      }
+
+      const variable = ContractProcess.SECRET_PREFIX + name.replace(/^-+/, '')
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/-/g, '_').toUpperCase()
+
+      return Object.assign(env, { [variable]: typeof value === 'object' ? JSON.stringify(value) : String(value) })
+    }, {})
+  }
+
+  /**
+   * Read the secret options of the environment variables of
+   * a contract process, options that are given are kept
+   *
+   * @param {Object}  inputs
+   * @param {Object}  env
+   * @return {Object}
+   */
+  public static readSecrets(inputs: Object, env: Object = process.env): Object {
+    Object.keys(env).filter((variable) => variable.startsWith(ContractProcess.SECRET_PREFIX)).forEach((variable) => {
+      const name = variable.substr(ContractProcess.SECRET_PREFIX.length).toLowerCase()
+        .replace(/_([a-z0-9])/g, (match: string, char: string) => char.toUpperCase())
+
+      if (undefined === inputs[name] || null === inputs[name]) {
+        inputs[name] = env[variable]
+      }
+    })
+
+    return inputs
+  }
+
+  /**
+   * Get whether an option holds a secret (Ex.: `privateKey`)
+   *
+   * @param {string}  name
+   * @return {boolean}
+   */
+  public static isSecret(name: string): boolean {
+    return Journal.SECRET_INPUTS.test(name.replace(/[-_]/g, ''))
+  }
+
+  /**
+   * Get the environment variables of contract processes, the
+   * password of a `--keystore` key is read once for all of them
+   *
+   * @param {Object}  options
+   * @return {Object}
+   */
+  public static getEnvironment(options: Object): Object {
+    const env = {}
+    if (options['keystore'] && ! process.env['SYMBOL_CONTRACTS_PASSWORD'] && options['nonInteractive'] !== true) {
+      console.log('')
+      env['SYMBOL_CONTRACTS_PASSWORD'] = readlineSync.question(
+        'Enter the keystore password for "' + options['keystore'] + '": ',
+        { hideEchoBack: true })
+    }
+
+    return env
+  }
+
+  /**
+   * Report the hash of a transaction that the node accepted to
+   * the process that executes the contract, if any (see execute)
+   *
+   * @param {string}  hash
+   * @return {void}
+   */
+  public static reportAnnounce(hash: string): void {
+    if (typeof process.send === 'function') {
+      process.send({ announced: hash })
+    }
+  }
+
+  /**
+   * Execute the contract, the promise always resolves and
+   * failures are reported with the `failed` status
+   *
+   * Transactions are reported with `onAnnounce` as soon as
+   * the node accepts them, before their confirmation.
+   *
+   * @param {(hash: string) => void}  onAnnounce
+   * @return {Promise<ContractOutcome>}
+   */
+  public execute(
+    onAnnounce: (hash: string) => void = () => {},
+  ): Promise<ContractOutcome> {
+    const args = [Path.join(__dirname, '..', 'SmartContracts.js'), this.contract]
+      .concat(this.args, ['--non-interactive', '--output', ContractResult.FORMAT_JSON])
+
+    return new Promise<ContractOutcome>((resolve) => {
+      const child = spawn(process.execPath, args, {
+        env: Object.assign({}, process.env, this.env),
+        stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+      })
+
+      let stdout = ''
+      let stderr = ''
+      child.stdout.on('data', (chunk) => stdout += chunk)
+      child.stderr.on('data', (chunk) => stderr += chunk)
+      child.on('message', (message: any) => {
+        if (null !== message && typeof message === 'object' && typeof message.announced === 'string') {
+          onAnnounce(message.announced)
+        }
+      })
+      child.on('error', (e) => resolve({
+        status: ContractResult.FAILED,
+        error: 'The contract could not be executed: ' + e.message,
+      }))
+      child.on('close', (code) => {
+        let result: Object
+        try {
+          result = JSON.parse(stdout)
+        }
+        catch (e) {} // no result document, the contract failed
+
+        if (code === 0) {
+          return resolve({
+            status: undefined !== result ? result['status'] : Journal.NOT_EXECUTED,
+            hash: undefined !== result ? result['hash'] : undefined,
+            result,
+          })
+        }
+
+        // clime prints errors as `ERR <message>`
+        const errors = stderr.replace(/\u001b\[[0-9;]*m/g, '').split('\n').filter((line) => line.startsWith('ERR '))
+        resolve({
+          status: ContractResult.FAILED,
+          hash: undefined !== result ? result['hash'] : undefined,
+          error: errors.length ? errors.pop().substr(4) : 'The contract exited with code ' + code + '.',
+          result,
+        })
+      })
+    })
+  }
+}
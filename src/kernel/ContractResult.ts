@@ -0,0 +1,394 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {
+    Account,
+    Address,
+    MosaicId,
+    NamespaceId,
+    NetworkType,
+    PublicAccount,
+    SignedTransaction,
+    TransactionMapping,
+    TransactionType,
+    UInt64,
+} from 'symbol-sdk';
+import { TransactionURI } from 'symbol-uri-scheme';
+import { Printable } from 'clime';
+
+/**
+ * A status the contract execution went through
+ */
+export interface StatusTransition {
+  /**
+   * The status, e.g. `announced`
+   * @var {string}
+   */
+  status: string
+
+  /**
+   * The hash of the transaction the status refers to
+   * @var {string}
+   */
+  hash: string
+
+  /**
+   * The time of the transition
+   * @var {Date}
+   */
+  timestamp: Date
+}
+
+export class ContractResult implements Printable {
+  /**
+   * Results are displayed as text
+   * @var {string}
+   */
+  public static FORMAT_TEXT: string = 'text'
+
+  /**
+   * Results are displayed as one JSON document (--output json)
+   * @var {string}
+   */
+  public static FORMAT_JSON: string = 'json'
+
+  /**
+   * The output format of results, set by the command line
+   * @var {string}
+   */
+  public static format: string = ContractResult.FORMAT_TEXT
+
+  /**
+   * The transaction was signed
+   * @var {string}
+   */
+  public static SIGNED: string = 'signed'
+
+  /**
+   * The transaction was announced to a node
+   * @var {string}
+   */
+  public static ANNOUNCED: string = 'announced'
+
+  /**
+   * The hash lock of the aggregate bonded transaction was confirmed
+   * @var {string}
+   */
+  public static LOCK_CONFIRMED: string = 'hash-lock-confirmed'
+
+  /**
+   * The aggregate bonded transaction was added to the partial pool
+   * @var {string}
+   */
+  public static PARTIAL_ADDED: string = 'partial-added'
+
+  /**
+   * A co-signature was added to the aggregate bonded transaction
+   * @var {string}
+   */
+  public static COSIGNATURE_ADDED: string = 'cosignature-added'
+
+  /**
+   * The transaction was included in a block, it is confirmed
+   * once the confirmation policy is satisfied
+   * @var {string}
+   */
+  public static INCLUDED: string = 'included'
+
+  /**
+   * The transaction was confirmed on the network
+   * @var {string}
+   */
+  public static CONFIRMED: string = 'confirmed'
+
+  /**
+   * The co-signature was added to a partial transaction
+   * @var {string}
+   */
+  public static COSIGNED: string = 'cosigned'
+
+  /**
+   * The hash lock expired before the aggregate bonded
+   * transaction was confirmed (see Resume)
+   * @var {string}
+   */
+  public static LOCK_EXPIRED: string = 'hash-lock-expired'
+
+  /**
+   * The transactions were signed but not announced (--dry-run)
+   * @var {string}
+   */
+  public static DRY_RUN: string = 'dry-run'
+
+  /**
+   * The transactions were signed and written to a bundle (--offline)
+   * @var {string}
+   */
+  public static EXPORTED: string = 'exported'
+
+  /**
+   * The transactions were built but not signed, they are signed
+   * on an air-gapped host (--prepare, see Sign)
+   * @var {string}
+   */
+  public static PREPARED: string = 'prepared'
+
+  /**
+   * A phase of the execution exceeded its timeout
+   * @var {string}
+   */
+  public static TIMED_OUT: string = 'timed-out'
+
+  /**
+   * The node rejected the transaction
+   * @var {string}
+   */
+  public static FAILED: string = 'failed'
+
+  /**
+   * The fields of every result, other fields are contract-specific
+   * @var {string[]}
+   */
+  protected static FIELDS: string[] = [
+    'contract', 'status', 'hash', 'signer', 'networkType', 'generationHash',
+    'endpointUrl', 'explorerUrl', 'signedTransactions', 'transitions', 'path',
+  ]
+
+  /**
+   * Create a contract execution result
+   *
+   * @param {string}              contract
+   * @param {string}              status
+   * @param {string}              hash
+   * @param {PublicAccount}       signer
+   * @param {NetworkType}         networkType
+   * @param {string}              generationHash
+   * @param {string}              endpointUrl
+   * @param {string}              explorerUrl
+   * @param {SignedTransaction[]} signedTransactions
+   * @param {StatusTransition[]}  transitions
+   * @param {string}              path
+   */
+  constructor(
+    /**
+     * The name of the executed contract
+     * @var {string}
+     **/
+    public readonly contract: string,
+    /**
+     * The execution status, e.g. `confirmed`
+     * @var {string}
+     **/
+    public readonly status: string,
+    /**
+     * The hash of the contract transaction (parent hash for co-signatures)
+     * @var {string}
+     **/
+    public readonly hash: string,
+    /**
+     * The account that signed the contract transaction
+     * @var {PublicAccount}
+     **/
+    public readonly signer: PublicAccount,
+    /**
+     * The network type
+     * @var {NetworkType}
+     **/
+    public readonly networkType: NetworkType,
+    /**
+     * The network generation hash
+     * @var {string}
+     **/
+    public readonly generationHash: string,
+    /**
+     * The node URL, undefined offline
+     * @var {string}
+     **/
+    public readonly endpointUrl: string,
+    /**
+     * The explorer URL
+     * @var {string}
+     **/
+    public readonly explorerUrl: string,
+    /**
+     * The signed transactions, hash lock first
+     * @var {SignedTransaction[]}
+     **/
+    public readonly signedTransactions: SignedTransaction[] = [],
+    /**
+     * The statuses the execution went through, oldest first
+     * @var {StatusTransition[]}
+     **/
+    public readonly transitions: StatusTransition[] = [],
+    /**
+     * The bundle file path (--offline)
+     * @var {string}
+     **/
+    public readonly path?: string) {}
+
+  /**
+   * Get the explorer URL of the contract transaction
+   *
+   * @return {string}
+   */
+  public getTransactionUrl(): string {
+    return this.explorerUrl + '/transaction/' + this.hash
+  }
+
+  /**
+   * Get the explorer URL of the signing account
+   *
+   * @return {string}
+   */
+  public getAccountUrl(): string {
+    return this.explorerUrl + '/account/' + this.signer.address.plain()
+  }
+
+  /**
+   * Get the result document, contract-specific fields
+   * that were added to the result are included
+   *
+   * @return {Object}
+   */
+  public toJSON(): Object {
+    const document = {
+      contract: this.contract,
+      status: this.status,
+      network: {
+        type: NetworkType[this.networkType],
+        generationHash: this.generationHash,
+        node: this.endpointUrl,
+      },
+      signer: ContractResult.serialize(this.signer),
+      hash: this.hash,
+      transactions: this.signedTransactions.map((signedTransaction) => ({
+        type: TransactionType[TransactionMapping.createFromPayload(signedTransaction.payload).type],
+        hash: signedTransaction.hash,
+      })),
+      transitions: ContractResult.serialize(this.transitions),
+      explorer: {
+        transaction: this.getTransactionUrl(),
+        account: this.getAccountUrl(),
+      },
+    }
+
+    if (undefined !== this.path) {
+      document['path'] = this.path
+    }
+
+    // e.g. the mosaic id of CreateAsset
+    Object.keys(this).filter((key) => ! ContractResult.FIELDS.includes(key)).forEach((key) => {
+      document[key] = ContractResult.serialize(this[key])
+    })
+
+    return document
+  }
+
+  /**
+   * Display the result, called by clime when a
+   * contract returns from its `execute` method
+   *
+   * @param {NodeJS.WritableStream} stdout
+   * @param {NodeJS.WritableStream} stderr
+   * @return {void}
+   */
+  public print(
+    stdout: NodeJS.WritableStream,
+    stderr: NodeJS.WritableStream,
+  ): void {
+    if (ContractResult.format === ContractResult.FORMAT_JSON) {
+      stdout.write(JSON.stringify(this.toJSON(), null, 2) + '\n')
+      return
+    }
+
+    const lines: string[] = []
+    switch (this.status) {
+      case ContractResult.CONFIRMED:
+        lines.push(chalk.green('Smart contract \'' + this.contract + '\' execution completed'))
+        lines.push(chalk.green('View Transaction:    ' + this.getTransactionUrl()))
+        lines.push(chalk.green('View Issuer Account: ' + this.getAccountUrl()))
+        break
+
+      case ContractResult.COSIGNED:
+        lines.push(chalk.green('Smart contract \'' + this.contract + '\' executed successfully'))
+        lines.push(chalk.green('Now waiting for co-signatures from other involved parties.'))
+        break
+
+      case ContractResult.DRY_RUN:
+        lines.push(chalk.green('View Transaction:    ' + this.getTransactionUrl()))
+        lines.push(chalk.green('View Issuer Account: ' + this.getAccountUrl()))
+        break
+
+      case ContractResult.EXPORTED:
+        lines.push(chalk.green('Smart contract \'' + this.contract + '\' signed offline'))
+        lines.push(chalk.green('Signed transactions written to: ' + this.path))
+        lines.push(chalk.yellow('Transactions must be announced before their deadline (2 hours).'))
+        break
+
+      case ContractResult.PREPARED:
+        lines.push(chalk.green('Smart contract \'' + this.contract + '\' prepared'))
+        lines.push(chalk.green('Unsigned transactions written to: ' + this.path))
+        lines.push(chalk.yellow('Transactions must be signed (see Sign) and announced before their deadline (2 hours).'))
+        break
+    }
+
+    stdout.write('\n' + lines.join('\n') + '\n\n')
+  }
+
+  /**
+   * Serialize a value of the result document, private
+   * keys of accounts are never serialized
+   *
+   * @param {any} value
+   * @return {any}
+   */
+  public static serialize(value: any): any {
+    if (value instanceof Account || value instanceof PublicAccount) {
+      return { address: value.address.plain(), publicKey: value.publicKey }
+    }
+    else if (value instanceof Address) {
+      return value.plain()
+    }
+    else if (value instanceof MosaicId || value instanceof NamespaceId) {
+      return value.toHex()
+    }
+    else if (value instanceof UInt64) {
+      // amounts are decimal strings, UInt64 also has toHex
+      return value.toString()
+    }
+    else if (null !== value && typeof value === 'object' && typeof value.toHex === 'function') {
+      // e.g. NIP13 token identifiers
+      return value.toHex()
+    }
+    else if (value instanceof TransactionURI) {
+      return value.build()
+    }
+    else if (value instanceof Date) {
+      return value.toISOString()
+    }
+    else if (Array.isArray(value)) {
+      return value.map((item) => ContractResult.serialize(item))
+    }
+    else if (null !== value && typeof value === 'object') {
+      return Object.keys(value).reduce((object, key) => Object.assign(object, {
+        [key]: ContractResult.serialize(value[key])
+      }), {})
+    }
+
+    return value
+  }
+}
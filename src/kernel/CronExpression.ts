@@ -0,0 +1,195 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+
+/**
+ * The range of a cron expression field
+ */
+interface CronField {
+  /**
+   * The field name, used in error messages
+   * @var {string}
+   */
+  name: string
+
+  /**
+   * The smallest value
+   * @var {number}
+   */
+  min: number
+
+  /**
+   * The largest value
+   * @var {number}
+   */
+  max: number
+}
+
+export class CronExpression {
+  /**
+   * The fields of an expression, in order
+   * @var {CronField[]}
+   */
+  public static FIELDS: CronField[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 },
+  ]
+
+  /**
+   * Number of years searched for the next occurrence
+   * @var {number}
+   */
+  public static SEARCH_YEARS: number = 5
+
+  /**
+   * Create a cron expression
+   *
+   * @param {string}      expression
+   * @param {number[][]}  values
+   */
+  constructor(
+    /**
+     * The expression, e.g. `0 9 1 * *`
+     * @var {string}
+     */
+    public readonly expression: string,
+    /**
+     * The allowed values of each field, days of week from 0 (Sunday) to 6
+     * @var {number[][]}
+     */
+    protected readonly values: number[][]) {
+  }
+
+  /**
+   * Parse a 5-fields cron expression (minute, hour, day of
+   * month, month and day of week) in local time, fields are
+   * lists of values, ranges (1-5), steps (*\/15) or `*`
+   *
+   * @param {string} expression
+   * @return {CronExpression}
+   */
+  public static parse(expression: string): CronExpression {
+    const fields = ('' + expression).trim().split(/\s+/)
+    if (fields.length !== CronExpression.FIELDS.length) {
+      throw new ExpectedError('The cron expression "' + expression + '" must have 5 fields (minute hour day month weekday).')
+    }
+
+    const values = fields.map((field, i) => CronExpression.parseField(expression, field, CronExpression.FIELDS[i]))
+
+    // Sunday is 0 or 7
+    values[4] = values[4].map((day) => day % 7).filter((day, i, self) => self.indexOf(day) === i)
+    return new CronExpression(expression, values)
+  }
+
+  /**
+   * Get the first occurrence after `from`
+   *
+   * @param {Date} from
+   * @return {Date}
+   */
+  public next(from: Date): Date {
+    const date = new Date(from.getTime())
+    date.setSeconds(0, 0)
+    date.setMinutes(date.getMinutes() + 1)
+
+    const limit = new Date(from.getTime())
+    limit.setFullYear(limit.getFullYear() + CronExpression.SEARCH_YEARS)
+
+    while (date < limit) {
+      if (! this.values[3].includes(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1)
+        date.setHours(0, 0)
+      }
+      else if (! this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1)
+        date.setHours(0, 0)
+      }
+      else if (! this.values[1].includes(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0)
+      }
+      else if (! this.values[0].includes(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1)
+      }
+      else {
+        return date
+      }
+    }
+
+    throw new ExpectedError('The cron expression "' + this.expression + '" never occurs.')
+  }
+
+  /**
+   * Returns whether the day of `date` matches, when both days of
+   * month and days of week are restricted either of them matches
+   *
+   * @param {Date} date
+   * @return {boolean}
+   */
+  protected matchesDay(date: Date): boolean {
+    const fields = this.expression.trim().split(/\s+/)
+    const dayOfMonth = this.values[2].includes(date.getDate())
+    const dayOfWeek = this.values[4].includes(date.getDay())
+
+    if (fields[2] !== '*' && fields[4] !== '*') {
+      return dayOfMonth || dayOfWeek
+    }
+
+    return dayOfMonth && dayOfWeek
+  }
+
+  /**
+   * Parse the allowed values of a field
+   *
+   * @internal
+   * @param {string}    expression
+   * @param {string}    field
+   * @param {CronField} range
+   * @return {number[]}
+   */
+  private static parseField(
+    expression: string,
+    field: string,
+    range: CronField,
+  ): number[] {
+    const values: number[] = []
+    field.split(',').forEach((part) => {
+      const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+      if (null === match) {
+        throw new ExpectedError('Invalid ' + range.name + ' "' + part + '" in the cron expression "' + expression + '".')
+      }
+
+      // `5/15` starts at 5 and ends at the largest value
+      const start = match[1] === '*' ? range.min : parseInt(match[2])
+      const end = match[1] === '*' ? range.max : (undefined !== match[3] ? parseInt(match[3]) : (match[4] ? range.max : start))
+      const step = undefined !== match[4] ? parseInt(match[4]) : 1
+
+      if (start < range.min || end > range.max || start > end || step < 1) {
+        throw new ExpectedError('The ' + range.name + ' "' + part + '" of the cron expression "' + expression + '" '
+                              + 'must be within ' + range.min + '-' + range.max + '.')
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.push(value)
+      }
+    })
+
+    return values
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    AggregateTransaction,
+    DtoMapping,
+    MosaicDefinitionTransaction,
+    NamespaceRegistrationTransaction,
+    NamespaceRegistrationType,
+    NetworkHttp,
+    PublicAccount,
+    RentalFees,
+    Transaction,
+    TransactionFees,
+    UInt64,
+} from 'symbol-sdk';
+
+export class FeeStrategy {
+  /**
+   * Use the lowest fee multiplier of recent blocks
+   * @var {string}
+   */
+  public static SLOWEST: string = 'slowest'
+
+  /**
+   * Use the average fee multiplier of recent blocks
+   * @var {string}
+   */
+  public static AVERAGE: string = 'average'
+
+  /**
+   * Use the highest fee multiplier of recent blocks
+   * @var {string}
+   */
+  public static FASTEST: string = 'fastest'
+
+  /**
+   * Size of one cosignature in bytes (public key and signature)
+   * @var {number}
+   */
+  public static COSIGNATURE_SIZE: number = 96
+
+  /**
+   * Default minimum fee multiplier, nodes reject transactions
+   * that pay less than their `minFeeMultiplier` (100 by default)
+   * @var {number}
+   */
+  public static MIN_FEE_MULTIPLIER: number = 100
+
+  /**
+   * Create a fee strategy instance
+   *
+   * Without `feeMultiplier`, transactions keep their default
+   * fees and only the `maxFee` cap is applied.
+   *
+   * @param {number}      feeMultiplier
+   * @param {number}      maxFee
+   * @param {RentalFees}  rentalFees
+   */
+  constructor(
+    /**
+     * The fee multiplier (absolute amount per byte)
+     * @var {number}
+     */
+    public readonly feeMultiplier?: number,
+    /**
+     * The maximum fee of one transaction (absolute amount)
+     * @var {number}
+     */
+    public readonly maxFee?: number,
+    /**
+     * The rental fees of the network
+     * @var {RentalFees}
+     */
+    public readonly rentalFees?: RentalFees) {
+  }
+
+  /**
+   * Create a fee strategy with the fee multipliers
+   * and rental fees of the network
+   *
+   * @param {string} endpointUrl
+   * @param {string} strategy
+   * @param {number} maxFee
+   * @param {number} minFeeMultiplier
+   * @return {Promise<FeeStrategy>}
+   */
+  public static async create(
+    endpointUrl: string,
+    strategy: string = FeeStrategy.AVERAGE,
+    maxFee?: number,
+    minFeeMultiplier: number = FeeStrategy.MIN_FEE_MULTIPLIER,
+  ): Promise<FeeStrategy>
+  {
+    if (! [FeeStrategy.SLOWEST, FeeStrategy.AVERAGE, FeeStrategy.FASTEST].includes(strategy)) {
+      throw new ExpectedError('Unknown fee strategy "' + strategy + '", expected one of: slowest, average, fastest.')
+    }
+
+    const networkHttp = new NetworkHttp(endpointUrl)
+    const fees = await networkHttp.getTransactionFees().toPromise()
+    const rentalFees = await networkHttp.getRentalFees().toPromise()
+
+    return new FeeStrategy(
+      FeeStrategy.getFeeMultiplier(fees, strategy, minFeeMultiplier),
+      maxFee,
+      rentalFees,
+    )
+  }
+
+  /**
+   * Get the fee multiplier of `strategy`
+   *
+   * Recent blocks report a multiplier of 0 when they did not
+   * include transactions, the multiplier never goes below
+   * `minFeeMultiplier`.
+   *
+   * @param {TransactionFees} fees
+   * @param {string}          strategy
+   * @param {number}          minFeeMultiplier
+   * @return {number}
+   */
+  public static getFeeMultiplier(
+    fees: TransactionFees,
+    strategy: string,
+    minFeeMultiplier: number = FeeStrategy.MIN_FEE_MULTIPLIER,
+  ): number
+  {
+    const multiplier = strategy === FeeStrategy.SLOWEST ? fees.lowestFeeMultiplier
+                     : strategy === FeeStrategy.FASTEST ? fees.highestFeeMultiplier
+                     : fees.averageFeeMultiplier
+
+    // never go below what recent blocks or the nodes accept
+    return Math.ceil(Math.max(multiplier, fees.lowestFeeMultiplier, minFeeMultiplier))
+  }
+
+  /**
+   * Get the max fee for a transaction of `size` bytes
+   *
+   * @param {number} size
+   * @param {number} defaultFee
+   * @return {number}
+   */
+  public getMaxFee(size: number, defaultFee: number = 0): number {
+    const fee = undefined !== this.feeMultiplier
+      ? size * this.feeMultiplier
+      : defaultFee
+
+    return undefined !== this.maxFee ? Math.min(fee, this.maxFee) : fee
+  }
+
+  /**
+   * Set the max fee of `transaction`
+   *
+   * Aggregate transactions also pay for the cosignatures
+   * that are added to them.
+   *
+   * @param {Transaction}   transaction
+   * @param {PublicAccount} signer
+   * @param {number}        cosignatures
+   * @return {Transaction}
+   */
+  public apply<T extends Transaction>(
+    transaction: T,
+    signer: PublicAccount,
+    cosignatures?: number,
+  ): T
+  {
+    if (undefined === cosignatures) {
+      cosignatures = this.getRequiredCosignatures(transaction, signer)
+    }
+
+    const size = transaction.size + cosignatures * FeeStrategy.COSIGNATURE_SIZE
+    return DtoMapping.assign(transaction, {
+      maxFee: UInt64.fromUint(this.getMaxFee(size, transaction.maxFee.compact())),
+    })
+  }
+
+  /**
+   * Get the number of cosignatures an aggregate transaction
+   * needs, one for each inner transaction signer but `signer`
+   *
+   * @param {Transaction}   transaction
+   * @param {PublicAccount} signer
+   * @return {number}
+   */
+  public getRequiredCosignatures(
+    transaction: Transaction,
+    signer: PublicAccount,
+  ): number
+  {
+    if (! (transaction instanceof AggregateTransaction)) {
+      return 0
+    }
+
+    return transaction.innerTransactions
+      .map((inner) => inner.signer.publicKey)
+      .filter((publicKey, i, keys) => keys.indexOf(publicKey) === i)
+      .filter((publicKey) => publicKey !== signer.publicKey)
+      .length
+  }
+
+  /**
+   * Get the rental fee of a namespace or mosaic registration
+   *
+   * @param {Transaction} transaction 
+   * @return {number}
+   */
+  public getRentalFee(transaction: Transaction): number {
+    if (undefined === this.rentalFees) {
+      return 0
+    }
+
+    if (transaction instanceof NamespaceRegistrationTransaction
+        && transaction.registrationType === NamespaceRegistrationType.RootNamespace) {
+      return this.rentalFees.effectiveRootNamespaceRentalFeePerBlock.compact() * transaction.duration.compact()
+    }
+    else if (transaction instanceof NamespaceRegistrationTransaction) {
+      return this.rentalFees.effectiveChildNamespaceRentalFee.compact()
+    }
+    else if (transaction instanceof MosaicDefinitionTransaction) {
+      return this.rentalFees.effectiveMosaicRentalFee.compact()
+    }
+
+    return 0
+  }
+}
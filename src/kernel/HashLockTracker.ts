@@ -0,0 +1,271 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    Address,
+    AccountHttp,
+    AggregateTransaction,
+    ChainHttp,
+    TransactionHttp,
+    UInt64,
+} from 'symbol-sdk';
+
+import {HttpClient} from './HttpClient';
+import {NetworkConstants} from './NetworkConstants';
+import {Journal, JournalEntry} from './Journal';
+
+/**
+ * The state of one hash lock and of the aggregate it protects
+ */
+export interface HashLockReport {
+  /**
+   * The hash of the aggregate bonded transaction
+   * @var {string}
+   */
+  aggregateHash: string
+
+  /**
+   * The locked mosaic and absolute amount
+   * @var {Object}
+   */
+  mosaic: {id: string, amount: UInt64}
+
+  /**
+   * The height at which the lock expires
+   * @var {number}
+   */
+  endHeight: number
+
+  /**
+   * The blocks remaining until the expiry, 0 when expired
+   * @var {number}
+   */
+  blocksRemaining: number
+
+  /**
+   * The lock state: `active`, `returned` (the aggregate was
+   * confirmed) or `lost` (the lock expired)
+   * @var {string}
+   */
+  state: string
+
+  /**
+   * The aggregate status group (partial, unconfirmed, confirmed,
+   * failed) or `missing` when the node does not know the aggregate
+   * @var {string}
+   */
+  aggregate: string
+
+  /**
+   * The addresses of the inner transaction signers that did
+   * not co-sign the aggregate yet
+   * @var {string[]}
+   */
+  missingCosigners: string[]
+
+  /**
+   * Whether the lock expires soon with an unsigned aggregate
+   * @var {boolean}
+   */
+  atRisk: boolean
+
+  /**
+   * The journal entry of the execution that created the lock
+   * @var {JournalEntry}
+   */
+  execution?: JournalEntry
+}
+
+export class HashLockTracker {
+  /**
+   * A lock is used once its aggregate is confirmed
+   * @var {number}
+   */
+  public static STATUS_USED: number = 1
+
+  /**
+   * Locks that expire within this number of blocks are at risk
+   * @var {number}
+   */
+  public static WARNING_BLOCKS: number = 240
+
+  /**
+   * Lock states
+   * @var {string}
+   */
+  public static ACTIVE: string = 'active'
+  public static RETURNED: string = 'returned'
+  public static LOST: string = 'lost'
+
+  /**
+   * Aggregates that the node does not know
+   * @var {string}
+   */
+  public static MISSING: string = 'missing'
+
+  /**
+   * Create a hash lock tracker instance
+   *
+   * @param {string}            endpointUrl
+   * @param {NetworkConstants}  network
+   * @param {Journal}           journal
+   */
+  constructor(
+    /**
+     * The node URL
+     * @var {string}
+     **/
+    protected readonly endpointUrl: string,
+    /**
+     * The network constants (block target)
+     * @var {NetworkConstants}
+     **/
+    protected readonly network: NetworkConstants,
+    /**
+     * The journal of the executions, to name the contract of a lock
+     * @var {Journal}
+     **/
+    protected readonly journal: Journal = new Journal()) {
+  }
+
+  /**
+   * List the hash locks of an account, expiring soonest first
+   *
+   * @param {Address} address
+   * @param {number}  warningBlocks
+   * @return {Promise<HashLockReport[]>}
+   */
+  public async list(
+    address: Address,
+    warningBlocks: number = HashLockTracker.WARNING_BLOCKS,
+  ): Promise<HashLockReport[]> {
+    const locks = await this.readLocks(address)
+    if (! locks.length) {
+      return []
+    }
+
+    const height = (await new ChainHttp(this.endpointUrl).getBlockchainHeight().toPromise()).compact()
+    const partials = await new AccountHttp(this.endpointUrl).getAccountPartialTransactions(address).toPromise()
+    const executions = this.readExecutions()
+    const transactionHttp = new TransactionHttp(this.endpointUrl)
+
+    const reports: HashLockReport[] = []
+    for (const lock of locks) {
+      const aggregateHash = ('' + lock['hash']).toUpperCase()
+      const endHeight = parseInt(lock['endHeight'])
+      const used = parseInt(lock['status']) === HashLockTracker.STATUS_USED
+
+      const status = await transactionHttp.getTransactionStatus(aggregateHash).toPromise()
+        .catch((e) => undefined) // e.g. announce interrupted (see Resume)
+      const aggregate = undefined === status ? HashLockTracker.MISSING : String(status.group)
+
+      const partial = partials.find((transaction) => transaction.transactionInfo.hash.toUpperCase() === aggregateHash)
+      const state = used ? HashLockTracker.RETURNED : (endHeight <= height ? HashLockTracker.LOST : HashLockTracker.ACTIVE)
+      const blocksRemaining = Math.max(0, endHeight - height)
+      const missingCosigners = undefined === partial ? [] : this.getMissingCosigners(partial as AggregateTransaction)
+
+      reports.push({
+        aggregateHash,
+        mosaic: { id: ('' + lock['mosaicId']).toUpperCase(), amount: UInt64.fromNumericString('' + lock['amount']) },
+        endHeight,
+        blocksRemaining,
+        state,
+        aggregate,
+        missingCosigners,
+        atRisk: state === HashLockTracker.ACTIVE && aggregate !== 'confirmed' && blocksRemaining <= warningBlocks,
+        execution: executions.find((entry) => undefined !== entry.hash && entry.hash.toUpperCase() === aggregateHash),
+      })
+    }
+
+    return reports.sort((a, b) => a.endHeight - b.endHeight)
+  }
+
+  /**
+   * Estimate the time until the expiry of a lock
+   *
+   * @param {HashLockReport} report
+   * @return {string}
+   */
+  public describeRemaining(report: HashLockReport): string {
+    const minutes = Math.round(report.blocksRemaining * this.network.blockTargetSeconds / 60)
+    return minutes < 120 ? minutes + ' minutes' : Math.round(minutes / 60) + ' hours'
+  }
+
+  /**
+   * Get the inner transaction signers that did not co-sign
+   *
+   * @param {AggregateTransaction} aggregate
+   * @return {string[]}
+   */
+  protected getMissingCosigners(aggregate: AggregateTransaction): string[] {
+    const signed = [aggregate.signer.publicKey].concat(aggregate.cosignatures.map((cosignature) => cosignature.signer.publicKey))
+    return aggregate.innerTransactions
+      .map((transaction) => transaction.signer)
+      .filter((signer, i, signers) => signers.findIndex((other) => other.publicKey === signer.publicKey) === i)
+      .filter((signer) => ! signed.includes(signer.publicKey))
+      .map((signer) => signer.address.plain())
+  }
+
+  /**
+   * Read the executions of the journal, a journal that
+   * cannot be read does not fail the report
+   *
+   * @return {JournalEntry[]}
+   */
+  protected readExecutions(): JournalEntry[] {
+    try {
+      return this.journal.all()
+    }
+    catch (e) {
+      return []
+    }
+  }
+
+  /**
+   * Read the hash locks of an account, nodes that do not know
+   * `/lock/hash` are read from `/account/{address}/lock/hash`
+   *
+   * @param {Address} address
+   * @return {Promise<Object[]>}
+   */
+  protected async readLocks(address: Address): Promise<Object[]> {
+    const locks: Object[] = []
+    for (let pageNumber = 1; ; pageNumber++) {
+      const page = await this.getJSON('/lock/hash?address=' + address.plain() + '&pageSize=100&pageNumber=' + pageNumber)
+      if (undefined === page) {
+        const legacy = await this.getJSON('/account/' + address.plain() + '/lock/hash')
+        return (legacy || []).map((entry) => entry['lock'])
+      }
+
+      const data = page['data'] || []
+      locks.push(...data.map((entry) => entry['lock']))
+      if (data.length < 100) {
+        return locks
+      }
+    }
+  }
+
+  /**
+   * Read a JSON document from the node, undefined when not found
+   *
+   * @param {string} path
+   * @return {Promise<any>}
+   */
+  protected async getJSON(path: string): Promise<any> {
+    return HttpClient.getJSON(this.endpointUrl.replace(/\/$/, '') + path)
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import * as http from 'http';
+import * as https from 'https';
+import {URL} from 'url';
+
+/**
+ * The response of an HTTP request
+ */
+export interface HttpResponse {
+  /**
+   * The HTTP status code
+   * @var {number}
+   */
+  statusCode: number
+
+  /**
+   * The response body
+   * @var {string}
+   */
+  body: string
+}
+
+export class HttpClient {
+  /**
+   * Default request timeout in milliseconds
+   * @var {number}
+   */
+  public static TIMEOUT: number = 10000
+
+  /**
+   * Send an HTTP request, requests that do not complete
+   * within `timeout` milliseconds are aborted
+   *
+   * @param {string}  url
+   * @param {string}  method
+   * @param {Object}  headers
+   * @param {string}  body
+   * @param {number}  timeout
+   * @return {Promise<HttpResponse>}
+   */
+  public static request(
+    url: string,
+    method: string = 'GET',
+    headers: {[name: string]: string | number} = {},
+    body?: string,
+    timeout: number = HttpClient.TIMEOUT,
+  ): Promise<HttpResponse>
+  {
+    const target = new URL(url)
+    return new Promise<HttpResponse>((resolve, reject) => {
+      const client = target.protocol === 'https:' ? https : http
+      const req = client.request(target, {method, headers, timeout}, (res) => {
+        let data = ''
+        res.setEncoding('utf8')
+        res.on('data', (chunk) => data += chunk)
+        res.on('end', () => resolve({ statusCode: res.statusCode, body: data }))
+      })
+
+      req.on('timeout', () => req.destroy(new Error('timeout after ' + timeout + 'ms')))
+      req.on('error', reject)
+      req.end(body)
+    })
+  }
+
+  /**
+   * Read a JSON document, undefined when not found
+   *
+   * @param {string}  url
+   * @param {number}  timeout
+   * @return {Promise<any>}
+   */
+  public static async getJSON(
+    url: string,
+    timeout: number = HttpClient.TIMEOUT,
+  ): Promise<any>
+  {
+    let response: HttpResponse
+    try {
+      response = await HttpClient.request(url, 'GET', {'Accept': 'application/json'}, undefined, timeout)
+    }
+    catch (e) {
+      throw new ExpectedError('Could not reach ' + url + ': ' + e.message)
+    }
+
+    if (response.statusCode === 404) {
+      return undefined
+    }
+    else if (response.statusCode !== 200) {
+      throw new ExpectedError('The request to ' + url + ' failed with status ' + response.statusCode + '.')
+    }
+
+    try {
+      return JSON.parse(response.body)
+    }
+    catch (e) {
+      throw new ExpectedError('The response of ' + url + ' is not valid JSON.')
+    }
+  }
+}
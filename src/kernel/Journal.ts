@@ -0,0 +1,299 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as Path from 'path';
+
+import {ContractConstants} from './Contract';
+import {ContractResult} from './ContractResult';
+import {ContractError} from './ContractError';
+
+/**
+ * One execution recorded in the journal
+ */
+export interface JournalEntry {
+  /**
+   * The execution identifier
+   * @var {string}
+   */
+  id: string
+
+  /**
+   * The contract name
+   * @var {string}
+   */
+  contract: string
+
+  /**
+   * The local user that executed the contract, and its machine
+   * @var {Object}
+   */
+  user: {name: string, host: string}
+
+  /**
+   * Start and end of the execution (ISO 8601)
+   * @var {string}
+   */
+  startedAt: string
+  finishedAt?: string
+
+  /**
+   * The final outcome, a result status (e.g. `confirmed`),
+   * `not-executed`, `completed` or `error`
+   * @var {string}
+   */
+  status: string
+
+  /**
+   * The network and node
+   * @var {Object}
+   */
+  network?: {type: string, generationHash: string, node?: string}
+
+  /**
+   * The signing account
+   * @var {Object}
+   */
+  signer?: {address: string, publicKey: string}
+
+  /**
+   * The inputs of the contract, secrets are redacted
+   * @var {Object}
+   */
+  inputs: Object
+
+  /**
+   * The hash of the contract transaction
+   * @var {string}
+   */
+  hash?: string
+
+  /**
+   * The signed transactions
+   * @var {Object[]}
+   */
+  transactions: {type: string, hash: string, payload: string}[]
+
+  /**
+   * The status transitions
+   * @var {Object[]}
+   */
+  transitions: {status: string, hash: string, timestamp: string}[]
+
+  /**
+   * The result document, with contract-specific fields, secrets are redacted
+   * @var {Object}
+   */
+  result?: Object
+
+  /**
+   * The error of a failed execution
+   * @var {Object}
+   */
+  error?: {code?: string, message: string}
+}
+
+export class Journal {
+  /**
+   * Inputs that are never written to the journal (--account
+   * is the private key of the signing account)
+   * @var {RegExp}
+   */
+  public static SECRET_INPUTS: RegExp = /^account$|privatekey|mnemonic|password|passphrase|secret/i
+
+  /**
+   * Execution outcome without result (e.g. declined by the end-user)
+   * @var {string}
+   */
+  public static NOT_EXECUTED: string = 'not-executed'
+
+  /**
+   * Execution outcome of commands that return no contract result
+   * @var {string}
+   */
+  public static COMPLETED: string = 'completed'
+
+  /**
+   * Execution outcome of errors that are not contract errors
+   * @var {string}
+   */
+  public static ERROR: string = 'error'
+
+  /**
+   * Default number of executions listed by `History`
+   * @var {number}
+   */
+  public static LIST_LIMIT: number = 20
+
+  /**
+   * Create a journal instance
+   *
+   * @param {string}  path
+   */
+  constructor(
+    /**
+     * The journal file path (JSON lines)
+     * @var {string}
+     */
+    public readonly path: string = Path.join(ContractConstants.CONFIG_DIRECTORY, 'journal.jsonl')) {
+  }
+
+  /**
+   * Create the entry of an execution that starts now
+   *
+   * @param {string} contract
+   * @param {Object} inputs
+   * @return {JournalEntry}
+   */
+  public static begin(
+    contract: string,
+    inputs: Object,
+  ): JournalEntry {
+    const now = new Date()
+    return {
+      id: now.toISOString().replace(/[^0-9]/g, '').substr(0, 14) + '-' + crypto.randomBytes(3).toString('hex'),
+      contract,
+      user: { name: os.userInfo().username, host: os.hostname() },
+      startedAt: now.toISOString(),
+      status: undefined,
+      inputs: Journal.redact(inputs),
+      transactions: [],
+      transitions: [],
+    }
+  }
+
+  /**
+   * Complete an entry with the result or the error of the execution
+   *
+   * @param {JournalEntry}  entry
+   * @param {any}           result
+   * @param {any}           error
+   * @return {JournalEntry}
+   */
+  public static finish(
+    entry: JournalEntry,
+    result: any,
+    error?: any,
+  ): JournalEntry {
+    entry.finishedAt = new Date().toISOString()
+
+    if (error instanceof ContractError) {
+      result = error.result
+    }
+
+    if (result instanceof ContractResult) {
+      const document = result.toJSON()
+      entry.status = result.status
+      entry.hash = result.hash
+      entry.network = document['network']
+      entry.signer = document['signer']
+      entry.transactions = document['transactions'].map((transaction, i) => Object.assign(transaction, {
+        payload: result.signedTransactions[i].payload,
+      }))
+      entry.transitions = document['transitions']
+      entry.result = Journal.redact(document)
+    }
+    else {
+      entry.status = undefined === result ? Journal.NOT_EXECUTED : Journal.COMPLETED
+    }
+
+    if (undefined !== error) {
+      entry.status = error instanceof ContractError ? entry.status : Journal.ERROR
+      entry.error = {
+        code: error instanceof ContractError ? error.statusCode : undefined,
+        message: error instanceof Error ? error.message : '' + error,
+      }
+    }
+
+    return entry
+  }
+
+  /**
+   * Copy inputs without secrets
+   *
+   * @param {Object} inputs
+   * @return {Object}
+   */
+  public static redact(inputs: Object): Object {
+    return Object.keys(inputs || {}).reduce((redacted, key) => {
+      const value = inputs[key]
+      if (undefined === value || typeof value === 'function') {
+        return redacted
+      }
+
+      redacted[key] = Journal.SECRET_INPUTS.test(key) ? '(redacted)' : value
+      return redacted
+    }, {})
+  }
+
+  /**
+   * Append an entry to the journal (readable by the owner only)
+   *
+   * @param {JournalEntry} entry
+   * @return {void}
+   */
+  public record(entry: JournalEntry): void {
+    const directory = Path.dirname(this.path)
+    if (! fs.existsSync(directory)) {
+      fs.mkdirSync(directory, {recursive: true, mode: 0o700})
+    }
+
+    fs.appendFileSync(this.path, JSON.stringify(entry) + '\n', {mode: 0o600})
+  }
+
+  /**
+   * Read all entries, oldest first
+   *
+   * @return {JournalEntry[]}
+   */
+  public all(): JournalEntry[] {
+    if (! fs.existsSync(this.path)) {
+      return []
+    }
+
+    return fs.readFileSync(this.path, 'utf8').split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line, i) => {
+        try {
+          return JSON.parse(line)
+        }
+        catch (e) {
+          throw new ExpectedError('The journal ' + this.path + ' could not be parsed on line ' + (i+1) + ': ' + e.message)
+        }
+      })
+  }
+
+  /**
+   * Read one entry by identifier, or by a unique identifier prefix
+   *
+   * @param {string} id
+   * @return {JournalEntry}
+   */
+  public load(id: string): JournalEntry {
+    const entries = this.all().filter((entry) => entry.id === id || entry.id.startsWith(id))
+    if (! entries.length) {
+      throw new ExpectedError('The execution "' + id + '" could not be found in ' + this.path + '.')
+    }
+    else if (entries.length > 1 && ! entries.some((entry) => entry.id === id)) {
+      throw new ExpectedError('The identifier "' + id + '" matches ' + entries.length + ' executions, please enter more characters.')
+    }
+
+    return entries.find((entry) => entry.id === id) || entries[0]
+  }
+}
@@ -0,0 +1,373 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {Account, NetworkType} from 'symbol-sdk';
+import {MnemonicPassPhrase, ExtendedKey, Network, Wallet} from 'symbol-hd-wallets';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as Path from 'path';
+
+import {ContractConstants} from './Contract';
+
+export class KeystoreEntry {
+  /**
+   * Create a keystore entry
+   *
+   * @param {string}  name
+   * @param {string}  type
+   * @param {string}  publicKey
+   * @param {string}  path
+   * @param {Object}  crypto
+   */
+  constructor(
+    /**
+     * The key name
+     * @var {string}
+     */
+    public readonly name: string,
+    /**
+     * The key type, one of `privateKey` or `mnemonic`
+     * @var {string}
+     */
+    public readonly type: string,
+    /**
+     * The public key of the (derived) account
+     * @var {string}
+     */
+    public readonly publicKey: string,
+    /**
+     * The derivation path (mnemonic keys only)
+     * @var {string}
+     */
+    public readonly path: string,
+    /**
+     * The encryption parameters and ciphertext
+     * @var {Object}
+     */
+    public readonly crypto: {
+      kdf: string,
+      salt: string,
+      N: number,
+      r: number,
+      p: number,
+      cipher: string,
+      iv: string,
+      tag: string,
+      ciphertext: string,
+    }) {
+  }
+}
+
+export class Keystore {
+  /**
+   * Secret inputs may reference a key, e.g. `--mnemonic keystore:issuer`
+   * @var {RegExp}
+   */
+  public static REFERENCE: RegExp = /^keystore:(.+)$/
+
+  /**
+   * The scrypt cost parameter
+   * @var {number}
+   */
+  public static SCRYPT_COST: number = 16384
+
+  /**
+   * The scrypt block size parameter
+   * @var {number}
+   */
+  public static SCRYPT_BLOCK_SIZE: number = 8
+
+  /**
+   * The scrypt parallelization parameter
+   * @var {number}
+   */
+  public static SCRYPT_PARALLELIZATION: number = 1
+
+  /**
+   * Create a keystore instance
+   *
+   * @param {string}  path
+   */
+  constructor(
+    /**
+     * The keystore file path
+     * @var {string}
+     */
+    public readonly path: string = Path.join(ContractConstants.CONFIG_DIRECTORY, 'keystore.json')) {
+  }
+
+  /**
+   * List all keys of the keystore (without secrets)
+   *
+   * @return {KeystoreEntry[]}
+   */
+  public list(): KeystoreEntry[] {
+    const entries = this.read()
+    return Object.keys(entries).map((name) => new KeystoreEntry(
+      name,
+      entries[name].type,
+      entries[name].publicKey,
+      entries[name].path,
+      entries[name].crypto,
+    ))
+  }
+
+  /**
+   * Returns whether a key named `name` exists
+   *
+   * @param {string} name
+   * @return {boolean}
+   */
+  public has(name: string): boolean {
+    return this.read().hasOwnProperty(name)
+  }
+
+  /**
+   * Encrypt and store a private key or mnemonic pass phrase
+   *
+   * @param {string} name
+   * @param {string} secret
+   * @param {string} password
+   * @param {string} path
+   * @return {KeystoreEntry}
+   */
+  public add(
+    name: string,
+    secret: string,
+    password: string,
+    path: string = "m/44'/4343'/0'/0'/0'",
+  ): KeystoreEntry
+  {
+    if (! name || ! name.length) {
+      throw new ExpectedError('Please, enter a name for the key.')
+    }
+
+    if (this.has(name)) {
+      throw new ExpectedError('A key named "' + name + '" already exists in the keystore.')
+    }
+
+    if (! password || password.length < 8) {
+      throw new ExpectedError('The keystore password must contain at least 8 characters.')
+    }
+
+    const type = /^[0-9a-fA-F]{64}$/.test(secret) ? 'privateKey' : 'mnemonic'
+    if (type === 'mnemonic' && ! new MnemonicPassPhrase(secret).isValid()) {
+      throw new ExpectedError('Expected a private key (hexadecimal format) or a valid mnemonic pass phrase.')
+    }
+
+    const account = type === 'privateKey'
+      ? Account.createFromPrivateKey(secret, NetworkType.TEST_NET)
+      : Keystore.deriveAccount(new MnemonicPassPhrase(secret), path, NetworkType.TEST_NET)
+
+    const entry = new KeystoreEntry(
+      name,
+      type,
+      account.publicKey,
+      type === 'mnemonic' ? path : undefined,
+      this.encrypt(name, secret, password),
+    )
+
+    const entries = this.read()
+    entries[name] = entry
+    this.write(entries)
+    return entry
+  }
+
+  /**
+   * Remove a key from the keystore
+   *
+   * @param {string} name
+   * @return {void}
+   */
+  public remove(name: string): void {
+    const entries = this.read()
+    if (! entries.hasOwnProperty(name)) {
+      throw new ExpectedError('The key "' + name + '" could not be found in the keystore.')
+    }
+
+    delete entries[name]
+    this.write(entries)
+  }
+
+  /**
+   * Decrypt and return the secret of key `name`
+   *
+   * @param {string} name
+   * @param {string} password
+   * @return {string}
+   */
+  public export(name: string, password: string): string {
+    const entry = this.list().find((e) => e.name === name)
+    if (undefined === entry) {
+      throw new ExpectedError('The key "' + name + '" could not be found in the keystore.')
+    }
+
+    return this.decrypt(entry, password)
+  }
+
+  /**
+   * Decrypt key `name` and create an account for `networkType`
+   *
+   * @param {string}      name
+   * @param {string}      password
+   * @param {NetworkType} networkType
+   * @return {Account}
+   */
+  public getAccount(
+    name: string,
+    password: string,
+    networkType: NetworkType,
+  ): Account
+  {
+    const entry = this.list().find((e) => e.name === name)
+    const secret = this.export(name, password)
+
+    if (entry.type === 'privateKey') {
+      return Account.createFromPrivateKey(secret, networkType)
+    }
+
+    return Keystore.deriveAccount(new MnemonicPassPhrase(secret), entry.path, networkType)
+  }
+
+  /**
+   * Derive an account from a mnemonic pass phrase
+   *
+   * @param {MnemonicPassPhrase}  mnemonic
+   * @param {string}              path
+   * @param {NetworkType}         networkType
+   * @return {Account}
+   */
+  public static deriveAccount(
+    mnemonic: MnemonicPassPhrase,
+    path: string,
+    networkType: NetworkType,
+  ): Account
+  {
+    const seed = mnemonic.toSeed().toString('hex')
+    const xkey = ExtendedKey.createFromSeed(seed, Network.CATAPULT)
+    const wallet = new Wallet(xkey)
+    return wallet.getChildAccount(path, networkType)
+  }
+
+  /**
+   * Encrypt `secret` with a key derived from `password`
+   *
+   * @internal
+   * @param {string} name
+   * @param {string} secret
+   * @param {string} password
+   * @return {Object}
+   */
+  private encrypt(name: string, secret: string, password: string) {
+    const salt = crypto.randomBytes(32)
+    const iv = crypto.randomBytes(12)
+    const key = this.deriveKey(password, salt, Keystore.SCRYPT_COST, Keystore.SCRYPT_BLOCK_SIZE, Keystore.SCRYPT_PARALLELIZATION)
+
+    // the key name is authenticated to prevent swapping entries
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+    cipher.setAAD(Buffer.from(name, 'utf8'))
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+
+    return {
+      kdf: 'scrypt',
+      salt: salt.toString('hex'),
+      N: Keystore.SCRYPT_COST,
+      r: Keystore.SCRYPT_BLOCK_SIZE,
+      p: Keystore.SCRYPT_PARALLELIZATION,
+      cipher: 'aes-256-gcm',
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('hex'),
+    }
+  }
+
+  /**
+   * Decrypt the secret of `entry` with a key derived from `password`
+   *
+   * @internal
+   * @param {KeystoreEntry} entry
+   * @param {string}        password
+   * @return {string}
+   */
+  private decrypt(entry: KeystoreEntry, password: string): string {
+    const params = entry.crypto
+    const key = this.deriveKey(password, Buffer.from(params.salt, 'hex'), params.N, params.r, params.p)
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(params.iv, 'hex'))
+      decipher.setAAD(Buffer.from(entry.name, 'utf8'))
+      decipher.setAuthTag(Buffer.from(params.tag, 'hex'))
+      return Buffer.concat([
+        decipher.update(Buffer.from(params.ciphertext, 'hex')),
+        decipher.final(),
+      ]).toString('utf8')
+    }
+    catch (e) {
+      throw new ExpectedError('Invalid password for key "' + entry.name + '".')
+    }
+  }
+
+  /**
+   * Derive an encryption key with scrypt
+   *
+   * @internal
+   * @param {string} password
+   * @param {Buffer} salt
+   * @param {number} N
+   * @param {number} r
+   * @param {number} p
+   * @return {Buffer}
+   */
+  private deriveKey(password: string, salt: Buffer, N: number, r: number, p: number): Buffer {
+    return crypto.scryptSync(password, salt, 32, {N, r, p, maxmem: 64 * 1024 * 1024})
+  }
+
+  /**
+   * Read the keystore file
+   *
+   * @internal
+   * @return {Object}
+   */
+  private read(): Object {
+    if (! fs.existsSync(this.path)) {
+      return {}
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.path, 'utf8'))
+    }
+    catch (e) {
+      throw new ExpectedError('The keystore file ' + this.path + ' could not be parsed: ' + e.message)
+    }
+  }
+
+  /**
+   * Write the keystore file (readable by the owner only)
+   *
+   * @internal
+   * @param {Object} entries
+   * @return {void}
+   */
+  private write(entries: Object): void {
+    const directory = Path.dirname(this.path)
+    if (! fs.existsSync(directory)) {
+      fs.mkdirSync(directory, {recursive: true, mode: 0o700})
+    }
+
+    fs.writeFileSync(this.path, JSON.stringify(entries, null, 2), {mode: 0o600})
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+    Convert,
+    KeyPair,
+    NetworkType,
+    PublicAccount,
+    Transaction,
+} from 'symbol-sdk';
+
+import {AbstractTransactionSigner, SignatureRequest} from './TransactionSigner';
+import {FeeStrategy} from './FeeStrategy';
+import {Keystore} from './Keystore';
+
+export class KeystoreSigner extends AbstractTransactionSigner {
+  /**
+   * Create a signer for a named key of the encrypted keystore
+   *
+   * The key is decrypted for each signature and is
+   * not kept in memory between signatures.
+   *
+   * @param {Keystore}      keystore
+   * @param {string}        name
+   * @param {string}        password
+   * @param {PublicAccount} publicAccount
+   * @param {Transaction}   transaction 
+   * @param {string}        generationHash 
+   * @param {FeeStrategy}   feeStrategy
+   */
+  constructor(
+    /**
+     * The keystore
+     * @var {Keystore}
+     */
+    protected readonly keystore: Keystore,
+    /**
+     * The key name
+     * @var {string}
+     */
+    protected readonly name: string,
+    /**
+     * The keystore password
+     * @var {string}
+     */
+    protected readonly password: string,
+    publicAccount: PublicAccount,
+    transaction: Transaction,
+    generationHash: string,
+    feeStrategy?: FeeStrategy) {
+    super(publicAccount, transaction, generationHash, feeStrategy)
+  }
+
+  /**
+   * Sign `request.data` with the decrypted key
+   *
+   * @param {SignatureRequest} request
+   * @return {Promise<string>}
+   */
+  protected async signData(request: SignatureRequest): Promise<string> {
+    const account = this.keystore.getAccount(this.name, this.password, request.networkType as NetworkType)
+    const keyPair = KeyPair.createKeyPairFromPrivateKeyString(account.privateKey)
+    return Convert.uint8ToHex(KeyPair.sign(keyPair, Convert.hexToUint8(request.data)))
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+    Account,
+    Convert,
+    KeyPair,
+    Transaction,
+} from 'symbol-sdk';
+
+import {AbstractTransactionSigner, SignatureRequest} from './TransactionSigner';
+import {FeeStrategy} from './FeeStrategy';
+
+export class LocalSigner extends AbstractTransactionSigner {
+  /**
+   * Create a signer for an account held in memory
+   *
+   * @param {Account}     account 
+   * @param {Transaction} transaction 
+   * @param {string}      generationHash 
+   * @param {FeeStrategy} feeStrategy
+   */
+  constructor(
+    /**
+     * The account used for signing
+     * @var {Account}
+     */
+    protected readonly account: Account,
+    transaction: Transaction,
+    generationHash: string,
+    feeStrategy?: FeeStrategy) {
+    super(account.publicAccount, transaction, generationHash, feeStrategy)
+  }
+
+  /**
+   * Sign `request.data` with the private key of the account
+   *
+   * @param {SignatureRequest} request
+   * @return {Promise<string>}
+   */
+  protected async signData(request: SignatureRequest): Promise<string> {
+    const keyPair = KeyPair.createKeyPairFromPrivateKeyString(this.account.privateKey)
+    return Convert.uint8ToHex(KeyPair.sign(keyPair, Convert.hexToUint8(request.data)))
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as util from 'util';
+import { ContractResult } from './ContractResult';
+
+/**
+ * Writes the human output of contracts (progress, summaries)
+ *
+ * With `--output json` the standard output only carries the
+ * result document, human output is then written to the
+ * standard error (see Logger.create).
+ */
+export class Logger {
+  /**
+   * Construct a logger instance
+   *
+   * @param {NodeJS.WritableStream} stream
+   */
+  public constructor(
+    /**
+     * The stream human output is written to
+     * @var {NodeJS.WritableStream}
+     **/
+    public readonly stream: NodeJS.WritableStream = process.stdout,
+  ) {}
+
+  /**
+   * Get the logger of an output format (see --output)
+   *
+   * @param {string} format
+   * @return {Logger}
+   */
+  public static create(format?: string): Logger {
+    return new Logger(format === ContractResult.FORMAT_JSON ? process.stderr : process.stdout)
+  }
+
+  /**
+   * Write a line, `messages` are formatted like with `console.log`
+   *
+   * @param {any[]} messages
+   * @return {void}
+   */
+  public log(...messages: any[]): void {
+    this.stream.write(util.format(...messages) + '\n')
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    HashLockNetworkProperties,
+    MosaicHttp,
+    MosaicId,
+    NamespaceHttp,
+    NamespaceNetworkProperties,
+    NetworkConfiguration,
+    NetworkHttp,
+    UInt64,
+} from 'symbol-sdk';
+
+export class NetworkConstants {
+  /**
+   * Default hash lock duration in blocks
+   * @var {number}
+   */
+  public static HASH_LOCK_DURATION: number = 1000
+
+  /**
+   * Create a network constants instance
+   *
+   * Defaults are the properties of the public test network.
+   *
+   * @param {string}  currencyMosaicId
+   * @param {string}  currencyName
+   * @param {number}  divisibility
+   * @param {number}  blockTargetSeconds
+   * @param {number}  lockAmount
+   * @param {number}  maxHashLockDuration
+   * @param {number}  minNamespaceDuration
+   * @param {number}  maxNamespaceDuration
+   * @param {number}  maxNameSize
+   * @param {number}  maxNamespaceDepth
+   */
+  constructor(
+    /**
+     * The currency mosaic id (hexadecimal)
+     * @var {string}
+     */
+    public readonly currencyMosaicId: string = '519FC24B9223E0B4',
+    /**
+     * The currency namespace name, if it has one
+     * @var {string}
+     */
+    public readonly currencyName: string = 'symbol.xym',
+    /**
+     * The currency divisibility
+     * @var {number}
+     */
+    public readonly divisibility: number = 6,
+    /**
+     * The block generation target in seconds
+     * @var {number}
+     */
+    public readonly blockTargetSeconds: number = 15,
+    /**
+     * The amount locked per aggregate bonded transaction (absolute amount)
+     * @var {number}
+     */
+    public readonly lockAmount: number = 10000000,
+    /**
+     * The maximum hash lock duration in blocks
+     * @var {number}
+     */
+    public readonly maxHashLockDuration: number = 11520,
+    /**
+     * The minimum root namespace duration in blocks
+     * @var {number}
+     */
+    public readonly minNamespaceDuration: number = 5760,
+    /**
+     * The maximum root namespace duration in blocks
+     * @var {number}
+     */
+    public readonly maxNamespaceDuration: number = 2102400,
+    /**
+     * The maximum size of one namespace level name
+     * @var {number}
+     */
+    public readonly maxNameSize: number = 64,
+    /**
+     * The maximum number of namespace levels
+     * @var {number}
+     */
+    public readonly maxNamespaceDepth: number = 3) {
+  }
+
+  /**
+   * Load the network constants from the properties of a node
+   *
+   * @param {string} endpointUrl
+   * @return {Promise<NetworkConstants>}
+   */
+  public static async load(
+    endpointUrl: string,
+  ): Promise<NetworkConstants>
+  {
+    const config: NetworkConfiguration = await new NetworkHttp(endpointUrl).getNetworkProperties().toPromise()
+    const chain = config.chain
+    const hashLock = config.plugins.lockhash || new HashLockNetworkProperties()
+    const namespace = config.plugins.namespace || new NamespaceNetworkProperties()
+    const defaults = new NetworkConstants()
+    const blockTargetSeconds = NetworkConstants.parseDuration(chain.blockGenerationTargetTime) || defaults.blockTargetSeconds
+    const toBlocks = (duration: string, fallback: number) => {
+      const seconds = NetworkConstants.parseDuration(duration)
+      return undefined === seconds ? fallback : Math.floor(seconds / blockTargetSeconds)
+    }
+
+    if (undefined === chain.currencyMosaicId) {
+      throw new ExpectedError('The node at ' + endpointUrl + ' does not expose the currency mosaic of its network.')
+    }
+
+    // currency mosaic id is formatted as 0x519F'C24B'9223'E0B4
+    const currencyMosaicId = chain.currencyMosaicId.replace(/^0x/, '').replace(/'/g, '').toUpperCase()
+    const currency = new MosaicId(currencyMosaicId)
+    const mosaicInfo = await new MosaicHttp(endpointUrl).getMosaic(currency).toPromise()
+
+    // currency may not be aliased, e.g. on fresh private networks
+    let currencyName: string
+    try {
+      const names = await new NamespaceHttp(endpointUrl).getMosaicsNames([currency]).toPromise()
+      currencyName = names.length && names[0].names.length ? names[0].names[0].name : undefined
+    }
+    catch (e) {}
+
+    return new NetworkConstants(
+      currencyMosaicId,
+      currencyName,
+      mosaicInfo.divisibility,
+      blockTargetSeconds,
+      NetworkConstants.parseNumber(hashLock.lockedFundsPerAggregate, defaults.lockAmount),
+      toBlocks(hashLock.maxHashLockDuration, defaults.maxHashLockDuration),
+      toBlocks(namespace.minNamespaceDuration, defaults.minNamespaceDuration),
+      toBlocks(namespace.maxNamespaceDuration, defaults.maxNamespaceDuration),
+      NetworkConstants.parseNumber(namespace.maxNameSize, defaults.maxNameSize),
+      NetworkConstants.parseNumber(namespace.maxNamespaceDepth, defaults.maxNamespaceDepth),
+    )
+  }
+
+  /**
+   * Create network constants from a profile entry, missing
+   * entries use the defaults
+   *
+   * @param {Object} properties
+   * @return {NetworkConstants}
+   */
+  public static fromJSON(properties: Object = {}): NetworkConstants {
+    const defaults = new NetworkConstants()
+    const read = (key: string) => undefined !== properties[key] ? properties[key] : defaults[key]
+
+    // the default currency name belongs to the default currency only
+    return new NetworkConstants(
+      read('currencyMosaicId'),
+      undefined !== properties['currencyMosaicId'] ? properties['currencyName'] : read('currencyName'),
+      read('divisibility'),
+      read('blockTargetSeconds'),
+      read('lockAmount'),
+      read('maxHashLockDuration'),
+      read('minNamespaceDuration'),
+      read('maxNamespaceDuration'),
+      read('maxNameSize'),
+      read('maxNamespaceDepth'),
+    )
+  }
+
+  /**
+   * Parse a numeric network property (e.g.: 10'000'000)
+   *
+   * @param {string} value
+   * @param {number} fallback
+   * @return {number}
+   */
+  public static parseNumber(value: string, fallback?: number): number {
+    const number = parseInt((value || '').replace(/'/g, ''))
+    return isNaN(number) ? fallback : number
+  }
+
+  /**
+   * Parse a duration network property (e.g.: 15s, 2d) to seconds
+   *
+   * @param {string} value
+   * @return {number}
+   */
+  public static parseDuration(value: string): number {
+    const match = /^([0-9']+)(ms|s|m|h|d)$/.exec((value || '').trim())
+    if (null === match) {
+      return undefined
+    }
+
+    const units = {ms: 0.001, s: 1, m: 60, h: 3600, d: 86400}
+    return NetworkConstants.parseNumber(match[1]) * units[match[2]]
+  }
+
+  /**
+   * Get the currency mosaic id
+   *
+   * @return {MosaicId}
+   */
+  public getCurrency(): MosaicId {
+    return new MosaicId(this.currencyMosaicId)
+  }
+
+  /**
+   * Get the currency display name, e.g. in input examples
+   *
+   * @return {string}
+   */
+  public getCurrencyName(): string {
+    return this.currencyName || this.currencyMosaicId
+  }
+
+  /**
+   * Get the approximate number of blocks produced in one year
+   *
+   * @return {number}
+   */
+  public getBlocksInOneYear(): number {
+    return Math.floor((365 * 24 * 60 * 60) / this.blockTargetSeconds)
+  }
+
+  /**
+   * Get the hash lock duration in blocks, limited
+   * by the maximum hash lock duration
+   *
+   * @return {number}
+   */
+  public getHashLockDuration(): number {
+    return Math.min(NetworkConstants.HASH_LOCK_DURATION, this.maxHashLockDuration)
+  }
+
+  /**
+   * Get the root namespace duration in blocks for one
+   * year, limited by the namespace duration limits
+   *
+   * @return {number}
+   */
+  public getNamespaceDuration(): number {
+    return Math.max(
+      this.minNamespaceDuration,
+      Math.min(this.getBlocksInOneYear(), this.maxNamespaceDuration),
+    )
+  }
+
+  /**
+   * Validate a namespace name against the namespace limits
+   *
+   * @param {string} namespaceName
+   * @return {void}
+   * @throws {ExpectedError} On invalid namespace name
+   */
+  public validateNamespaceName(namespaceName: string): void {
+    const parts = namespaceName.split('.')
+    if (parts.length > this.maxNamespaceDepth) {
+      throw new ExpectedError('Invalid namespace name "' + namespaceName + '", maximum ' + this.maxNamespaceDepth + ' levels allowed.')
+    }
+
+    const tooLong = parts.find((p) => p.length > this.maxNameSize)
+    if (undefined !== tooLong) {
+      throw new ExpectedError('Invalid namespace name "' + namespaceName + '", maximum ' + this.maxNameSize + ' characters allowed per level.')
+    }
+  }
+
+  /**
+   * Convert a relative currency amount to an absolute amount
+   *
+   * @param {number} amount
+   * @return {number}
+   */
+  public toAbsolute(amount: number): number {
+    return Math.round(amount * Math.pow(10, this.divisibility))
+  }
+
+  /**
+   * Format an absolute currency amount, UInt64 amounts
+   * are formatted without loss of precision
+   *
+   * @param {number|UInt64} amount
+   * @return {string}
+   */
+  public formatAmount(amount: number | UInt64): string {
+    if (amount instanceof UInt64) {
+      const digits = '0'.repeat(this.divisibility) + amount.toString()
+      const integer = digits.substr(0, digits.length - this.divisibility).replace(/^0+(?=\d)/, '')
+      return this.divisibility ? integer + '.' + digits.substr(digits.length - this.divisibility) : integer
+    }
+
+    return (amount / Math.pow(10, this.divisibility)).toFixed(this.divisibility)
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+    BlockHttp,
+    ChainHttp,
+    NetworkType,
+    UInt64,
+} from 'symbol-sdk';
+import { timeout } from 'rxjs/operators';
+
+export class NodeHealth {
+  /**
+   * Create a node health report
+   *
+   * @param {string}      url
+   * @param {boolean}     reachable
+   * @param {number}      latency
+   * @param {number}      height
+   * @param {string}      generationHash
+   * @param {NetworkType} networkType
+   * @param {string}      reason
+   */
+  constructor(
+    /**
+     * The API node URL
+     * @var {string}
+     */
+    public readonly url: string,
+    /**
+     * Whether the node answered the probe
+     * @var {boolean}
+     */
+    public readonly reachable: boolean,
+    /**
+     * The probe round-trip time in milliseconds
+     * @var {number}
+     */
+    public readonly latency: number,
+    /**
+     * The chain height reported by the node
+     * @var {number}
+     */
+    public readonly height: number = 0,
+    /**
+     * The network generation hash reported by the node
+     * @var {string}
+     */
+    public readonly generationHash?: string,
+    /**
+     * The network type reported by the node
+     * @var {NetworkType}
+     */
+    public readonly networkType?: NetworkType,
+    /**
+     * The reason why the node is not reachable
+     * @var {string}
+     */
+    public readonly reason?: string) {
+  }
+
+  /**
+   * Whether the node is reachable and uses the expected network
+   * @var {boolean}
+   */
+  public matchesNetwork: boolean = false
+
+  /**
+   * Whether the node is too far behind the highest known chain height
+   * @var {boolean}
+   */
+  public isLagging: boolean = false
+
+  /**
+   * Returns whether the node can be used
+   *
+   * @return {boolean}
+   */
+  public isHealthy(): boolean {
+    return this.reachable && this.matchesNetwork
+  }
+}
+
+export class NodeSelector {
+  /**
+   * Create a node selector instance
+   *
+   * @param {number}  probeTimeout
+   * @param {number}  maxHeightLag
+   */
+  constructor(
+    /**
+     * The probe timeout in milliseconds
+     * @var {number}
+     */
+    protected readonly probeTimeout: number = 5000,
+    /**
+     * The number of blocks a node may be behind the highest
+     * known chain height before it is considered lagging
+     * @var {number}
+     */
+    protected readonly maxHeightLag: number = 5) {
+  }
+
+  /**
+   * Probe a node for reachability, chain height and network
+   *
+   * @param {string} url
+   * @return {Promise<NodeHealth>}
+   */
+  public async probe(url: string): Promise<NodeHealth> {
+    const start = Date.now()
+
+    try {
+      // read first block of the network to identify
+      // generationHash and networkType
+      const firstBlock = await new BlockHttp(url)
+        .getBlockByHeight(UInt64.fromUint(1))
+        .pipe(timeout(this.probeTimeout))
+        .toPromise()
+
+      const height = await new ChainHttp(url)
+        .getBlockchainHeight()
+        .pipe(timeout(this.probeTimeout))
+        .toPromise()
+
+      return new NodeHealth(
+        url,
+        true,
+        Date.now() - start,
+        height.compact(),
+        firstBlock.generationHash,
+        firstBlock.networkType,
+      )
+    }
+    catch (e) {
+      return new NodeHealth(url, false, Date.now() - start, 0, undefined, undefined, e.message || e)
+    }
+  }
+
+  /**
+   * Probe all nodes and sort them from healthiest to least healthy
+   *
+   * When no `generationHash` is expected, the generation hash
+   * reported by most reachable nodes is used.
+   *
+   * @param {string[]} urls
+   * @param {string}   generationHash
+   * @return {Promise<NodeHealth[]>}
+   */
+  public async rank(
+    urls: string[],
+    generationHash?: string,
+  ): Promise<NodeHealth[]>
+  {
+    const reports = await Promise.all(urls.map((url) => this.probe(url)))
+    const reachable = reports.filter((r) => r.reachable)
+
+    const expected = (generationHash || this.getMostCommon(
+      reachable.map((r) => r.generationHash)
+    ) || '').toUpperCase()
+
+    const highest = Math.max(0, ...reachable.map((r) => r.height))
+    reports.forEach((r) => {
+      r.matchesNetwork = r.reachable && r.generationHash.toUpperCase() === expected
+      r.isLagging = r.reachable && r.height < highest - this.maxHeightLag
+    })
+
+    // healthy first, then up-to-date nodes, then fastest nodes
+    return reports.sort((a, b) => {
+      if (a.isHealthy() !== b.isHealthy()) {
+        return a.isHealthy() ? -1 : 1
+      }
+      if (a.isLagging !== b.isLagging) {
+        return a.isLagging ? 1 : -1
+      }
+      return a.latency - b.latency
+    })
+  }
+
+  /**
+   * Get the most common value of a list
+   *
+   * @param {string[]} values
+   * @return {string}
+   */
+  private getMostCommon(values: string[]): string {
+    const counts = {}
+    values.forEach((v) => counts[v] = (counts[v] || 0) + 1)
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a]).shift()
+  }
+}
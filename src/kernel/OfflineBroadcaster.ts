@@ -0,0 +1,168 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {ExpectedError} from 'clime';
+import {
+    PublicAccount,
+    SignedTransaction,
+    CosignatureSignedTransaction,
+} from 'symbol-sdk';
+import * as Path from 'path';
+import { ContractContext } from './ContractContext';
+import { ContractResult } from './ContractResult';
+import { TransactionBroadcaster } from './TransactionBroadcaster';
+import { TransactionBundle } from './TransactionBundle';
+
+export class OfflineBroadcaster extends TransactionBroadcaster {
+  /**
+   * Create an offline broadcaster instance
+   *
+   * Signed transactions are written to a bundle file
+   * instead of being announced to a node.
+   *
+   * @param {ContractContext}  contract
+   * @param {string}           outputPath
+   * @param {boolean}          enableDebug
+   */
+  constructor(
+    contract: ContractContext,
+    /**
+     * The bundle file path, defaults to `<contract>-<hash>.json`
+     * @var {string}
+     **/
+    protected readonly outputPath?: string,
+    enableDebug: boolean = false) {
+    super(contract, contract.explorerUrl, undefined, enableDebug)
+  }
+
+  /**
+   * Write a signed transaction to the bundle file
+   *
+   * @param {PublicAccount}     account 
+   * @param {SignedTransaction} signedTransaction
+   */
+  public async announce(
+    account: PublicAccount,
+    signedTransaction: SignedTransaction
+  ): Promise<ContractResult> 
+  {
+    return this.export(account, [signedTransaction], signedTransaction.hash, new TransactionBundle(
+      this.contract.getName(),
+      this.contract.networkType,
+      this.contract.generationHash,
+      account.publicKey,
+      signedTransaction,
+    ))
+  }
+
+  /**
+   * Write a signed hash lock and aggregate bonded
+   * transaction to the bundle file
+   *
+   * @param {PublicAccount}     account 
+   * @param {SignedTransaction} signedHashLock
+   * @param {SignedTransaction} signedPartial
+   */
+  public async announcePartial(
+    account: PublicAccount,
+    signedHashLock: SignedTransaction,
+    signedPartial: SignedTransaction,
+  ): Promise<ContractResult> 
+  {
+    return this.export(account, [signedHashLock, signedPartial], signedPartial.hash, new TransactionBundle(
+      this.contract.getName(),
+      this.contract.networkType,
+      this.contract.generationHash,
+      account.publicKey,
+      signedPartial,
+      signedHashLock,
+    ))
+  }
+
+  /**
+   * Write a co-signature to the bundle file
+   *
+   * @param {PublicAccount}                 account 
+   * @param {CosignatureSignedTransaction}  signedTransaction
+   */
+  public async announceCosignature(
+    account: PublicAccount,
+    signedTransaction: CosignatureSignedTransaction
+  ): Promise<ContractResult> 
+  {
+    return this.export(account, [], signedTransaction.parentHash, new TransactionBundle(
+      this.contract.getName(),
+      this.contract.networkType,
+      this.contract.generationHash,
+      account.publicKey,
+      undefined,
+      undefined,
+      [signedTransaction],
+    ))
+  }
+
+  /**
+   * Save the bundle, the result holds its location
+   *
+   * @param {PublicAccount}       account
+   * @param {SignedTransaction[]} signedTransactions
+   * @param {string}              hash
+   * @param {TransactionBundle}   bundle
+   * @return {ContractResult}
+   */
+  protected export(
+    account: PublicAccount,
+    signedTransactions: SignedTransaction[],
+    hash: string,
+    bundle: TransactionBundle,
+  ): ContractResult
+  {
+    const path = this.outputPath && this.outputPath.length
+      ? this.outputPath
+      : Path.join(process.cwd(), this.contract.getName() + '-' + hash.substr(0, 8) + '.json')
+
+    try {
+      bundle.save(path)
+    }
+    catch (e) {
+      throw new ExpectedError('The transaction bundle could not be written to ' + path + ': ' + e.message)
+    }
+
+    if (this.enableDebug === true) {
+      this.log('')
+      this.log(chalk.yellow('Smart Contract Execution Hash: ', hash))
+      this.log(chalk.yellow('Bundle: \n\n\t', JSON.stringify(bundle.toJSON())))
+    }
+
+    const transitions = this.getSignedTransitions(signedTransactions)
+    this.addTransition(transitions, ContractResult.EXPORTED, hash)
+
+    return new ContractResult(
+      this.contract.getName(),
+      ContractResult.EXPORTED,
+      hash,
+      account,
+      this.contract.networkType,
+      this.contract.generationHash,
+      undefined,
+      this.explorerUrl,
+      signedTransactions,
+      transitions,
+      path,
+    )
+  }
+}
@@ -14,8 +14,49 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
+import {ExpectedError} from 'clime';
 import * as readlineSync from 'readline-sync';
 
+/**
+ * Exit code used when a required input is missing
+ * in non-interactive mode.
+ *
+ * @var {number}
+ */
+export const MISSING_INPUT_EXIT_CODE: number = 2
+
+export class MissingInputError extends ExpectedError {
+  /**
+   * Create a missing input error for option `key`
+   *
+   * @param {string} key
+   * @param {string} message
+   */
+  constructor(
+    /**
+     * The missing option (property name)
+     * @var {string}
+     */
+    public readonly key: string,
+    message?: string) {
+    super(message || 'Missing required input in non-interactive mode, please provide --'
+      + key.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase() + '.',
+      MISSING_INPUT_EXIT_CODE)
+  }
+}
+
+/**
+ * Returns whether prompts are disabled (--non-interactive).
+ *
+ * @param options
+ * @return {boolean}
+ */
+export const isNonInteractive = (
+    options: any,
+): boolean => {
+    return !!options && options['nonInteractive'] === true;
+};
+
 /**
  * Generic command line argument reader.
  *
@@ -34,6 +75,64 @@ export const OptionsResolver = (
     readlineDependency?: any
 ): any => {
     const readline = readlineDependency || readlineSync;
-    return options[key] !== undefined ? options[key] : (secondSource() 
-        || readline.question(promptText));
+    if (options[key] !== undefined) {
+        return options[key];
+    }
+
+    const value = secondSource();
+    if (! value && isNonInteractive(options)) {
+        throw new MissingInputError(key);
+    }
+
+    return value || readline.question(promptText);
+};
+
+/**
+ * Generic command line argument reader for optional inputs.
+ *
+ * In non-interactive mode, missing values are replaced
+ * by `defaultValue` instead of failing.
+ *
+ * @param options 
+ * @param key 
+ * @param defaultValue 
+ * @param promptText 
+ * @param readlineDependency
+ * @return {any}
+ */
+export const OptionalResolver = (
+    options: any,
+    key: string,
+    defaultValue: any,
+    promptText: string,
+    readlineDependency?: any
+): any => {
+    if (isNonInteractive(options)) {
+        return options[key] !== undefined ? options[key] : defaultValue;
+    }
+
+    return OptionsResolver(options, key, () => defaultValue, promptText, readlineDependency);
+};
+
+/**
+ * Generic yes/no question reader.
+ *
+ * In non-interactive mode, the answer is read
+ * from `nonInteractiveAnswer` instead.
+ *
+ * @param options 
+ * @param nonInteractiveAnswer 
+ * @param promptText 
+ * @param readlineDependency
+ * @return {boolean}
+ */
+export const YesNoResolver = (
+    options: any,
+    nonInteractiveAnswer: () => boolean,
+    promptText: string,
+    readlineDependency?: any
+): boolean => {
+    const readline = readlineDependency || readlineSync;
+    return isNonInteractive(options) ? nonInteractiveAnswer()
+        : readline.keyInYN(promptText) === true;
 };
@@ -0,0 +1,115 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import * as fs from 'fs';
+import * as Path from 'path';
+
+import {ContractConstants} from './Contract';
+import {TransactionBundle} from './TransactionBundle';
+
+export class PendingStore {
+  /**
+   * Create a store of the bonded executions that are not
+   * completed yet, one transaction bundle per aggregate
+   *
+   * @param {string}  path
+   */
+  constructor(
+    /**
+     * The directory of the pending transaction bundles
+     * @var {string}
+     */
+    public readonly path: string = Path.join(ContractConstants.CONFIG_DIRECTORY, 'pending')) {
+  }
+
+  /**
+   * Persist the signed hash lock and aggregate bonded
+   * transaction of a bundle before they are announced
+   *
+   * @param {TransactionBundle} bundle
+   * @return {void}
+   */
+  public save(bundle: TransactionBundle): void {
+    if (! bundle.isBonded()) {
+      throw new ExpectedError('Only bonded transaction bundles can be resumed.')
+    }
+
+    if (! fs.existsSync(this.path)) {
+      fs.mkdirSync(this.path, {recursive: true, mode: 0o700})
+    }
+
+    bundle.save(this.getPath(bundle.transaction.hash))
+  }
+
+  /**
+   * Remove the bundle of a completed execution
+   *
+   * @param {string} hash   The aggregate transaction hash
+   * @return {void}
+   */
+  public remove(hash: string): void {
+    const path = this.getPath(hash)
+    if (fs.existsSync(path)) {
+      fs.unlinkSync(path)
+    }
+  }
+
+  /**
+   * Read all pending bundles, oldest first
+   *
+   * @return {TransactionBundle[]}
+   */
+  public all(): TransactionBundle[] {
+    if (! fs.existsSync(this.path)) {
+      return []
+    }
+
+    return fs.readdirSync(this.path)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => Path.join(this.path, file))
+      .sort((a, b) => fs.statSync(a).mtimeMs - fs.statSync(b).mtimeMs)
+      .map((path) => TransactionBundle.load(path))
+  }
+
+  /**
+   * Read one pending bundle by aggregate hash, or by a unique hash prefix
+   *
+   * @param {string} hash
+   * @return {TransactionBundle}
+   */
+  public load(hash: string): TransactionBundle {
+    const bundles = this.all().filter((bundle) => bundle.transaction.hash.startsWith(hash.toUpperCase()))
+    if (! bundles.length) {
+      throw new ExpectedError('No interrupted execution with hash "' + hash + '" found in ' + this.path + '.')
+    }
+    else if (bundles.length > 1) {
+      throw new ExpectedError('The hash "' + hash + '" matches ' + bundles.length + ' interrupted executions, please enter more characters.')
+    }
+
+    return bundles[0]
+  }
+
+  /**
+   * Get the path of the bundle of an aggregate
+   *
+   * @param {string} hash
+   * @return {string}
+   */
+  private getPath(hash: string): string {
+    return Path.join(this.path, hash.toUpperCase() + '.json')
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import * as fs from 'fs';
+import * as Path from 'path';
+import * as yaml from 'js-yaml';
+
+import {Placeholders} from './Placeholders';
+
+/**
+ * A step of a pipeline, its arguments and inputs may contain
+ * `${placeholders}` of variables, of environment variables
+ * and of the results of previous steps
+ */
+export interface PipelineStep {
+  /**
+   * The identifier used to reference the result of the
+   * step, e.g. `${steps.create.tokenId}`
+   * @var {string}
+   */
+  id: string
+
+  /**
+   * The contract name, e.g. `CreateSecurity`
+   * @var {string}
+   */
+  contract: string
+
+  /**
+   * The positional arguments, e.g. the manifest file of `Run`
+   * @var {string[]}
+   */
+  args?: string[]
+
+  /**
+   * The options of the contract by name, e.g. `name`
+   * @var {Object}
+   */
+  inputs?: Object
+}
+
+export class Pipeline {
+  /**
+   * Create a pipeline
+   *
+   * @param {string}          name
+   * @param {Object}          variables
+   * @param {Object}          options
+   * @param {PipelineStep[]}  steps
+   * @param {string}          path
+   */
+  constructor(
+    /**
+     * The pipeline name
+     * @var {string}
+     */
+    public readonly name: string,
+    /**
+     * The variables by name, `null` values must be given
+     * when the pipeline is executed
+     * @var {Object}
+     */
+    public readonly variables: Object,
+    /**
+     * The options passed to every step, e.g. `profile`
+     * @var {Object}
+     */
+    public readonly options: Object,
+    /**
+     * The steps, in execution order
+     * @var {PipelineStep[]}
+     */
+    public readonly steps: PipelineStep[],
+    /**
+     * The pipeline file path
+     * @var {string}
+     */
+    public readonly path?: string) {
+  }
+
+  /**
+   * Read a pipeline file, YAML files are recognized by
+   * their `.yml` or `.yaml` extension, other files are JSON
+   *
+   * @param {string}  path
+   * @return {Pipeline}
+   */
+  public static load(path: string): Pipeline {
+    if (! fs.existsSync(path)) {
+      throw new ExpectedError('The pipeline file ' + path + ' does not exist.')
+    }
+
+    let document: any
+    try {
+      const contents = fs.readFileSync(path, 'utf8')
+      document = ['.yml', '.yaml'].includes(Path.extname(path).toLowerCase())
+        ? yaml.safeLoad(contents)
+        : JSON.parse(contents)
+    }
+    catch (e) {
+      throw new ExpectedError('The pipeline file ' + path + ' could not be parsed: ' + e.message)
+    }
+
+    return Pipeline.create(document, path)
+  }
+
+  /**
+   * Create a pipeline from its document, the structure and
+   * the placeholders of the document are validated
+   *
+   * @param {any}     document
+   * @param {string}  path
+   * @return {Pipeline}
+   */
+  public static create(document: any, path?: string): Pipeline {
+    const fail = (message: string) => {
+      throw new ExpectedError('Invalid pipeline' + (path ? ' ' + path : '') + ': ' + message)
+    }
+
+    if (null === document || typeof document !== 'object' || Array.isArray(document)) {
+      fail('expected an object.')
+    }
+
+    const variables = document.variables || {}
+    const options = document.options || {}
+    const steps = document.steps
+    if (typeof variables !== 'object' || typeof options !== 'object') {
+      fail('the variables and options must be objects.')
+    }
+
+    if (! Array.isArray(steps) || ! steps.length) {
+      fail('at least one step is required.')
+    }
+
+    // steps reference variables and previous steps
+    const ids: string[] = []
+    const check = (value: any, where: string) => {
+      if (! Placeholders.isValid(value)) {
+        fail('invalid placeholder in ' + where + ', placeholders are written ${<name>.<field>}.')
+      }
+
+      Placeholders.get(value).forEach((placeholder) => {
+        const [root, name] = placeholder.split('.')
+        if (root === 'variables' && variables.hasOwnProperty(name)) {
+          return
+        }
+        else if (root === 'steps' && ids.includes(name)) {
+          return
+        }
+        else if (root === 'env' && undefined !== name) {
+          return
+        }
+
+        fail('unknown placeholder ' + Placeholders.format(placeholder) + ' in ' + where + ', expected ${variables.<name>}, ${env.<name>} or ${steps.<id>.<field>} of a previous step.')
+      })
+    }
+
+    Object.keys(variables).forEach((name) => {
+      if (! Placeholders.isValid(variables[name])) {
+        fail('invalid placeholder in variable \'' + name + '\', placeholders are written ${<name>.<field>}.')
+      }
+
+      Placeholders.get(variables[name]).forEach((placeholder) => {
+        if (placeholder.split('.')[0] !== 'env') {
+          fail('the variable \'' + name + '\' can only reference environment variables, e.g. ${env.TOKEN_MNEMONIC}.')
+        }
+      })
+    })
+
+    Object.keys(options).forEach((name) => check(options[name], 'option \'' + name + '\''))
+    steps.forEach((step: PipelineStep, index: number) => {
+      const where = 'step #' + (index + 1)
+      if (null === step || typeof step !== 'object' || typeof step.contract !== 'string' || ! step.contract.length) {
+        fail('the \'contract\' of ' + where + ' is required.')
+      }
+
+      if (undefined === step.id) {
+        step.id = String(index + 1)
+      }
+      else if (! /^[A-Za-z0-9_-]+$/.test(String(step.id)) || ids.includes(String(step.id))) {
+        fail('the id of ' + where + ' must be unique and contain only letters, digits, - and _.')
+      }
+
+      if (undefined !== step.args && ! Array.isArray(step.args)) {
+        fail('the args of ' + where + ' must be a list.')
+      }
+
+      (step.args || []).forEach((arg) => check(arg, where))
+      Object.keys(step.inputs || {}).forEach((name) => check(step.inputs[name], where))
+      ids.push(String(step.id))
+    })
+
+    return new Pipeline(
+      document.name || (path ? Path.basename(path, Path.extname(path)) : 'pipeline'),
+      variables,
+      options,
+      steps,
+      path,
+    )
+  }
+
+  /**
+   * Get the variables of an execution, values given by name
+   * replace the defaults of the pipeline and environment
+   * variables are replaced
+   *
+   * @param {Object}  values
+   * @return {Object}
+   */
+  public resolveVariables(values: Object): Object {
+    Object.keys(values).forEach((name) => {
+      if (! this.variables.hasOwnProperty(name)) {
+        throw new ExpectedError('Unknown variable \'' + name + '\', the pipeline \'' + this.name + '\' accepts: ' + Object.keys(this.variables).join(', ') + '.')
+      }
+    })
+
+    return Object.keys(this.variables).reduce((resolved, name) => {
+      const value = undefined !== values[name] ? values[name] : this.variables[name]
+      if (undefined === value || null === value) {
+        throw new ExpectedError('The variable \'' + name + '\' is required, please provide ' + name + '=<value>.')
+      }
+
+      return Object.assign(resolved, { [name]: Placeholders.interpolate(value, { env: process.env }) })
+    }, {})
+  }
+}
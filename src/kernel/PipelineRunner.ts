@@ -0,0 +1,207 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ContractResult} from './ContractResult';
+import {ContractProcess, ContractOutcome} from './ContractProcess';
+import {Journal} from './Journal';
+import {Pipeline, PipelineStep} from './Pipeline';
+import {Placeholders} from './Placeholders';
+
+/**
+ * The outcome of one step of a pipeline
+ */
+export interface PipelineStepReport extends ContractOutcome {
+  /**
+   * The step identifier
+   * @var {string}
+   */
+  id: string
+
+  /**
+   * The contract name
+   * @var {string}
+   */
+  contract: string
+
+  /**
+   * The contract inputs of the step, secrets are redacted
+   * @var {Object}
+   */
+  inputs?: Object
+}
+
+/**
+ * The report of a pipeline
+ */
+export interface PipelineReport {
+  /**
+   * The pipeline name
+   * @var {string}
+   */
+  name: string
+
+  /**
+   * `completed`, or `failed` when a step did not succeed
+   * @var {string}
+   */
+  status: string
+
+  /**
+   * The start time (ISO 8601)
+   * @var {string}
+   */
+  startedAt: string
+
+  /**
+   * The end time (ISO 8601)
+   * @var {string}
+   */
+  finishedAt: string
+
+  /**
+   * The outcome of every step, steps after a
+   * failure have the `not-executed` status
+   * @var {PipelineStepReport[]}
+   */
+  steps: PipelineStepReport[]
+}
+
+export class PipelineRunner {
+  /**
+   * The statuses of steps after which the pipeline continues,
+   * the transactions of the step are confirmed or, offline,
+   * written to a bundle
+   * @var {string[]}
+   */
+  public static SUCCEEDED: string[] = [
+    ContractResult.CONFIRMED,
+    ContractResult.EXPORTED,
+  ]
+
+  /**
+   * Create a runner that executes the steps of a pipeline in
+   * order, each step is executed by a separate command line
+   * process that returns once its transactions are confirmed
+   *
+   * @param {Pipeline}  pipeline
+   * @param {Object}    variables
+   * @param {Object}    options
+   * @param {Object}    env
+   */
+  constructor(
+    /**
+     * The executed pipeline
+     * @var {Pipeline}
+     */
+    public readonly pipeline: Pipeline,
+    /**
+     * The variable values by name, defaults are
+     * read from the pipeline
+     * @var {Object}
+     */
+    public readonly variables: Object = {},
+    /**
+     * The options of every step, they replace
+     * the options of the pipeline
+     * @var {Object}
+     */
+    public readonly options: Object = {},
+    /**
+     * The environment variables of every step
+     * @var {Object}
+     */
+    protected readonly env: Object = {}) {
+  }
+
+  /**
+   * Execute the steps in order, the pipeline stops
+   * at the first step that does not succeed
+   *
+   * @param {(PipelineStepReport) => void}  onStep    Called when a step is done
+   * @return {Promise<PipelineReport>}
+   */
+  public async run(
+    onStep: (step: PipelineStepReport) => void = () => {},
+  ): Promise<PipelineReport> {
+    const startedAt = new Date().toISOString()
+    const context = {
+      variables: this.pipeline.resolveVariables(this.variables),
+      env: process.env,
+      steps: {},
+    }
+
+    const reports: PipelineStepReport[] = []
+    for (const step of this.pipeline.steps) {
+      if (reports.length && ! PipelineRunner.SUCCEEDED.includes(reports[reports.length - 1].status)) {
+        reports.push({ id: step.id, contract: step.contract, status: Journal.NOT_EXECUTED })
+        continue
+      }
+
+      // later steps read secrets of the result (Ex.: `mnemonic`), the report does not
+      const report = await this.execute(step, context)
+      context.steps[step.id] = report.result
+      if (undefined !== report.result) {
+        report.result = Journal.redact(report.result)
+      }
+
+      reports.push(report)
+      onStep(report)
+    }
+
+    const failed = reports.some((report) => ! PipelineRunner.SUCCEEDED.includes(report.status))
+    return {
+      name: this.pipeline.name,
+      status: failed ? ContractResult.FAILED : Journal.COMPLETED,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      steps: reports,
+    }
+  }
+
+  /**
+   * Execute one step, placeholders are replaced with
+   * the variables and the results of previous steps
+   *
+   * @param {PipelineStep}  step
+   * @param {Object}        context
+   * @return {Promise<PipelineStepReport>}
+   */
+  protected async execute(
+    step: PipelineStep,
+    context: Object,
+  ): Promise<PipelineStepReport> {
+    let args: string[]
+    let inputs: Object
+    try {
+      const options = Object.assign({}, this.pipeline.options, this.options, step.inputs || {})
+      inputs = Object.keys(options).reduce((resolved, name) => Object.assign(resolved, {
+        [name]: Placeholders.interpolate(options[name], context),
+      }), {})
+
+      args = (step.args || [])
+        .map((arg) => String(Placeholders.interpolate(arg, context)))
+        .concat(ContractProcess.getArguments(inputs))
+    }
+    catch (e) {
+      return { id: step.id, contract: step.contract, status: ContractResult.FAILED, error: e.message }
+    }
+
+    // secret inputs (Ex.: `mnemonic`) are passed as environment variables
+    const env = Object.assign({}, this.env, ContractProcess.getSecrets(inputs))
+    const outcome = await new ContractProcess(step.contract, args, env).execute()
+    return Object.assign({ id: step.id, contract: step.contract, inputs: Journal.redact(inputs) }, outcome)
+  }
+}
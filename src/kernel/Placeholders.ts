@@ -0,0 +1,106 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+
+export class Placeholders {
+  /**
+   * Placeholders of manifests and pipelines, e.g. `${steps.create.tokenId}`
+   * @var {RegExp}
+   */
+  public static PATTERN: RegExp = /\$\{\s*([A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*)\s*\}/g
+
+  /**
+   * Get the placeholder of a name, e.g. `${recipient}`
+   *
+   * @param {string} name
+   * @return {string}
+   */
+  public static format(name: string): string {
+    return '${' + name + '}'
+  }
+
+  /**
+   * Get the names of the placeholders of a value
+   *
+   * @param {any} value
+   * @return {string[]}
+   */
+  public static get(value: any): string[] {
+    if (typeof value !== 'string') {
+      return []
+    }
+
+    const placeholders: string[] = []
+    value.replace(Placeholders.PATTERN, (match: string, name: string) => {
+      placeholders.push(name)
+      return match
+    })
+
+    return placeholders
+  }
+
+  /**
+   * Returns whether a value has no malformed placeholders (Ex.:
+   * `${steps.create.token id}`), which would be sent literally
+   *
+   * @param {any} value
+   * @return {boolean}
+   */
+  public static isValid(value: any): boolean {
+    return typeof value !== 'string' || value.replace(Placeholders.PATTERN, '').indexOf('${') === -1
+  }
+
+  /**
+   * Replace the placeholders of a value, a value that consists
+   * of one placeholder keeps the type of its reference
+   *
+   * @param {any}     value
+   * @param {Object}  context   The values by name, names may be paths (Ex.: `token.mosaicId`)
+   * @return {any}
+   */
+  public static interpolate(value: any, context: Object): any {
+    if (typeof value !== 'string') {
+      return value
+    }
+
+    const lookup = (name: string) => {
+      const resolved = name.split('.').reduce((object, key) => (
+        null !== object && undefined !== object ? object[key] : undefined
+      ), context)
+
+      if (undefined === resolved || null === resolved) {
+        throw new ExpectedError('The placeholder ' + Placeholders.format(name) + ' has no value.')
+      }
+
+      return resolved
+    }
+
+    const whole = value.trim().match(new RegExp('^' + Placeholders.PATTERN.source + '$'))
+    if (null !== whole) {
+      return lookup(whole[1])
+    }
+
+    return value.replace(Placeholders.PATTERN, (match: string, name: string) => {
+      const resolved = lookup(name)
+      if (typeof resolved === 'object' && typeof resolved.toHex === 'function') {
+        return resolved.toHex() // e.g. mosaic ids
+      }
+
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved)
+    })
+  }
+}
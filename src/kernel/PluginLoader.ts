@@ -0,0 +1,249 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {CommandRoot} from 'clime';
+import * as fs from 'fs';
+import * as Path from 'path';
+
+import {ContractConstants} from './Contract';
+
+/**
+ * A contract plugin, declared in the `symbolContracts`
+ * field of the `package.json` of the plugin
+ */
+export interface ContractPlugin {
+  /**
+   * The plugin name, e.g. `acme`
+   * @var {string}
+   */
+  name: string
+
+  /**
+   * The description listed in the help screen
+   * @var {string}
+   */
+  brief: string
+
+  /**
+   * The version of the `Contract` API the plugin requires
+   * @var {number}
+   */
+  apiVersion: number
+
+  /**
+   * The directory of the compiled contract modules
+   * @var {string}
+   */
+  path: string
+
+  /**
+   * The directory of the plugin package
+   * @var {string}
+   */
+  source: string
+}
+
+export class PluginLoader {
+  /**
+   * npm packages with a matching name are loaded as plugins
+   * @var {RegExp}
+   */
+  public static PACKAGE_PATTERN: RegExp = /^symbol-contracts-plugin-/
+
+  /**
+   * The `package.json` field of the plugin declaration
+   * @var {string}
+   */
+  public static MANIFEST_FIELD: string = 'symbolContracts'
+
+  /**
+   * The environment variable listing plugin directories
+   * @var {string}
+   */
+  public static ENVIRONMENT_VARIABLE: string = 'SYMBOL_CONTRACTS_PLUGINS'
+
+  /**
+   * Create a plugin loader
+   *
+   * @param {string}    path
+   * @param {string[]}  searchPaths
+   */
+  constructor(
+    /**
+     * The file listing the configured plugin directories
+     * @var {string}
+     */
+    public readonly path: string = Path.join(ContractConstants.CONFIG_DIRECTORY, 'plugins.json'),
+    /**
+     * The `node_modules` directories searched for plugin packages
+     * @var {string[]}
+     */
+    public readonly searchPaths: string[] = [Path.join(process.cwd(), 'node_modules')].concat(module.paths)) {
+  }
+
+  /**
+   * Discover the plugins of the configured directories and
+   * of the installed npm packages, plugins that cannot be
+   * loaded are skipped with a warning
+   *
+   * @return {ContractPlugin[]}
+   */
+  public discover(): ContractPlugin[] {
+    const plugins: ContractPlugin[] = []
+    const sources = this.getDirectories().concat(this.getPackages())
+    sources.filter((source, index) => sources.indexOf(source) === index).forEach((source) => {
+      let plugin: ContractPlugin
+      try {
+        plugin = this.load(source)
+      }
+      catch (e) {
+        console.error(chalk.yellow('Plugin ' + source + ' skipped: ' + e.message))
+        return
+      }
+
+      const duplicate = plugins.find((loaded) => loaded.name === plugin.name)
+      if (undefined !== duplicate) {
+        console.error(chalk.yellow('Plugin ' + source + ' skipped: \'' + plugin.name + '\' is already loaded from ' + duplicate.source + '.'))
+        return
+      }
+
+      plugins.push(plugin)
+    })
+
+    return plugins
+  }
+
+  /**
+   * Get the command roots of the plugins, each plugin is
+   * listed as a separate group of the help screen
+   *
+   * @param {ContractPlugin[]}  plugins
+   * @return {CommandRoot[]}
+   */
+  public getRoots(plugins: ContractPlugin[] = this.discover()): CommandRoot[] {
+    return plugins.map((plugin) => ({
+      label: 'Plugin ' + plugin.name + (plugin.brief ? ': ' + plugin.brief : ''),
+      path: plugin.path,
+    }))
+  }
+
+  /**
+   * Read the plugin declaration of a package directory
+   *
+   * @param {string}  source
+   * @return {ContractPlugin}
+   */
+  public load(source: string): ContractPlugin {
+    const manifestPath = Path.join(source, 'package.json')
+    if (! fs.existsSync(manifestPath)) {
+      throw new Error('the directory does not contain a package.json file.')
+    }
+
+    let manifest: Object
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
+    }
+    catch (e) {
+      throw new Error('the package.json file could not be parsed: ' + e.message)
+    }
+
+    const declaration = manifest[PluginLoader.MANIFEST_FIELD]
+    if (undefined === declaration || null === declaration || typeof declaration !== 'object') {
+      throw new Error('the package.json file has no \'' + PluginLoader.MANIFEST_FIELD + '\' field.')
+    }
+
+    const apiVersion = parseInt(String(declaration['apiVersion']), 10)
+    if (isNaN(apiVersion)) {
+      throw new Error('the plugin does not declare the Contract API version it requires.')
+    }
+    else if (apiVersion !== ContractConstants.API_VERSION) {
+      throw new Error('the plugin requires version ' + apiVersion + ' of the Contract API, '
+                    + 'this version of symbol-smart-contracts provides version ' + ContractConstants.API_VERSION + '.')
+    }
+
+    const path = Path.resolve(source, declaration['contracts'] || 'contracts')
+    if (! fs.existsSync(path) || ! fs.statSync(path).isDirectory()) {
+      throw new Error('the contracts directory ' + path + ' does not exist.')
+    }
+
+    return {
+      name: declaration['name'] || manifest['name'],
+      brief: declaration['brief'] || manifest['description'] || '',
+      apiVersion,
+      path,
+      source,
+    }
+  }
+
+  /**
+   * Get the configured plugin directories, from the
+   * environment variable and from the plugins file
+   *
+   * @return {string[]}
+   */
+  protected getDirectories(): string[] {
+    const directories = (process.env[PluginLoader.ENVIRONMENT_VARIABLE] || '')
+      .split(Path.delimiter)
+      .filter((directory) => directory.length > 0)
+      .map((directory) => Path.resolve(directory))
+
+    if (! fs.existsSync(this.path)) {
+      return directories
+    }
+
+    let configured: any
+    try {
+      configured = JSON.parse(fs.readFileSync(this.path, 'utf8'))
+    }
+    catch (e) {
+      console.error(chalk.yellow('The plugins file ' + this.path + ' could not be parsed: ' + e.message))
+      return directories
+    }
+
+    if (! Array.isArray(configured)) {
+      console.error(chalk.yellow('The plugins file ' + this.path + ' must contain an array of directories.'))
+      return directories
+    }
+
+    // relative directories are relative to the plugins file
+    return directories.concat(configured.map((directory) => Path.resolve(Path.dirname(this.path), String(directory))))
+  }
+
+  /**
+   * Get the directories of the installed plugin packages,
+   * including scoped packages e.g. `@acme/symbol-contracts-plugin-x`
+   *
+   * @return {string[]}
+   */
+  protected getPackages(): string[] {
+    const packages: string[] = []
+    this.searchPaths.filter((searchPath) => fs.existsSync(searchPath)).forEach((searchPath) => {
+      fs.readdirSync(searchPath).forEach((name) => {
+        if (PluginLoader.PACKAGE_PATTERN.test(name)) {
+          packages.push(Path.join(searchPath, name))
+        }
+        else if (name.startsWith('@')) {
+          fs.readdirSync(Path.join(searchPath, name))
+            .filter((scoped) => PluginLoader.PACKAGE_PATTERN.test(scoped))
+            .forEach((scoped) => packages.push(Path.join(searchPath, name, scoped)))
+        }
+      })
+    })
+
+    return packages.map((directory) => fs.realpathSync(directory))
+  }
+}
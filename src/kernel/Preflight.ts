@@ -0,0 +1,493 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {ExpectedError} from 'clime';
+import {
+    AccountHttp,
+    AccountInfo,
+    Address,
+    AggregateTransaction,
+    AliasAction,
+    AliasType,
+    AddressAliasTransaction,
+    LockFundsTransaction,
+    MosaicAliasTransaction,
+    MosaicDefinitionTransaction,
+    MosaicHttp,
+    MosaicId,
+    MosaicInfo,
+    MosaicSupplyChangeTransaction,
+    NamespaceHttp,
+    NamespaceId,
+    NamespaceInfo,
+    NamespaceRegistrationTransaction,
+    NamespaceRegistrationType,
+    PublicAccount,
+    Transaction,
+    TransferTransaction,
+} from 'symbol-sdk';
+import { Observable } from 'rxjs';
+
+import { NetworkConstants } from './NetworkConstants';
+import { FeeStrategy } from './FeeStrategy';
+import { Logger } from './Logger';
+
+/**
+ * One line of the pre-flight checklist
+ */
+export interface PreflightItem {
+  /**
+   * The outcome, one of `ok`, `failed` or `warning`
+   * @var {string}
+   */
+  status: string
+
+  /**
+   * What was checked, and the reason of a failure
+   * @var {string}
+   */
+  message: string
+}
+
+export class Preflight {
+  /**
+   * Checklist outcomes
+   * @var {string}
+   */
+  public static OK: string = 'ok'
+  public static FAILED: string = 'failed'
+  public static WARNING: string = 'warning'
+
+  /**
+   * Absolute amounts per mosaic that previous transactions of the
+   * execution spend, by signer address (e.g. aggregate then hash lock)
+   * @var {Object}
+   */
+  protected spent: {[address: string]: {[mosaicId: string]: number}} = {}
+
+  /**
+   * The mosaics linked to namespaces
+   * @var {Object}
+   */
+  protected aliases: {[namespaceId: string]: MosaicId} = {}
+
+  /**
+   * Create a pre-flight validation instance
+   *
+   * @param {string}            endpointUrl
+   * @param {NetworkConstants}  network
+   * @param {FeeStrategy}       feeStrategy
+   * @param {Logger}            logger
+   */
+  constructor(
+    /**
+     * The node URL
+     * @var {string}
+     **/
+    protected readonly endpointUrl: string,
+    /**
+     * The network constants (currency)
+     * @var {NetworkConstants}
+     **/
+    protected readonly network: NetworkConstants,
+    /**
+     * The fee strategy, the max fee is set when signing
+     * @var {FeeStrategy}
+     **/
+    protected readonly feeStrategy: FeeStrategy,
+    /**
+     * Where the checklist is written
+     * @var {Logger}
+     **/
+    protected readonly logger: Logger = new Logger()) {
+  }
+
+  /**
+   * Validate a transaction before it is signed, print
+   * the checklist and abort when a check fails
+   *
+   * @param {Transaction}   transaction
+   * @param {PublicAccount} signer
+   * @param {string[]}      localSigners  Public keys of cosignatories held in memory
+   * @param {number}        cosignatures
+   * @return {Promise<PreflightItem[]>}
+   */
+  public async run(
+    transaction: Transaction,
+    signer: PublicAccount,
+    localSigners: string[] = [],
+    cosignatures?: number,
+  ): Promise<PreflightItem[]> {
+    const items = await this.validate(transaction, signer, localSigners, cosignatures)
+    Preflight.print(items, this.logger)
+
+    const failures = items.filter((item) => item.status === Preflight.FAILED)
+    if (failures.length) {
+      throw new ExpectedError('Pre-flight validation failed, nothing was signed or announced:\n'
+        + failures.map((item) => '\t' + item.message).join('\n'))
+    }
+
+    return items
+  }
+
+  /**
+   * Validate a transaction: balance of the signer, namespace
+   * ownership, mosaic flags and existence of the other signers
+   *
+   * @param {Transaction}   transaction
+   * @param {PublicAccount} signer
+   * @param {string[]}      localSigners
+   * @param {number}        cosignatures
+   * @return {Promise<PreflightItem[]>}
+   */
+  public async validate(
+    transaction: Transaction,
+    signer: PublicAccount,
+    localSigners: string[] = [],
+    cosignatures?: number,
+  ): Promise<PreflightItem[]> {
+    const inner = transaction instanceof AggregateTransaction ? transaction.innerTransactions : [transaction]
+    const items: PreflightItem[] = []
+    const check = async (message: string, validate: () => Promise<PreflightItem[]>) => {
+      try {
+        items.push(...(await validate()))
+      }
+      catch (e) {
+        items.push({ status: Preflight.WARNING, message: message + ' could not be checked: ' + (e.message || e) })
+      }
+    }
+
+    // mosaics and namespaces created in the same aggregate
+    const definitions = inner.filter((tx) => tx instanceof MosaicDefinitionTransaction)
+                             .map((tx: MosaicDefinitionTransaction) => tx.mosaicId.toHex())
+    const registrations = inner.filter((tx) => tx instanceof NamespaceRegistrationTransaction)
+                               .map((tx: NamespaceRegistrationTransaction) => tx.namespaceId.toHex())
+
+    await check('The balance of ' + signer.address.plain(), () => this.validateBalance(transaction, inner, signer, definitions, cosignatures))
+
+    for (const tx of inner) {
+      const txSigner = undefined !== tx.signer ? tx.signer : signer
+      if (tx instanceof NamespaceRegistrationTransaction) {
+        await check('The namespace ' + tx.namespaceName, () => this.validateRegistration(tx, txSigner, registrations))
+      }
+      else if (tx instanceof MosaicAliasTransaction || tx instanceof AddressAliasTransaction) {
+        await check('The alias of namespace ' + (tx.namespaceId.fullName || tx.namespaceId.toHex()), () => this.validateAlias(tx, txSigner, registrations))
+      }
+      else if (tx instanceof MosaicSupplyChangeTransaction && ! definitions.includes(tx.mosaicId.toHex())) {
+        await check('The mosaic ' + tx.mosaicId.toHex(), () => this.validateSupplyChange(tx, txSigner))
+      }
+      else if (tx instanceof TransferTransaction) {
+        await check('The mosaics of the transfer', () => this.validateTransfer(tx, txSigner, definitions))
+      }
+    }
+
+    // other parties must be known on the network to co-sign
+    const others = inner.map((tx) => tx.signer)
+      .filter((account) => undefined !== account && account.publicKey !== signer.publicKey)
+      .filter((account) => ! localSigners.includes(account.publicKey))
+      .filter((account, i, accounts) => accounts.findIndex((other) => other.publicKey === account.publicKey) === i)
+
+    for (const account of others) {
+      await check('The account ' + account.address.plain(), async () => {
+        const info = await this.read<AccountInfo>(new AccountHttp(this.endpointUrl).getAccountInfo(account.address))
+        return [undefined === info
+          ? { status: Preflight.FAILED, message: 'Account ' + account.address.plain() + ' must co-sign but is unknown on the network.' }
+          : { status: Preflight.OK, message: 'Account ' + account.address.plain() + ' exists.' }]
+      })
+    }
+
+    return items
+  }
+
+  /**
+   * Print a checklist
+   *
+   * @param {PreflightItem[]} items
+   * @param {Logger}          logger
+   * @return {void}
+   */
+  public static print(items: PreflightItem[], logger: Logger = new Logger()): void {
+    logger.log('')
+    logger.log(chalk.yellow('Pre-flight checks:'))
+    items.forEach((item) => {
+      if (item.status === Preflight.OK) {
+        logger.log(chalk.green('\t[OK]   ' + item.message))
+      }
+      else if (item.status === Preflight.FAILED) {
+        logger.log(chalk.red('\t[FAIL] ' + item.message))
+      }
+      else {
+        logger.log(chalk.yellow('\t[WARN] ' + item.message))
+      }
+    })
+    logger.log('')
+  }
+
+  /**
+   * Check the balance of the signer against the fees, rental fees,
+   * locked funds and transferred mosaics of this transaction and of
+   * the transactions signed before
+   *
+   * @param {Transaction}   transaction
+   * @param {Transaction[]} inner
+   * @param {PublicAccount} signer
+   * @param {string[]}      definitions
+   * @param {number}        cosignatures
+   * @return {Promise<PreflightItem[]>}
+   */
+  protected async validateBalance(
+    transaction: Transaction,
+    inner: Transaction[],
+    signer: PublicAccount,
+    definitions: string[],
+    cosignatures?: number,
+  ): Promise<PreflightItem[]> {
+    const currency = this.network.getCurrency().toHex()
+    const address = signer.address.plain()
+    const spent = this.spent[address] = this.spent[address] || {}
+    const add = (mosaicId: string, amount: number) => spent[mosaicId] = (spent[mosaicId] || 0) + amount
+
+    const items: PreflightItem[] = []
+    const fee = this.feeStrategy.apply(transaction, signer, cosignatures).maxFee.compact()
+    add(currency, fee)
+
+    let rentals = 0
+    inner.filter((tx) => undefined === tx.signer || tx.signer.publicKey === signer.publicKey)
+         .forEach((tx) => rentals += this.feeStrategy.getRentalFee(tx))
+    add(currency, rentals)
+    if (undefined === this.feeStrategy.rentalFees && inner.some((tx) => tx instanceof NamespaceRegistrationTransaction || tx instanceof MosaicDefinitionTransaction)) {
+      items.push({ status: Preflight.WARNING, message: 'The rental fees are unknown, they are not included in the balance check.' })
+    }
+
+    if (transaction instanceof LockFundsTransaction) {
+      add((await this.resolve(transaction.mosaic.id)).toHex(), transaction.mosaic.amount.compact())
+    }
+
+    // mosaics created in the same aggregate need no balance
+    for (const tx of inner) {
+      if (! (tx instanceof TransferTransaction) || (undefined !== tx.signer && tx.signer.publicKey !== signer.publicKey)) {
+        continue
+      }
+
+      for (const mosaic of tx.mosaics) {
+        const mosaicId = (await this.resolve(mosaic.id)).toHex()
+        if (! definitions.includes(mosaicId)) {
+          add(mosaicId, mosaic.amount.compact())
+        }
+      }
+    }
+
+    const info = await this.read<AccountInfo>(new AccountHttp(this.endpointUrl).getAccountInfo(signer.address))
+    const balances = undefined === info ? [] : info.mosaics
+    Object.keys(spent).filter((mosaicId) => spent[mosaicId] > 0).forEach((mosaicId) => {
+      const owned = balances.filter((mosaic) => mosaic.id.toHex() === mosaicId)
+                            .reduce((total, mosaic) => total + mosaic.amount.compact(), 0)
+      const format = (amount: number) => mosaicId === currency
+        ? this.network.formatAmount(amount) + ' ' + this.network.getCurrencyName()
+        : amount + ' ' + mosaicId
+
+      items.push(owned >= spent[mosaicId]
+        ? { status: Preflight.OK, message: 'Balance of ' + format(owned) + ' covers ' + format(spent[mosaicId]) + '.' }
+        : { status: Preflight.FAILED, message: 'Balance of ' + format(owned) + ' does not cover ' + format(spent[mosaicId])
+            + (mosaicId === currency ? ' (fees, rental fees, locked funds and transfers).' : '.') })
+    })
+
+    return items
+  }
+
+  /**
+   * Check that a namespace can be registered (or extended) by the signer
+   *
+   * @param {NamespaceRegistrationTransaction} transaction
+   * @param {PublicAccount}                    signer
+   * @param {string[]}                         registrations
+   * @return {Promise<PreflightItem[]>}
+   */
+  protected async validateRegistration(
+    transaction: NamespaceRegistrationTransaction,
+    signer: PublicAccount,
+    registrations: string[],
+  ): Promise<PreflightItem[]> {
+    const namespaceHttp = new NamespaceHttp(this.endpointUrl)
+    const items: PreflightItem[] = []
+
+    if (transaction.registrationType === NamespaceRegistrationType.SubNamespace
+        && ! registrations.includes(transaction.parentId.toHex())) {
+      const parent = await this.read<NamespaceInfo>(namespaceHttp.getNamespace(transaction.parentId))
+      if (undefined === parent || ! parent.active) {
+        return [{ status: Preflight.FAILED, message: 'The parent of namespace ' + transaction.namespaceName + ' is not registered.' }]
+      }
+      else if (parent.owner.publicKey !== signer.publicKey) {
+        return [{ status: Preflight.FAILED, message: 'The parent of namespace ' + transaction.namespaceName + ' is owned by ' + parent.owner.address.plain() + '.' }]
+      }
+    }
+
+    const namespace = await this.read<NamespaceInfo>(namespaceHttp.getNamespace(transaction.namespaceId))
+    if (undefined !== namespace && namespace.active && namespace.owner.publicKey !== signer.publicKey) {
+      return [{ status: Preflight.FAILED, message: 'Namespace ' + transaction.namespaceName + ' is already owned by ' + namespace.owner.address.plain() + '.' }]
+    }
+
+    items.push({ status: Preflight.OK, message: 'Namespace ' + transaction.namespaceName + (undefined === namespace ? ' is available.' : ' is owned by the signer.') })
+    return items
+  }
+
+  /**
+   * Check that the signer owns the namespace of an alias
+   *
+   * @param {MosaicAliasTransaction|AddressAliasTransaction} transaction
+   * @param {PublicAccount}                                  signer
+   * @param {string[]}                                       registrations
+   * @return {Promise<PreflightItem[]>}
+   */
+  protected async validateAlias(
+    transaction: MosaicAliasTransaction | AddressAliasTransaction,
+    signer: PublicAccount,
+    registrations: string[],
+  ): Promise<PreflightItem[]> {
+    const name = transaction.namespaceId.fullName || transaction.namespaceId.toHex()
+    if (registrations.includes(transaction.namespaceId.toHex())) {
+      return [{ status: Preflight.OK, message: 'Namespace ' + name + ' is registered in the same transaction.' }]
+    }
+
+    const namespace = await this.read<NamespaceInfo>(new NamespaceHttp(this.endpointUrl).getNamespace(transaction.namespaceId))
+    if (undefined === namespace || ! namespace.active) {
+      return [{ status: Preflight.FAILED, message: 'Namespace ' + name + ' is not registered.' }]
+    }
+    else if (namespace.owner.publicKey !== signer.publicKey) {
+      return [{ status: Preflight.FAILED, message: 'Namespace ' + name + ' is already owned by ' + namespace.owner.address.plain() + '.' }]
+    }
+    else if (transaction.aliasAction === AliasAction.Link && namespace.alias.type !== AliasType.None) {
+      return [{ status: Preflight.FAILED, message: 'Namespace ' + name + ' is already linked, it must be unlinked first.' }]
+    }
+
+    return [{ status: Preflight.OK, message: 'Namespace ' + name + ' is owned by the signer.' }]
+  }
+
+  /**
+   * Check that the supply of a mosaic can be changed by the signer
+   *
+   * @param {MosaicSupplyChangeTransaction} transaction
+   * @param {PublicAccount}                 signer
+   * @return {Promise<PreflightItem[]>}
+   */
+  protected async validateSupplyChange(
+    transaction: MosaicSupplyChangeTransaction,
+    signer: PublicAccount,
+  ): Promise<PreflightItem[]> {
+    const mosaicId = await this.resolve(transaction.mosaicId)
+    const mosaic = await this.read<MosaicInfo>(new MosaicHttp(this.endpointUrl).getMosaic(mosaicId))
+    if (undefined === mosaic) {
+      return [{ status: Preflight.FAILED, message: 'Mosaic ' + mosaicId.toHex() + ' does not exist.' }]
+    }
+    else if (mosaic.owner.publicKey !== signer.publicKey) {
+      return [{ status: Preflight.FAILED, message: 'Mosaic ' + mosaicId.toHex() + ' is owned by ' + mosaic.owner.address.plain() + '.' }]
+    }
+    else if (! mosaic.flags.supplyMutable) {
+      return [{ status: Preflight.FAILED, message: 'The supply of mosaic ' + mosaicId.toHex() + ' is immutable (flag SupplyMutable).' }]
+    }
+
+    return [{ status: Preflight.OK, message: 'The supply of mosaic ' + mosaicId.toHex() + ' can be changed.' }]
+  }
+
+  /**
+   * Check that the mosaics of a transfer exist and can be transferred
+   *
+   * @param {TransferTransaction} transaction
+   * @param {PublicAccount}       signer
+   * @param {string[]}            definitions
+   * @return {Promise<PreflightItem[]>}
+   */
+  protected async validateTransfer(
+    transaction: TransferTransaction,
+    signer: PublicAccount,
+    definitions: string[],
+  ): Promise<PreflightItem[]> {
+    const items: PreflightItem[] = []
+    for (const transferred of transaction.mosaics) {
+      const label = transferred.id instanceof NamespaceId ? (transferred.id.fullName || transferred.id.toHex()) : transferred.id.toHex()
+
+      let mosaicId: MosaicId
+      try {
+        mosaicId = await this.resolve(transferred.id)
+      }
+      catch (e) {
+        items.push({ status: Preflight.FAILED, message: 'Mosaic ' + label + ' does not exist: ' + (e.message || e) })
+        continue
+      }
+
+      if (definitions.includes(mosaicId.toHex())) {
+        continue
+      }
+
+      const mosaic = await this.read<MosaicInfo>(new MosaicHttp(this.endpointUrl).getMosaic(mosaicId))
+      const recipient = transaction.recipientAddress instanceof Address ? transaction.recipientAddress.plain() : undefined
+      if (undefined === mosaic) {
+        items.push({ status: Preflight.FAILED, message: 'Mosaic ' + label + ' does not exist.' })
+      }
+      else if (! mosaic.flags.transferable && mosaic.owner.publicKey !== signer.publicKey && mosaic.owner.address.plain() !== recipient) {
+        items.push({ status: Preflight.FAILED, message: 'Mosaic ' + label + ' is not transferable (flag Transferable).' })
+      }
+      else {
+        items.push({ status: Preflight.OK, message: 'Mosaic ' + label + ' can be transferred by ' + signer.address.plain() + '.' })
+      }
+    }
+
+    return items
+  }
+
+  /**
+   * Resolve the mosaic linked to a namespace
+   *
+   * @param {MosaicId|NamespaceId} id
+   * @return {Promise<MosaicId>}
+   */
+  protected async resolve(id: MosaicId | NamespaceId): Promise<MosaicId> {
+    if (! (id instanceof NamespaceId)) {
+      return id as MosaicId
+    }
+
+    if (undefined === this.aliases[id.toHex()]) {
+      const mosaicId = await this.read<MosaicId>(new NamespaceHttp(this.endpointUrl).getLinkedMosaicId(id))
+      if (undefined === mosaicId) {
+        throw new ExpectedError('the namespace ' + id.toHex() + ' is not linked to a mosaic')
+      }
+
+      this.aliases[id.toHex()] = mosaicId
+    }
+
+    return this.aliases[id.toHex()]
+  }
+
+  /**
+   * Read from the node, undefined when not found
+   *
+   * @param {Observable<T>} request
+   * @return {Promise<T>}
+   */
+  protected async read<T>(request: Observable<T>): Promise<T> {
+    try {
+      return await request.toPromise()
+    }
+    catch (e) {
+      if (('' + (e.message || e)).includes('"statusCode":404')) {
+        return undefined
+      }
+
+      throw e
+    }
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+    Account,
+    CosignatureSignedTransaction,
+    PublicAccount,
+    SignedTransaction,
+    Transaction,
+} from 'symbol-sdk';
+
+import { TransactionSigner } from './TransactionSigner';
+import { Preflight } from './Preflight';
+
+export class PreflightSigner implements TransactionSigner {
+  /**
+   * Create a signer that validates transactions before
+   * they are signed by `signer`
+   *
+   * @param {TransactionSigner} signer
+   * @param {Transaction}       transaction
+   * @param {Preflight}         preflight
+   */
+  constructor(
+    /**
+     * The signer backend
+     * @var {TransactionSigner}
+     **/
+    protected readonly signer: TransactionSigner,
+    /**
+     * The transaction to sign
+     * @var {Transaction}
+     **/
+    protected readonly transaction: Transaction,
+    /**
+     * The pre-flight validation of the execution
+     * @var {Preflight}
+     **/
+    protected readonly preflight: Preflight) {
+  }
+
+  /**
+   * The account that signs (transaction issuer or cosignatory)
+   * @var {PublicAccount}
+   */
+  public get publicAccount(): PublicAccount {
+    return this.signer.publicAccount
+  }
+
+  /**
+   * Validate and sign a transaction
+   *
+   * @return {Promise<SignedTransaction>}
+   */
+  public async sign(): Promise<SignedTransaction> {
+    await this.preflight.run(this.transaction, this.publicAccount)
+    return await this.signer.sign()
+  }
+
+  /**
+   * Validate and sign an aggregate transaction *with cosignatories*
+   *
+   * @param {Account[]} cosignatories
+   * @return {Promise<SignedTransaction>}
+   */
+  public async cosign(cosignatories: Account[]): Promise<SignedTransaction> {
+    await this.preflight.run(
+      this.transaction,
+      this.publicAccount,
+      cosignatories.map((cosignatory) => cosignatory.publicKey),
+      cosignatories.length,
+    )
+
+    return await this.signer.cosign(cosignatories)
+  }
+
+  /**
+   * Co-sign an announced aggregate transaction, co-signatures cost nothing
+   *
+   * @return {Promise<CosignatureSignedTransaction>}
+   */
+  public async cosignAggregate(): Promise<CosignatureSignedTransaction> {
+    return await this.signer.cosignAggregate()
+  }
+
+  /**
+   * Co-sign the payload of an aggregate transaction
+   *
+   * @param {string} payload
+   * @return {Promise<CosignatureSignedTransaction>}
+   */
+  public async cosignPayload(payload: string): Promise<CosignatureSignedTransaction> {
+    return await this.signer.cosignPayload(payload)
+  }
+}
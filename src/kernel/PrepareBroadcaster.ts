@@ -0,0 +1,161 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {ExpectedError} from 'clime';
+import {
+    PublicAccount,
+    SignedTransaction,
+    CosignatureSignedTransaction,
+} from 'symbol-sdk';
+import * as Path from 'path';
+import { ContractContext } from './ContractContext';
+import { ContractResult } from './ContractResult';
+import { TransactionBroadcaster } from './TransactionBroadcaster';
+import { TransactionBundle, PreparedTransactions } from './TransactionBundle';
+
+export class PrepareBroadcaster extends TransactionBroadcaster {
+  /**
+   * Create a prepare broadcaster instance
+   *
+   * Unsigned transactions (see PrepareSigner) are written to
+   * a bundle file, they are signed on an air-gapped host.
+   *
+   * @param {ContractContext}  contract
+   * @param {string}           outputPath
+   * @param {boolean}          enableDebug
+   */
+  constructor(
+    contract: ContractContext,
+    /**
+     * The bundle file path, defaults to `<contract>-<hash>.json`
+     * @var {string}
+     **/
+    protected readonly outputPath?: string,
+    enableDebug: boolean = false) {
+    super(contract, contract.explorerUrl, undefined, enableDebug)
+  }
+
+  /**
+   * Write an unsigned transaction to the bundle file
+   *
+   * @param {PublicAccount}     account 
+   * @param {SignedTransaction} unsignedTransaction
+   */
+  public async announce(
+    account: PublicAccount,
+    unsignedTransaction: SignedTransaction
+  ): Promise<ContractResult> 
+  {
+    return this.export(account, unsignedTransaction.hash, {
+      transaction: unsignedTransaction.payload,
+    })
+  }
+
+  /**
+   * Write an unsigned hash lock and aggregate
+   * bonded transaction to the bundle file
+   *
+   * @param {PublicAccount}     account 
+   * @param {SignedTransaction} unsignedHashLock
+   * @param {SignedTransaction} unsignedPartial
+   */
+  public async announcePartial(
+    account: PublicAccount,
+    unsignedHashLock: SignedTransaction,
+    unsignedPartial: SignedTransaction,
+  ): Promise<ContractResult> 
+  {
+    return this.export(account, unsignedPartial.hash, {
+      transaction: unsignedPartial.payload,
+      hashLock: unsignedHashLock.payload,
+    })
+  }
+
+  /**
+   * Co-signatures are prepared with the Prepare command
+   *
+   * @param {PublicAccount}                 account 
+   * @param {CosignatureSignedTransaction}  signedTransaction
+   */
+  public async announceCosignature(
+    account: PublicAccount,
+    signedTransaction: CosignatureSignedTransaction
+  ): Promise<ContractResult> 
+  {
+    throw new ExpectedError('Co-signatures cannot be prepared with --prepare, use the Prepare command instead.')
+  }
+
+  /**
+   * Save the bundle, the result holds its location
+   *
+   * @param {PublicAccount}         account
+   * @param {string}                hash  The hash of the unsigned transaction
+   * @param {PreparedTransactions}  prepared
+   * @return {ContractResult}
+   */
+  protected export(
+    account: PublicAccount,
+    hash: string,
+    prepared: PreparedTransactions,
+  ): ContractResult
+  {
+    const path = this.outputPath && this.outputPath.length
+      ? this.outputPath
+      : Path.join(process.cwd(), this.contract.getName() + '-' + hash.substr(0, 8) + '.json')
+
+    const bundle = new TransactionBundle(
+      this.contract.getName(),
+      this.contract.networkType,
+      this.contract.generationHash,
+      account.publicKey,
+      undefined,
+      undefined,
+      [],
+      undefined,
+      prepared,
+    )
+
+    try {
+      bundle.save(path)
+    }
+    catch (e) {
+      throw new ExpectedError('The transaction bundle could not be written to ' + path + ': ' + e.message)
+    }
+
+    if (this.enableDebug === true) {
+      this.log('')
+      this.log(chalk.yellow('Bundle: \n\n\t', JSON.stringify(bundle.toJSON())))
+    }
+
+    const transitions = []
+    this.addTransition(transitions, ContractResult.PREPARED, hash)
+
+    return new ContractResult(
+      this.contract.getName(),
+      ContractResult.PREPARED,
+      hash,
+      account,
+      this.contract.networkType,
+      this.contract.generationHash,
+      undefined,
+      this.explorerUrl,
+      [],
+      transitions,
+      path,
+    )
+  }
+}
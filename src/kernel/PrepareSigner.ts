@@ -0,0 +1,85 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    Convert,
+    CosignatureSignedTransaction,
+    SignedTransaction,
+    Transaction,
+} from 'symbol-sdk';
+
+import {AbstractTransactionSigner, SignatureRequest} from './TransactionSigner';
+
+export class PrepareSigner extends AbstractTransactionSigner {
+  /**
+   * Build a transaction with its max fee, without signing it
+   *
+   * The returned transaction carries the unsigned payload, its
+   * hash changes once the transaction is signed (see Sign).
+   *
+   * @return {Promise<SignedTransaction>}
+   */
+  public async sign(): Promise<SignedTransaction> {
+    const transaction = this.getTransactionWithFee()
+    const payload = transaction.serialize()
+
+    return new SignedTransaction(
+      payload,
+      Transaction.createTransactionHash(payload, Array.from(Convert.hexToUint8(this.generationHash))),
+      this.publicAccount.publicKey,
+      transaction.type,
+      transaction.networkType,
+    )
+  }
+
+  /**
+   * Co-signatures of accounts held in memory cannot be prepared
+   *
+   * @return {Promise<SignedTransaction>}
+   */
+  public async cosign(): Promise<SignedTransaction> {
+    throw new ExpectedError('Transactions co-signed by other accounts cannot be prepared, use --offline on the air-gapped host instead.')
+  }
+
+  /**
+   * Co-signatures are prepared with the Prepare command
+   *
+   * @return {Promise<CosignatureSignedTransaction>}
+   */
+  public async cosignAggregate(): Promise<CosignatureSignedTransaction> {
+    throw new ExpectedError('Co-signatures cannot be prepared with --prepare, use the Prepare command instead.')
+  }
+
+  /**
+   * Co-signatures are prepared with the Prepare command
+   *
+   * @return {Promise<CosignatureSignedTransaction>}
+   */
+  public async cosignPayload(): Promise<CosignatureSignedTransaction> {
+    throw new ExpectedError('Co-signatures cannot be prepared with --prepare, use the Prepare command instead.')
+  }
+
+  /**
+   * Prepared transactions are never signed
+   *
+   * @param {SignatureRequest} request
+   * @return {Promise<string>}
+   */
+  protected async signData(request: SignatureRequest): Promise<string> {
+    throw new ExpectedError('Prepared transactions are signed on the air-gapped host (see Sign).')
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {NetworkType} from 'symbol-sdk';
+import * as fs from 'fs';
+import * as Path from 'path';
+
+import {ContractConstants} from './Contract';
+
+export class ContractProfile {
+  /**
+   * Create a connection and account profile
+   *
+   * @param {string}      name
+   * @param {string}      url
+   * @param {string}      explorerUrl
+   * @param {NetworkType} networkType
+   * @param {string}      generationHash
+   * @param {Object}      account
+   * @param {string[]}    nodes
+   * @param {Object}      network
+   * @param {Object}      signer
+   */
+  constructor(
+    /**
+     * The profile name
+     * @var {string}
+     */
+    public readonly name: string,
+    /**
+     * The API node URL
+     * @var {string}
+     */
+    public readonly url?: string,
+    /**
+     * The explorer URL
+     * @var {string}
+     */
+    public readonly explorerUrl?: string,
+    /**
+     * The network type
+     * @var {NetworkType}
+     */
+    public readonly networkType?: NetworkType,
+    /**
+     * The network generation hash
+     * @var {string}
+     */
+    public readonly generationHash?: string,
+    /**
+     * The account reference, one of `keystore`, `privateKey`
+     * or `mnemonic` (optionally with a derivation `path`)
+     * @var {Object}
+     */
+    public readonly account?: {
+      keystore?: string,
+      privateKey?: string,
+      mnemonic?: string,
+      path?: string,
+    },
+    /**
+     * The API node URLs used for failover
+     * @var {string[]}
+     */
+    public readonly nodes: string[] = [],
+    /**
+     * The network properties used in offline mode, e.g.
+     * `currencyMosaicId` and `divisibility` of private networks
+     * @var {Object}
+     */
+    public readonly network?: Object,
+    /**
+     * The external signer, with the `publicKey` of the signing
+     * account and either a service `url` or a `command`
+     * @var {Object}
+     */
+    public readonly signer?: {
+      publicKey?: string,
+      url?: string,
+      command?: string,
+    }) {
+  }
+
+  /**
+   * Returns whether the profile references an account
+   *
+   * @return {boolean}
+   */
+  public hasAccount(): boolean {
+    return (undefined !== this.account && null !== this.account)
+        || (undefined !== this.signer && null !== this.signer)
+  }
+}
+
+export class ProfileStore {
+  /**
+   * Create a profile store instance
+   *
+   * @param {string}  path
+   */
+  constructor(
+    /**
+     * The profiles file path
+     * @var {string}
+     */
+    public readonly path: string = Path.join(ContractConstants.CONFIG_DIRECTORY, 'profiles.json')) {
+  }
+
+  /**
+   * Read all profiles from the profiles file
+   *
+   * @return {ContractProfile[]}
+   */
+  public all(): ContractProfile[] {
+    if (! fs.existsSync(this.path)) {
+      return []
+    }
+
+    let profiles: Object
+    try {
+      profiles = JSON.parse(fs.readFileSync(this.path, 'utf8'))
+    }
+    catch (e) {
+      throw new ExpectedError('The profiles file ' + this.path + ' could not be parsed: ' + e.message)
+    }
+
+    return Object.keys(profiles).map((name) => {
+      const profile = profiles[name]
+      return new ContractProfile(
+        name,
+        profile['url'],
+        profile['explorerUrl'],
+        this.readNetworkType(profile['networkType']),
+        profile['generationHash'],
+        profile['account'],
+        profile['nodes'] || [],
+        profile['network'],
+        profile['signer'],
+      )
+    })
+  }
+
+  /**
+   * Read one profile by `name`
+   *
+   * @param {string} name
+   * @return {ContractProfile}
+   */
+  public load(name: string): ContractProfile {
+    const profile = this.all().find((p) => p.name === name)
+    if (undefined === profile) {
+      throw new ExpectedError('The profile "' + name + '" could not be found in ' + this.path + '.')
+    }
+
+    return profile
+  }
+
+  /**
+   * Read a network type by numeric value or name (e.g.: TEST_NET)
+   *
+   * @param {number|string} networkType
+   * @return {NetworkType}
+   */
+  private readNetworkType(networkType: number | string): NetworkType {
+    if (undefined === networkType || null === networkType) {
+      return undefined
+    }
+
+    const value = typeof networkType === 'number'
+      ? networkType
+      : NetworkType[networkType.toUpperCase()]
+
+    if (undefined === NetworkType[value]) {
+      throw new ExpectedError('Invalid network type "' + networkType + '" in ' + this.path + '.')
+    }
+
+    return value
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    PublicAccount,
+    Transaction,
+} from 'symbol-sdk';
+
+import {AbstractTransactionSigner, SignatureRequest} from './TransactionSigner';
+import {FeeStrategy} from './FeeStrategy';
+import {HttpClient, HttpResponse} from './HttpClient';
+
+export class RemoteSigner extends AbstractTransactionSigner {
+  /**
+   * Request timeout in milliseconds
+   * @var {number}
+   */
+  public static TIMEOUT: number = 30000
+
+  /**
+   * Create a signer for a remote signing service
+   *
+   * The signature request is sent as JSON with `POST` to `url`,
+   * the service responds with JSON `{"signature": "..."}`. When
+   * the `SYMBOL_CONTRACTS_SIGNER_TOKEN` environment variable is
+   * set, it is sent as bearer token.
+   *
+   * @param {string}        url
+   * @param {PublicAccount} publicAccount
+   * @param {Transaction}   transaction 
+   * @param {string}        generationHash 
+   * @param {FeeStrategy}   feeStrategy
+   */
+  constructor(
+    /**
+     * The signing service URL
+     * @var {string}
+     */
+    protected readonly url: string,
+    publicAccount: PublicAccount,
+    transaction: Transaction,
+    generationHash: string,
+    feeStrategy?: FeeStrategy) {
+    super(publicAccount, transaction, generationHash, feeStrategy)
+  }
+
+  /**
+   * Request the signature of `request.data` from the service
+   *
+   * @param {SignatureRequest} request
+   * @return {Promise<string>}
+   */
+  protected async signData(request: SignatureRequest): Promise<string> {
+    const body = JSON.stringify(request)
+    const headers = {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(body),
+    }
+
+    const token = process.env['SYMBOL_CONTRACTS_SIGNER_TOKEN']
+    if (token && token.length) {
+      headers['Authorization'] = 'Bearer ' + token
+    }
+
+    let response: HttpResponse
+    try {
+      response = await HttpClient.request(this.url, 'POST', headers, body, RemoteSigner.TIMEOUT)
+    }
+    catch (e) {
+      throw new ExpectedError('The signing service ' + this.url + ' could not be reached: ' + e.message)
+    }
+
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw new ExpectedError('The signing service ' + this.url + ' refused to sign (HTTP ' + response.statusCode + '): ' + response.body)
+    }
+
+    try {
+      return JSON.parse(response.body)['signature']
+    }
+    catch (e) {
+      throw new ExpectedError('The signing service ' + this.url + ' returned an invalid response.')
+    }
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import * as fs from 'fs';
+import * as Path from 'path';
+
+import {ContractConstants} from './Contract';
+import {ContractOutcome} from './ContractProcess';
+
+/**
+ * The trigger of a scheduled job, exactly one field is set
+ */
+export interface ScheduleTrigger {
+  /**
+   * The execution time (ISO 8601)
+   * @var {string}
+   */
+  at?: string
+
+  /**
+   * The cron expression of recurring executions, e.g. `0 9 1 * *`
+   * @var {string}
+   */
+  cron?: string
+
+  /**
+   * The block height of the execution
+   * @var {number}
+   */
+  height?: number
+
+  /**
+   * The id of the job whose executions must succeed first
+   * @var {string}
+   */
+  after?: string
+}
+
+/**
+ * An execution of a scheduled job
+ */
+export interface ScheduledRun extends ContractOutcome {
+  /**
+   * The start time (ISO 8601)
+   * @var {string}
+   */
+  startedAt: string
+
+  /**
+   * The end time (ISO 8601)
+   * @var {string}
+   */
+  finishedAt: string
+}
+
+/**
+ * A stored contract invocation, inputs never contain secrets
+ * and keys are referenced by their name in the keystore
+ */
+export interface ScheduledJob {
+  /**
+   * The job id, e.g. `coupon-2021`
+   * @var {string}
+   */
+  id: string
+
+  /**
+   * The contract name, e.g. `OpenTimestamp`
+   * @var {string}
+   */
+  contract: string
+
+  /**
+   * The positional arguments of the contract
+   * @var {string[]}
+   */
+  args: string[]
+
+  /**
+   * The options of the contract, e.g. `{ keystore: 'operator' }`
+   * @var {Object}
+   */
+  inputs: Object
+
+  /**
+   * The trigger of the executions
+   * @var {ScheduleTrigger}
+   */
+  trigger: ScheduleTrigger
+
+  /**
+   * The job status, e.g. `scheduled` or `completed`
+   * @var {string}
+   */
+  status: string
+
+  /**
+   * The creation time (ISO 8601)
+   * @var {string}
+   */
+  createdAt: string
+
+  /**
+   * The next execution time of cron jobs (ISO 8601)
+   * @var {string}
+   */
+  nextRun?: string
+
+  /**
+   * The executions of the job, oldest first
+   * @var {ScheduledRun[]}
+   */
+  runs: ScheduledRun[]
+}
+
+export class ScheduleStore {
+  /**
+   * Create a store of scheduled jobs, jobs are read from the
+   * file with every operation so that the scheduler and the
+   * command line can change the schedule at the same time
+   *
+   * @param {string}  path
+   */
+  constructor(
+    /**
+     * The schedule file path
+     * @var {string}
+     */
+    public readonly path: string = Path.join(ContractConstants.CONFIG_DIRECTORY, 'schedule.json')) {
+  }
+
+  /**
+   * List all jobs, oldest first
+   *
+   * @return {ScheduledJob[]}
+   */
+  public all(): ScheduledJob[] {
+    return this.read()
+  }
+
+  /**
+   * Load the job `id`
+   *
+   * @param {string} id
+   * @return {ScheduledJob}
+   */
+  public load(id: string): ScheduledJob {
+    const job = this.read().find((j) => j.id === id)
+    if (undefined === job) {
+      throw new ExpectedError('The job "' + id + '" could not be found in the schedule.')
+    }
+
+    return job
+  }
+
+  /**
+   * Add a job to the schedule
+   *
+   * @param {ScheduledJob} job
+   * @return {void}
+   */
+  public add(job: ScheduledJob): void {
+    const jobs = this.read()
+    if (jobs.some((j) => j.id === job.id)) {
+      throw new ExpectedError('A job named "' + job.id + '" already exists in the schedule.')
+    }
+
+    this.write(jobs.concat([job]))
+  }
+
+  /**
+   * Replace a job, jobs that were removed are not added again
+   *
+   * @param {ScheduledJob} job
+   * @return {void}
+   */
+  public update(job: ScheduledJob): void {
+    const jobs = this.read()
+    const index = jobs.findIndex((j) => j.id === job.id)
+    if (index !== -1) {
+      jobs[index] = job
+      this.write(jobs)
+    }
+  }
+
+  /**
+   * Remove the job `id`
+   *
+   * @param {string} id
+   * @return {void}
+   */
+  public remove(id: string): void {
+    const jobs = this.read()
+    if (! jobs.some((j) => j.id === id)) {
+      throw new ExpectedError('The job "' + id + '" could not be found in the schedule.')
+    }
+
+    this.write(jobs.filter((j) => j.id !== id))
+  }
+
+  /**
+   * Read the schedule file
+   *
+   * @internal
+   * @return {ScheduledJob[]}
+   */
+  private read(): ScheduledJob[] {
+    if (! fs.existsSync(this.path)) {
+      return []
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.path, 'utf8'))
+    }
+    catch (e) {
+      throw new ExpectedError('The schedule file ' + this.path + ' could not be parsed: ' + e.message)
+    }
+  }
+
+  /**
+   * Write the schedule file (readable by the owner only), the
+   * file is replaced at once so that it is never read partially
+   *
+   * @internal
+   * @param {ScheduledJob[]} jobs
+   * @return {void}
+   */
+  private write(jobs: ScheduledJob[]): void {
+    const directory = Path.dirname(this.path)
+    if (! fs.existsSync(directory)) {
+      fs.mkdirSync(directory, {recursive: true, mode: 0o700})
+    }
+
+    const temporary = this.path + '.' + process.pid + '.tmp'
+    fs.writeFileSync(temporary, JSON.stringify(jobs, null, 2), {mode: 0o600})
+    fs.renameSync(temporary, this.path)
+  }
+}
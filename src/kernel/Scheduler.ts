@@ -0,0 +1,391 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import * as crypto from 'crypto';
+
+import {ContractResult} from './ContractResult';
+import {ContractProcess} from './ContractProcess';
+import {CronExpression} from './CronExpression';
+import {Journal} from './Journal';
+import {Keystore} from './Keystore';
+import {ProfileStore} from './ProfileStore';
+import {ScheduleStore, ScheduleTrigger, ScheduledJob, ScheduledRun} from './ScheduleStore';
+
+export class Scheduler {
+  /**
+   * The job waits for its trigger
+   * @var {string}
+   */
+  public static SCHEDULED: string = 'scheduled'
+
+  /**
+   * The triggers of jobs, exactly one is set
+   * @var {string[]}
+   */
+  public static TRIGGERS: string[] = ['at', 'cron', 'height', 'after']
+
+  /**
+   * The statuses of executions that complete a job and trigger
+   * its `after` jobs, dry-runs and exports announce nothing
+   * @var {string[]}
+   */
+  public static SUCCEEDED: string[] = [
+    ContractResult.CONFIRMED,
+  ]
+
+  /**
+   * Interval of the schedule checks in milliseconds
+   * @var {number}
+   */
+  public static INTERVAL: number = 15000
+
+  /**
+   * Create a scheduler, due jobs are executed one after the
+   * other by a command line process (see ContractProcess)
+   *
+   * @param {ScheduleStore} store
+   * @param {Object}        passwords
+   */
+  constructor(
+    /**
+     * The scheduled jobs
+     * @var {ScheduleStore}
+     */
+    public readonly store: ScheduleStore = new ScheduleStore(),
+    /**
+     * The keystore passwords by key name
+     * @var {Object}
+     */
+    protected readonly passwords: Object = {}) {
+  }
+
+  /**
+   * Create a job and add it to the schedule, secret inputs
+   * must reference a key of the keystore (`keystore:<name>`)
+   *
+   * @param {string}          contract
+   * @param {string[]}        args
+   * @param {Object}          inputs
+   * @param {ScheduleTrigger} trigger
+   * @param {string}          id  Defaults to a generated id
+   * @return {ScheduledJob}
+   */
+  public schedule(
+    contract: string,
+    args: string[],
+    inputs: Object,
+    trigger: ScheduleTrigger,
+    id?: string,
+  ): ScheduledJob
+  {
+    const now = new Date()
+    const jobs = this.store.all()
+    const triggers = Scheduler.TRIGGERS.filter((name) => undefined !== trigger[name] && null !== trigger[name])
+    if (triggers.length !== 1) {
+      throw new ExpectedError('Please, provide exactly one trigger: --at, --cron, --height or --after.')
+    }
+
+    if (undefined !== id && ! /^[a-zA-Z0-9_.-]+$/.test(id)) {
+      throw new ExpectedError('The job id "' + id + '" may only contain letters, digits, dots, dashes and underscores.')
+    }
+
+    const secrets = Object.keys(inputs).filter((name) => Journal.SECRET_INPUTS.test(name))
+                                       .filter((name) => ! Keystore.REFERENCE.test(inputs[name]))
+    if (secrets.length) {
+      throw new ExpectedError('The inputs ' + secrets.join(', ') + ' cannot be stored, please reference a key of '
+                            + 'the keystore with --keystore or ' + secrets[0] + '=keystore:<name>.')
+    }
+
+    const keystore = new Keystore()
+    const missing = Scheduler.getKeystores(inputs).find((name) => ! keystore.has(name))
+    if (undefined !== missing) {
+      throw new ExpectedError('The key "' + missing + '" could not be found in the keystore.')
+    }
+
+    const job: ScheduledJob = {
+      id: id || contract.toLowerCase() + '-' + crypto.randomBytes(3).toString('hex'),
+      contract,
+      args,
+      inputs,
+      trigger: { [triggers[0]]: trigger[triggers[0]] },
+      status: Scheduler.SCHEDULED,
+      createdAt: now.toISOString(),
+      runs: [],
+    }
+
+    if (undefined !== trigger.at) {
+      const at = new Date(trigger.at)
+      if (isNaN(at.getTime())) {
+        throw new ExpectedError('Expected a date and time for --at (Ex.: 2021-06-30T12:00:00Z), got ' + trigger.at + '.')
+      }
+
+      job.trigger.at = at.toISOString()
+    }
+    else if (undefined !== trigger.cron) {
+      job.nextRun = CronExpression.parse(trigger.cron).next(now).toISOString()
+    }
+    else if (undefined !== trigger.height) {
+      const height = Number(trigger.height)
+      if (! Number.isInteger(height) || height <= 0) {
+        throw new ExpectedError('Expected a block height for --height, got ' + trigger.height + '.')
+      }
+
+      job.trigger.height = height
+    }
+    else if (! jobs.some((j) => j.id === trigger.after)) {
+      throw new ExpectedError('The job "' + trigger.after + '" could not be found in the schedule.')
+    }
+
+    this.store.add(job)
+    return job
+  }
+
+  /**
+   * Remove a job, jobs that are triggered by it must be removed first
+   *
+   * @param {string} id
+   * @return {void}
+   */
+  public unschedule(id: string): void {
+    const dependents = this.store.all().filter((job) => job.trigger.after === id && job.status === Scheduler.SCHEDULED)
+    if (dependents.length) {
+      throw new ExpectedError('The job "' + id + '" triggers ' + dependents.map((job) => job.id).join(', ') + ', please remove them first.')
+    }
+
+    this.store.remove(id)
+  }
+
+  /**
+   * Get the names of the keystore keys of a job, the signing
+   * key (`--keystore` or profile) first, then referenced keys
+   *
+   * @param {Object} inputs
+   * @return {string[]}
+   */
+  public static getKeystores(inputs: Object): string[] {
+    const references = Object.keys(inputs)
+      .map((name) => ('' + inputs[name]).match(Keystore.REFERENCE))
+      .filter((match) => null !== match)
+      .map((match) => match[1])
+
+    return [Scheduler.getSigningKeystore(inputs)].concat(references)
+      .filter((name, i, self) => undefined !== name && self.indexOf(name) === i)
+  }
+
+  /**
+   * Get the name of the keystore key that signs the
+   * executions of a job, if any (`--keystore` or profile)
+   *
+   * @param {Object} inputs
+   * @return {string}
+   */
+  public static getSigningKeystore(inputs: Object): string {
+    if (inputs['keystore']) {
+      return inputs['keystore']
+    }
+    else if (! inputs['profile']) {
+      return undefined
+    }
+
+    try {
+      const profile = new ProfileStore().load(inputs['profile'])
+      return profile.hasAccount() && profile.account.keystore ? profile.account.keystore : undefined
+    }
+    catch (e) {
+      // unknown profiles fail the execution
+      return undefined
+    }
+  }
+
+  /**
+   * Returns whether the job waits for a block height
+   *
+   * @param {ScheduledJob} job
+   * @return {boolean}
+   */
+  public static watchesBlocks(job: ScheduledJob): boolean {
+    return job.status === Scheduler.SCHEDULED && undefined !== job.trigger.height
+  }
+
+  /**
+   * Returns whether the job can be executed more than once
+   *
+   * @param {ScheduledJob}    job
+   * @param {ScheduledJob[]}  jobs
+   * @return {boolean}
+   */
+  public isRecurring(
+    job: ScheduledJob,
+    jobs: ScheduledJob[],
+  ): boolean {
+    if (undefined !== job.trigger.cron) {
+      return true
+    }
+    else if (undefined === job.trigger.after) {
+      return false
+    }
+
+    const parent = jobs.find((j) => j.id === job.trigger.after)
+    return undefined !== parent && parent.status === Scheduler.SCHEDULED && this.isRecurring(parent, jobs)
+  }
+
+  /**
+   * Returns whether the job must be executed now, `after` jobs are
+   * executed once for every successful execution of their parent
+   *
+   * @param {ScheduledJob}    job
+   * @param {ScheduledJob[]}  jobs
+   * @param {Date}            now
+   * @param {number}          height  The chain height, if known
+   * @return {boolean}
+   */
+  public isDue(
+    job: ScheduledJob,
+    jobs: ScheduledJob[],
+    now: Date,
+    height?: number,
+  ): boolean {
+    if (job.status !== Scheduler.SCHEDULED) {
+      return false
+    }
+    else if (undefined !== job.trigger.at) {
+      return now >= new Date(job.trigger.at)
+    }
+    else if (undefined !== job.trigger.cron) {
+      return now >= new Date(job.nextRun)
+    }
+    else if (undefined !== job.trigger.height) {
+      return undefined !== height && height >= job.trigger.height
+    }
+
+    return undefined !== this.getTriggeringRun(job, jobs)
+  }
+
+  /**
+   * Execute the due jobs one after the other, jobs that are
+   * triggered by an execution are executed in the same check
+   *
+   * @param {number}    height  The chain height, if known
+   * @param {Function}  onRun   Called after every execution
+   * @return {Promise<number>}  The number of executions
+   */
+  public async check(
+    height?: number,
+    onRun?: (job: ScheduledJob, run: ScheduledRun) => void,
+  ): Promise<number> {
+    let executions = 0
+    while (true) {
+      const jobs = this.store.all()
+      const job = jobs.find((j) => this.isDue(j, jobs, new Date(), height))
+      if (undefined === job) {
+        break
+      }
+
+      const run = await this.execute(job)
+      job.runs.push(run)
+
+      if (undefined !== job.trigger.cron) {
+        job.nextRun = CronExpression.parse(job.trigger.cron).next(new Date()).toISOString()
+      }
+      else if (! this.isRecurring(job, jobs)) {
+        job.status = Scheduler.SUCCEEDED.includes(run.status) ? Journal.COMPLETED : ContractResult.FAILED
+      }
+
+      this.store.update(job)
+      executions++
+
+      if (undefined !== onRun) {
+        onRun(job, run)
+      }
+    }
+
+    // jobs of parents that ended without triggering them never run
+    const jobs = this.store.all()
+    jobs.filter((job) => job.status === Scheduler.SCHEDULED && undefined !== job.trigger.after)
+        .filter((job) => ! this.isRecurring(job, jobs) && ! this.isDue(job, jobs, new Date(), height))
+        .filter((job) => ! jobs.some((j) => j.id === job.trigger.after && j.status === Scheduler.SCHEDULED))
+        .forEach((job) => this.store.update(Object.assign(job, { status: Journal.NOT_EXECUTED })))
+
+    return executions
+  }
+
+  /**
+   * Get the confirmed execution of the parent of an `after`
+   * job that did not trigger the job yet, if any
+   *
+   * @param {ScheduledJob}    job
+   * @param {ScheduledJob[]}  jobs
+   * @return {ScheduledRun}
+   */
+  protected getTriggeringRun(
+    job: ScheduledJob,
+    jobs: ScheduledJob[],
+  ): ScheduledRun {
+    const parent = jobs.find((j) => j.id === job.trigger.after)
+    if (undefined === parent) {
+      return undefined
+    }
+
+    const since = job.runs.length ? job.runs[job.runs.length - 1].startedAt : job.createdAt
+    return parent.runs.filter((run) => Scheduler.SUCCEEDED.includes(run.status))
+                      .find((run) => new Date(run.finishedAt) > new Date(since))
+  }
+
+  /**
+   * Execute a job, keys are never decrypted by the scheduler: the
+   * contract process receives the keystore password and decrypts
+   * the signing key and referenced keys itself
+   *
+   * @param {ScheduledJob} job
+   * @return {Promise<ScheduledRun>}
+   */
+  protected async execute(job: ScheduledJob): Promise<ScheduledRun> {
+    const startedAt = new Date().toISOString()
+    const passwords = Scheduler.getKeystores(job.inputs)
+      .filter((name) => this.passwords.hasOwnProperty(name))
+      .map((name) => this.passwords[name])
+      .filter((password, i, self) => self.indexOf(password) === i)
+
+    if (passwords.length > 1) {
+      return {
+        status: ContractResult.FAILED,
+        error: 'The keys ' + Scheduler.getKeystores(job.inputs).join(', ') + ' of the job use different passwords, '
+             + 'the keys of a job must share one password.',
+        startedAt,
+        finishedAt: new Date().toISOString(),
+      }
+    }
+
+    // keystore references (Ex.: `keystore:issuer`) are secret inputs, they
+    // are passed as environment variables and resolved by the contract
+    const env = Object.assign(
+      passwords.length ? { SYMBOL_CONTRACTS_PASSWORD: passwords[0] } : {},
+      ContractProcess.getSecrets(job.inputs),
+    )
+
+    const args = job.args.concat(ContractProcess.getArguments(job.inputs))
+    const outcome = await new ContractProcess(job.contract, args, env).execute()
+
+    return {
+      status: outcome.status,
+      hash: outcome.hash,
+      error: outcome.error,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+    }
+  }
+}
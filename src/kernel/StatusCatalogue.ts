@@ -0,0 +1,508 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+    AggregateTransaction,
+    PublicAccount,
+    SignedTransaction,
+    Transaction,
+    TransactionMapping,
+    TransactionType,
+} from 'symbol-sdk';
+import { NetworkConstants } from './NetworkConstants';
+
+/**
+ * The context of a failed transaction
+ */
+export interface StatusContext {
+  /**
+   * The name of the contract that failed
+   * @var {string}
+   */
+  contract: string
+
+  /**
+   * The account that signed the failed (inner) transaction
+   * @var {PublicAccount}
+   */
+  signer: PublicAccount
+
+  /**
+   * The network properties
+   * @var {NetworkConstants}
+   */
+  network: NetworkConstants
+
+  /**
+   * The announced transaction that failed, if it is known
+   * @var {Transaction}
+   */
+  transaction?: Transaction
+
+  /**
+   * The inner transaction that caused the failure, if it can be determined
+   * @var {Transaction}
+   */
+  innerTransaction?: Transaction
+}
+
+/**
+ * An entry of the status catalogue
+ */
+export interface StatusEntry {
+  /**
+   * Plain explanation of the status
+   * @var {string|Function}
+   */
+  explanation: string | ((context: StatusContext) => string)
+
+  /**
+   * What the end-user can do about it
+   * @var {string|Function}
+   */
+  remediation: string | ((context: StatusContext) => string)
+
+  /**
+   * The transaction types that can cause the status
+   * @var {TransactionType[]}
+   */
+  types?: TransactionType[]
+}
+
+/**
+ * The description of a failed transaction
+ */
+export interface StatusDescription {
+  /**
+   * The status code reported by the node
+   * @var {string}
+   */
+  code: string
+
+  /**
+   * Plain explanation of the status
+   * @var {string}
+   */
+  explanation: string
+
+  /**
+   * What the end-user can do about it
+   * @var {string}
+   */
+  remediation: string
+
+  /**
+   * The transaction that failed, e.g. `Transaction #2 (MOSAIC_SUPPLY_CHANGE) of AGGREGATE_COMPLETE <hash>`
+   * @var {string}
+   */
+  transaction?: string
+
+  /**
+   * The position of the inner transactions that may have caused the failure (starting at 1)
+   * @var {number[]}
+   */
+  innerTransactions: number[]
+}
+
+export class StatusCatalogue {
+  /**
+   * Status codes mapped to their explanation
+   * @var {Object}
+   */
+  public static STATUSES: {[code: string]: StatusEntry} = {
+    Failure_Core_Insufficient_Balance: {
+      explanation: (context) => context.transaction && context.transaction.type === TransactionType.HASH_LOCK
+        ? 'The lock mosaic balance of ' + context.signer.address.plain() + ' is too low, the hash lock requires '
+          + context.network.formatAmount(context.network.lockAmount) + ' ' + context.network.getCurrencyName() + ' plus fees.'
+        : 'The account ' + context.signer.address.plain() + ' does not own enough of a mosaic to pay for the transaction and its fees.',
+      remediation: (context) => context.transaction && context.transaction.type === TransactionType.HASH_LOCK
+        ? 'Fund ' + context.signer.address.plain() + ' with at least ' + context.network.formatAmount(context.network.lockAmount)
+          + ' ' + context.network.getCurrencyName() + ' before executing \'' + context.contract + '\' again.'
+        : 'Fund ' + context.signer.address.plain() + ' with the transferred mosaics and the fees, --dry-run displays the total.',
+      types: [
+        TransactionType.TRANSFER,
+        TransactionType.HASH_LOCK,
+        TransactionType.NAMESPACE_REGISTRATION,
+        TransactionType.MOSAIC_DEFINITION,
+        TransactionType.MOSAIC_SUPPLY_CHANGE,
+      ],
+    },
+    Failure_Core_Past_Deadline: {
+      explanation: 'The deadline of the transaction has passed, transactions expire two hours after signing.',
+      remediation: (context) => 'Execute \'' + context.contract + '\' again, signed bundles must be announced before their deadline.',
+    },
+    Failure_Core_Future_Deadline: {
+      explanation: 'The deadline of the transaction is too far in the future.',
+      remediation: 'Synchronize the clock of the signing machine and sign again.',
+    },
+    Failure_Core_Wrong_Network: {
+      explanation: 'The transaction was signed for another network.',
+      remediation: 'Check --network-type and the network of the profile, they must match the node.',
+    },
+    Failure_Core_Invalid_Address: {
+      explanation: 'An address used by the transaction does not belong to this network.',
+      remediation: 'Check the addresses and public keys passed to the contract.',
+    },
+    Failure_Core_Invalid_Transaction_Fee: {
+      explanation: 'The max fee of the transaction is not accepted by the node.',
+      remediation: 'Use a faster --fee-strategy or raise --max-fee.',
+    },
+    Failure_Hash_Already_Exists: {
+      explanation: 'A transaction with the same hash was already announced.',
+      remediation: 'Check the explorer, the contract may already have been executed.',
+    },
+    Failure_Signature_Not_Verifiable: {
+      explanation: 'The signature of the transaction cannot be verified.',
+      remediation: 'Check --generation-hash and the signer configuration, the signing key must match the signer public key.',
+    },
+    Failure_Aggregate_Missing_Cosignatures: {
+      explanation: 'The aggregate transaction is missing cosignatures of accounts that signed inner transactions.',
+      remediation: 'Have every party co-sign with PartialCosignature before the hash lock expires.',
+    },
+    Failure_Aggregate_Ineligible_Cosignatories: {
+      explanation: 'The aggregate transaction was co-signed by an account that is not required to co-sign.',
+      remediation: 'Only the signers of inner transactions and their multisig cosignatories may co-sign.',
+    },
+    Failure_Aggregate_Redundant_Cosignatures: {
+      explanation: 'The aggregate transaction was co-signed twice by the same account.',
+      remediation: 'Co-sign each transaction once per account.',
+    },
+    Failure_Aggregate_Too_Many_Transactions: {
+      explanation: 'The aggregate transaction contains more inner transactions than the network accepts.',
+      remediation: 'Split the contract into several executions.',
+    },
+    Failure_LockHash_Invalid_Mosaic_Id: {
+      explanation: 'The hash lock does not lock the network currency.',
+      remediation: (context) => 'Lock ' + context.network.getCurrencyName() + ', the default lock mosaic of the network.',
+      types: [ TransactionType.HASH_LOCK ],
+    },
+    Failure_LockHash_Invalid_Mosaic_Amount: {
+      explanation: (context) => 'The hash lock must lock exactly ' + context.network.formatAmount(context.network.lockAmount) + ' ' + context.network.getCurrencyName() + '.',
+      remediation: 'Execute the contract without overwriting the lock amount.',
+      types: [ TransactionType.HASH_LOCK ],
+    },
+    Failure_LockHash_Invalid_Duration: {
+      explanation: (context) => 'The hash lock duration exceeds the maximum of ' + context.network.maxHashLockDuration + ' blocks.',
+      remediation: 'Execute the contract with the default hash lock duration.',
+      types: [ TransactionType.HASH_LOCK ],
+    },
+    Failure_LockHash_Hash_Already_Exists: {
+      explanation: 'A hash lock for this aggregate transaction already exists.',
+      remediation: 'Announce the aggregate bonded transaction with Broadcast instead of locking it again.',
+      types: [ TransactionType.HASH_LOCK ],
+    },
+    Failure_LockHash_Unknown_Hash: {
+      explanation: 'The aggregate bonded transaction was announced without a confirmed hash lock.',
+      remediation: 'Wait for the hash lock confirmation before announcing the aggregate bonded transaction.',
+    },
+    Failure_LockHash_Inactive_Hash: {
+      explanation: 'The hash lock of the aggregate bonded transaction has expired or was already used.',
+      remediation: (context) => 'Execute \'' + context.contract + '\' again to lock a new aggregate bonded transaction.',
+    },
+    Failure_Mosaic_Supply_Immutable: {
+      explanation: 'The mosaic is not supply-mutable, its supply was fixed when it was created.',
+      remediation: 'Create a new asset with the SupplyMutable flag (CreateAsset --flags SupplyMutable).',
+      types: [ TransactionType.MOSAIC_SUPPLY_CHANGE ],
+    },
+    Failure_Mosaic_Supply_Exceeded: {
+      explanation: 'The supply change exceeds the maximum supply of a mosaic.',
+      remediation: 'Lower the supply of the asset.',
+      types: [ TransactionType.MOSAIC_SUPPLY_CHANGE ],
+    },
+    Failure_Mosaic_Supply_Negative: {
+      explanation: 'The supply change would decrease the supply below zero or below what the owner holds.',
+      remediation: 'Only decrease the supply by an amount that is held by the mosaic owner.',
+      types: [ TransactionType.MOSAIC_SUPPLY_CHANGE ],
+    },
+    Failure_Mosaic_Owner_Conflict: {
+      explanation: (context) => 'The mosaic is owned by another account than ' + context.signer.address.plain() + '.',
+      remediation: 'Sign with the account that created the mosaic.',
+      types: [ TransactionType.MOSAIC_DEFINITION, TransactionType.MOSAIC_SUPPLY_CHANGE, TransactionType.MOSAIC_ALIAS ],
+    },
+    Failure_Mosaic_Expired: {
+      explanation: 'The mosaic has expired.',
+      remediation: 'Create a new asset, or renew the duration of the mosaic.',
+    },
+    Failure_Mosaic_Non_Transferable: {
+      explanation: 'The mosaic is not transferable, it can only be sent to or from its creator.',
+      remediation: 'Create the asset with the Transferable flag (CreateAsset --flags Transferable).',
+      types: [ TransactionType.TRANSFER ],
+    },
+    Failure_Mosaic_Invalid_Divisibility: {
+      explanation: 'The divisibility of the mosaic is out of range.',
+      remediation: 'Use a divisibility between 0 and 6.',
+      types: [ TransactionType.MOSAIC_DEFINITION ],
+    },
+    Failure_Mosaic_Invalid_Flags: {
+      explanation: 'The flags of the mosaic are invalid.',
+      remediation: 'Use a combination of the flags SupplyMutable, Transferable and Restrictable.',
+      types: [ TransactionType.MOSAIC_DEFINITION ],
+    },
+    Failure_Mosaic_Modification_Disallowed: {
+      explanation: 'The properties of the mosaic cannot be modified anymore, the mosaic supply is not held by its owner alone.',
+      remediation: 'Create a new asset with the expected properties.',
+      types: [ TransactionType.MOSAIC_DEFINITION ],
+    },
+    Failure_Mosaic_Max_Mosaics_Exceeded: {
+      explanation: 'An account holds more distinct mosaics than the network allows.',
+      remediation: 'Send the mosaics to another account.',
+      types: [ TransactionType.TRANSFER, TransactionType.MOSAIC_SUPPLY_CHANGE ],
+    },
+    Failure_Namespace_Already_Active: {
+      explanation: 'The namespace is already registered.',
+      remediation: 'Choose another name, or sign with the namespace owner to extend it.',
+      types: [ TransactionType.NAMESPACE_REGISTRATION ],
+    },
+    Failure_Namespace_Owner_Conflict: {
+      explanation: (context) => 'The namespace is owned by another account than ' + context.signer.address.plain() + '.',
+      remediation: 'Choose another name, or sign with the namespace owner.',
+      types: [ TransactionType.NAMESPACE_REGISTRATION, TransactionType.MOSAIC_ALIAS, TransactionType.ADDRESS_ALIAS ],
+    },
+    Failure_Namespace_Expired: {
+      explanation: 'The namespace has expired.',
+      remediation: 'Renew the root namespace before using it.',
+    },
+    Failure_Namespace_Invalid_Name: {
+      explanation: 'The namespace name contains invalid characters.',
+      remediation: 'Use lowercase letters, numbers, hyphens and underscores only.',
+      types: [ TransactionType.NAMESPACE_REGISTRATION ],
+    },
+    Failure_Namespace_Invalid_Duration: {
+      explanation: (context) => 'The namespace duration must be between ' + context.network.minNamespaceDuration + ' and ' + context.network.maxNamespaceDuration + ' blocks.',
+      remediation: 'Register the namespace for a supported duration.',
+      types: [ TransactionType.NAMESPACE_REGISTRATION ],
+    },
+    Failure_Namespace_Root_Name_Reserved: {
+      explanation: 'The root namespace name is reserved by the network.',
+      remediation: 'Choose another root namespace name.',
+      types: [ TransactionType.NAMESPACE_REGISTRATION ],
+    },
+    Failure_Namespace_Too_Deep: {
+      explanation: (context) => 'The namespace has more than ' + context.network.maxNamespaceDepth + ' levels.',
+      remediation: 'Use a name with fewer levels.',
+      types: [ TransactionType.NAMESPACE_REGISTRATION ],
+    },
+    Failure_Namespace_Unknown_Parent: {
+      explanation: 'The parent namespace is not registered.',
+      remediation: 'Register every level of the name, starting with the root namespace.',
+      types: [ TransactionType.NAMESPACE_REGISTRATION ],
+    },
+    Failure_Namespace_Alias_Already_Exists: {
+      explanation: 'The namespace is already linked to a mosaic or an address.',
+      remediation: 'Unlink the namespace first, or choose another name.',
+      types: [ TransactionType.MOSAIC_ALIAS, TransactionType.ADDRESS_ALIAS ],
+    },
+    Failure_Namespace_Unknown: {
+      explanation: 'The namespace is not registered.',
+      remediation: 'Check the namespace name, it must be registered before it is used.',
+    },
+    Failure_Metadata_Value_Size_Delta_Mismatch: {
+      explanation: 'The metadata value size does not match the value already stored.',
+      remediation: 'Modify metadata again with a fresh execution, values are compared with the latest on-chain value.',
+      types: [ TransactionType.ACCOUNT_METADATA, TransactionType.MOSAIC_METADATA, TransactionType.NAMESPACE_METADATA ],
+    },
+    Failure_Multisig_Operation_Prohibited_By_Account: {
+      explanation: (context) => 'The account ' + context.signer.address.plain() + ' is a multisig account, it cannot initiate transactions itself.',
+      remediation: 'Sign with a cosignatory of the multisig account.',
+    },
+    Failure_Multisig_Not_A_Cosignatory: {
+      explanation: 'The account is not a cosignatory of the multisig account.',
+      remediation: 'Sign with a cosignatory of the multisig account.',
+      types: [ TransactionType.MULTISIG_ACCOUNT_MODIFICATION ],
+    },
+    Failure_RestrictionMosaic_Account_Unauthorized: {
+      explanation: 'A mosaic restriction does not allow this account to send or receive the mosaic.',
+      remediation: 'Authorize the holders with ModifySecurityRestriction or ModifyPartitionRestriction.',
+      types: [ TransactionType.TRANSFER ],
+    },
+    Failure_Transfer_Message_Too_Large: {
+      explanation: 'The message of the transfer exceeds the maximum message size.',
+      remediation: 'Shorten the message, e.g. timestamp the hash of the data instead of the data.',
+      types: [ TransactionType.TRANSFER ],
+    },
+  }
+
+  /**
+   * Status code categories mapped to the transaction types that can cause them
+   * @var {Object}
+   */
+  public static CATEGORIES: {[prefix: string]: TransactionType[]} = {
+    Failure_Mosaic_: [
+      TransactionType.MOSAIC_DEFINITION,
+      TransactionType.MOSAIC_SUPPLY_CHANGE,
+      TransactionType.MOSAIC_ALIAS,
+      TransactionType.TRANSFER,
+    ],
+    Failure_Namespace_: [
+      TransactionType.NAMESPACE_REGISTRATION,
+      TransactionType.MOSAIC_ALIAS,
+      TransactionType.ADDRESS_ALIAS,
+    ],
+    Failure_LockHash_: [ TransactionType.HASH_LOCK ],
+    Failure_LockSecret_: [ TransactionType.SECRET_LOCK, TransactionType.SECRET_PROOF ],
+    Failure_Metadata_: [
+      TransactionType.ACCOUNT_METADATA,
+      TransactionType.MOSAIC_METADATA,
+      TransactionType.NAMESPACE_METADATA,
+    ],
+    Failure_Multisig_: [ TransactionType.MULTISIG_ACCOUNT_MODIFICATION ],
+    Failure_RestrictionAccount_: [
+      TransactionType.ACCOUNT_ADDRESS_RESTRICTION,
+      TransactionType.ACCOUNT_MOSAIC_RESTRICTION,
+      TransactionType.ACCOUNT_OPERATION_RESTRICTION,
+      TransactionType.TRANSFER,
+    ],
+    Failure_RestrictionMosaic_: [
+      TransactionType.MOSAIC_ADDRESS_RESTRICTION,
+      TransactionType.MOSAIC_GLOBAL_RESTRICTION,
+      TransactionType.TRANSFER,
+    ],
+    Failure_Transfer_: [ TransactionType.TRANSFER ],
+  }
+
+  /**
+   * Describe a status code in the context of the contract that failed
+   *
+   * @param {string}              code
+   * @param {string}              hash  The hash of the failed transaction
+   * @param {string}              contract
+   * @param {PublicAccount}       signer
+   * @param {NetworkConstants}    network
+   * @param {SignedTransaction[]} signedTransactions
+   * @return {StatusDescription}
+   */
+  public static describe(
+    code: string,
+    hash: string,
+    contract: string,
+    signer: PublicAccount,
+    network: NetworkConstants,
+    signedTransactions: SignedTransaction[] = [],
+  ): StatusDescription {
+    const entry = StatusCatalogue.STATUSES[code]
+    const types = undefined !== entry && undefined !== entry.types
+      ? entry.types
+      : StatusCatalogue.getCategoryTypes(code)
+
+    // find the announced transaction by its hash
+    const signedTransaction = signedTransactions.find((signed) => undefined !== hash && signed.hash.toUpperCase() === hash.toUpperCase())
+    const transaction = undefined !== signedTransaction
+      ? TransactionMapping.createFromPayload(signedTransaction.payload)
+      : undefined
+
+    // find the inner transactions that can cause the status
+    const inner = StatusCatalogue.findInnerTransactions(transaction, types)
+    const innerTransaction = inner.length === 1
+      ? (transaction as AggregateTransaction).innerTransactions[inner[0] - 1]
+      : undefined
+
+    const context: StatusContext = {
+      contract,
+      signer: undefined !== innerTransaction ? innerTransaction.signer : signer,
+      network,
+      transaction,
+      innerTransaction,
+    }
+
+    return {
+      code,
+      explanation: StatusCatalogue.resolve(undefined !== entry
+        ? entry.explanation
+        : 'The node rejected the transaction with status ' + code + '.', context),
+      remediation: StatusCatalogue.resolve(undefined !== entry
+        ? entry.remediation
+        : 'Open the status details for more information.', context),
+      transaction: StatusCatalogue.describeTransaction(transaction, hash, inner),
+      innerTransactions: inner,
+    }
+  }
+
+  /**
+   * Get the transaction types of a status code category
+   *
+   * @param {string} code
+   * @return {TransactionType[]}
+   */
+  protected static getCategoryTypes(code: string): TransactionType[] {
+    const prefix = Object.keys(StatusCatalogue.CATEGORIES).find((category) => code.startsWith(category))
+    return undefined !== prefix ? StatusCatalogue.CATEGORIES[prefix] : []
+  }
+
+  /**
+   * Find the inner transactions of an aggregate that can cause a status,
+   * returns their position starting at 1
+   *
+   * @param {Transaction}       transaction
+   * @param {TransactionType[]} types
+   * @return {number[]}
+   */
+  protected static findInnerTransactions(
+    transaction: Transaction,
+    types: TransactionType[],
+  ): number[] {
+    if (! (transaction instanceof AggregateTransaction) || ! types.length) {
+      return []
+    }
+
+    const inner = transaction.innerTransactions
+    return inner.map((innerTx, i) => types.indexOf(innerTx.type) !== -1 ? i + 1 : 0)
+                .filter((position) => position > 0)
+  }
+
+  /**
+   * Describe which transaction failed
+   *
+   * @param {Transaction} transaction
+   * @param {string}      hash
+   * @param {number[]}    inner
+   * @return {string}
+   */
+  protected static describeTransaction(
+    transaction: Transaction,
+    hash: string,
+    inner: number[],
+  ): string {
+    if (undefined === transaction) {
+      return hash
+    }
+
+    const parent = TransactionType[transaction.type] + ' ' + hash
+    if (! inner.length) {
+      return parent
+    }
+
+    const innerTxes = (transaction as AggregateTransaction).innerTransactions
+    const types = inner.map((position) => TransactionType[innerTxes[position - 1].type])
+                       .filter((type, i, self) => self.indexOf(type) === i)
+
+    return (inner.length === 1 ? 'Transaction #' : 'One of transactions #')
+      + inner.join(', #') + ' (' + types.join(', ') + ') of ' + parent
+  }
+
+  /**
+   * Resolve an explanation or remediation in a context
+   *
+   * @param {string|Function} text
+   * @param {StatusContext}   context
+   * @return {string}
+   */
+  protected static resolve(
+    text: string | ((context: StatusContext) => string),
+    context: StatusContext,
+  ): string {
+    return typeof text === 'function' ? text(context) : text
+  }
+}
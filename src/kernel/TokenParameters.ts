@@ -0,0 +1,35 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Deadline } from 'symbol-sdk';
+import { TransactionParameters } from 'symbol-token-standards';
+
+/**
+ * The parameters of NIP13 token commands
+ *
+ * Token transactions are created without a max fee, it is
+ * set by the fee strategy when they are signed.
+ */
+export class TokenParameters {
+  /**
+   * Create the parameters of a token command
+   *
+   * @return {TransactionParameters}
+   */
+  public static create(): TransactionParameters {
+    return new TransactionParameters(Deadline.create(), 0)
+  }
+}
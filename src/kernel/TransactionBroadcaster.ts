@@ -15,34 +15,115 @@
  * limitations under the License.
  */
 import chalk from 'chalk';
+import {ExpectedError} from 'clime';
 import {
-    Account,
     Transaction,
     SignedTransaction,
     AggregateTransaction,
     PublicAccount,
     TransactionHttp,
-    Listener,
-    Deadline,
-    UInt64,
-    NetworkType,
     TransactionStatusError,
     CosignatureSignedTransaction,
+    TransactionAnnounceResponse,
+    TransactionMapping,
+    TransactionType,
+    LockFundsTransaction,
+    TransactionStatus,
+    ChainHttp,
 } from 'symbol-sdk';
-import { Contract } from './Contract';
+import { Observable } from 'rxjs';
+import { timeout } from 'rxjs/operators';
+import { ContractContext } from './ContractContext';
+import { ContractResult, StatusTransition } from './ContractResult';
+import { ContractError } from './ContractError';
+import { ContractProcess } from './ContractProcess';
+import { HttpClient } from './HttpClient';
+import { StatusCatalogue } from './StatusCatalogue';
+import { ConfirmationPolicy } from './ConfirmationPolicy';
+import { TransactionMonitor } from './TransactionMonitor';
+import { TransactionBundle } from './TransactionBundle';
+import { Logger } from './Logger';
+
+/**
+ * Error of a node that does not report finalized blocks, other
+ * errors while waiting for the finalization are retried
+ */
+export class FinalizationUnsupportedError extends ExpectedError {
+  /**
+   * Create the error of node `endpointUrl`
+   *
+   * @param {string} endpointUrl
+   */
+  constructor(endpointUrl: string) {
+    super('The node ' + endpointUrl + ' does not report finalized blocks, use --confirmations instead.')
+  }
+}
+
+/**
+ * The monitoring of one announce
+ *
+ * @internal
+ */
+interface ListenerConnection {
+  /**
+   * The transaction monitor
+   * @var {TransactionMonitor}
+   */
+  monitor?: TransactionMonitor
+
+  /**
+   * Whether the monitor was closed after the announce settled
+   * @var {boolean}
+   */
+  closed: boolean
+
+  /**
+   * Reject the announce
+   * @var {(reason: any) => void}
+   */
+  reject: (reason: any) => void
+
+  /**
+   * The phase the announce is waiting for
+   * @var {string}
+   */
+  phase?: string
+
+  /**
+   * The overall and phase timeouts
+   * @var {Object}
+   */
+  timers: {overall?: NodeJS.Timeout, phase?: NodeJS.Timeout}
+}
 
 export class TransactionBroadcaster {
+  /**
+   * Timeout of the requests to a node in milliseconds
+   * @var {number}
+   */
+  public static REQUEST_TIMEOUT: number = 10000
+
+  /**
+   * The API node URLs, current node first
+   * @var {string[]}
+   */
+  protected nodes: string[]
+
   /**
    * Create a transaction broadcaster instance
    *
-   * @param {string}    endpointUrl
+   * @param {ContractContext} contract
+   * @param {string}          explorerUrl
+   * @param {string}          endpointUrl
+   * @param {boolean}         enableDebug
+   * @param {string[]}        fallbackUrls
    */
   constructor(
     /**
      * Parent context (Contract)
-     * @var {Contract}
+     * @var {ContractContext}
      **/
-    protected readonly contract: Contract,
+    protected readonly contract: ContractContext,
     /**
      * The explorer URL
      * @var {string}
@@ -52,185 +133,764 @@ export class TransactionBroadcaster {
      * The node URL
      * @var {string}
      **/
-    protected readonly endpointUrl: string,
+    protected endpointUrl: string,
     /**
      * Whether to enable debug mode or not
      * @var {boolean}
      **/
-    protected readonly enableDebug: boolean = false) {
+    protected readonly enableDebug: boolean = false,
+    /**
+     * The node URLs to fail over to
+     * @var {string[]}
+     **/
+    protected readonly fallbackUrls: string[] = []) {
+    this.nodes = [endpointUrl].concat(fallbackUrls.filter((url) => url !== endpointUrl))
   }
 
   /**
-   * Sign and announce transaction
+   * Announce transaction and wait for its confirmation
+   * as defined by the confirmation policy
    *
    * @param {PublicAccount}     account 
    * @param {SignedTransaction} transaction
+   * @return {Promise<ContractResult>}
    */
   public async announce(
     account: PublicAccount,
     signedTransaction: SignedTransaction
-  ): Promise<Object> 
+  ): Promise<ContractResult> 
   {
-    // open confirmation listener
-    const transactionHttp = new TransactionHttp(this.endpointUrl)
-    const confirmedListener = new Listener(this.endpointUrl)
-    await confirmedListener.open()
-
     if (this.enableDebug === true) {
-      console.log('')
-      console.log(chalk.yellow('Smart Contract Execution Hash: ', signedTransaction.hash))
-      console.log(chalk.yellow('Signed Smart Contract: \n\n\t', signedTransaction.payload))
-      console.log('')
+      this.log('')
+      this.log(chalk.yellow('Smart Contract Execution Hash: ', signedTransaction.hash))
+      this.log(chalk.yellow('Signed Smart Contract: \n\n\t', signedTransaction.payload))
+      this.log('')
     }
 
-    // announce transaction
-    try { await transactionHttp.announce(signedTransaction) }
-    catch (e) { this.contract.error('An error occured: ' + e) }
+    // dry-run never announces (--dry-run)
+    if (this.contract.dryRun === true) {
+      return this.informDryRun(account, [signedTransaction])
+    }
 
-    // listen to errors
-    confirmedListener.status(account.address).subscribe((err) => {
-      this.informError(err)
-      process.exit(1)
-    })
+    const transitions: StatusTransition[] = []
+    return this.listen<ContractResult>((monitor, resolve, reject, enter) => {
+      // listen to errors
+      monitor.status(account.address, signedTransaction.hash).subscribe(
+        (err) => reject(this.createError(err, account, [signedTransaction], transitions)))
 
-    // wait for transaction confirmation
-    return confirmedListener.confirmed(account.address, signedTransaction.hash).subscribe(
-      (transaction) => {
-        this.informSuccess(
-          account,
-          signedTransaction
-        )
-        process.exit(0)
-      })
+      const confirm = () => resolve(this.createResult(
+        ContractResult.CONFIRMED,
+        account,
+        [signedTransaction],
+        transitions,
+      ))
+
+      // wait for transaction confirmation
+      monitor.confirmed(account.address, signedTransaction.hash).subscribe(
+        (transaction) => {
+          this.addTransition(transitions, ContractResult.INCLUDED, signedTransaction.hash)
+          this.waitForPolicy(monitor, signedTransaction.hash, enter, confirm, reject)
+        })
+    },
+    // announce transaction
+    () => this.announceWithFailover((transactionHttp) => transactionHttp.announce(signedTransaction))
+            .then(() => {
+              this.addTransition(transitions, ContractResult.ANNOUNCED, signedTransaction.hash)
+              ContractProcess.reportAnnounce(signedTransaction.hash)
+            }),
+    ConfirmationPolicy.PHASE_CONFIRMATION,
+    (phase, seconds) => this.createTimeout(phase, seconds, account, [signedTransaction], transitions))
   }
 
   /**
-   * Sign and announce aggregate bonded transaction
+   * Announce hash lock and aggregate bonded transaction and wait
+   * for the confirmation of the latter as defined by the confirmation
+   * policy
+   *
+   * Both transactions are persisted before the hash lock is announced
+   * so that an interrupted execution can be resumed (see Resume).
    *
    * @param {PublicAccount}     account 
-   * @param {SignedTransaction} transaction
+   * @param {SignedTransaction} signedHashLock
+   * @param {SignedTransaction} signedPartial
+   * @return {Promise<ContractResult>}
    */
   public async announcePartial(
     account: PublicAccount,
     signedHashLock: SignedTransaction,
     signedPartial: SignedTransaction
-  ): Promise<Object> 
+  ): Promise<ContractResult> 
   {
-    // open confirmation listener
-    const transactionHttp = new TransactionHttp(this.endpointUrl)
-    const confirmedListener = new Listener(this.endpointUrl)
-    await confirmedListener.open()
-
     if (this.enableDebug === true) {
-      console.log('')
-      console.log(chalk.yellow('Smart Contract Execution Hash: ', signedPartial.hash, '\n'))
-      console.log(chalk.yellow('Signed Smart Contract: \n\n\t', signedPartial.payload, '\n'))
-      console.log(chalk.yellow('Signed Smart Contract SPAM Protection: \n\n\t', signedHashLock.payload))
-      console.log('')
+      this.log('')
+      this.log(chalk.yellow('Smart Contract Execution Hash: ', signedPartial.hash, '\n'))
+      this.log(chalk.yellow('Signed Smart Contract: \n\n\t', signedPartial.payload, '\n'))
+      this.log(chalk.yellow('Signed Smart Contract SPAM Protection: \n\n\t', signedHashLock.payload))
+      this.log('')
     }
 
-    // first announce the hash lock and wait for confirmation
-    try { await transactionHttp.announce(signedHashLock) }
-    catch (e) { this.contract.error('An error occured: ' + e) }
+    // dry-run never announces (--dry-run)
+    if (this.contract.dryRun === true) {
+      return this.informDryRun(account, [signedHashLock, signedPartial])
+    }
 
-    // listen to errors
-    confirmedListener.status(account.address).subscribe((err) => {
-      this.informError(err)
-      process.exit(1)
-    })
-     
-    // wait for HASH LOCK transaction confirmation
-    return confirmedListener.confirmed(account.address, signedHashLock.hash).subscribe(
-      async (transaction) => {
-        // announce aggregate bonded transaction
-        try { await transactionHttp.announceAggregateBonded(signedPartial) }
-        catch (e) { this.contract.error('An error occured: ' + e) }
-
-        // transaction added to partial pool
-        confirmedListener.aggregateBondedAdded(account.address, signedPartial.hash).subscribe(
-          (transaction) => {
-            this.informPartialSuccess()
-          })
-
-        // transaction co-signed by TAKER
-        confirmedListener.cosignatureAdded(account.address).subscribe(
-          (cosigSignedTransaction) => {
-            this.informCosigSuccess(cosigSignedTransaction)
-          })
-
-        // wait for transaction confirmation
-        return confirmedListener.confirmed(account.address, signedPartial.hash).subscribe(
-          (transaction) => {
-            this.informSuccess(
-              account,
-              signedPartial
-            )
-            process.exit(0)
-          })
-      })
+    this.savePending(account, signedHashLock, signedPartial)
+    return this.announceBonded(account, signedHashLock, signedPartial, ConfirmationPolicy.PHASE_HASH_LOCK)
   }
 
   /**
-   * Sign and announce transaction
+   * Resume an interrupted bonded execution
+   *
+   * The aggregate bonded transaction is announced again when its hash
+   * lock is confirmed and not expired, but the aggregate is missing from
+   * the partial pool. Aggregates that reached the network are awaited.
+   *
+   * @param {PublicAccount}     account 
+   * @param {SignedTransaction} signedHashLock
+   * @param {SignedTransaction} signedPartial
+   * @return {Promise<ContractResult>}
+   */
+  public async resumePartial(
+    account: PublicAccount,
+    signedHashLock: SignedTransaction,
+    signedPartial: SignedTransaction
+  ): Promise<ContractResult> 
+  {
+    const signedTransactions = [signedHashLock, signedPartial]
+    const transitions = this.getSignedTransitions(signedTransactions)
+
+    // the aggregate reached the network
+    const partialStatus = await this.readStatus(signedPartial.hash)
+    const partialGroup = undefined === partialStatus ? undefined : String(partialStatus.group)
+    if (partialGroup === 'confirmed') {
+      this.removePending(signedPartial.hash)
+      return this.createResult(ContractResult.CONFIRMED, account, signedTransactions, transitions)
+    }
+    else if (partialGroup === 'failed') {
+      this.removePending(signedPartial.hash)
+      throw this.createError({ code: String(partialStatus.code), hash: signedPartial.hash } as TransactionStatusError,
+        account, signedTransactions, transitions)
+    }
+    else if (undefined !== partialGroup) {
+      this.log(chalk.yellow('The aggregate transaction is ' + partialGroup + ', waiting for its confirmation.'))
+      return this.announceBonded(account, signedHashLock, signedPartial, partialGroup === 'partial'
+        ? ConfirmationPolicy.PHASE_COSIGNATURES
+        : ConfirmationPolicy.PHASE_CONFIRMATION)
+    }
+
+    // the hash lock never reached the network, nothing is locked yet
+    const lockStatus = await this.readStatus(signedHashLock.hash)
+    const lockGroup = undefined === lockStatus ? undefined : String(lockStatus.group)
+    if (undefined === lockGroup) {
+      this.log(chalk.yellow('The hash lock was not announced, announcing the hash lock and the aggregate transaction.'))
+      return this.announceBonded(account, signedHashLock, signedPartial, ConfirmationPolicy.PHASE_HASH_LOCK)
+    }
+    else if (lockGroup === 'failed') {
+      this.removePending(signedPartial.hash)
+      throw this.createError({ code: String(lockStatus.code), hash: signedHashLock.hash } as TransactionStatusError,
+        account, signedTransactions, transitions)
+    }
+    else if (lockGroup !== 'confirmed') {
+      this.log(chalk.yellow('The hash lock is ' + lockGroup + ', waiting for its confirmation.'))
+      return this.announceBonded(account, signedHashLock, signedPartial, ConfirmationPolicy.PHASE_HASH_LOCK)
+    }
+
+    // the locked funds are not returned after the expiry
+    const hashLock = TransactionMapping.createFromPayload(signedHashLock.payload) as LockFundsTransaction
+    const expiry = lockStatus.height.compact() + hashLock.duration.compact()
+    const height = (await new ChainHttp(this.endpointUrl).getBlockchainHeight().toPromise()).compact()
+    if (height >= expiry) {
+      this.removePending(signedPartial.hash)
+      throw this.createExpiry(expiry, account, signedTransactions, transitions)
+    }
+
+    this.log(chalk.yellow('The hash lock is confirmed until height ' + expiry + ', announcing the aggregate transaction.'))
+    this.addTransition(transitions, ContractResult.LOCK_CONFIRMED, signedHashLock.hash)
+    return this.announceBonded(account, signedHashLock, signedPartial, ConfirmationPolicy.PHASE_PARTIAL, transitions)
+  }
+
+  /**
+   * Announce a bonded execution from one of its phases and wait
+   * for the confirmation of the aggregate bonded transaction
+   *
+   * The hash lock is announced first in the `hash-lock` phase, the
+   * aggregate is announced in the `partial` phase, later phases only
+   * wait for the aggregate.
+   *
+   * @param {PublicAccount}       account 
+   * @param {SignedTransaction}   signedHashLock
+   * @param {SignedTransaction}   signedPartial
+   * @param {string}              phase
+   * @param {StatusTransition[]}  transitions
+   * @return {Promise<ContractResult>}
+   */
+  protected announceBonded(
+    account: PublicAccount,
+    signedHashLock: SignedTransaction,
+    signedPartial: SignedTransaction,
+    phase: string,
+    transitions: StatusTransition[] = [],
+  ): Promise<ContractResult>
+  {
+    const signedTransactions = [signedHashLock, signedPartial]
+    const announcePartial = () => this.announceWithFailover((transactionHttp) => transactionHttp.announceAggregateBonded(signedPartial))
+            .then(() => {
+              this.addTransition(transitions, ContractResult.ANNOUNCED, signedPartial.hash)
+              ContractProcess.reportAnnounce(signedPartial.hash)
+            })
+
+    const listenPartial = (
+      monitor: TransactionMonitor,
+      enter: (phase: string) => void,
+      confirm: () => void,
+      reject: (reason: any) => void,
+    ) => {
+      // transaction added to partial pool
+      monitor.aggregateBondedAdded(account.address, signedPartial.hash).subscribe(
+        (transaction) => {
+          enter(ConfirmationPolicy.PHASE_COSIGNATURES)
+          this.addTransition(transitions, ContractResult.PARTIAL_ADDED, signedPartial.hash)
+          this.informPartialSuccess()
+        })
+
+      // transaction co-signed by TAKER
+      monitor.cosignatureAdded(account.address, signedPartial.hash).subscribe(
+        (cosigSignedTransaction) => {
+          this.addTransition(transitions, ContractResult.COSIGNATURE_ADDED, cosigSignedTransaction.parentHash)
+          this.informCosigSuccess(cosigSignedTransaction)
+        })
+
+      // fully co-signed transactions are moved to the unconfirmed pool
+      monitor.unconfirmedAdded(account.address, signedPartial.hash).subscribe(
+        (transaction) => enter(ConfirmationPolicy.PHASE_CONFIRMATION))
+
+      // wait for transaction confirmation
+      monitor.confirmed(account.address, signedPartial.hash).subscribe(
+        (transaction) => {
+          this.addTransition(transitions, ContractResult.INCLUDED, signedPartial.hash)
+          this.waitForPolicy(monitor, signedPartial.hash, enter, confirm, reject)
+        })
+    }
+
+    return this.listen<ContractResult>((monitor, resolve, reject, enter) => {
+      // listen to errors of the hash lock and the aggregate, failed
+      // executions cannot be resumed, the pending execution is kept
+      // when other transactions of the signer fail
+      signedTransactions.forEach((signedTransaction) => monitor.status(account.address, signedTransaction.hash).subscribe(
+        (err) => {
+          if (! signedTransactions.some((transaction) => transaction.hash === err.hash)) {
+            return
+          }
+
+          this.removePending(signedPartial.hash)
+          reject(this.createError(err, account, signedTransactions, transitions))
+        }))
+
+      const confirm = () => {
+        this.removePending(signedPartial.hash)
+        resolve(this.createResult(
+          ContractResult.CONFIRMED,
+          account,
+          signedTransactions,
+          transitions,
+        ))
+      }
+
+      if (phase !== ConfirmationPolicy.PHASE_HASH_LOCK) {
+        listenPartial(monitor, enter, confirm, reject)
+        return
+      }
+
+      // wait for HASH LOCK transaction confirmation
+      monitor.confirmed(account.address, signedHashLock.hash).subscribe(
+        (transaction) => {
+          enter(ConfirmationPolicy.PHASE_PARTIAL)
+          this.addTransition(transitions, ContractResult.LOCK_CONFIRMED, signedHashLock.hash)
+          listenPartial(monitor, enter, confirm, reject)
+
+          // announce aggregate bonded transaction
+          announcePartial().catch((e) => reject(new ExpectedError('An error occured: ' + e)))
+        })
+    },
+    // first announce the hash lock and wait for confirmation,
+    // resumed executions may start with the aggregate
+    () => {
+      if (phase === ConfirmationPolicy.PHASE_HASH_LOCK) {
+        // the execution is identified by the aggregate, whose hash lock is now announced
+        return this.announceWithFailover((transactionHttp) => transactionHttp.announce(signedHashLock))
+            .then(() => {
+              this.addTransition(transitions, ContractResult.ANNOUNCED, signedHashLock.hash)
+              ContractProcess.reportAnnounce(signedPartial.hash)
+            })
+      }
+
+      return phase === ConfirmationPolicy.PHASE_PARTIAL ? announcePartial() : Promise.resolve()
+    },
+    phase,
+    (phase, seconds) => this.createTimeout(phase, seconds, account, signedTransactions, transitions))
+  }
+
+  /**
+   * Announce co-signature and wait until it is added
    *
    * @param {PublicAccount}                 account 
    * @param {CosignatureSignedTransaction}  transaction
+   * @return {Promise<ContractResult>}
    */
   public async announceCosignature(
     account: PublicAccount,
     signedTransaction: CosignatureSignedTransaction
-  ): Promise<Object> 
+  ): Promise<ContractResult> 
   {
-    // open confirmation listener
-    const transactionHttp = new TransactionHttp(this.endpointUrl)
-    const confirmedListener = new Listener(this.endpointUrl)
-    await confirmedListener.open()
-
     if (this.enableDebug === true) {
-      console.log('')
-      console.log(chalk.yellow('Creating Smart Contract Co-Signature with account public key: ', signedTransaction.signerPublicKey))
-      console.log('')
+      this.log('')
+      this.log(chalk.yellow('Creating Smart Contract Co-Signature with account public key: ', signedTransaction.signerPublicKey))
+      this.log('')
+    }
+
+    // dry-run never announces (--dry-run)
+    if (this.contract.dryRun === true) {
+      return this.informDryRunCosignature(account, signedTransaction)
     }
 
+    const transitions: StatusTransition[] = []
+    return this.listen<ContractResult>((monitor, resolve, reject) => {
+      // listen to errors
+      monitor.status(account.address, signedTransaction.parentHash).subscribe(
+        (err) => reject(this.createError(err, account, [], transitions)))
+
+      const cosigned = () => resolve(this.createResult(
+        ContractResult.COSIGNED,
+        account,
+        [],
+        transitions,
+        signedTransaction.parentHash,
+      ))
+
+      // transaction co-signed
+      monitor.cosignatureAdded(account.address, signedTransaction.parentHash).subscribe(
+        (cosigSignedTransaction) => {
+          if (cosigSignedTransaction.signerPublicKey !== account.publicKey) {
+            return
+          }
+
+          this.informCosigSuccess(cosigSignedTransaction)
+          cosigned()
+        })
+
+      // the last co-signature may complete the transaction before it is seen
+      monitor.confirmed(account.address, signedTransaction.parentHash).subscribe(
+        (transaction) => cosigned())
+    },
     // announce transaction
-    try { await transactionHttp.announceAggregateBondedCosignature(signedTransaction) }
-    catch (e) { this.contract.error('An error occured: ' + e) }
+    () => this.announceWithFailover((transactionHttp) => transactionHttp.announceAggregateBondedCosignature(signedTransaction))
+            .then(() => {
+              this.addTransition(transitions, ContractResult.ANNOUNCED, signedTransaction.parentHash)
+              ContractProcess.reportAnnounce(signedTransaction.parentHash)
+            }),
+    ConfirmationPolicy.PHASE_COSIGNATURES,
+    (phase, seconds) => this.createTimeout(phase, seconds, account, [], transitions, signedTransaction.parentHash))
+  }
+
+  /**
+   * Get the confirmation policy of the contract
+   *
+   * @return {ConfirmationPolicy}
+   */
+  protected getConfirmationPolicy(): ConfirmationPolicy {
+    return this.contract.confirmationPolicy || new ConfirmationPolicy()
+  }
+
+  /**
+   * Open a transaction monitor, subscribe to it and announce
+   *
+   * The monitor is closed as soon as `subscribe` resolves
+   * or rejects the returned promise. `subscribe` reports the
+   * phase the announce is waiting for with `enter`, a phase
+   * that exceeds its timeout rejects with `timeout`.
+   *
+   * @param {Function} subscribe
+   * @param {Function} announce
+   * @param {string}   phase    The first phase, starts with the announce
+   * @param {Function} timeout  Creates the reason of a timeout
+   * @return {Promise<T>}
+   */
+  protected listen<T>(
+    subscribe: (
+      monitor: TransactionMonitor,
+      resolve: (result: T) => void,
+      reject: (reason: any) => void,
+      enter: (phase: string) => void,
+    ) => void,
+    announce: () => Promise<any>,
+    phase: string,
+    timeout: (phase: string, seconds: number) => any,
+  ): Promise<T>
+  {
+    const policy = this.getConfirmationPolicy()
+    return new Promise<T>((resolve, reject) => {
+      const connection: ListenerConnection = { closed: false, reject: undefined, timers: {} }
+      const settle = (callback: (value: any) => void) => (value: any) => {
+        if (connection.closed === true) {
+          return
+        }
 
-    // listen to errors
-    confirmedListener.status(account.address).subscribe((err) => {
-      this.informError(err)
-      process.exit(1)
+        connection.closed = true
+        clearTimeout(connection.timers.overall)
+        clearTimeout(connection.timers.phase)
+        if (undefined !== connection.monitor) {
+          connection.monitor.close()
+        }
+        callback(value)
+      }
+
+      // phase timeouts restart with each phase
+      const enter = (next: string) => {
+        if (connection.closed === true || connection.phase === next) {
+          return
+        }
+
+        connection.phase = next
+        clearTimeout(connection.timers.phase)
+        const seconds = policy.getPhaseTimeout(next)
+        if (seconds > 0) {
+          connection.timers.phase = setTimeout(() => connection.reject(timeout(next, seconds)), seconds * 1000)
+        }
+      }
+
+      connection.reject = settle(reject)
+      connection.monitor = this.createMonitor()
+      subscribe(connection.monitor, settle(resolve), connection.reject, enter)
+
+      connection.monitor.open()
+        .then(() => {
+          enter(phase)
+          if (policy.timeout > 0) {
+            connection.timers.overall = setTimeout(
+              () => connection.reject(timeout(connection.phase, policy.timeout)),
+              policy.timeout * 1000)
+          }
+
+          return announce()
+        })
+        .catch((e) => connection.reject(e instanceof ExpectedError ? e : new ExpectedError('An error occured: ' + e)))
     })
+  }
 
-    // transaction co-signed
-    return confirmedListener.cosignatureAdded(account.address).subscribe(
-      (cosigSignedTransaction) => {
-        this.informCosigSuccess(cosigSignedTransaction)
-        this.informPartialSuccess()
-        process.exit(0)
+  /**
+   * Wait until a confirmed transaction satisfies the confirmation policy
+   *
+   * The transaction status is read again with every new block so that
+   * a transaction that is rolled back is awaited again.
+   *
+   * @param {TransactionMonitor} monitor
+   * @param {string}             hash
+   * @param {Function}           enter
+   * @param {Function}           confirm
+   * @param {Function}           reject
+   * @return {void}
+   */
+  protected waitForPolicy(
+    monitor: TransactionMonitor,
+    hash: string,
+    enter: (phase: string) => void,
+    confirm: () => void,
+    reject: (reason: any) => void,
+  ): void {
+    const policy = this.getConfirmationPolicy()
+    if (! policy.waitsAfterConfirmation()) {
+      return confirm()
+    }
+
+    let isFinal = false
+    enter(policy.finalization === true ? ConfirmationPolicy.PHASE_FINALIZATION : ConfirmationPolicy.PHASE_DEPTH)
+    monitor.newBlock().subscribe(
+      (block) => this.isFinal(hash, block.height.compact()).then((final) => {
+        if (final === undefined) {
+          // rolled back, wait for the confirmation again
+          return enter(ConfirmationPolicy.PHASE_CONFIRMATION)
+        }
+
+        enter(policy.finalization === true ? ConfirmationPolicy.PHASE_FINALIZATION : ConfirmationPolicy.PHASE_DEPTH)
+        if (final === true && isFinal === false) {
+          isFinal = true
+          confirm()
+        }
       })
+      .catch((e) => {
+        if (e instanceof FinalizationUnsupportedError) {
+          return reject(e)
+        }
+
+        // unreachable nodes, timeouts and failed requests are
+        // transient, the status is read again with the next block
+        if (this.enableDebug === true) {
+          this.log(chalk.yellow('Could not read the transaction status: ' + e))
+        }
+      }))
+  }
+
+  /**
+   * Returns whether a transaction satisfies the confirmation policy,
+   * undefined when the transaction is not confirmed anymore
+   *
+   * @param {string} hash
+   * @param {number} chainHeight
+   * @return {Promise<boolean>}
+   */
+  protected async isFinal(
+    hash: string,
+    chainHeight: number,
+  ): Promise<boolean> {
+    const policy = this.getConfirmationPolicy()
+    const status = await new TransactionHttp(this.endpointUrl).getTransactionStatus(hash).toPromise()
+    if (String(status.group) !== 'confirmed' || undefined === status.height) {
+      return undefined
+    }
+
+    const height = status.height.compact()
+    if (chainHeight < height + policy.confirmations - 1) {
+      return false
+    }
+
+    return policy.finalization !== true || (await this.getFinalizedHeight()) >= height
   }
 
   /**
-   * Display success message
+   * Read the height of the latest finalized block from the node
+   *
+   * @throws {FinalizationUnsupportedError} When the node does not report finalized blocks
+   * @return {Promise<number>}
+   */
+  protected async getFinalizedHeight(): Promise<number> {
+    const info = await HttpClient.getJSON(this.endpointUrl.replace(/\/$/, '') + '/chain/info')
+    if (undefined === info || ! info['latestFinalizedBlock'] || undefined === info['latestFinalizedBlock']['height']) {
+      throw new FinalizationUnsupportedError(this.endpointUrl)
+    }
+
+    return parseInt(info['latestFinalizedBlock']['height'])
+  }
+
+  /**
+   * Announce with the current node and fail over to the next
+   * node when the node cannot be reached, times out or fails
+   * (5xx), requests that the node rejects are not repeated
+   *
+   * @param {Function} announce
+   * @return {Promise<TransactionAnnounceResponse>}
+   */
+  protected async announceWithFailover(
+    announce: (transactionHttp: TransactionHttp) => Observable<TransactionAnnounceResponse>
+  ): Promise<TransactionAnnounceResponse>
+  {
+    while (true) {
+      try {
+        return await announce(new TransactionHttp(this.endpointUrl))
+          .pipe(timeout(TransactionBroadcaster.REQUEST_TIMEOUT))
+          .toPromise()
+      }
+      catch (e) {
+        const statusCode = TransactionBroadcaster.getStatusCode(e)
+        if (undefined !== statusCode && statusCode < 500) {
+          throw new ExpectedError('The node ' + this.endpointUrl + ' rejected the announce: ' + (e.message || e))
+        }
+
+        if (! this.failover('announce failed: ' + (e.message || e))) {
+          throw e
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the HTTP status code of a failed node request, undefined
+   * when no response was received (Ex.: connection refused)
+   *
+   * @param {any} error
+   * @return {number}
+   */
+  public static getStatusCode(error: any): number {
+    try {
+      const statusCode = JSON.parse(error.message)['statusCode']
+      return typeof statusCode === 'number' ? statusCode : undefined
+    }
+    catch (e) {
+      return undefined
+    }
+  }
+
+  /**
+   * Read the status of a transaction, undefined when
+   * the node does not know the transaction
+   *
+   * @param {string} hash
+   * @return {Promise<TransactionStatus>}
+   */
+  protected async readStatus(hash: string): Promise<TransactionStatus> {
+    try {
+      return await new TransactionHttp(this.endpointUrl).getTransactionStatus(hash).toPromise()
+    }
+    catch (e) {
+      if (('' + (e.message || e)).includes('"statusCode":404')) {
+        return undefined
+      }
+
+      throw new ExpectedError('The status of transaction ' + hash + ' could not be read from ' + this.endpointUrl + ': ' + (e.message || e))
+    }
+  }
+
+  /**
+   * Persist a bonded execution before it is announced, an
+   * execution that cannot be persisted is still announced
    *
    * @param {PublicAccount}     account 
-   * @param {SignedTransaction} signedTransaction 
+   * @param {SignedTransaction} signedHashLock
+   * @param {SignedTransaction} signedPartial
+   * @return {void}
    */
-  protected informSuccess(
+  protected savePending(
     account: PublicAccount,
-    signedTransaction: SignedTransaction
+    signedHashLock: SignedTransaction,
+    signedPartial: SignedTransaction,
   ): void {
-    // prepare display
-    const explorerUrl  = this.explorerUrl
-    const explorerTx   = explorerUrl + '/transaction/' + signedTransaction.hash
-    const explorerAcct = explorerUrl + '/account/' + account.address.plain()
+    if (undefined === this.contract.pendingStore) {
+      return
+    }
 
-    console.log('')
-    console.log(chalk.green('Smart contract \'' + this.contract.getName() + '\' execution completed'))
-    console.log(chalk.green('View Transaction:    ' + explorerTx))
-    console.log(chalk.green('View Issuer Account: ' + explorerAcct))
-    console.log('')
+    try {
+      this.contract.pendingStore.save(new TransactionBundle(
+        this.contract.getName(),
+        this.contract.networkType,
+        this.contract.generationHash,
+        account.publicKey,
+        signedPartial,
+        signedHashLock,
+      ))
+    }
+    catch (e) {
+      this.log(chalk.yellow('The execution could not be saved for Resume: ' + e.message))
+    }
+  }
+
+  /**
+   * Forget a bonded execution that is completed or failed
+   *
+   * @param {string} hash   The aggregate transaction hash
+   * @return {void}
+   */
+  protected removePending(hash: string): void {
+    if (undefined === this.contract.pendingStore) {
+      return
+    }
+
+    try {
+      this.contract.pendingStore.remove(hash)
+    }
+    catch (e) {
+      this.log(chalk.yellow('The execution could not be removed from ' + this.contract.pendingStore.path + ': ' + e.message))
+    }
+  }
+
+  /**
+   * Create the transaction monitor of an announce, it reconnects
+   * with the current node or fails over to the next nodes
+   *
+   * @return {TransactionMonitor}
+   */
+  protected createMonitor(): TransactionMonitor {
+    return new TransactionMonitor(
+      () => this.endpointUrl,
+      (reason) => this.failover(reason),
+      this.enableDebug,
+      this.getLogger(),
+    )
+  }
+
+  /**
+   * Switch to the next node, if any
+   *
+   * @param {string} reason
+   * @return {boolean}  Whether another node is available
+   */
+  protected failover(reason: string): boolean {
+    const next = this.nodes.indexOf(this.endpointUrl) + 1
+    if (next <= 0 || next >= this.nodes.length) {
+      return false
+    }
+
+    this.log(chalk.yellow('Node ' + this.endpointUrl + ' ' + reason + ', switching to ' + this.nodes[next]))
+    this.endpointUrl = this.nodes[next]
+    return true
+  }
+
+  /**
+   * Get the logger of the parent context
+   *
+   * @return {Logger}
+   */
+  protected getLogger(): Logger {
+    return this.contract.logger || new Logger()
+  }
+
+  /**
+   * Write a line of human output (see Logger)
+   *
+   * @param {any[]} messages
+   * @return {void}
+   */
+  protected log(...messages: any[]): void {
+    this.getLogger().log(...messages)
+  }
+
+  /**
+   * Record a status transition
+   *
+   * @param {StatusTransition[]}  transitions
+   * @param {string}              status
+   * @param {string}              hash
+   * @return {void}
+   */
+  protected addTransition(
+    transitions: StatusTransition[],
+    status: string,
+    hash: string,
+  ): void {
+    transitions.push({ status, hash, timestamp: new Date() })
+  }
+
+  /**
+   * Create the result of an announce, `status` is
+   * recorded as the last transition
+   *
+   * @param {string}              status
+   * @param {PublicAccount}       account 
+   * @param {SignedTransaction[]} signedTransactions
+   * @param {StatusTransition[]}  transitions
+   * @param {string}              hash  Defaults to the hash of the last transaction
+   * @return {ContractResult}
+   */
+  protected createResult(
+    status: string,
+    account: PublicAccount,
+    signedTransactions: SignedTransaction[],
+    transitions: StatusTransition[],
+    hash?: string,
+  ): ContractResult {
+    hash = hash || signedTransactions[signedTransactions.length - 1].hash
+    this.addTransition(transitions, status, hash)
+
+    return new ContractResult(
+      this.contract.getName(),
+      status,
+      hash,
+      account,
+      this.contract.networkType,
+      this.contract.generationHash,
+      this.endpointUrl,
+      this.explorerUrl,
+      signedTransactions,
+      transitions,
+    )
   }
 
   /**
@@ -240,10 +900,10 @@ export class TransactionBroadcaster {
    * @param {SignedTransaction} signedTransaction 
    */
   protected informPartialSuccess(): void {
-    console.log('')
-    console.log(chalk.green('Smart contract \'' + this.contract.getName() + '\' executed successfully'))
-    console.log(chalk.green('Now waiting for co-signatures from other involved parties.'))
-    console.log('')
+    this.log('')
+    this.log(chalk.green('Smart contract \'' + this.contract.getName() + '\' executed successfully'))
+    this.log(chalk.green('Now waiting for co-signatures from other involved parties.'))
+    this.log('')
   }
 
   /**
@@ -255,25 +915,205 @@ export class TransactionBroadcaster {
   protected informCosigSuccess(
     signedTransaction: CosignatureSignedTransaction
   ): void {
-    console.log('')
-    console.log(chalk.green('New co-signature added for ' + signedTransaction.parentHash + '.'))
-    console.log('')
+    this.log('')
+    this.log(chalk.green('New co-signature added for ' + signedTransaction.parentHash + '.'))
+    this.log('')
   }
 
   /**
-   * Display error message
+   * Display the transactions that would be announced (--dry-run)
    *
-   * @param {PublicAccount}     account 
-   * @param {SignedTransaction} signedTransaction 
+   * @param {PublicAccount}       account 
+   * @param {SignedTransaction[]} signedTransactions
+   * @return {ContractResult}
    */
-  protected informError(
-    error: TransactionStatusError
-  ): void {
+  protected informDryRun(
+    account: PublicAccount,
+    signedTransactions: SignedTransaction[]
+  ): ContractResult {
+    const feeStrategy = this.contract.feeStrategy
+    const rentalFees = undefined !== feeStrategy ? feeStrategy.rentalFees : undefined
+
+    let maxFees = 0
+    let lockedAmount = 0
+    let rentals = 0
+
+    this.log('')
+    this.log(chalk.yellow('Smart contract \'' + this.contract.getName() + '\' dry-run, nothing was announced'))
+
+    signedTransactions.forEach((signedTransaction) => {
+      const transaction = TransactionMapping.createFromPayload(signedTransaction.payload)
+      const inner = transaction instanceof AggregateTransaction
+        ? transaction.innerTransactions
+        : [transaction]
+
+      maxFees += transaction.maxFee.compact()
+
+      this.log('')
+      this.log(chalk.green(TransactionType[transaction.type] + ' ' + signedTransaction.hash))
+      this.log('\tPayload Size: ' + (signedTransaction.payload.length / 2) + ' bytes')
+      this.log('\tMax Fee:      ' + this.formatAmount(transaction.maxFee.compact()))
+
+      // hash locks are read back as LockFundsTransaction
+      if (transaction instanceof LockFundsTransaction) {
+        lockedAmount += transaction.mosaic.amount.compact()
+        this.log('\tLocked:       ' + this.formatAmount(transaction.mosaic.amount.compact()) + ' for ' + transaction.duration.compact() + ' blocks')
+      }
+
+      if (transaction instanceof AggregateTransaction) {
+        inner.forEach((innerTx, i) => {
+          this.log('\tTransaction #' + (i+1) + ': ' + TransactionType[innerTx.type] + ' signed by ' + innerTx.signer.address.plain())
+        })
+      }
+
+      // rental fees are paid on top of the transaction fees
+      inner.forEach((innerTx) => rentals += undefined !== rentalFees ? feeStrategy.getRentalFee(innerTx) : 0)
+    })
+
+    this.log('')
+    this.log(chalk.green('Max Fees:            ' + this.formatAmount(maxFees)))
+    this.log(chalk.green('Hash Lock:           ' + this.formatAmount(lockedAmount) + (lockedAmount > 0 ? ' (returned after confirmation)' : '')))
+    this.log(chalk.green('Rental Fees:         ' + (undefined === rentalFees ? 'unknown (no connection)' : this.formatAmount(rentals))))
+    this.log(chalk.green('Total:               ' + this.formatAmount(maxFees + lockedAmount + rentals)))
+    return this.createResult(ContractResult.DRY_RUN, account, signedTransactions, this.getSignedTransitions(signedTransactions))
+  }
+
+  /**
+   * Display the co-signature that would be announced (--dry-run)
+   *
+   * @param {PublicAccount}                 account 
+   * @param {CosignatureSignedTransaction}  signedTransaction
+   * @return {ContractResult}
+   */
+  protected informDryRunCosignature(
+    account: PublicAccount,
+    signedTransaction: CosignatureSignedTransaction
+  ): ContractResult {
+    this.log('')
+    this.log(chalk.yellow('Smart contract \'' + this.contract.getName() + '\' dry-run, nothing was announced'))
+    this.log(chalk.green('Co-signature for:    ' + signedTransaction.parentHash))
+    this.log(chalk.green('Co-signed by:        ' + account.address.plain()))
+    return this.createResult(ContractResult.DRY_RUN, account, [], [], signedTransaction.parentHash)
+  }
+
+  /**
+   * Format an absolute amount of the network currency
+   *
+   * @param {number} amount 
+   * @return {string}
+   */
+  protected formatAmount(amount: number): string {
+    return this.contract.network.formatAmount(amount)
+  }
+
+  /**
+   * Record the signature of each transaction
+   *
+   * @param {SignedTransaction[]} signedTransactions
+   * @return {StatusTransition[]}
+   */
+  protected getSignedTransitions(
+    signedTransactions: SignedTransaction[],
+  ): StatusTransition[] {
+    const transitions: StatusTransition[] = []
+    signedTransactions.forEach((signedTransaction) => this.addTransition(transitions, ContractResult.SIGNED, signedTransaction.hash))
+    return transitions
+  }
+
+  /**
+   * Create the error of a failed transaction
+   *
+   * @param {TransactionStatusError} error
+   * @param {PublicAccount}          account 
+   * @param {SignedTransaction[]}    signedTransactions
+   * @param {StatusTransition[]}     transitions
+   * @return {ContractError}
+   */
+  protected createError(
+    error: TransactionStatusError,
+    account: PublicAccount,
+    signedTransactions: SignedTransaction[],
+    transitions: StatusTransition[],
+  ): ContractError {
     const linkStatus = this.endpointUrl + '/transaction/' + error.hash  + '/status'
-    console.log('')
-    console.log(chalk.red('Smart contract \'' + this.contract.getName() + '\' failed executing'))
-    console.log(chalk.red('Failure Reason (Code):  ' + error.code))
-    console.log(chalk.red('View Status Details:    ' + linkStatus))
-    console.log('')
+    const status = StatusCatalogue.describe(
+      error.code,
+      error.hash,
+      this.contract.getName(),
+      account,
+      this.contract.network,
+      signedTransactions,
+    )
+
+    return new ContractError([
+      'Smart contract \'' + this.contract.getName() + '\' failed executing',
+      'Failure Reason (Code):  ' + error.code,
+      'Failed Transaction:     ' + status.transaction,
+      'Explanation:            ' + status.explanation,
+      'Remediation:            ' + status.remediation,
+      'View Status Details:    ' + linkStatus,
+    ].join('\n'),
+      this.createResult(ContractResult.FAILED, account, signedTransactions, transitions, error.hash),
+      error.code,
+      status,
+    )
+  }
+
+  /**
+   * Create the error of an announce that exceeded a timeout
+   *
+   * @param {string}              phase   The phase that stalled
+   * @param {number}              seconds
+   * @param {PublicAccount}       account 
+   * @param {SignedTransaction[]} signedTransactions
+   * @param {StatusTransition[]}  transitions
+   * @param {string}              hash  Defaults to the hash of the last transaction
+   * @return {ContractError}
+   */
+  protected createTimeout(
+    phase: string,
+    seconds: number,
+    account: PublicAccount,
+    signedTransactions: SignedTransaction[],
+    transitions: StatusTransition[],
+    hash?: string,
+  ): ContractError {
+    const result = this.createResult(ContractResult.TIMED_OUT, account, signedTransactions, transitions, hash)
+    const linkStatus = this.endpointUrl + '/transaction/' + result.hash  + '/status'
+
+    return new ContractError([
+      'Smart contract \'' + this.contract.getName() + '\' timed out after ' + seconds + ' seconds',
+      'Stalled Phase:          ' + phase + ' (waiting for ' + ConfirmationPolicy.PHASES[phase] + ')',
+      'View Status Details:    ' + linkStatus,
+    ].join('\n'),
+      Object.assign(result, { phase }),
+    )
+  }
+
+  /**
+   * Create the error of a resumed execution whose hash lock expired
+   *
+   * @param {number}              expiry  The height of the expiry
+   * @param {PublicAccount}       account 
+   * @param {SignedTransaction[]} signedTransactions
+   * @param {StatusTransition[]}  transitions
+   * @return {ContractError}
+   */
+  protected createExpiry(
+    expiry: number,
+    account: PublicAccount,
+    signedTransactions: SignedTransaction[],
+    transitions: StatusTransition[],
+  ): ContractError {
+    const result = this.createResult(ContractResult.LOCK_EXPIRED, account, signedTransactions, transitions)
+
+    return new ContractError([
+      'Smart contract \'' + this.contract.getName() + '\' cannot be resumed',
+      'Reason:                 the hash lock expired at height ' + expiry,
+      'Explanation:            the locked funds were not returned and the aggregate transaction can no longer be announced',
+      'Remediation:            execute the contract again',
+    ].join('\n'),
+      Object.assign(result, { expiry }),
+    )
   }
-}
\ No newline at end of file
+}
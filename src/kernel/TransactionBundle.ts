@@ -0,0 +1,307 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    NetworkType,
+    Transaction,
+    AggregateTransaction,
+    LockFundsTransaction,
+    TransactionMapping,
+    SignedTransaction,
+    CosignatureSignedTransaction,
+    Convert,
+} from 'symbol-sdk';
+import * as fs from 'fs';
+import * as Path from 'path';
+
+/**
+ * The unsigned transactions of a contract, they are signed
+ * by the issuer on an air-gapped host (--prepare)
+ */
+export interface PreparedTransactions {
+  /**
+   * The unsigned transaction payload, with its max fee
+   * @var {string}
+   */
+  transaction: string
+
+  /**
+   * The unsigned hash lock payload (bonded contracts only), the
+   * hash lock is created again with the hash of the signed aggregate
+   * @var {string}
+   */
+  hashLock?: string
+}
+
+export class TransactionBundle {
+  /**
+   * The bundle file format version
+   * @var {number}
+   */
+  public static VERSION: number = 1
+
+  /**
+   * Create a bundle of signed transactions
+   *
+   * @param {string}                          contract
+   * @param {NetworkType}                     networkType
+   * @param {string}                          generationHash
+   * @param {string}                          signerPublicKey
+   * @param {SignedTransaction}               transaction
+   * @param {SignedTransaction}               hashLock
+   * @param {CosignatureSignedTransaction[]}  cosignatures
+   * @param {string}                          unsignedPayload
+   * @param {PreparedTransactions}            prepared
+   */
+  constructor(
+    /**
+     * The name of the contract that produced the bundle
+     * @var {string}
+     */
+    public readonly contract: string,
+    /**
+     * The network type
+     * @var {NetworkType}
+     */
+    public readonly networkType: NetworkType,
+    /**
+     * The network generation hash
+     * @var {string}
+     */
+    public readonly generationHash: string,
+    /**
+     * The public key of the issuer account
+     * @var {string}
+     */
+    public readonly signerPublicKey: string,
+    /**
+     * The signed transaction (aggregate bonded when
+     * a hash lock is present)
+     * @var {SignedTransaction}
+     */
+    public readonly transaction?: SignedTransaction,
+    /**
+     * The signed hash lock transaction (bonded contracts only)
+     * @var {SignedTransaction}
+     */
+    public readonly hashLock?: SignedTransaction,
+    /**
+     * The signed co-signatures of partial transactions
+     * @var {CosignatureSignedTransaction[]}
+     */
+    public readonly cosignatures: CosignatureSignedTransaction[] = [],
+    /**
+     * The payload of an aggregate bonded transaction that
+     * is waiting for co-signatures (prepared bundles only)
+     * @var {string}
+     */
+    public readonly unsignedPayload?: string,
+    /**
+     * The unsigned transactions of the issuer (--prepare)
+     * @var {PreparedTransactions}
+     */
+    public readonly prepared?: PreparedTransactions) {
+  }
+
+  /**
+   * Returns whether the bundle contains an aggregate
+   * bonded transaction that must be co-signed
+   *
+   * @return {boolean}
+   */
+  public isPrepared(): boolean {
+    return undefined !== this.unsignedPayload && null !== this.unsignedPayload
+  }
+
+  /**
+   * Get the aggregate transaction that must be co-signed
+   *
+   * @return {AggregateTransaction}
+   */
+  public getUnsignedTransaction(): AggregateTransaction {
+    return TransactionMapping.createFromPayload(this.unsignedPayload) as AggregateTransaction
+  }
+
+  /**
+   * Get the hash of the aggregate transaction that must be
+   * co-signed, computed from its payload
+   *
+   * @return {string}
+   */
+  public getUnsignedHash(): string {
+    return Transaction.createTransactionHash(
+      this.unsignedPayload,
+      Array.from(Convert.hexToUint8(this.generationHash)),
+    )
+  }
+
+  /**
+   * Returns whether the bundle contains unsigned transactions
+   * that must be signed by the issuer
+   *
+   * @return {boolean}
+   */
+  public isSignable(): boolean {
+    return undefined !== this.prepared && null !== this.prepared
+  }
+
+  /**
+   * Get the unsigned transaction that must be signed by the issuer
+   *
+   * @return {Transaction}
+   */
+  public getPreparedTransaction(): Transaction {
+    return TransactionMapping.createFromPayload(this.prepared.transaction)
+  }
+
+  /**
+   * Get the unsigned hash lock of a bonded contract, if any
+   *
+   * @return {LockFundsTransaction}
+   */
+  public getPreparedHashLock(): LockFundsTransaction {
+    if (! this.prepared.hashLock) {
+      return undefined
+    }
+
+    return TransactionMapping.createFromPayload(this.prepared.hashLock) as LockFundsTransaction
+  }
+
+  /**
+   * Returns whether the bundle contains a hash lock
+   * and an aggregate bonded transaction
+   *
+   * @return {boolean}
+   */
+  public isBonded(): boolean {
+    return undefined !== this.hashLock && null !== this.hashLock
+  }
+
+  /**
+   * Get the JSON representation of the bundle
+   *
+   * @return {Object}
+   */
+  public toJSON(): Object {
+    const toSigned = (signed: SignedTransaction) => !signed ? undefined : {
+      hash: signed.hash,
+      type: signed.type,
+      payload: signed.payload,
+    }
+
+    return {
+      version: TransactionBundle.VERSION,
+      contract: this.contract,
+      networkType: this.networkType,
+      generationHash: this.generationHash,
+      signerPublicKey: this.signerPublicKey,
+      transaction: toSigned(this.transaction),
+      hashLock: toSigned(this.hashLock),
+      cosignatures: this.cosignatures.map((cosignature) => ({
+        parentHash: cosignature.parentHash,
+        signature: cosignature.signature,
+        signerPublicKey: cosignature.signerPublicKey,
+      })),
+      unsigned: !this.isPrepared() ? undefined : {
+        hash: this.getUnsignedHash(),
+        payload: this.unsignedPayload,
+      },
+      prepared: !this.isSignable() ? undefined : {
+        transaction: this.prepared.transaction,
+        hashLock: this.prepared.hashLock,
+      },
+    }
+  }
+
+  /**
+   * Create a bundle from its JSON representation
+   *
+   * @param {Object} json
+   * @return {TransactionBundle}
+   */
+  public static fromJSON(json: Object): TransactionBundle {
+    if (json['version'] !== TransactionBundle.VERSION) {
+      throw new ExpectedError('Unsupported transaction bundle version "' + json['version'] + '".')
+    }
+
+    const networkType = json['networkType']
+    const signerPublicKey = json['signerPublicKey']
+    const fromSigned = (signed: Object) => !signed ? undefined : new SignedTransaction(
+      signed['payload'],
+      signed['hash'],
+      signerPublicKey,
+      signed['type'],
+      networkType,
+    )
+
+    return new TransactionBundle(
+      json['contract'],
+      networkType,
+      json['generationHash'],
+      signerPublicKey,
+      fromSigned(json['transaction']),
+      fromSigned(json['hashLock']),
+      (json['cosignatures'] || []).map((cosignature) => new CosignatureSignedTransaction(
+        cosignature['parentHash'],
+        cosignature['signature'],
+        cosignature['signerPublicKey'],
+      )),
+      json['unsigned'] ? json['unsigned']['payload'] : undefined,
+      json['prepared'] ? {
+        transaction: json['prepared']['transaction'],
+        hashLock: json['prepared']['hashLock'],
+      } : undefined,
+    )
+  }
+
+  /**
+   * Write the bundle to a JSON file
+   *
+   * @param {string} path
+   * @return {void}
+   */
+  public save(path: string): void {
+    const directory = Path.dirname(path)
+    if (! fs.existsSync(directory)) {
+      fs.mkdirSync(directory, {recursive: true})
+    }
+
+    fs.writeFileSync(path, JSON.stringify(this.toJSON(), null, 2))
+  }
+
+  /**
+   * Read a bundle from a JSON file
+   *
+   * @param {string} path
+   * @return {TransactionBundle}
+   */
+  public static load(path: string): TransactionBundle {
+    if (! fs.existsSync(path)) {
+      throw new ExpectedError('The transaction bundle ' + path + ' could not be found.')
+    }
+
+    let json: Object
+    try {
+      json = JSON.parse(fs.readFileSync(path, 'utf8'))
+    }
+    catch (e) {
+      throw new ExpectedError('The transaction bundle ' + path + ' could not be parsed: ' + e.message)
+    }
+
+    return TransactionBundle.fromJSON(json)
+  }
+}
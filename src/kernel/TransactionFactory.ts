@@ -24,6 +24,7 @@ import {
     PublicAccount,
     NamespaceId,
     NamespaceHttp,
+    AccountHttp,
     NamespaceRegistrationTransaction,
     NetworkType,
     Deadline,
@@ -44,17 +45,12 @@ import {
 } from 'symbol-sdk';
 
 import {ContractConstants} from './Contract'
+import {NetworkConstants} from './NetworkConstants'
 
 export class TransactionFactory {
 
   /**
-   * Singleton instance
-   * @var {TransactionFactory}
-   */
-  public static $_factory: TransactionFactory = null
-
-  /**
-   * Private constructor, singleton pattern
+   * Private constructor, see create()
    *
    * @internal
    */
@@ -68,24 +64,70 @@ export class TransactionFactory {
      * The network type
      * @var {NetworkType}
      */
-    public readonly networkType: NetworkType = NetworkType.TEST_NET) {}
+    public readonly networkType: NetworkType = NetworkType.TEST_NET,
+    /**
+     * Whether the factory must not read from the network
+     * @var {boolean}
+     */
+    public readonly offline: boolean = false,
+    /**
+     * The network constants
+     * @var {NetworkConstants}
+     */
+    public readonly network: NetworkConstants = new NetworkConstants()) {}
 
   /**
    * Create a transaction factory
    *
-   * @param {string} endpointUrl 
+   * Each contract and library context uses its own factory,
+   * factories are bound to one node and one network.
+   *
+   * @param {string}      endpointUrl 
+   * @param {NetworkType} networkType
+   * @param {boolean}     offline
+   * @param {NetworkConstants} network
    * @return {TransactionFactory}
    */
   public static create(
     endpointUrl: string,
     networkType: NetworkType,
+    offline: boolean = false,
+    network: NetworkConstants = new NetworkConstants(),
   ): TransactionFactory 
   {
-    if (null === TransactionFactory.$_factory) {
-      TransactionFactory.$_factory = new TransactionFactory(endpointUrl, networkType)
+    return new TransactionFactory(endpointUrl, networkType, offline, network)
+  }
+
+  /**
+   * Get a PublicAccount object from a public key or
+   * from an address that is known on the network.
+   *
+   * Addresses cannot be resolved in offline mode.
+   *
+   * @param {string} addressOrPublicKey 
+   * @return {Promise<PublicAccount>}
+   */
+  public async getPublicAccount(
+    addressOrPublicKey: string,
+  ): Promise<PublicAccount>
+  {
+    if (/^[0-9a-fA-F]{64}$/.test(addressOrPublicKey)) {
+      return PublicAccount.createFromPublicKey(addressOrPublicKey, this.networkType)
     }
 
-    return TransactionFactory.$_factory
+    if (this.offline === true) {
+      throw new ExpectedError('Addresses cannot be resolved in offline mode, please provide the public key of ' + addressOrPublicKey + '.')
+    }
+
+    const address = Address.createFromRawAddress(addressOrPublicKey)
+    const accountInfo = await new AccountHttp(this.endpointUrl).getAccountInfo(address).toPromise()
+
+    // public key is unknown until the account sends a transaction
+    if (/^0{64}$/.test(accountInfo.publicKey)) {
+      throw new ExpectedError('The public key of account ' + address.plain() + ' is unknown on this network.')
+    }
+
+    return accountInfo.publicAccount
   }
 
   /**
@@ -104,12 +146,10 @@ export class TransactionFactory {
     duration: number,
   ): Promise<NamespaceRegistrationTransaction[]>
   {
+    this.network.validateNamespaceName(namespaceName);
+
     const parts = namespaceName.split('.');
-    if (parts.length > 3) {
-        throw new Error('Invalid namespace name "' + namespaceName + '", maximum 3 levels allowed.');
-    }
 
-    const namespaceHttp = new NamespaceHttp(this.endpointUrl);
     return new Promise(async (resolve, reject) => {
       let registerTxes = [];
       for (let i = 0; i < parts.length; i++) {
@@ -119,10 +159,15 @@ export class TransactionFactory {
         const registerTx = this.getNamespaceRegistrationTransaction(fullName, duration);
         registerTxes.push(registerTx.toAggregate(publicAccount));
 
+        // existence cannot be checked in offline mode
+        if (this.offline === true) {
+          continue;
+        }
+
         // check for existence and remove if exists
         try {
           const namespaceId = new NamespaceId(fullName);
-          const namespaceInfo = await namespaceHttp.getNamespace(namespaceId).toPromise();
+          const namespaceInfo = await new NamespaceHttp(this.endpointUrl).getNamespace(namespaceId).toPromise();
           registerTxes.pop(); // namespace exists on network already
         }
         catch(e) {} // Do nothing, namespace "Error: Not Found"
@@ -155,8 +200,7 @@ export class TransactionFactory {
         Deadline.create(),
         current,
         parent,
-        this.networkType,
-        UInt64.fromUint(ContractConstants.DEFAULT_TRANSACTION_FEE)
+        this.networkType
       );
     }
 
@@ -165,8 +209,7 @@ export class TransactionFactory {
       Deadline.create(),
       namespaceName,
       UInt64.fromUint(duration),
-      this.networkType,
-      UInt64.fromUint(ContractConstants.DEFAULT_TRANSACTION_FEE)
+      this.networkType
     )
   }
 
@@ -198,21 +241,20 @@ export class TransactionFactory {
       mosId,
       MosaicFlags.create(supplyMutable, transferable, restrictable),
       divisibility,
-      UInt64.fromUint(ContractConstants.BLOCKS_IN_ONE_YEAR),
-      this.networkType,
-      UInt64.fromUint(ContractConstants.DEFAULT_FEE_WITH_RENTAL)
+      UInt64.fromUint(this.network.getBlocksInOneYear()),
+      this.networkType
     );
   }
 
   /**
    * Get a MosaicSupplyChangeTransaction object
    *
-   * @param {MosaicId}  mosaicId 
-   * @param {UInt64}    supply
+   * @param {MosaicId|NamespaceId}  mosaicId 
+   * @param {UInt64}                supply
    * @return {MosaicSupplyChangeTransaction} 
    */
   public getMosaicSupplyChangeTransaction(
-    mosaicId: MosaicId,
+    mosaicId: MosaicId|NamespaceId,
     supply: UInt64
   ): MosaicSupplyChangeTransaction
   {
@@ -221,8 +263,7 @@ export class TransactionFactory {
       mosaicId,
       MosaicSupplyChangeAction.Increase,
       supply,
-      this.networkType,
-      UInt64.fromUint(ContractConstants.DEFAULT_TRANSACTION_FEE)
+      this.networkType
     );
   }
 
@@ -244,8 +285,7 @@ export class TransactionFactory {
       AliasAction.Link,
       new NamespaceId(namespaceName),
       mosaicId,
-      this.networkType,
-      UInt64.fromUint(ContractConstants.DEFAULT_TRANSACTION_FEE)
+      this.networkType
     );
   }
 
@@ -270,7 +310,6 @@ export class TransactionFactory {
       [new Mosaic(mosaicId, UInt64.fromUint(amount))],
       PlainMessage.create(message),
       this.networkType,
-      UInt64.fromUint(ContractConstants.DEFAULT_TRANSACTION_FEE),
     )
   }
 
@@ -288,14 +327,13 @@ export class TransactionFactory {
     signedAggregate: SignedTransaction,
   ): HashLockTransaction
   {
-    // create lock funds of 10 "cat.currency" for the aggregate transaction
+    // lock funds of the network currency for the aggregate transaction
     return HashLockTransaction.create(
       Deadline.create(),
       mosaic,
       UInt64.fromUint(duration),
       signedAggregate,
       this.networkType,
-      UInt64.fromUint(ContractConstants.DEFAULT_TRANSACTION_FEE),
     )
   }
 }
\ No newline at end of file
@@ -0,0 +1,547 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import chalk from 'chalk';
+import {
+    AccountHttp,
+    Address,
+    AggregateTransaction,
+    BlockHttp,
+    BlockInfo,
+    ChainHttp,
+    CosignatureSignedTransaction,
+    Listener,
+    Transaction,
+    TransactionHttp,
+    TransactionStatusError,
+} from 'symbol-sdk';
+import { Observable, Subject } from 'rxjs';
+import { Logger } from './Logger';
+
+/**
+ * A channel subscribed to by the broadcaster
+ *
+ * @internal
+ */
+interface MonitorChannel {
+  /**
+   * The listener channel, e.g. `confirmed`
+   * @var {string}
+   */
+  name: string
+
+  /**
+   * The address the channel listens to
+   * @var {Address}
+   */
+  address?: Address
+
+  /**
+   * The transaction hash, if the channel listens to one transaction
+   * @var {string}
+   */
+  hash?: string
+
+  /**
+   * Emits the events of the channel, across reconnects
+   * @var {Subject<any>}
+   */
+  subject: Subject<any>
+
+  /**
+   * Keys of the events that were emitted, events are emitted once
+   * @var {string[]}
+   */
+  emitted: string[]
+}
+
+export class TransactionMonitor {
+  /**
+   * Number of attempts to reconnect with a node before failing over
+   * @var {number}
+   */
+  public static RECONNECT_ATTEMPTS: number = 3
+
+  /**
+   * Delay between reconnect attempts in milliseconds
+   * @var {number}
+   */
+  public static RECONNECT_DELAY: number = 2000
+
+  /**
+   * Interval of the status polling in milliseconds
+   * @var {number}
+   */
+  public static POLLING_INTERVAL: number = 5000
+
+  /**
+   * Interval of the listener connection check in milliseconds
+   * @var {number}
+   */
+  public static HEARTBEAT_INTERVAL: number = 2000
+
+  /**
+   * The opened websocket listener, undefined while polling
+   * @var {Listener}
+   */
+  protected listener: Listener
+
+  /**
+   * The subscribed channels
+   * @var {MonitorChannel[]}
+   */
+  protected channels: MonitorChannel[] = []
+
+  /**
+   * The status polling timer
+   * @var {NodeJS.Timeout}
+   */
+  protected pollingTimer: NodeJS.Timeout
+
+  /**
+   * The listener connection check timer
+   * @var {NodeJS.Timeout}
+   */
+  protected heartbeatTimer: NodeJS.Timeout
+
+  /**
+   * The last chain height seen while polling
+   * @var {number}
+   */
+  protected chainHeight: number = 0
+
+  /**
+   * Whether the monitor was closed
+   * @var {boolean}
+   */
+  protected closed: boolean = false
+
+  /**
+   * Create a transaction monitor
+   *
+   * Events are read from the websocket listener of the current node.
+   * Dropped connections are re-opened and channels re-subscribed, when
+   * no node accepts websocket connections the transaction status is
+   * polled instead.
+   *
+   * @param {Function}  getEndpointUrl  Returns the current node
+   * @param {Function}  failover        Switches to the next node, if any
+   * @param {boolean}   enableDebug
+   * @param {Logger}    logger
+   */
+  constructor(
+    /**
+     * Returns the current node URL
+     * @var {() => string}
+     **/
+    protected readonly getEndpointUrl: () => string,
+    /**
+     * Switches to the next node, returns false when there is none
+     * @var {(reason: string) => boolean}
+     **/
+    protected readonly failover: (reason: string) => boolean,
+    /**
+     * Whether to enable debug mode or not
+     * @var {boolean}
+     **/
+    protected readonly enableDebug: boolean = false,
+    /**
+     * Where human output is written
+     * @var {Logger}
+     **/
+    protected readonly logger: Logger = new Logger()) {
+  }
+
+  /**
+   * Open the websocket listener, or start polling when
+   * no node accepts websocket connections
+   *
+   * @return {Promise<void>}
+   */
+  public async open(): Promise<void> {
+    if (await this.connect() === false) {
+      this.startPolling()
+    }
+  }
+
+  /**
+   * Close the listener and stop polling
+   *
+   * @return {void}
+   */
+  public close(): void {
+    this.closed = true
+    clearTimeout(this.pollingTimer)
+    clearInterval(this.heartbeatTimer)
+    if (undefined !== this.listener) {
+      this.listener.close()
+    }
+  }
+
+  /**
+   * Returns whether the transaction status is polled
+   *
+   * @return {boolean}
+   */
+  public isPolling(): boolean {
+    return undefined !== this.pollingTimer
+  }
+
+  /**
+   * Transaction status errors of the transaction `hash`, errors
+   * of other transactions of `address` are ignored
+   *
+   * @param {Address} address
+   * @param {string}  hash
+   * @return {Observable<TransactionStatusError>}
+   */
+  public status(address: Address, hash: string): Observable<TransactionStatusError> {
+    return this.subscribe('status', address, hash)
+  }
+
+  /**
+   * Confirmation of the transaction `hash`
+   *
+   * @param {Address} address
+   * @param {string}  hash
+   * @return {Observable<Transaction>}
+   */
+  public confirmed(address: Address, hash: string): Observable<Transaction> {
+    return this.subscribe('confirmed', address, hash)
+  }
+
+  /**
+   * The transaction `hash` was added to the unconfirmed pool,
+   * polled events carry no transaction
+   *
+   * @param {Address} address
+   * @param {string}  hash
+   * @return {Observable<Transaction>}
+   */
+  public unconfirmedAdded(address: Address, hash: string): Observable<Transaction> {
+    return this.subscribe('unconfirmedAdded', address, hash)
+  }
+
+  /**
+   * The aggregate bonded transaction `hash` was added to the partial pool,
+   * polled events carry no transaction
+   *
+   * @param {Address} address
+   * @param {string}  hash
+   * @return {Observable<AggregateTransaction>}
+   */
+  public aggregateBondedAdded(address: Address, hash: string): Observable<AggregateTransaction> {
+    return this.subscribe('aggregateBondedAdded', address, hash)
+  }
+
+  /**
+   * Cosignatures added to the aggregate bonded transaction `hash`
+   *
+   * @param {Address} address
+   * @param {string}  hash
+   * @return {Observable<CosignatureSignedTransaction>}
+   */
+  public cosignatureAdded(address: Address, hash: string): Observable<CosignatureSignedTransaction> {
+    return this.subscribe('cosignatureAdded', address, hash)
+  }
+
+  /**
+   * New blocks of the chain
+   *
+   * @return {Observable<BlockInfo>}
+   */
+  public newBlock(): Observable<BlockInfo> {
+    return this.subscribe('newBlock')
+  }
+
+  /**
+   * Subscribe to a channel, channels are subscribed again
+   * with every new websocket listener
+   *
+   * @param {string}  name
+   * @param {Address} address
+   * @param {string}  hash
+   * @return {Observable<any>}
+   */
+  protected subscribe(
+    name: string,
+    address?: Address,
+    hash?: string,
+  ): Observable<any> {
+    const channel: MonitorChannel = { name, address, hash, subject: new Subject<any>(), emitted: [] }
+    this.channels.push(channel)
+
+    if (undefined !== this.listener) {
+      this.subscribeListener(this.listener, channel)
+    }
+
+    return channel.subject.asObservable()
+  }
+
+  /**
+   * Forward the events of a websocket listener to a channel
+   *
+   * @param {Listener}        listener
+   * @param {MonitorChannel}  channel
+   * @return {void}
+   */
+  protected subscribeListener(
+    listener: Listener,
+    channel: MonitorChannel,
+  ): void {
+    switch (channel.name) {
+      case 'status':
+        listener.status(channel.address).subscribe(
+          (error) => {
+            if (error.hash === channel.hash) {
+              this.emit(channel, channel.hash, error)
+            }
+          })
+        break
+
+      case 'confirmed':
+        listener.confirmed(channel.address, channel.hash).subscribe(
+          (transaction) => this.emit(channel, channel.hash, transaction))
+        break
+
+      case 'unconfirmedAdded':
+        listener.unconfirmedAdded(channel.address).subscribe(
+          (transaction) => {
+            if (transaction.transactionInfo && transaction.transactionInfo.hash === channel.hash) {
+              this.emit(channel, channel.hash, transaction)
+            }
+          })
+        break
+
+      case 'aggregateBondedAdded':
+        listener.aggregateBondedAdded(channel.address, channel.hash).subscribe(
+          (transaction) => this.emit(channel, channel.hash, transaction))
+        break
+
+      case 'cosignatureAdded':
+        listener.cosignatureAdded(channel.address).subscribe(
+          (cosignature) => {
+            if (cosignature.parentHash === channel.hash) {
+              this.emit(channel, cosignature.signerPublicKey, cosignature)
+            }
+          })
+        break
+
+      case 'newBlock':
+        listener.newBlock().subscribe(
+          (block) => this.emit(channel, block.height.toString(), block))
+        break
+    }
+  }
+
+  /**
+   * Emit an event of a channel once
+   *
+   * @param {MonitorChannel}  channel
+   * @param {string}          key
+   * @param {any}             event
+   * @return {void}
+   */
+  protected emit(
+    channel: MonitorChannel,
+    key: string,
+    event: any,
+  ): void {
+    if (this.closed === true || channel.emitted.indexOf(key) !== -1) {
+      return
+    }
+
+    channel.emitted.push(key)
+    channel.subject.next(event)
+  }
+
+  /**
+   * Open a websocket listener with the current node, failing
+   * over to the next nodes
+   *
+   * @return {Promise<boolean>}  Whether a listener could be opened
+   */
+  protected async connect(): Promise<boolean> {
+    while (true) {
+      for (let attempt = 1; attempt <= TransactionMonitor.RECONNECT_ATTEMPTS; attempt++) {
+        try {
+          const listener = new Listener(this.getEndpointUrl())
+          await listener.open()
+          if (this.closed === true) {
+            listener.close()
+            return true
+          }
+
+          this.listen(listener)
+          return true
+        }
+        catch (e) {
+          if (attempt < TransactionMonitor.RECONNECT_ATTEMPTS) {
+            await this.sleep(TransactionMonitor.RECONNECT_DELAY)
+          }
+        }
+
+        if (this.closed === true) {
+          return true
+        }
+      }
+
+      if (! this.failover('listener could not be opened')) {
+        return false
+      }
+    }
+  }
+
+  /**
+   * Subscribe all channels to a newly opened listener
+   * and reconnect with a new listener when its connection
+   * drops
+   *
+   * @param {Listener} listener
+   * @return {void}
+   */
+  protected listen(listener: Listener): void {
+    this.listener = listener
+    this.channels.forEach((channel) => this.subscribeListener(listener, channel))
+
+    // events that happened while disconnected are read once
+    this.poll().catch((e) => this.debug('Could not read the transaction status: ' + e))
+
+    clearInterval(this.heartbeatTimer)
+    this.heartbeatTimer = setInterval(() => {
+      if (this.closed === true || listener.isOpen()) {
+        return
+      }
+
+      clearInterval(this.heartbeatTimer)
+      this.logger.log(chalk.yellow('Node ' + this.getEndpointUrl() + ' listener connection closed, reconnecting'))
+      this.listener = undefined
+      this.connect().then((connected) => connected === false && this.startPolling())
+    }, TransactionMonitor.HEARTBEAT_INTERVAL)
+  }
+
+  /**
+   * Poll the transaction status instead of listening
+   *
+   * @return {void}
+   */
+  protected startPolling(): void {
+    if (this.closed === true || this.isPolling()) {
+      return
+    }
+
+    this.logger.log(chalk.yellow('No listener available, polling the transaction status of ' + this.getEndpointUrl()))
+
+    const next = () => {
+      this.pollingTimer = setTimeout(() => {
+        this.poll()
+          .catch((e) => {
+            // the next node is polled after a failure
+            this.debug('Could not read the transaction status: ' + e)
+            this.failover('status polling failed')
+          })
+          .then(() => this.closed === false && next())
+      }, TransactionMonitor.POLLING_INTERVAL)
+    }
+
+    next()
+  }
+
+  /**
+   * Read the status of all subscribed transactions and
+   * emit the events that were not yet emitted
+   *
+   * @return {Promise<void>}
+   */
+  protected async poll(): Promise<void> {
+    const endpointUrl = this.getEndpointUrl()
+    const transactionHttp = new TransactionHttp(endpointUrl)
+    const hashes = this.channels.map((channel) => channel.hash)
+                                .filter((hash, i, self) => undefined !== hash && self.indexOf(hash) === i)
+
+    for (const hash of hashes) {
+      const status = await transactionHttp.getTransactionStatus(hash).toPromise()
+        .catch((e) => undefined) // unknown hashes are not announced yet
+      if (undefined === status) {
+        continue
+      }
+
+      const group = String(status.group)
+      const channels = this.channels.filter((channel) => channel.hash === hash)
+
+      for (const channel of channels) {
+        if (channel.name === 'status' && group === 'failed') {
+          this.emit(channel, hash, {
+            address: channel.address,
+            hash,
+            code: String(status.code),
+            deadline: status.deadline,
+          } as TransactionStatusError)
+        }
+        else if (channel.name === 'confirmed' && group === 'confirmed') {
+          this.emit(channel, hash, await transactionHttp.getTransaction(hash).toPromise())
+        }
+        else if (channel.name === 'unconfirmedAdded' && ['unconfirmed', 'confirmed'].indexOf(group) !== -1) {
+          this.emit(channel, hash, undefined)
+        }
+        else if (channel.name === 'aggregateBondedAdded' && ['partial', 'unconfirmed', 'confirmed'].indexOf(group) !== -1) {
+          this.emit(channel, hash, undefined)
+        }
+        else if (channel.name === 'cosignatureAdded' && group === 'partial') {
+          const partials = await new AccountHttp(endpointUrl).getAccountPartialTransactions(channel.address).toPromise()
+          const partial = partials.find((transaction) => transaction.transactionInfo.hash === hash)
+          if (undefined !== partial) {
+            partial.cosignatures.forEach((cosignature) => this.emit(channel, cosignature.signer.publicKey,
+              new CosignatureSignedTransaction(hash, cosignature.signature, cosignature.signer.publicKey)))
+          }
+        }
+      }
+    }
+
+    // new blocks are read from the chain height
+    const blockChannels = this.channels.filter((channel) => channel.name === 'newBlock')
+    if (blockChannels.length && this.isPolling()) {
+      const height = await new ChainHttp(endpointUrl).getBlockchainHeight().toPromise()
+      if (height.compact() > this.chainHeight) {
+        this.chainHeight = height.compact()
+        const block = await new BlockHttp(endpointUrl).getBlockByHeight(height).toPromise()
+        blockChannels.forEach((channel) => this.emit(channel, height.toString(), block))
+      }
+    }
+  }
+
+  /**
+   * Wait for `ms` milliseconds
+   *
+   * @param {number} ms
+   * @return {Promise<void>}
+   */
+  protected sleep(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => setTimeout(resolve, ms))
+  }
+
+  /**
+   * Display a debug message (--debug)
+   *
+   * @param {string} message
+   * @return {void}
+   */
+  protected debug(message: string): void {
+    if (this.enableDebug === true) {
+      this.logger.log(chalk.yellow(message))
+    }
+  }
+}
@@ -17,28 +17,103 @@
 import {ExpectedError} from 'clime';
 import {
     Account,
-    Transaction,
+    AggregateTransactionInfo,
+    Convert,
+    CosignatureSignedTransaction,
+    KeyPair,
+    NetworkType,
+    PublicAccount,
     SignedTransaction,
-    AggregateTransaction,
+    Transaction,
+    TransactionInfo,
     TransactionType,
-    CosignatureSignedTransaction,
-    CosignatureTransaction,
 } from 'symbol-sdk';
+import { FeeStrategy } from './FeeStrategy';
+
+/**
+ * The data sent to a signer backend
+ *
+ * `data` holds the bytes to sign (hexadecimal). `payload`
+ * holds the unsigned transaction payload, or the hash of
+ * the transaction that is co-signed.
+ */
+export interface SignatureRequest {
+  type: 'transaction' | 'cosignature',
+  publicKey: string,
+  networkType: NetworkType,
+  generationHash: string,
+  transactionType?: TransactionType,
+  payload: string,
+  data: string,
+}
+
+export interface TransactionSigner {
+  /**
+   * The account that signs (transaction issuer or cosignatory)
+   * @var {PublicAccount}
+   */
+  readonly publicAccount: PublicAccount
+
+  /**
+   * Sign a transaction
+   *
+   * @return {Promise<SignedTransaction>}
+   */
+  sign(): Promise<SignedTransaction>
+
+  /**
+   * Sign an aggregate transaction *with cosignatories*
+   *
+   * @param {Account[]} cosignatories
+   * @return {Promise<SignedTransaction>}
+   */
+  cosign(cosignatories: Account[]): Promise<SignedTransaction>
+
+  /**
+   * Co-sign an announced aggregate transaction
+   *
+   * @return {Promise<CosignatureSignedTransaction>}
+   */
+  cosignAggregate(): Promise<CosignatureSignedTransaction>
+
+  /**
+   * Co-sign the payload of an aggregate transaction,
+   * e.g. from a transaction bundle
+   *
+   * @param {string} payload
+   * @return {Promise<CosignatureSignedTransaction>}
+   */
+  cosignPayload(payload: string): Promise<CosignatureSignedTransaction>
+}
+
+export abstract class AbstractTransactionSigner implements TransactionSigner {
+  /**
+   * Size of the transaction header before the signed bytes
+   * (size, reserved, signature, signer, reserved)
+   * @var {number}
+   */
+  public static HEADER_SIZE: number = 108
+
+  /**
+   * Size of the aggregate transaction header part that is signed
+   * @var {number}
+   */
+  public static AGGREGATE_SIGNED_SIZE: number = 52
 
-export class TransactionSigner {
   /**
    * Create a transaction signer instance
    *
-   * @param {Account}     account 
-   * @param {Transaction} transaction 
-   * @param {string}      generationHash 
+   * @param {PublicAccount} publicAccount
+   * @param {Transaction}   transaction 
+   * @param {string}        generationHash 
+   * @param {FeeStrategy}   feeStrategy
    */
   constructor(
     /**
      * The account used for signing (transaction issuer)
-     * @var {Account}
+     * @var {PublicAccount}
      */
-    protected readonly account: Account,
+    public readonly publicAccount: PublicAccount,
     /**
      * The transaction to sign
      * @var {Transaction}
@@ -48,25 +123,40 @@ export class TransactionSigner {
      * The network generation hash
      * @var {string}
      **/
-    protected readonly generationHash: string) {
+    protected readonly generationHash: string,
+    /**
+     * The fee strategy, sets the max fee before signing
+     * @var {FeeStrategy}
+     **/
+    protected readonly feeStrategy?: FeeStrategy) {
   }
 
+  /**
+   * Sign `request.data` with the key of `publicAccount`
+   *
+   * @param {SignatureRequest} request
+   * @return {Promise<string>} The signature (hexadecimal)
+   */
+  protected abstract signData(request: SignatureRequest): Promise<string>
+
   /**
    * Sign a transaction
    *
-   * @return {SignedTransaction}
+   * @return {Promise<SignedTransaction>}
    */
-  public sign(): SignedTransaction {
-    return this.account.sign(this.transaction, this.generationHash)
+  public async sign(): Promise<SignedTransaction> {
+    return await this.signTransaction(this.getTransactionWithFee())
   }
 
   /**
-   * Sign a transaction *with cosignatories*
+   * Sign an aggregate transaction *with cosignatories*
+   *
+   * Cosignatories are always local accounts.
    *
    * @param {Account[]} cosignatories
-   * @return {SignedTransaction}
+   * @return {Promise<SignedTransaction>}
    */
-  public cosign(cosignatories: Account[]): SignedTransaction {
+  public async cosign(cosignatories: Account[]): Promise<SignedTransaction> {
     const aggregateTypes = [
       TransactionType.AGGREGATE_COMPLETE,
       TransactionType.AGGREGATE_BONDED]
@@ -76,24 +166,164 @@ export class TransactionSigner {
       throw new ExpectedError('Expected aggregate transaction to co-sign, got transaction type ' + this.transaction.type + '.')
     }
 
-    return this.account.signTransactionWithCosignatories(
-      this.transaction as AggregateTransaction,
-      cosignatories,
-      this.generationHash
+    const signedTransaction = await this.signTransaction(this.getTransactionWithFee(cosignatories.length))
+    const hashBytes = Convert.hexToUint8(signedTransaction.hash)
+
+    // cosignatures are appended to the signed payload
+    let payload = signedTransaction.payload
+    cosignatories.forEach((cosigner) => {
+      const keyPair = KeyPair.createKeyPairFromPrivateKeyString(cosigner.privateKey)
+      payload += cosigner.publicKey + Convert.uint8ToHex(KeyPair.sign(keyPair, hashBytes))
+    })
+
+    return new SignedTransaction(
+      AbstractTransactionSigner.setPayloadSize(payload),
+      signedTransaction.hash,
+      signedTransaction.signerPublicKey,
+      signedTransaction.type,
+      signedTransaction.networkType,
     )
   }
 
   /**
-   * Sign an aggregate transaction with cosignatory `account`
+   * Co-sign an announced aggregate transaction
    *
-   * @param {Account[]} cosignatories
-   * @return {SignedTransaction}
-   */
-  public cosignAggregate(
-    account: Account
-  ): CosignatureSignedTransaction
-  {
-    const cosignatureTransaction = CosignatureTransaction.create(this.transaction as AggregateTransaction);
-    return account.signCosignatureTransaction(cosignatureTransaction);
+   * @return {Promise<CosignatureSignedTransaction>}
+   */
+  public async cosignAggregate(): Promise<CosignatureSignedTransaction> {
+    const info = this.transaction.transactionInfo as TransactionInfo | AggregateTransactionInfo
+    if (undefined === info || ! info.hash) {
+      throw new ExpectedError('Only announced aggregate transactions can be co-signed.')
+    }
+
+    return await this.cosignHash(info.hash)
+  }
+
+  /**
+   * Co-sign the payload of an aggregate transaction,
+   * e.g. from a transaction bundle
+   *
+   * The payload is co-signed as is, its hash covers
+   * the initiator's signature.
+   *
+   * @param {string} payload
+   * @return {Promise<CosignatureSignedTransaction>}
+   */
+  public async cosignPayload(payload: string): Promise<CosignatureSignedTransaction> {
+    const generationHashBytes = Array.from(Convert.hexToUint8(this.generationHash))
+    return await this.cosignHash(Transaction.createTransactionHash(payload, generationHashBytes))
+  }
+
+  /**
+   * Sign a transaction with the signer backend
+   *
+   * @param {Transaction} transaction
+   * @return {Promise<SignedTransaction>}
+   */
+  protected async signTransaction(transaction: Transaction): Promise<SignedTransaction> {
+    const bytes = Convert.hexToUint8(transaction.serialize())
+    const generationHashBytes = Convert.hexToUint8(this.generationHash)
+    const aggregateTypes = [
+      TransactionType.AGGREGATE_COMPLETE,
+      TransactionType.AGGREGATE_BONDED]
+
+    // aggregates sign their header only, the transactions hash covers the rest
+    let body = bytes.slice(AbstractTransactionSigner.HEADER_SIZE)
+    if (aggregateTypes.includes(transaction.type)) {
+      body = body.slice(0, AbstractTransactionSigner.AGGREGATE_SIGNED_SIZE)
+    }
+
+    const data = Convert.uint8ToHex(generationHashBytes) + Convert.uint8ToHex(body)
+    const signature = await this.requestSignature({
+      type: 'transaction',
+      publicKey: this.publicAccount.publicKey,
+      networkType: transaction.networkType,
+      generationHash: this.generationHash,
+      transactionType: transaction.type,
+      payload: Convert.uint8ToHex(bytes),
+      data,
+    })
+
+    // size and reserved bytes, then signature and signer
+    const payload = Convert.uint8ToHex(bytes.slice(0, 8))
+                  + signature
+                  + this.publicAccount.publicKey
+                  + Convert.uint8ToHex(bytes.slice(8 + 64 + 32))
+
+    return new SignedTransaction(
+      payload,
+      Transaction.createTransactionHash(payload, Array.from(generationHashBytes)),
+      this.publicAccount.publicKey,
+      transaction.type,
+      transaction.networkType,
+    )
+  }
+
+  /**
+   * Co-sign a transaction hash with the signer backend
+   *
+   * @param {string} hash
+   * @return {Promise<CosignatureSignedTransaction>}
+   */
+  protected async cosignHash(hash: string): Promise<CosignatureSignedTransaction> {
+    const signature = await this.requestSignature({
+      type: 'cosignature',
+      publicKey: this.publicAccount.publicKey,
+      networkType: this.publicAccount.address.networkType,
+      generationHash: this.generationHash,
+      transactionType: this.transaction.type,
+      payload: hash,
+      data: hash,
+    })
+
+    return new CosignatureSignedTransaction(hash, signature, this.publicAccount.publicKey)
+  }
+
+  /**
+   * Request a signature and verify it against the public key
+   *
+   * @param {SignatureRequest} request
+   * @return {Promise<string>}
+   */
+  protected async requestSignature(request: SignatureRequest): Promise<string> {
+    const signature = (await this.signData(request) || '').toUpperCase()
+
+    const isValid = /^[0-9A-F]{128}$/.test(signature) && KeyPair.verify(
+      Convert.hexToUint8(this.publicAccount.publicKey),
+      Convert.hexToUint8(request.data),
+      Convert.hexToUint8(signature),
+    )
+
+    if (! isValid) {
+      throw new ExpectedError('The signer returned an invalid signature for account ' + this.publicAccount.address.plain() + '.')
+    }
+
+    return signature
+  }
+
+  /**
+   * Get the transaction with the max fee of the fee strategy
+   *
+   * @param {number} cosignatures
+   * @return {Transaction}
+   */
+  protected getTransactionWithFee(cosignatures?: number): Transaction {
+    if (undefined === this.feeStrategy) {
+      return this.transaction
+    }
+
+    return this.feeStrategy.apply(this.transaction, this.publicAccount, cosignatures)
+  }
+
+  /**
+   * Update the size (first 4 bytes, little endian) of a payload
+   *
+   * @param {string} payload
+   * @return {string}
+   */
+  protected static setPayloadSize(payload: string): string {
+    const size = new DataView(new ArrayBuffer(4))
+    size.setUint32(0, payload.length / 2, true)
+    return Convert.uint8ToHex(new Uint8Array(size.buffer)) + payload.substr(8)
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,149 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    UInt64,
+    Deadline,
+    AggregateTransaction,
+    MosaicId,
+    NamespaceId,
+} from 'symbol-sdk';
+
+import { ContractContext } from '../kernel/ContractContext';
+import { ContractResult } from '../kernel/ContractResult';
+
+/**
+ * Parameters of the `CreateAsset` contract
+ */
+export interface CreateAssetParameters {
+  /**
+   * Friendly name for the created asset, registered as namespace
+   * @var {string}
+   */
+  name: string
+
+  /**
+   * Number of decimal places (0-6)
+   * @var {number}
+   */
+  divisibility: number
+
+  /**
+   * Total supply to create (absolute amount)
+   * @var {number|string}
+   */
+  supply: number | string
+
+  /**
+   * Flag properties of the asset (Ex.: Transferable|SupplyMutable)
+   * @var {string}
+   */
+  flags: string
+}
+
+/**
+ * Result of the `CreateAsset` contract
+ */
+export type CreateAssetResult = ContractResult & {
+  /**
+   * The created mosaic
+   * @var {MosaicId}
+   */
+  mosaicId: MosaicId
+
+  /**
+   * The namespace linked to the mosaic
+   * @var {NamespaceId}
+   */
+  namespaceId: NamespaceId
+}
+
+/**
+ * Create an asset with namespace registration(s), mosaic
+ * definition, supply and alias in one aggregate transaction
+ *
+ * @param {CreateAssetParameters} parameters
+ * @param {ContractContext}       context
+ * @return {Promise<CreateAssetResult>}
+ */
+export async function createAsset(
+  parameters: CreateAssetParameters,
+  context: ContractContext,
+): Promise<CreateAssetResult> {
+  const account = context.signerAccount
+  if (undefined === account) {
+    throw new ExpectedError('The contract \'CreateAsset\' requires a signing account.')
+  }
+
+  // force-validate values
+  const divisibility = parameters.divisibility < 0 ? 0
+                     : parameters.divisibility > 6 ? 6
+                     : parameters.divisibility
+  const flags = (parameters.flags || '').toLowerCase()
+
+  // Contract Action #1: register namespace(s)
+  const namespaceTxes = await context.factory.getNamespaceRegistrations(
+    account,
+    parameters.name,
+    context.network.getNamespaceDuration()
+  )
+
+  // Contract Action #2: create MosaicDefinition transaction
+  const mosaicDefinitionTx = context.factory.getMosaicDefinitionTransaction(
+    account,
+    divisibility,
+    flags.indexOf('supplymutable') !== -1,
+    flags.indexOf('transferable') !== -1,
+    flags.indexOf('restrictable') !== -1,
+  )
+
+  // Contract Action #3: create MosaicSupplyChange transaction
+  const mosaicSupplyTx = context.factory.getMosaicSupplyChangeTransaction(
+    mosaicDefinitionTx.mosaicId,
+    UInt64.fromUint(parseInt('' + parameters.supply))
+  )
+
+  // Contract Action #4: create MosaicAlias transaction to link lower level namespace to mosaic
+  const aliasTx = context.factory.getMosaicAliasTransaction(
+    parameters.name,
+    mosaicDefinitionTx.mosaicId
+  )
+
+  // Contract Execution: wrap all transactions in an aggregate
+  const aggregateTx = AggregateTransaction.createComplete(
+    Deadline.create(),
+    [].concat(
+      namespaceTxes,
+      [
+        mosaicDefinitionTx.toAggregate(account),
+        mosaicSupplyTx.toAggregate(account),
+        aliasTx.toAggregate(account)
+      ]
+    ),
+    context.networkType,
+    [],
+  )
+
+  // sign the aggregate transaction with `account` and broadcast
+  const signedTransaction = await context.getSigner(account, aggregateTx).sign()
+  const result = await context.broadcaster.announce(account, signedTransaction)
+
+  return Object.assign(result, {
+    mosaicId: mosaicDefinitionTx.mosaicId,
+    namespaceId: new NamespaceId(parameters.name),
+  })
+}
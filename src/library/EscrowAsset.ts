@@ -0,0 +1,136 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    UInt64,
+    Deadline,
+    AggregateTransaction,
+    NamespaceId,
+    PublicAccount,
+    Mosaic,
+} from 'symbol-sdk';
+
+import { ContractContext } from '../kernel/ContractContext';
+import { ContractResult } from '../kernel/ContractResult';
+import { AssetAmount } from './AssetAmount';
+
+/**
+ * Parameters of the `EscrowAsset` contract
+ */
+export interface EscrowAssetParameters {
+  /**
+   * Public key of the taker (second party)
+   * @var {string}
+   */
+  taker: string
+
+  /**
+   * Left hand asset, sent to the taker
+   * @var {AssetAmount}
+   */
+  asset1: AssetAmount
+
+  /**
+   * Right hand asset, sent by the taker
+   * @var {AssetAmount}
+   */
+  asset2: AssetAmount
+
+  /**
+   * Asset that is locked (spam protection), defaults
+   * to the locked funds per aggregate of the network
+   * @var {Mosaic}
+   */
+  lock?: Mosaic
+}
+
+/**
+ * Result of the `EscrowAsset` contract
+ */
+export type EscrowAssetResult = ContractResult & {
+  /**
+   * The taker (second party)
+   * @var {PublicAccount}
+   */
+  taker: PublicAccount
+}
+
+/**
+ * Exchange assets with a taker, the aggregate bonded transaction
+ * must be co-signed by the taker *within 48 hours*
+ *
+ * The promise resolves once the taker co-signed and
+ * the aggregate transaction is confirmed.
+ *
+ * @param {EscrowAssetParameters} parameters
+ * @param {ContractContext}       context
+ * @return {Promise<EscrowAssetResult>}
+ */
+export async function escrowAsset(
+  parameters: EscrowAssetParameters,
+  context: ContractContext,
+): Promise<EscrowAssetResult> {
+  const account = context.signerAccount
+  if (undefined === account) {
+    throw new ExpectedError('The contract \'EscrowAsset\' requires a signing account.')
+  }
+
+  const taker = PublicAccount.createFromPublicKey(parameters.taker, context.networkType)
+
+  // Contract Action #1: create left hand transfer
+  const leftHandTransfer = context.factory.getTransferTransaction(
+    taker.address,
+    new NamespaceId(parameters.asset1.mosaic),
+    parameters.asset1.amount,
+    'escrow 1st party',
+  )
+
+  // Contract Action #2: create right hand transfer
+  const rightHandTransfer = context.factory.getTransferTransaction(
+    account.address,
+    new NamespaceId(parameters.asset2.mosaic),
+    parameters.asset2.amount,
+    'escrow 2nd party',
+  )
+
+  // Contract Execution: wrap all transactions in an aggregate
+  const aggregateTx = AggregateTransaction.createBonded(
+    Deadline.create(),
+    [
+      leftHandTransfer.toAggregate(account),
+      rightHandTransfer.toAggregate(taker),
+    ],
+    context.networkType,
+    [],
+  )
+
+  // sign the aggregate transaction with `account`
+  const signedTransaction = await context.getSigner(account, aggregateTx).sign()
+
+  // create hash lock (spam protected partial transactions pool)
+  const lockFundsTransaction = context.factory.getHashLockTransaction(
+    parameters.lock || new Mosaic(context.network.getCurrency(), UInt64.fromUint(context.network.lockAmount)),
+    context.network.getHashLockDuration(),
+    signedTransaction,
+  )
+
+  // sign hash lock transaction and broadcast
+  const signedLockFundsTx = await context.getSigner(account, lockFundsTransaction).sign()
+  const result = await context.broadcaster.announcePartial(account, signedLockFundsTx, signedTransaction)
+
+  return Object.assign(result, { taker })
+}
@@ -0,0 +1,242 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    UInt64,
+    Deadline,
+    Address,
+    AggregateTransaction,
+    InnerTransaction,
+    Mosaic,
+    MosaicId,
+    NamespaceId,
+    NetworkType,
+    PublicAccount,
+} from 'symbol-sdk';
+
+import { ContractContext } from '../kernel/ContractContext';
+import { ContractManifest } from '../kernel/ContractManifest';
+import { ContractResult } from '../kernel/ContractResult';
+import { Placeholders } from '../kernel/Placeholders';
+
+/**
+ * Result of a manifest contract
+ */
+export type ExecuteManifestResult = ContractResult & {
+  /**
+   * The outputs of the transactions by id, e.g. the
+   * `mosaicId` of a `mosaic-definition` transaction
+   * @var {Object}
+   */
+  outputs: Object
+}
+
+/**
+ * Execute the contract declared by a manifest, the inner
+ * transactions are wrapped in a complete aggregate or in
+ * a bonded aggregate that other roles co-sign
+ *
+ * @param {ContractManifest}  manifest
+ * @param {Object}            values    The input values by name
+ * @param {ContractContext}   context
+ * @return {Promise<ExecuteManifestResult>}
+ */
+export async function executeManifest(
+  manifest: ContractManifest,
+  values: Object,
+  context: ContractContext,
+): Promise<ExecuteManifestResult> {
+  const account = context.signerAccount
+  if (undefined === account) {
+    throw new ExpectedError('The contract \'' + manifest.name + '\' requires a signing account.')
+  }
+
+  const variables: Object = Object.assign({}, manifest.resolveInputs(values), {
+    [ContractManifest.SIGNER_ROLE]: { publicKey: account.publicKey, address: account.address.plain() },
+  })
+
+  // resolve the accounts of the roles
+  const signers: {[role: string]: PublicAccount} = { [ContractManifest.SIGNER_ROLE]: account }
+  for (const role of Object.keys(manifest.roles)) {
+    const key = Placeholders.interpolate(manifest.roles[role], variables)
+    signers[role] = await context.factory.getPublicAccount(String(key))
+    variables[role] = { publicKey: signers[role].publicKey, address: signers[role].address.plain() }
+  }
+
+  // Contract Actions: create the inner transactions in order
+  const outputs = {}
+  let innerTransactions: InnerTransaction[] = []
+  for (const transaction of manifest.transactions) {
+    const signer = signers[transaction.signer || ContractManifest.SIGNER_ROLE]
+    const field = (name: string) => Placeholders.interpolate(transaction[name], variables)
+
+    switch (transaction.type) {
+      case 'transfer':
+        innerTransactions.push(context.factory.getTransferTransaction(
+          getAddress(field('recipient'), context.networkType),
+          getMosaicId(field('mosaic')),
+          getAmount(field('amount'), transaction.type),
+          undefined !== transaction.message ? String(field('message')) : undefined,
+        ).toAggregate(signer))
+        break
+
+      case 'namespace-registration':
+        innerTransactions = innerTransactions.concat(await context.factory.getNamespaceRegistrations(
+          signer,
+          String(field('name')),
+          undefined !== transaction.duration ? getAmount(field('duration'), transaction.type) : context.network.getNamespaceDuration(),
+        ))
+        break
+
+      case 'mosaic-definition':
+        const definition = context.factory.getMosaicDefinitionTransaction(
+          signer,
+          undefined !== transaction.divisibility ? getAmount(field('divisibility'), transaction.type) : 0,
+          true === field('supplyMutable') || 'true' === field('supplyMutable'),
+          true === field('transferable') || 'true' === field('transferable'),
+          true === field('restrictable') || 'true' === field('restrictable'),
+        )
+
+        innerTransactions.push(definition.toAggregate(signer))
+        if (undefined !== transaction.id) {
+          outputs[transaction.id] = variables[transaction.id] = { mosaicId: definition.mosaicId }
+        }
+        break
+
+      case 'mosaic-supply-change':
+        innerTransactions.push(context.factory.getMosaicSupplyChangeTransaction(
+          getMosaicId(field('mosaic')),
+          UInt64.fromUint(getAmount(field('amount'), transaction.type)),
+        ).toAggregate(signer))
+        break
+
+      case 'mosaic-alias':
+        const mosaicId = getMosaicId(field('mosaic'))
+        if (! (mosaicId instanceof MosaicId)) {
+          throw new ExpectedError('Only mosaic ids can be linked to a namespace, got ' + mosaicId.fullName + '.')
+        }
+
+        innerTransactions.push(context.factory.getMosaicAliasTransaction(
+          String(field('namespace')),
+          mosaicId,
+        ).toAggregate(signer))
+        break
+    }
+  }
+
+  // Contract Execution: complete aggregates are signed and announced
+  if (manifest.aggregate === ContractManifest.AGGREGATE_COMPLETE) {
+    const aggregateTx = AggregateTransaction.createComplete(
+      Deadline.create(),
+      innerTransactions,
+      context.networkType,
+      [],
+    )
+
+    const signedTransaction = await context.getSigner(account, aggregateTx).sign()
+    const result = await context.broadcaster.announce(account, signedTransaction)
+    return Object.assign(result, { outputs })
+  }
+
+  // bonded aggregates wait for the co-signatures of other roles
+  const aggregateTx = AggregateTransaction.createBonded(
+    Deadline.create(),
+    innerTransactions,
+    context.networkType,
+    [],
+  )
+
+  const signedTransaction = await context.getSigner(account, aggregateTx).sign()
+  const lock = undefined !== manifest.lock
+    ? new Mosaic(
+        getMosaicId(Placeholders.interpolate(manifest.lock.mosaic, variables)),
+        UInt64.fromUint(getAmount(Placeholders.interpolate(manifest.lock.amount, variables), 'lock')))
+    : new Mosaic(context.network.getCurrency(), UInt64.fromUint(context.network.lockAmount))
+
+  const lockFundsTransaction = context.factory.getHashLockTransaction(
+    lock,
+    context.network.getHashLockDuration(),
+    signedTransaction,
+  )
+
+  const signedLockFundsTx = await context.getSigner(account, lockFundsTransaction).sign()
+  const result = await context.broadcaster.announcePartial(account, signedLockFundsTx, signedTransaction)
+  return Object.assign(result, { outputs })
+}
+
+/**
+ * Get the address of a recipient given by address
+ * or public key
+ *
+ * @param {any}         value
+ * @param {NetworkType} networkType
+ * @return {Address}
+ */
+const getAddress = (
+  value: any,
+  networkType: NetworkType,
+): Address => {
+  if (value instanceof Address) {
+    return value
+  }
+  else if (/^[0-9A-Fa-f]{64}$/.test(String(value))) {
+    return PublicAccount.createFromPublicKey(String(value), networkType).address
+  }
+
+  try {
+    return Address.createFromRawAddress(String(value))
+  }
+  catch (e) {
+    throw new ExpectedError('Invalid recipient ' + value + ', expected an address or a public key.')
+  }
+}
+
+/**
+ * Get a mosaic given by id (16 hexadecimal characters)
+ * or by namespace name
+ *
+ * @param {any} value
+ * @return {MosaicId|NamespaceId}
+ */
+const getMosaicId = (
+  value: any,
+): MosaicId | NamespaceId => {
+  if (value instanceof MosaicId || value instanceof NamespaceId) {
+    return value
+  }
+
+  return /^[0-9A-Fa-f]{16}$/.test(String(value)) ? new MosaicId(String(value)) : new NamespaceId(String(value))
+}
+
+/**
+ * Get an absolute amount, amounts are non-negative integers
+ *
+ * @param {any}     value
+ * @param {string}  where   e.g. the transaction type
+ * @return {number}
+ */
+const getAmount = (
+  value: any,
+  where: string,
+): number => {
+  const amount = Number(value)
+  if (isNaN(amount) || amount < 0 || Math.floor(amount) !== amount) {
+    throw new ExpectedError('Invalid amount ' + value + ' in ' + where + ', expected an absolute amount.')
+  }
+
+  return amount
+}
@@ -0,0 +1,394 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    Account,
+    BlockHttp,
+    NetworkType,
+    PublicAccount,
+    Transaction,
+    UInt64,
+} from 'symbol-sdk';
+import { ContractConstants } from '../kernel/Contract';
+import { ContractContext } from '../kernel/ContractContext';
+import { TransactionFactory } from '../kernel/TransactionFactory';
+import { TransactionSigner } from '../kernel/TransactionSigner';
+import { TransactionBroadcaster } from '../kernel/TransactionBroadcaster';
+import { LocalSigner } from '../kernel/LocalSigner';
+import { RemoteSigner } from '../kernel/RemoteSigner';
+import { CommandSigner } from '../kernel/CommandSigner';
+import { NodeSelector } from '../kernel/NodeSelector';
+import { FeeStrategy } from '../kernel/FeeStrategy';
+import { NetworkConstants } from '../kernel/NetworkConstants';
+import { ConfirmationPolicy } from '../kernel/ConfirmationPolicy';
+import { Logger } from '../kernel/Logger';
+
+/**
+ * Options of a library context
+ */
+export interface LibraryOptions {
+  /**
+   * The node URL, defaults to the testnet node
+   * @var {string}
+   */
+  endpointUrl?: string
+
+  /**
+   * The node URLs used for failover, the healthiest one is used
+   * @var {string[]}
+   */
+  nodes?: string[]
+
+  /**
+   * The explorer URL
+   * @var {string}
+   */
+  explorerUrl?: string
+
+  /**
+   * The network properties, used when the node does not expose them
+   * @var {NetworkConstants}
+   */
+  network?: NetworkConstants
+
+  /**
+   * The signing account, signed with locally
+   * @var {Account}
+   */
+  account?: Account
+
+  /**
+   * The public key of the signing account of a remote signer
+   * @var {string}
+   */
+  signerPublicKey?: string
+
+  /**
+   * The URL of a remote signing service
+   * @var {string}
+   */
+  signerUrl?: string
+
+  /**
+   * The command of an external signer
+   * @var {string}
+   */
+  signerCommand?: string
+
+  /**
+   * The fee strategy (slowest, average, fastest)
+   * @var {string}
+   */
+  feeStrategy?: string
+
+  /**
+   * The maximum fee of any transaction (absolute amount)
+   * @var {number}
+   */
+  maxFee?: number
+
+  /**
+   * The minimum fee multiplier accepted by the nodes
+   * @var {number}
+   */
+  minFeeMultiplier?: number
+
+  /**
+   * Whether transactions are signed but never announced
+   * @var {boolean}
+   */
+  dryRun?: boolean
+
+  /**
+   * The number of blocks until a transaction is confirmed, including its own block
+   * @var {number}
+   */
+  confirmations?: number
+
+  /**
+   * Whether to wait for the finalization of the block of a transaction
+   * @var {boolean}
+   */
+  finalization?: boolean
+
+  /**
+   * The overall timeout of an execution in seconds
+   * @var {number}
+   */
+  timeout?: number
+
+  /**
+   * The timeout of each phase in seconds (e.g. `{'hash-lock': 300}`)
+   * @var {Object}
+   */
+  phaseTimeouts?: {[phase: string]: number}
+
+  /**
+   * The name used in messages and results
+   * @var {string}
+   */
+  name?: string
+
+  /**
+   * Where progress messages are written, defaults to the standard output
+   * @var {Logger}
+   */
+  logger?: Logger
+}
+
+export class LibraryContext implements ContractContext {
+  /**
+   * The connection endpoint URL
+   * @var {string}
+   */
+  public endpointUrl: string
+
+  /**
+   * The explorer URL
+   * @var {string}
+   */
+  public explorerUrl: string
+
+  /**
+   * The network type
+   * @var {NetworkType}
+   */
+  public networkType: NetworkType
+
+  /**
+   * The network generation hash
+   * @var {string}
+   */
+  public generationHash: string
+
+  /**
+   * Whether transactions are signed but never announced
+   * @var {boolean}
+   */
+  public dryRun: boolean
+
+  /**
+   * The network constants (currency, block target, limits)
+   * @var {NetworkConstants}
+   */
+  public network: NetworkConstants
+
+  /**
+   * The fee strategy used when signing transactions
+   * @var {FeeStrategy}
+   */
+  public feeStrategy: FeeStrategy
+
+  /**
+   * When announced transactions are considered confirmed, and timeouts
+   * @var {ConfirmationPolicy}
+   */
+  public confirmationPolicy: ConfirmationPolicy
+
+  /**
+   * Where progress messages are written
+   * @var {Logger}
+   */
+  public logger: Logger
+
+  /**
+   * The transaction factory
+   * @var {TransactionFactory}
+   */
+  public factory: TransactionFactory
+
+  /**
+   * The transaction broadcaster
+   * @var {TransactionBroadcaster}
+   */
+  public broadcaster: TransactionBroadcaster
+
+  /**
+   * The signing account
+   * @var {PublicAccount}
+   */
+  public signerAccount: PublicAccount
+
+  /**
+   * Creates signers for the signing account
+   * @var {(transaction: Transaction) => TransactionSigner}
+   */
+  protected signerFactory: (transaction: Transaction) => TransactionSigner
+
+  /**
+   * Create a library context, use `LibraryContext.connect()`
+   *
+   * @param {LibraryOptions} options
+   */
+  protected constructor(
+    /**
+     * The options of the context
+     * @var {LibraryOptions}
+     */
+    protected readonly options: LibraryOptions) {
+    this.endpointUrl = options.endpointUrl || ContractConstants.DEFAULT_NODE_URL
+    this.explorerUrl = options.explorerUrl || ContractConstants.DEFAULT_EXPLORER_URL
+    this.dryRun = options.dryRun === true
+    this.logger = options.logger || new Logger()
+    this.confirmationPolicy = new ConfirmationPolicy(
+      undefined !== options.confirmations ? options.confirmations : 1,
+      options.finalization === true,
+      options.timeout || 0,
+      options.phaseTimeouts || {},
+    )
+  }
+
+  /**
+   * Connect to the network and configure the signing account
+   *
+   * @param {LibraryOptions} options
+   * @return {Promise<LibraryContext>}
+   */
+  public static async connect(
+    options: LibraryOptions = {},
+  ): Promise<LibraryContext> {
+    const context = new LibraryContext(options)
+    const nodes = await context.selectNodes()
+
+    // read first block of the network to identify
+    // generationHash and networkType
+    try {
+      const firstBlock = await new BlockHttp(context.endpointUrl).getBlockByHeight(UInt64.fromUint(1)).toPromise()
+      context.networkType = firstBlock.networkType
+      context.generationHash = firstBlock.generationHash
+    }
+    catch (e) {
+      throw new ExpectedError('Could not connect to ' + context.endpointUrl + ': ' + (e.message || e))
+    }
+
+    // older nodes do not expose their network properties or fees
+    context.network = await NetworkConstants.load(context.endpointUrl).catch((e) => {
+      if (undefined === options.network) {
+        throw new ExpectedError('Could not read the network properties of ' + context.endpointUrl + ', '
+                              + 'provide them with the network option.')
+      }
+
+      return options.network
+    })
+    context.feeStrategy = await FeeStrategy.create(
+      context.endpointUrl,
+      options.feeStrategy || FeeStrategy.AVERAGE,
+      options.maxFee,
+      options.minFeeMultiplier,
+    ).catch(() => new FeeStrategy(
+      options.minFeeMultiplier || FeeStrategy.MIN_FEE_MULTIPLIER,
+      options.maxFee,
+    ))
+
+    context.factory = TransactionFactory.create(context.endpointUrl, context.networkType, false, context.network)
+    context.broadcaster = new TransactionBroadcaster(
+      context,
+      context.explorerUrl,
+      context.endpointUrl,
+      false,
+      nodes.filter((url) => url !== context.endpointUrl),
+    )
+
+    context.configureSigner()
+    return context
+  }
+
+  /**
+   * Get the name used in messages and results
+   *
+   * @return {string}
+   */
+  public getName(): string {
+    return this.options.name || 'SmartContracts'
+  }
+
+  /**
+   * Get a transaction signer for `account`
+   *
+   * @param {Account|PublicAccount} account 
+   * @param {Transaction}           transaction 
+   * @return {TransactionSigner}
+   */
+  public getSigner(
+    account: Account | PublicAccount,
+    transaction: Transaction
+  ): TransactionSigner
+  {
+    if (account instanceof Account) {
+      return new LocalSigner(account, transaction, this.generationHash, this.feeStrategy)
+    }
+    else if (undefined !== this.signerAccount && account.publicKey === this.signerAccount.publicKey) {
+      return this.signerFactory(transaction)
+    }
+
+    throw new ExpectedError('No signer is configured for account ' + account.address.plain() + '.')
+  }
+
+  /**
+   * Select the healthiest of the failover nodes
+   *
+   * @return {Promise<string[]>}  The healthy nodes
+   */
+  protected async selectNodes(): Promise<string[]> {
+    if (! this.options.nodes || ! this.options.nodes.length) {
+      return [this.endpointUrl]
+    }
+
+    const reports = await new NodeSelector().rank(this.options.nodes)
+    const healthy = reports.filter((report) => report.isHealthy())
+    if (! healthy.length) {
+      throw new ExpectedError('None of the configured nodes is healthy.')
+    }
+
+    this.endpointUrl = healthy[0].url
+    return healthy.map((report) => report.url)
+  }
+
+  /**
+   * Configure the signer of the signing account, if any
+   *
+   * @return {void}
+   */
+  protected configureSigner(): void {
+    const account = this.options.account
+    if (undefined !== account) {
+      this.signerAccount = account.publicAccount
+      this.signerFactory = (transaction) => new LocalSigner(account, transaction, this.generationHash, this.feeStrategy)
+      return
+    }
+
+    if (! this.options.signerPublicKey) {
+      return
+    }
+
+    const publicAccount = PublicAccount.createFromPublicKey(this.options.signerPublicKey, this.networkType)
+    const url = this.options.signerUrl
+    const command = this.options.signerCommand
+
+    if (url && url.length) {
+      this.signerFactory = (transaction) => new RemoteSigner(url, publicAccount, transaction, this.generationHash, this.feeStrategy)
+    }
+    else if (command && command.length) {
+      this.signerFactory = (transaction) => new CommandSigner(command, publicAccount, transaction, this.generationHash, this.feeStrategy)
+    }
+    else {
+      throw new ExpectedError('The signer of public key ' + this.options.signerPublicKey + ' must have a "signerUrl" or a "signerCommand".')
+    }
+
+    this.signerAccount = publicAccount
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+
+import { ContractContext } from '../kernel/ContractContext';
+import { ContractResult } from '../kernel/ContractResult';
+
+/**
+ * Parameters of the `OpenTimestamp` contract
+ */
+export interface OpenTimestampParameters {
+  /**
+   * Data that should be stamped
+   * @var {string}
+   */
+  data: string
+}
+
+/**
+ * Result of the `OpenTimestamp` contract
+ */
+export type OpenTimestampResult = ContractResult & {
+  /**
+   * The timestamp saved on-chain with the data
+   * @var {number}
+   */
+  timestamp: number
+}
+
+/**
+ * Stamp data publicly with a transfer to self, the timestamp
+ * of the execution is saved on-chain in the message field
+ *
+ * @param {OpenTimestampParameters} parameters
+ * @param {ContractContext}         context
+ * @return {Promise<OpenTimestampResult>}
+ */
+export async function openTimestamp(
+  parameters: OpenTimestampParameters,
+  context: ContractContext,
+): Promise<OpenTimestampResult> {
+  const account = context.signerAccount
+  if (undefined === account) {
+    throw new ExpectedError('The contract \'OpenTimestamp\' requires a signing account.')
+  }
+
+  // Contract Action #1: create DTO
+  const timestamp = (new Date()).valueOf()
+  const timestampDTO = JSON.stringify({
+    'timestamp': timestamp,
+    'data': parameters.data
+  })
+
+  // Contract Action #2: create transfer transaction
+  const timestampTransfer = context.factory.getTransferTransaction(
+    account.address, // sent to self
+    context.network.getCurrency(),
+    0,
+    timestampDTO, // attach DTO to transfer message
+  )
+
+  // sign the transfer transaction with `account` and broadcast
+  const signedTransaction = await context.getSigner(account, timestampTransfer).sign()
+  const result = await context.broadcaster.announce(account, signedTransaction)
+
+  return Object.assign(result, { timestamp })
+}
@@ -0,0 +1,128 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {ExpectedError} from 'clime';
+import {
+    UInt64,
+    Deadline,
+    AggregateTransaction,
+    NamespaceId,
+    PublicAccount,
+    Mosaic,
+} from 'symbol-sdk';
+
+import { ContractContext } from '../kernel/ContractContext';
+import { ContractResult } from '../kernel/ContractResult';
+import { AssetAmount } from './AssetAmount';
+
+/**
+ * Parameters of the `RequestAsset` contract
+ */
+export interface RequestAssetParameters {
+  /**
+   * Address or public key of the sender of the asset
+   * @var {string}
+   */
+  from: string
+
+  /**
+   * The requested asset
+   * @var {AssetAmount}
+   */
+  asset: AssetAmount
+
+  /**
+   * Asset that is locked (spam protection), defaults
+   * to the locked funds per aggregate of the network
+   * @var {Mosaic}
+   */
+  lock?: Mosaic
+}
+
+/**
+ * Result of the `RequestAsset` contract
+ */
+export type RequestAssetResult = ContractResult & {
+  /**
+   * The sender of the requested asset
+   * @var {PublicAccount}
+   */
+  sender: PublicAccount
+}
+
+/**
+ * Request an asset, the aggregate bonded transaction must be
+ * co-signed by the sender of the asset *within 48 hours*
+ *
+ * The promise resolves once the sender co-signed and
+ * the aggregate transaction is confirmed.
+ *
+ * @param {RequestAssetParameters} parameters
+ * @param {ContractContext}        context
+ * @return {Promise<RequestAssetResult>}
+ */
+export async function requestAsset(
+  parameters: RequestAssetParameters,
+  context: ContractContext,
+): Promise<RequestAssetResult> {
+  const recipient = context.signerAccount
+  if (undefined === recipient) {
+    throw new ExpectedError('The contract \'RequestAsset\' requires a signing account.')
+  }
+
+  // sender account must be known on the network (or given by public key)
+  let sender: PublicAccount
+  try {
+    sender = await context.factory.getPublicAccount(parameters.from)
+  }
+  catch (e) {
+    throw new ExpectedError('The sender account ' + parameters.from + ' is unknown on this network.')
+  }
+
+  // Contract Action #1: create the requested transfer
+  const requestedTransfer = context.factory.getTransferTransaction(
+    recipient.address,
+    new NamespaceId(parameters.asset.mosaic),
+    parameters.asset.amount,
+    'nem2-smart-contracts pull request',
+  )
+
+  // Contract Execution: wrap all transactions in an aggregate
+  const aggregateTx = AggregateTransaction.createBonded(
+    Deadline.create(),
+    [
+      requestedTransfer.toAggregate(sender),
+    ],
+    context.networkType,
+    [],
+  )
+
+  // sign the aggregate transaction with `recipient`
+  const signedTransaction = await context.getSigner(recipient, aggregateTx).sign()
+
+  // create hash lock (spam protected partial transactions pool)
+  const lockFundsTransaction = context.factory.getHashLockTransaction(
+    parameters.lock || new Mosaic(context.network.getCurrency(), UInt64.fromUint(context.network.lockAmount)),
+    context.network.getHashLockDuration(),
+    signedTransaction,
+  )
+
+  // sign hash lock transaction and broadcast
+  const signedLockFundsTx = await context.getSigner(recipient, lockFundsTransaction).sign()
+  const result = await context.broadcaster.announcePartial(recipient, signedLockFundsTx, signedTransaction)
+
+  return Object.assign(result, { sender })
+}
@@ -0,0 +1,199 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { NIP13, NetworkConfig } from 'symbol-token-standards'
+import {
+    Account,
+    Mosaic,
+    UInt64,
+} from 'symbol-sdk';
+import { MnemonicPassPhrase } from 'symbol-hd-wallets'
+import { TransactionURI } from 'symbol-uri-scheme'
+
+import { ContractContext } from '../kernel/ContractContext';
+import { ContractResult } from '../kernel/ContractResult';
+import { TokenParameters } from '../kernel/TokenParameters';
+
+/**
+ * Parameters of the `TransferSecurity` contract
+ */
+export interface TransferSecurityParameters {
+  /**
+   * The BIP39 mnemonic pass phrase of the security token
+   * @var {string}
+   */
+  mnemonic: string
+
+  /**
+   * Address or public key of the sender of the security
+   * @var {string}
+   */
+  sender: string
+
+  /**
+   * The sender partition label
+   * @var {string}
+   */
+  senderPartition: string
+
+  /**
+   * Address or public key of the recipient of the security
+   * @var {string}
+   */
+  recipient: string
+
+  /**
+   * The recipient partition label
+   * @var {string}
+   */
+  recipientPartition: string
+
+  /**
+   * Number of shares to transfer
+   * @var {number}
+   */
+  amount: number
+}
+
+/**
+ * Accounts and contract URI of a security transfer,
+ * accounts are derived from the token mnemonic
+ */
+export interface TransferSecurityDetails {
+  /**
+   * The NIP13 token target account
+   * @var {Account}
+   */
+  target: Account
+
+  /**
+   * The sender partition account
+   * @var {Account}
+   */
+  senderPartition: Account
+
+  /**
+   * The recipient partition account
+   * @var {Account}
+   */
+  recipientPartition: Account
+
+  /**
+   * The BIP39 path of the recipient partition account
+   * @var {string}
+   */
+  recipientPartitionPath: string
+
+  /**
+   * The contract URI of the transfer
+   * @var {TransactionURI}
+   */
+  uri: TransactionURI
+}
+
+/**
+ * Result of the `TransferSecurity` contract
+ */
+export type TransferSecurityResult = ContractResult & TransferSecurityDetails
+
+/**
+ * Transfer shares of a NIP13 security token between partitions,
+ * the transfer is signed by the token operator
+ *
+ * `confirm` is called with the prepared transfer, the transfer
+ * is not executed when it returns false and the promise
+ * resolves with `undefined`.
+ *
+ * @param {TransferSecurityParameters}  parameters
+ * @param {ContractContext}             context
+ * @param {Function}                    confirm
+ * @return {Promise<TransferSecurityResult>}
+ */
+export async function transferSecurity(
+  parameters: TransferSecurityParameters,
+  context: ContractContext,
+  confirm: (details: TransferSecurityDetails) => boolean | Promise<boolean> = () => true,
+): Promise<TransferSecurityResult> {
+  const token = new NIP13.Token(
+    new NetworkConfig(
+      context.endpointUrl,
+      context.networkType,
+      context.generationHash,
+      context.network.getCurrency()
+    ),
+    new MnemonicPassPhrase(parameters.mnemonic),
+  )
+
+  // derive TARGET account
+  const target = token.getTarget()
+
+  // fetch sender and recipient public keys
+  const sender = await context.factory.getPublicAccount(parameters.sender)
+  const recipient = await context.factory.getPublicAccount(parameters.recipient)
+
+  // derive SENDER partition account and operator
+  const senderPartition = sender.address.equals(target.address)
+    ? target
+    : token.getPartition(sender, parameters.senderPartition)
+  const recipientPartition = token.getPartition(recipient, parameters.recipientPartition)
+  const recipientPartitionPath = token.getPathForPartition(recipient, parameters.recipientPartition)
+  const operator = token.getOperator(1)
+
+  const params = TokenParameters.create()
+
+  // transfer shares
+  const uri: TransactionURI = await token.transfer(
+    operator.publicAccount, // actor
+    senderPartition.publicAccount, // sender
+    recipientPartition.publicAccount, // recipient (PARTITION)
+    parameters.amount,
+    params,
+  )
+
+  const details: TransferSecurityDetails = {
+    target,
+    senderPartition,
+    recipientPartition,
+    recipientPartitionPath,
+    uri,
+  }
+
+  if (false === await confirm(details)) {
+    return undefined
+  }
+
+  // NIP13 transfers create 1 aggregate bonded transaction
+  const aggregateTx = uri.toTransaction()
+
+  // sign the aggregate transaction with `operator`
+  const signedTransaction = await context.getSigner(operator, aggregateTx).sign()
+
+  // create hash lock (spam protected partial transactions pool)
+  const lockFundsTransaction = context.factory.getHashLockTransaction(
+    new Mosaic(
+      context.network.getCurrency(),
+      UInt64.fromUint(context.network.lockAmount)
+    ),
+    context.network.getHashLockDuration(),
+    signedTransaction,
+  )
+
+  // sign hash lock transaction and broadcast
+  const signedLockFundsTx = await context.getSigner(operator, lockFundsTransaction).sign()
+  const result = await context.broadcaster.announcePartial(operator.publicAccount, signedLockFundsTx, signedTransaction)
+
+  return Object.assign(result, details)
+}
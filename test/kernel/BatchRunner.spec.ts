@@ -0,0 +1,82 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {expect} from 'chai';
+
+// internal dependencies
+import {BatchRunner} from '../../src/kernel/BatchRunner';
+
+describe('BatchRunner', () => {
+  describe('parseCSV()', () => {
+    it('should name the values of each row after the first line', () => {
+      // act
+      const rows = BatchRunner.parseCSV('recipient, amount\nTAAAA,10\nTBBBB,20\n')
+
+      // assert
+      expect(rows).to.deep.equal([
+        { recipient: 'TAAAA', amount: '10' },
+        { recipient: 'TBBBB', amount: '20' },
+      ])
+    })
+
+    it('should read quoted cells with separators, quotes and line breaks', () => {
+      // act
+      const rows = BatchRunner.parseCSV('recipient,message\n"TAAAA","Hello, ""world"""\nTBBBB,"two\nlines"\n')
+
+      // assert
+      expect(rows).to.deep.equal([
+        { recipient: 'TAAAA', message: 'Hello, "world"' },
+        { recipient: 'TBBBB', message: 'two\nlines' },
+      ])
+    })
+
+    it('should read CRLF line endings', () => {
+      // act
+      const rows = BatchRunner.parseCSV('recipient,amount\r\nTAAAA,10\r\nTBBBB,"20"\r\n')
+
+      // assert
+      expect(rows).to.deep.equal([
+        { recipient: 'TAAAA', amount: '10' },
+        { recipient: 'TBBBB', amount: '20' },
+      ])
+    })
+
+    it('should keep CRLF line endings inside quoted cells', () => {
+      // act
+      const rows = BatchRunner.parseCSV('recipient,message\r\nTAAAA,"two\r\nlines"\r\n')
+
+      // assert
+      expect(rows).to.deep.equal([
+        { recipient: 'TAAAA', message: 'two\r\nlines' },
+      ])
+    })
+
+    it('should skip empty lines and default missing cells', () => {
+      // act
+      const rows = BatchRunner.parseCSV('recipient,amount,message\n\nTAAAA,10\n  \n')
+
+      // assert
+      expect(rows).to.deep.equal([
+        { recipient: 'TAAAA', amount: '10', message: '' },
+      ])
+    })
+
+    it('should return no rows given only a header', () => {
+      expect(BatchRunner.parseCSV('recipient,amount\n')).to.deep.equal([])
+      expect(BatchRunner.parseCSV('')).to.deep.equal([])
+    })
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {expect} from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as Path from 'path';
+import {
+    Account,
+    Deadline,
+    NetworkType,
+    PlainMessage,
+    TransferTransaction,
+    UInt64,
+} from 'symbol-sdk';
+
+// internal dependencies
+import {CommandSigner} from '../../src/kernel/CommandSigner';
+
+describe('CommandSigner', () => {
+  const generationHash = '45870419226A7E51D61D94AD728231EDC6C9B3086EF9255A8421A4F26870456A'
+  const account = Account.generateNewAccount(NetworkType.TEST_NET)
+  const other = Account.generateNewAccount(NetworkType.TEST_NET)
+  const transaction = TransferTransaction.create(
+    Deadline.create(),
+    other.address,
+    [],
+    PlainMessage.create('command signer test'),
+    NetworkType.TEST_NET,
+    UInt64.fromUint(0),
+  )
+
+  // signing scripts read the request from their standard input
+  const directory = fs.mkdtempSync(Path.join(os.tmpdir(), 'command-signer-'))
+  const createScript = (name: string, signer: Account, format: string): string => {
+    const path = Path.join(directory, name + '.js')
+    fs.writeFileSync(path, [
+      'const {Convert, KeyPair} = require(' + JSON.stringify(require.resolve('symbol-sdk')) + ')',
+      'let input = ""',
+      'process.stdin.on("data", (chunk) => input += chunk)',
+      'process.stdin.on("end", () => {',
+      '  const keyPair = KeyPair.createKeyPairFromPrivateKeyString("' + signer.privateKey + '")',
+      '  const signature = Convert.uint8ToHex(KeyPair.sign(keyPair, Convert.hexToUint8(JSON.parse(input).data)))',
+      '  process.stdout.write(' + format + ')',
+      '})',
+    ].join('\n'))
+
+    return '"' + process.execPath + '" "' + path + '"'
+  }
+
+  let timeout: number
+  beforeEach(() => timeout = CommandSigner.TIMEOUT)
+  afterEach(() => CommandSigner.TIMEOUT = timeout)
+  after(() => {
+    fs.readdirSync(directory).forEach((file) => fs.unlinkSync(Path.join(directory, file)))
+    fs.rmdirSync(directory)
+  })
+
+  /**
+   * Get the error message of a rejected signature
+   *
+   * @param {string} command
+   * @return {Promise<string>}
+   */
+  const signError = async (command: string): Promise<string> => {
+    try {
+      await new CommandSigner(command, account.publicAccount, transaction, generationHash).sign()
+    }
+    catch (e) {
+      return e.message
+    }
+
+    throw new Error('Expected the signature to be rejected.')
+  }
+
+  describe('sign()', () => {
+    it('should sign with a hexadecimal signature', async () => {
+      // act
+      const command = createScript('hex', account, 'signature + "\\n"')
+      const signedTransaction = await new CommandSigner(command, account.publicAccount, transaction, generationHash).sign()
+
+      // assert
+      expect(signedTransaction.signerPublicKey).to.equal(account.publicKey)
+      expect(signedTransaction.hash).to.equal(account.sign(transaction, generationHash).hash)
+    })
+
+    it('should sign with a JSON signature', async () => {
+      // act
+      const command = createScript('json', account, 'JSON.stringify({ signature })')
+      const signedTransaction = await new CommandSigner(command, account.publicAccount, transaction, generationHash).sign()
+
+      // assert
+      expect(signedTransaction.hash).to.equal(account.sign(transaction, generationHash).hash)
+    })
+
+    it('should reject signatures of another key', async () => {
+      expect(await signError(createScript('wrong-key', other, 'signature'))).to.contain('invalid signature')
+    })
+
+    it('should reject malformed signatures', async () => {
+      expect(await signError(createScript('malformed', account, '"not a signature"'))).to.contain('invalid signature')
+      expect(await signError(createScript('invalid-json', account, '"{signature"'))).to.contain('invalid response')
+    })
+
+    it('should reject non-zero exit codes', async () => {
+      expect(await signError('echo "key is locked" >&2; exit 3')).to.contain('exit code 3): key is locked')
+    })
+
+    it('should reject commands that do not complete in time', async () => {
+      // arrange
+      CommandSigner.TIMEOUT = 200
+
+      // act
+      const startedAt = Date.now()
+      const message = await signError('exec sleep 5')
+
+      // assert
+      expect(message).to.contain('did not complete within 200ms')
+      expect(Date.now() - startedAt).to.be.below(4000)
+    })
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {expect} from 'chai';
+
+// internal dependencies
+import {CronExpression} from '../../src/kernel/CronExpression';
+
+describe('CronExpression', () => {
+  // Wednesday 1st of January 2020, 10:07 local time
+  const from = new Date(2020, 0, 1, 10, 7)
+
+  /**
+   * Get the `count` next occurrences of `expression` after `from`
+   *
+   * @param {string}  expression
+   * @param {number}  count
+   * @return {Date[]}
+   */
+  const occurrences = (expression: string, count: number): Date[] => {
+    const cron = CronExpression.parse(expression)
+    const dates: Date[] = []
+    let date = from
+    for (let i = 0; i < count; i++) {
+      date = cron.next(date)
+      dates.push(date)
+    }
+
+    return dates
+  }
+
+  describe('parse()', () => {
+    it('should expand step ranges', () => {
+      expect(occurrences('*/15 * * * *', 3)).to.deep.equal([
+        new Date(2020, 0, 1, 10, 15),
+        new Date(2020, 0, 1, 10, 30),
+        new Date(2020, 0, 1, 10, 45),
+      ])
+    })
+
+    it('should expand steps of a range', () => {
+      expect(occurrences('0 8-18/5 * * *', 4)).to.deep.equal([
+        new Date(2020, 0, 1, 13, 0),
+        new Date(2020, 0, 1, 18, 0),
+        new Date(2020, 0, 2, 8, 0),
+        new Date(2020, 0, 2, 13, 0),
+      ])
+    })
+
+    it('should expand steps from a start value to the largest value', () => {
+      expect(occurrences('5/20 * * * *', 3)).to.deep.equal([
+        new Date(2020, 0, 1, 10, 25),
+        new Date(2020, 0, 1, 10, 45),
+        new Date(2020, 0, 1, 11, 5),
+      ])
+    })
+
+    it('should accept 7 as Sunday', () => {
+      expect(occurrences('0 0 * * 7', 2)).to.deep.equal([
+        new Date(2020, 0, 5, 0, 0),
+        new Date(2020, 0, 12, 0, 0),
+      ])
+      expect(occurrences('0 0 * * 7', 2)).to.deep.equal(occurrences('0 0 * * 0', 2))
+    })
+
+    it('should accept ranges ending on Sunday as 7', () => {
+      expect(occurrences('0 0 * * 5-7', 4)).to.deep.equal([
+        new Date(2020, 0, 3, 0, 0),
+        new Date(2020, 0, 4, 0, 0),
+        new Date(2020, 0, 5, 0, 0),
+        new Date(2020, 0, 10, 0, 0),
+      ])
+    })
+
+    it('should throw given a wrong number of fields', () => {
+      expect(() => CronExpression.parse('0 9 * *')).to.throw('must have 5 fields')
+      expect(() => CronExpression.parse('0 0 9 * * *')).to.throw('must have 5 fields')
+    })
+
+    it('should throw given values out of range', () => {
+      expect(() => CronExpression.parse('60 * * * *')).to.throw('must be within 0-59')
+      expect(() => CronExpression.parse('0 0 * * 8')).to.throw('must be within 0-7')
+      expect(() => CronExpression.parse('*/0 * * * *')).to.throw('must be within 0-59')
+    })
+
+    it('should throw given invalid values', () => {
+      expect(() => CronExpression.parse('0 9 * * MON')).to.throw('Invalid day of week')
+    })
+  })
+
+  describe('next()', () => {
+    it('should match either the day of month or the day of week when both are set', () => {
+      // Fridays and the 13th
+      expect(occurrences('0 9 13 * 5', 3)).to.deep.equal([
+        new Date(2020, 0, 3, 9, 0),
+        new Date(2020, 0, 10, 9, 0),
+        new Date(2020, 0, 13, 9, 0),
+      ])
+    })
+
+    it('should match only the day of month when the day of week is *', () => {
+      expect(occurrences('0 9 13 * *', 2)).to.deep.equal([
+        new Date(2020, 0, 13, 9, 0),
+        new Date(2020, 1, 13, 9, 0),
+      ])
+    })
+
+    it('should match only the day of week when the day of month is *', () => {
+      expect(occurrences('0 9 * * 5', 2)).to.deep.equal([
+        new Date(2020, 0, 3, 9, 0),
+        new Date(2020, 0, 10, 9, 0),
+      ])
+    })
+
+    it('should skip to the next month', () => {
+      expect(occurrences('30 6 1 3 *', 2)).to.deep.equal([
+        new Date(2020, 2, 1, 6, 30),
+        new Date(2021, 2, 1, 6, 30),
+      ])
+    })
+
+    it('should start after the given minute', () => {
+      expect(CronExpression.parse('7 10 * * *').next(from)).to.deep.equal(new Date(2020, 0, 2, 10, 7))
+    })
+
+    it('should throw given an expression that never occurs', () => {
+      expect(() => CronExpression.parse('0 0 31 2 *').next(from)).to.throw('never occurs')
+    })
+  })
+})
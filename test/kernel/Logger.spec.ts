@@ -0,0 +1,47 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {expect} from 'chai';
+import {PassThrough} from 'stream';
+
+// internal dependencies
+import {Logger} from '../../src/kernel/Logger';
+
+describe('Logger', () => {
+  describe('create()', () => {
+    it('should write human output to stderr with --output json', () => {
+      expect(Logger.create('json').stream).to.equal(process.stderr)
+    })
+
+    it('should write human output to stdout otherwise', () => {
+      expect(Logger.create('text').stream).to.equal(process.stdout)
+      expect(Logger.create().stream).to.equal(process.stdout)
+    })
+  })
+
+  describe('log()', () => {
+    it('should write formatted lines to its stream', () => {
+      const stream = new PassThrough()
+      const logger = new Logger(stream)
+
+      logger.log('Using node: ', 'http://localhost:3000')
+      logger.log()
+      logger.log('%d rows', 3)
+
+      expect(stream.read().toString()).to.equal('Using node:  http://localhost:3000\n\n3 rows\n')
+    })
+  })
+})
@@ -0,0 +1,64 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {expect} from 'chai';
+
+// internal dependencies
+import {Placeholders} from '../../src/kernel/Placeholders';
+
+describe('Placeholders', () => {
+  describe('get()', () => {
+    it('should list the names of ${...} placeholders', () => {
+      expect(Placeholders.get('token ${steps.create.tokenId}, partition ${ steps.alice.partition.address }'))
+        .to.deep.equal(['steps.create.tokenId', 'steps.alice.partition.address'])
+    })
+
+    it('should ignore other syntaxes and values that are not strings', () => {
+      expect(Placeholders.get('{{steps.create.tokenId}}')).to.deep.equal([])
+      expect(Placeholders.get(1000)).to.deep.equal([])
+    })
+  })
+
+  describe('isValid()', () => {
+    it('should reject malformed placeholders', () => {
+      expect(Placeholders.isValid('${steps.create.token id}')).to.be.false
+      expect(Placeholders.isValid('${steps.create.tokenId')).to.be.false
+      expect(Placeholders.isValid('${}')).to.be.false
+    })
+
+    it('should accept values with well-formed placeholders', () => {
+      expect(Placeholders.isValid('token ${steps.create.tokenId}')).to.be.true
+      expect(Placeholders.isValid('no placeholder')).to.be.true
+      expect(Placeholders.isValid(1000)).to.be.true
+    })
+  })
+
+  describe('interpolate()', () => {
+    const context = { steps: { create: { tokenId: '85BBEA6CC462B244', supply: 1000 } } }
+
+    it('should keep the type of a value that consists of one placeholder', () => {
+      expect(Placeholders.interpolate('${steps.create.supply}', context)).to.equal(1000)
+    })
+
+    it('should replace placeholders inside a value', () => {
+      expect(Placeholders.interpolate('ACME ${steps.create.tokenId}', context)).to.equal('ACME 85BBEA6CC462B244')
+    })
+
+    it('should throw given a placeholder without value', () => {
+      expect(() => Placeholders.interpolate('${steps.alice.partition}', context)).to.throw('has no value')
+    })
+  })
+})
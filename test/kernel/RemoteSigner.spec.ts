@@ -0,0 +1,173 @@
+/**
+ * 
+ * Copyright 2019-present Grégory Saive for NEM (https://nem.io)
+ * 
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {expect} from 'chai';
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import {
+    Account,
+    Convert,
+    Deadline,
+    KeyPair,
+    NetworkType,
+    PlainMessage,
+    TransferTransaction,
+    UInt64,
+} from 'symbol-sdk';
+
+// internal dependencies
+import {RemoteSigner} from '../../src/kernel/RemoteSigner';
+import {SignatureRequest} from '../../src/kernel/TransactionSigner';
+
+describe('RemoteSigner', () => {
+  const generationHash = '45870419226A7E51D61D94AD728231EDC6C9B3086EF9255A8421A4F26870456A'
+  const account = Account.generateNewAccount(NetworkType.TEST_NET)
+  const other = Account.generateNewAccount(NetworkType.TEST_NET)
+  const transaction = TransferTransaction.create(
+    Deadline.create(),
+    other.address,
+    [],
+    PlainMessage.create('remote signer test'),
+    NetworkType.TEST_NET,
+    UInt64.fromUint(0),
+  )
+
+  /**
+   * Sign the data of a request with `signer`
+   *
+   * @param {Account}           signer
+   * @param {SignatureRequest}  request
+   * @return {string}
+   */
+  const signRequest = (signer: Account, request: SignatureRequest): string => Convert.uint8ToHex(KeyPair.sign(
+    KeyPair.createKeyPairFromPrivateKeyString(signer.privateKey),
+    Convert.hexToUint8(request.data),
+  ))
+
+  // the local stand-in signing service, its reply depends on the path
+  const requests: SignatureRequest[] = []
+  let server: http.Server
+  let url: string
+  before((done) => {
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => body += chunk)
+      req.on('end', () => {
+        const request: SignatureRequest = JSON.parse(body)
+        requests.push(request)
+
+        switch (req.url) {
+          case '/good':
+            res.writeHead(200, {'Content-Type': 'application/json'})
+            return res.end(JSON.stringify({ signature: signRequest(account, request) }))
+
+          case '/wrong-key':
+            res.writeHead(200, {'Content-Type': 'application/json'})
+            return res.end(JSON.stringify({ signature: signRequest(other, request) }))
+
+          case '/malformed':
+            res.writeHead(200, {'Content-Type': 'application/json'})
+            return res.end(JSON.stringify({ signature: 'not a signature' }))
+
+          case '/invalid-json':
+            res.writeHead(200, {'Content-Type': 'application/json'})
+            return res.end('signature')
+
+          default:
+            res.writeHead(503)
+            return res.end('unavailable')
+        }
+      })
+    })
+
+    server.listen(0, '127.0.0.1', () => {
+      url = 'http://127.0.0.1:' + (server.address() as AddressInfo).port
+      done()
+    })
+  })
+
+  after((done) => {
+    server.close(() => done())
+  })
+
+  /**
+   * Get the error message of a rejected signature
+   *
+   * @param {string} signerUrl
+   * @return {Promise<string>}
+   */
+  const signError = async (signerUrl: string): Promise<string> => {
+    try {
+      await new RemoteSigner(signerUrl, account.publicAccount, transaction, generationHash).sign()
+    }
+    catch (e) {
+      return e.message
+    }
+
+    throw new Error('Expected the signature to be rejected.')
+  }
+
+  describe('sign()', () => {
+    it('should sign with the signature of the service', async () => {
+      // act
+      const signedTransaction = await new RemoteSigner(url + '/good', account.publicAccount, transaction, generationHash).sign()
+
+      // assert
+      const request = requests[requests.length - 1]
+      expect(request.type).to.equal('transaction')
+      expect(request.publicKey).to.equal(account.publicKey)
+      expect(request.generationHash).to.equal(generationHash)
+      expect(signedTransaction.signerPublicKey).to.equal(account.publicKey)
+      expect(signedTransaction.hash).to.equal(account.sign(transaction, generationHash).hash)
+    })
+
+    it('should reject signatures of another key', async () => {
+      expect(await signError(url + '/wrong-key')).to.contain('invalid signature')
+    })
+
+    it('should reject malformed signatures', async () => {
+      expect(await signError(url + '/malformed')).to.contain('invalid signature')
+      expect(await signError(url + '/invalid-json')).to.contain('invalid response')
+    })
+
+    it('should reject non-200 responses', async () => {
+      expect(await signError(url + '/unavailable')).to.contain('refused to sign (HTTP 503): unavailable')
+    })
+
+    it('should reject unreachable services', async () => {
+      expect(await signError('http://127.0.0.1:1/')).to.contain('could not be reached')
+    })
+  })
+
+  describe('cosignPayload()', () => {
+    it('should co-sign with the signature of the service', async () => {
+      // arrange
+      const payload = other.sign(transaction, generationHash).payload
+
+      // act
+      const cosignature = await new RemoteSigner(url + '/good', account.publicAccount, transaction, generationHash).cosignPayload(payload)
+
+      // assert
+      expect(requests[requests.length - 1].type).to.equal('cosignature')
+      expect(cosignature.signerPublicKey).to.equal(account.publicKey)
+      expect(KeyPair.verify(
+        Convert.hexToUint8(account.publicKey),
+        Convert.hexToUint8(cosignature.parentHash),
+        Convert.hexToUint8(cosignature.signature),
+      )).to.be.true
+    })
+  })
+})